@@ -1,9 +1,7 @@
-import { Wormhole, signSendWait, wormhole } from '@wormhole-foundation/sdk';
+import { Wormhole, wormhole } from '@wormhole-foundation/sdk';
 import evm from '@wormhole-foundation/sdk/evm';
 import solana from '@wormhole-foundation/sdk/solana';
-import sui from '@wormhole-foundation/sdk/sui';
-import { inspect } from 'util';
-import { getSigner } from './helpers';
+import { advanceJob, isPending, loadJobs, startAttestation } from './transfer-state';
 
 (async function () {
   const wh = await wormhole('Mainnet', [evm, solana]);
@@ -12,12 +10,9 @@ import { getSigner } from './helpers';
   const srcChain = wh.getChain('Solana');
   const destChain = wh.getChain('Base');
   //const token = await srcChain.getNativeWrappedTokenId();
-  const token = Wormhole.tokenId('Solana', lakshichitfund_address);   
+  const token = Wormhole.tokenId('Solana', lakshichitfund_address);
   console.log("Token: ", token)
-  const gasLimit = BigInt(2_500_000);
 
-  // Destination chain signer setup
-  const { signer: destSigner } = await getSigner(destChain, gasLimit);
   const tbDest = await destChain.getTokenBridge();
 
   try {
@@ -32,75 +27,28 @@ import { getSigner } from './helpers';
     );
   }
 
-  // Source chain signer setup
-  const { signer: origSigner } = await getSigner(srcChain);
-
-  // Create an attestation transaction on the source chain
-  const tbOrig = await srcChain.getTokenBridge();
-  const attestTxns = tbOrig.createAttestation(
-    token.address,
-    Wormhole.parseAddress(origSigner.chain(), origSigner.address())
+  // Pick up an attestation an earlier run left behind instead of creating another
+  const pending = loadJobs().find(
+    (job) =>
+      job.kind === 'attestation' &&
+      isPending(job) &&
+      job.srcChain === srcChain.chain &&
+      job.dstChain === destChain.chain &&
+      job.token === lakshichitfund_address
   );
+  if (pending) {
+    console.log(`Resuming attestation ${pending.id} from step "${pending.step}"`);
+  }
+  const job = pending ?? await startAttestation(wh, srcChain.chain, destChain.chain, lakshichitfund_address);
 
-  const txids = await signSendWait(srcChain, attestTxns, origSigner);
-  console.log('txids: ', inspect(txids, { depth: null }));
-  const txid = txids[0]!.txid;
-  console.log('Created attestation (save this): ', txid);
-
-  // Retrieve the Wormhole message ID from the attestation transaction
-  const msgs = await srcChain.parseTransaction(txid);
-  console.log('Parsed Messages:', msgs);
-
+  // Every step is saved to transfer-state.json; if this stops, run `npx tsx src/transfers.ts resume ${job.id}`
   const timeout = 25 * 60 * 1000;
-  const vaa = await wh.getVaa(msgs[0]!, 'TokenBridge:AttestMeta', timeout);
-  if (!vaa) {
+  const result = await advanceJob(wh, job, timeout);
+  if (result.step !== 'completed') {
     throw new Error(
-      'VAA not found after retries exhausted. Try extending the timeout.'
+      `Attestation ${result.id} stopped at "${result.step}". Resume it with: npx tsx src/transfers.ts resume ${result.id}`
     );
   }
 
-  console.log('Token Address: ', vaa.payload.token.address);
-
-  // Submit the attestation on the destination chain
-  console.log('Attesting asset on destination chain...');
-  console.log('VAA details:', {
-    sequence: vaa.sequence,
-    emitterChain: vaa.emitterChain,
-    emitterAddress: vaa.emitterAddress,
-    payload: vaa.payload,
-  });
-
-  const subAttestation = tbDest.submitAttestation(
-    vaa,
-    Wormhole.parseAddress(destSigner.chain(), destSigner.address())
-  );
-
-  console.log('SubAttestation:', inspect(subAttestation, { depth: null }));
-
-  try {
-    const tsx = await signSendWait(destChain, subAttestation, destSigner);
-    console.log('Transaction hash: ', tsx);
-  } catch (error: any) {
-    console.error('Transaction failed:', error);
-    if (error.receipt) {
-      console.error('Transaction receipt:', inspect(error.receipt, { depth: null }));
-    }
-    throw error;
-  }
-
-  // Poll for the wrapped asset until it's available
-  async function waitForIt() {
-    do {
-      try {
-        const wrapped = await tbDest.getWrappedAsset(token);
-        return { chain: destChain.chain, address: wrapped };
-      } catch (e) {
-        console.error('Wrapped asset not found yet. Retrying...');
-      }
-      console.log('Waiting before checking again...');
-      await new Promise((r) => setTimeout(r, 2000));
-    } while (true);
-  }
-
-  console.log('Wrapped Asset: ', await waitForIt());
-})().catch((e) => console.error(e));
\ No newline at end of file
+  console.log('Wrapped Asset: ', { chain: destChain.chain, address: result.wrappedAsset });
+})().catch((e) => console.error(e));
@@ -1,106 +1,23 @@
 import { Contract, JsonRpcProvider, Wallet, formatEther, formatUnits, ZeroAddress } from 'ethers';
-import { config } from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import fs from 'fs';
+import {
+  ERC20_ABI,
+  UNISWAP_FACTORY_ABI,
+  UNISWAP_PAIR_ABI,
+  UNISWAP_ROUTER_ABI,
+  UNISWAP_ROUTERS,
+  DeploymentState,
+  getEnvVar,
+  getEnvVarOptional,
+  loadDeploymentState,
+  normalizeHexPrivateKey,
+  saveDeploymentState,
+} from './uniswap-v2';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-config({ path: path.resolve(__dirname, '..', '.env') });
-
-// Network-specific Uniswap V2 Router addresses
-const UNISWAP_ROUTERS: Record<string, string> = {
-  mainnet: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
-  base: '0x4752ba5dbc23f44d87826276bf6fd6b1c372ad24',
-  sepolia: '0xeE567Fe1712Faf6149d80dA1E6934E354124CfE3',
-};
-
-// ERC20 ABI (minimal for balance, approve, decimals)
-const ERC20_ABI = [
-  'function balanceOf(address) external view returns (uint256)',
-  'function approve(address, uint256) external returns (bool)',
-  'function decimals() external view returns (uint8)',
-  'function symbol() external view returns (string)',
-  'function name() external view returns (string)',
-] as const;
-
-// Uniswap V2 Router ABI (minimal for addLiquidity)
-const UNISWAP_ROUTER_ABI = [
-  'function factory() external pure returns (address)',
-  'function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) external returns (uint256 amountA, uint256 amountB, uint256 liquidity)',
-] as const;
-
-// Uniswap V2 Factory ABI
-const UNISWAP_FACTORY_ABI = [
-  'function getPair(address, address) external view returns (address)',
-  'function createPair(address, address) external returns (address)',
-] as const;
-
-// Uniswap V2 Pair ABI
-const UNISWAP_PAIR_ABI = [
-  'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
-  'function token0() external view returns (address)',
-  'function token1() external view returns (address)',
-] as const;
-
-function normalizeHexPrivateKey(envName: string): string {
-  const raw = process.env[envName]?.trim();
-  if (!raw) {
-    throw new Error(`Missing required environment variable: ${envName}`);
-  }
-
-  const candidate = raw.startsWith('0x') ? raw.slice(2) : raw;
-  if (!/^[0-9a-fA-F]{64}$/.test(candidate)) {
-    throw new Error(
-      `Invalid ${envName}. Expected 32-byte hex string (64 hex chars), with optional 0x prefix.`
-    );
-  }
-
-  return `0x${candidate}`;
-}
-
-function getEnvVar(envName: string): string {
-  const value = process.env[envName]?.trim();
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${envName}`);
-  }
-  return value;
-}
-
-function getEnvVarOptional(envName: string, defaultValue: string): string {
-  return process.env[envName]?.trim() || defaultValue;
-}
-
-interface DeploymentState {
-  ceoToken?: string;
-  usdc?: string;
-  configuration?: {
-    admin?: string;
-  };
-  uniswapPool?: {
-    pairAddress: string;
-    ceoAmount: string;
-    usdcAmount: string;
-    targetPrice: string;
-    deployedAt: string;
-    transactionHash: string;
-    blockNumber: number;
-  };
-  lastUpdate?: string;
-}
-
-async function loadDeploymentState(stateFilePath: string): Promise<DeploymentState> {
-  if (!fs.existsSync(stateFilePath)) {
-    throw new Error('Deployment state not found. Run previous steps first!');
-  }
-  return JSON.parse(fs.readFileSync(stateFilePath, 'utf8'));
-}
-
-function saveDeploymentState(stateFilePath: string, state: DeploymentState): void {
-  fs.writeFileSync(stateFilePath, JSON.stringify(state, null, 2));
-}
-
 (async function () {
   console.log('\n=== Deploy CEO/USDC Uniswap V2 Pool ===\n');
 
@@ -207,6 +124,7 @@ function saveDeploymentState(stateFilePath: string, state: DeploymentState): voi
 
   console.log('\n--- Liquidity Pool Parameters ---');
   console.log('Target Price: 1 CEO = 0.000001 USDC');
+  console.log('(To seed at the live Pump.fun price instead: npx tsx src/liquidity.ts seed --pumpfun <mint> --depth-usd <usd> --dry-run)');
   console.log('CEO Amount (50% of balance):', formatUnits(ceoLiquidityAmount, ceoDecimals), 'CEO');
   console.log('USDC Amount (calculated):', formatUnits(usdcLiquidityAmount, usdcDecimals), 'USDC');
 
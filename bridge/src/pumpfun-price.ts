@@ -0,0 +1,86 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getEnvVarOptional } from './uniswap-v2';
+
+const PUMP_FUN_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+
+// Pump.fun mints 6-decimal tokens; reserves are in lamports and raw token units
+const PUMP_FUN_TOKEN_DECIMALS = 6;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Pyth SOL/USD feed, read through the public Hermes API (no key needed)
+const PYTH_HERMES_URL = 'https://hermes.pyth.network/v2/updates/price/latest';
+const PYTH_SOL_USD_FEED_ID = '0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d';
+const MAX_SOL_PRICE_AGE_SECONDS = 120;
+
+export interface BondingCurve {
+  virtualTokenReserves: bigint;
+  virtualSolReserves: bigint;
+  realTokenReserves: bigint;
+  realSolReserves: bigint;
+  tokenTotalSupply: bigint;
+  complete: boolean;
+}
+
+export function createSolanaConnection(): Connection {
+  return new Connection(getEnvVarOptional('SOLANA_RPC_HTTP_URL', 'https://api.mainnet-beta.solana.com'), 'confirmed');
+}
+
+/**
+ * Read a mint's bonding curve account (8-byte discriminator, five u64s, a bool)
+ */
+export async function fetchBondingCurve(connection: Connection, mint: string): Promise<BondingCurve> {
+  const [curveAddress] = PublicKey.findProgramAddressSync(
+    [Buffer.from('bonding-curve'), new PublicKey(mint).toBuffer()],
+    PUMP_FUN_PROGRAM_ID
+  );
+  const account = await connection.getAccountInfo(curveAddress);
+  if (!account) {
+    throw new Error(`No Pump.fun bonding curve for ${mint}`);
+  }
+
+  const data = account.data;
+  return {
+    virtualTokenReserves: data.readBigUInt64LE(8),
+    virtualSolReserves: data.readBigUInt64LE(16),
+    realTokenReserves: data.readBigUInt64LE(24),
+    realSolReserves: data.readBigUInt64LE(32),
+    tokenTotalSupply: data.readBigUInt64LE(40),
+    complete: data.readUInt8(48) === 1,
+  };
+}
+
+/**
+ * Spot price in SOL per token. A graduated curve no longer trades, so its price is stale.
+ */
+export function getBondingCurvePriceInSol(curve: BondingCurve): number {
+  if (curve.complete) {
+    throw new Error('Bonding curve is complete (token graduated to PumpSwap); pass the price explicitly');
+  }
+  const sol = Number(curve.virtualSolReserves) / LAMPORTS_PER_SOL;
+  const tokens = Number(curve.virtualTokenReserves) / 10 ** PUMP_FUN_TOKEN_DECIMALS;
+  return sol / tokens;
+}
+
+/**
+ * SOL/USD from Pyth. Throws if the latest update is older than MAX_SOL_PRICE_AGE_SECONDS.
+ */
+export async function fetchSolUsdPrice(): Promise<number> {
+  const response = await fetch(`${PYTH_HERMES_URL}?ids[]=${PYTH_SOL_USD_FEED_ID}`);
+  if (!response.ok) {
+    throw new Error(`Pyth Hermes returned ${response.status}; pass --sol-usd instead`);
+  }
+
+  const body = await response.json() as {
+    parsed: { price: { price: string; expo: number; publish_time: number } }[];
+  };
+  const quote = body.parsed[0]?.price;
+  if (!quote) {
+    throw new Error('Pyth Hermes returned no SOL/USD price; pass --sol-usd instead');
+  }
+
+  const age = Math.floor(Date.now() / 1000) - quote.publish_time;
+  if (age > MAX_SOL_PRICE_AGE_SECONDS) {
+    throw new Error(`Pyth SOL/USD price is ${age}s old; pass --sol-usd instead`);
+  }
+  return Number(quote.price) * 10 ** quote.expo;
+}
@@ -0,0 +1,278 @@
+import {
+  Chain,
+  ChainContext,
+  Network,
+  UniversalAddress,
+  Wormhole,
+  WormholeMessageId,
+  deserialize,
+  encoding,
+  serialize,
+  signSendWait,
+} from '@wormhole-foundation/sdk';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs';
+import { getSigner } from './helpers';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const TRANSFER_STATE_FILE = path.join(__dirname, '..', 'transfer-state.json');
+
+// Gas limit for destination-chain redeems and attestation submits on EVM
+const EVM_REDEEM_GAS_LIMIT = BigInt(2_500_000);
+
+/**
+ * A token bridge transfer or a token attestation, saved after every step:
+ *
+ *   created → sent → emitted → signed → redeemed → completed
+ *
+ * `created` is written before the source transaction is signed. A job left
+ * there may or may not have landed, so it is never re-sent automatically:
+ * attach the source txid with `resume <id> --txid <hash>`.
+ */
+export type BridgeJobKind = 'transfer' | 'attestation';
+
+export type BridgeJobStep = 'created' | 'sent' | 'emitted' | 'signed' | 'redeemed' | 'completed';
+
+export interface BridgeJob {
+  id: string;
+  kind: BridgeJobKind;
+  step: BridgeJobStep;
+  srcChain: Chain;
+  dstChain: Chain;
+  token: string; // Source token address, or 'native'
+  amount?: string; // Raw source units (transfers)
+  recipient?: string; // Destination address (transfers)
+  sourceTxid?: string;
+  message?: {
+    chain: Chain;
+    emitter: string; // Universal address, hex
+    sequence: string;
+  };
+  vaa?: string; // Signed VAA, serialized hex
+  redeemTxid?: string;
+  wrappedAsset?: string; // Token address on dstChain (attestations)
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface TransferState {
+  jobs: BridgeJob[];
+  lastUpdate?: string;
+}
+
+export function loadJobs(stateFilePath: string = TRANSFER_STATE_FILE): BridgeJob[] {
+  if (!fs.existsSync(stateFilePath)) {
+    return [];
+  }
+  const state: TransferState = JSON.parse(fs.readFileSync(stateFilePath, 'utf8'));
+  return state.jobs;
+}
+
+/**
+ * Insert or replace a job by id and write the whole file
+ */
+export function saveJob(job: BridgeJob, stateFilePath: string = TRANSFER_STATE_FILE): void {
+  job.updatedAt = new Date().toISOString();
+  const jobs = loadJobs(stateFilePath).filter((j) => j.id !== job.id);
+  jobs.push(job);
+  const state: TransferState = { jobs, lastUpdate: job.updatedAt };
+  fs.writeFileSync(stateFilePath, JSON.stringify(state, null, 2));
+}
+
+export function isPending(job: BridgeJob): boolean {
+  return job.step !== 'completed';
+}
+
+function createJob(
+  kind: BridgeJobKind,
+  srcChain: Chain,
+  dstChain: Chain,
+  token: string
+): BridgeJob {
+  const now = new Date().toISOString();
+  return {
+    id: `${kind}-${Date.now()}`,
+    kind,
+    step: 'created',
+    srcChain,
+    dstChain,
+    token,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Send a token bridge transfer of `amount` raw units to our own wallet on dstChain.
+ * The job is saved before signing and again with the source txid.
+ */
+export async function startTransfer<N extends Network>(
+  wh: Wormhole<N>,
+  srcChain: Chain,
+  dstChain: Chain,
+  token: string,
+  amount: bigint
+): Promise<BridgeJob> {
+  const src = wh.getChain(srcChain);
+  const { address: sender, signer } = await getSigner(src);
+  const { address: recipient } = await getSigner(wh.getChain(dstChain));
+
+  const job = createJob('transfer', srcChain, dstChain, token);
+  job.amount = amount.toString();
+  job.recipient = recipient.address.toString();
+  saveJob(job);
+
+  const tb = await src.getTokenBridge();
+  const tokenAddress = token === 'native' ? 'native' : Wormhole.parseAddress(srcChain, token);
+  const txns = tb.transfer(sender.address, recipient, tokenAddress, amount);
+  const txids = await signSendWait(src, txns, signer);
+
+  // Wrapping or approvals come first; the transfer is last
+  job.sourceTxid = txids[txids.length - 1]!.txid;
+  job.step = 'sent';
+  saveJob(job);
+  console.log(`✅ Transfer sent (${job.id}): ${job.sourceTxid}`);
+  return job;
+}
+
+/**
+ * Attest a source-chain token so the token bridge can create its wrapped asset on dstChain
+ */
+export async function startAttestation<N extends Network>(
+  wh: Wormhole<N>,
+  srcChain: Chain,
+  dstChain: Chain,
+  token: string
+): Promise<BridgeJob> {
+  const src = wh.getChain(srcChain);
+  const { address: payer, signer } = await getSigner(src);
+
+  const job = createJob('attestation', srcChain, dstChain, token);
+  saveJob(job);
+
+  const tb = await src.getTokenBridge();
+  const txns = tb.createAttestation(Wormhole.parseAddress(srcChain, token), payer.address);
+  const txids = await signSendWait(src, txns, signer);
+
+  job.sourceTxid = txids[0]!.txid;
+  job.step = 'sent';
+  saveJob(job);
+  console.log(`✅ Attestation created (${job.id}): ${job.sourceTxid}`);
+  return job;
+}
+
+/**
+ * Run a job's remaining steps, saving after each one. Stops early (without
+ * error) while the guardians haven't signed the VAA within `vaaTimeoutMs` or
+ * the destination doesn't show the result yet; resume it later. A failed step
+ * is recorded on the job and rethrown.
+ */
+export async function advanceJob<N extends Network>(
+  wh: Wormhole<N>,
+  job: BridgeJob,
+  vaaTimeoutMs: number
+): Promise<BridgeJob> {
+  const src = wh.getChain(job.srcChain);
+  const dst = wh.getChain(job.dstChain);
+
+  try {
+    if (job.step === 'created') {
+      console.log(`⚠️  ${job.id} has no source transaction on record. Check ${job.srcChain} and attach it with --txid.`);
+      return job;
+    }
+
+    if (job.step === 'sent') {
+      const [message] = await src.parseTransaction(job.sourceTxid!);
+      if (!message) {
+        throw new Error(`No Wormhole message in ${job.sourceTxid}`);
+      }
+      job.message = {
+        chain: message.chain,
+        emitter: message.emitter.toString(),
+        sequence: message.sequence.toString(),
+      };
+      job.step = 'emitted';
+      saveJob(job);
+      console.log(`📨 ${job.id}: message ${job.message.chain}/${job.message.emitter}/${job.message.sequence}`);
+    }
+
+    if (job.step === 'emitted') {
+      const id: WormholeMessageId = {
+        chain: job.message!.chain,
+        emitter: new UniversalAddress(job.message!.emitter),
+        sequence: BigInt(job.message!.sequence),
+      };
+      console.log(`⏳ ${job.id}: waiting up to ${Math.round(vaaTimeoutMs / 1000)}s for the signed VAA...`);
+      const vaa = job.kind === 'transfer'
+        ? await wh.getVaa(id, 'TokenBridge:Transfer', vaaTimeoutMs)
+        : await wh.getVaa(id, 'TokenBridge:AttestMeta', vaaTimeoutMs);
+      if (!vaa) {
+        console.log(`   Not signed yet. Resume ${job.id} later.`);
+        return job;
+      }
+      job.vaa = encoding.hex.encode(serialize(vaa));
+      job.step = 'signed';
+      saveJob(job);
+      console.log(`✍️  ${job.id}: VAA signed`);
+    }
+
+    if (job.step === 'signed') {
+      if (await isDone(dst, job)) {
+        console.log(`   ${job.id} was already redeemed on ${job.dstChain}`);
+      } else {
+        job.redeemTxid = await redeem(dst, job);
+        console.log(`✅ ${job.id}: redeemed on ${job.dstChain}: ${job.redeemTxid}`);
+      }
+      job.step = 'redeemed';
+      saveJob(job);
+    }
+
+    if (job.step === 'redeemed') {
+      if (!await isDone(dst, job)) {
+        console.log(`   ${job.dstChain} doesn't show ${job.id} as complete yet. Resume it later.`);
+        return job;
+      }
+      job.step = 'completed';
+      job.error = undefined;
+      saveJob(job);
+      console.log(`🎉 ${job.id} completed${job.wrappedAsset ? `. Wrapped asset: ${job.wrappedAsset}` : ''}`);
+    }
+  } catch (error: any) {
+    job.error = error.message;
+    saveJob(job);
+    throw error;
+  }
+
+  return job;
+}
+
+/**
+ * Whether the destination already has the transfer redeemed or the wrapped asset created
+ */
+async function isDone<N extends Network>(dst: ChainContext<N>, job: BridgeJob): Promise<boolean> {
+  const tb = await dst.getTokenBridge();
+  if (job.kind === 'transfer') {
+    return tb.isTransferCompleted(deserialize('TokenBridge:Transfer', encoding.hex.decode(job.vaa!)));
+  }
+  try {
+    const wrapped = await tb.getWrappedAsset(Wormhole.tokenId(job.srcChain, job.token));
+    job.wrappedAsset = wrapped.toString();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function redeem<N extends Network>(dst: ChainContext<N>, job: BridgeJob): Promise<string> {
+  const { address, signer } = await getSigner(dst, EVM_REDEEM_GAS_LIMIT);
+  const tb = await dst.getTokenBridge();
+  const txns = job.kind === 'transfer'
+    ? tb.redeem(address.address, deserialize('TokenBridge:Transfer', encoding.hex.decode(job.vaa!)))
+    : tb.submitAttestation(deserialize('TokenBridge:AttestMeta', encoding.hex.decode(job.vaa!)), address.address);
+  const txids = await signSendWait(dst, txns, signer);
+  return txids[txids.length - 1]!.txid;
+}
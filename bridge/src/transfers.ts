@@ -0,0 +1,132 @@
+import { Wormhole, amount, isChain, wormhole, Chain } from '@wormhole-foundation/sdk';
+import evm from '@wormhole-foundation/sdk/evm';
+import solana from '@wormhole-foundation/sdk/solana';
+import { getTokenDecimals } from './helpers';
+import {
+  BridgeJob,
+  advanceJob,
+  isPending,
+  loadJobs,
+  saveJob,
+  startAttestation,
+  startTransfer,
+} from './transfer-state';
+
+// `resume` checks for the VAA briefly; `redeem` waits as long as create-wrapped always has
+const RESUME_VAA_TIMEOUT_MS = 60 * 1000;
+const REDEEM_VAA_TIMEOUT_MS = 25 * 60 * 1000;
+
+const USAGE = `Usage:
+  npx tsx src/transfers.ts list [--all]
+  npx tsx src/transfers.ts transfer <srcChain> <dstChain> <token|native> <amount>
+  npx tsx src/transfers.ts attest <srcChain> <dstChain> <token>
+  npx tsx src/transfers.ts resume [id] [--txid <hash>]
+  npx tsx src/transfers.ts redeem <id>`;
+
+function parseChain(value: string | undefined): Chain {
+  if (!value || !isChain(value)) {
+    throw new Error(`Unknown chain: ${value} (expected e.g. Solana or Base)\n\n${USAGE}`);
+  }
+  return value;
+}
+
+function findJob(id: string | undefined): BridgeJob {
+  const job = loadJobs().find((j) => j.id === id);
+  if (!job) {
+    throw new Error(`No transfer with id ${id}. Run "list --all" to see them.`);
+  }
+  return job;
+}
+
+function printJob(job: BridgeJob): void {
+  const what = job.kind === 'transfer' ? `${job.amount} of ${job.token}` : job.token;
+  console.log(`${job.id}  ${job.step.padEnd(9)}  ${job.kind} ${what}  ${job.srcChain} → ${job.dstChain}`);
+  if (job.sourceTxid) console.log(`   Source tx: ${job.sourceTxid}`);
+  if (job.message) console.log(`   Message: ${job.message.chain}/${job.message.emitter}/${job.message.sequence}`);
+  if (job.redeemTxid) console.log(`   Redeem tx: ${job.redeemTxid}`);
+  if (job.wrappedAsset) console.log(`   Wrapped asset: ${job.wrappedAsset}`);
+  if (job.error) console.log(`   Last error: ${job.error}`);
+  console.log(`   Updated: ${job.updatedAt}`);
+}
+
+(async function () {
+  const [command, ...args] = process.argv.slice(2);
+  const wh = await wormhole('Mainnet', [evm, solana]);
+
+  switch (command) {
+    case 'list': {
+      const jobs = args.includes('--all') ? loadJobs() : loadJobs().filter(isPending);
+      if (jobs.length === 0) {
+        console.log('No pending transfers.');
+      }
+      jobs.forEach(printJob);
+      break;
+    }
+
+    case 'transfer': {
+      const srcChain = parseChain(args[0]);
+      const dstChain = parseChain(args[1]);
+      const token = args[2];
+      if (!token || !args[3]) {
+        throw new Error(USAGE);
+      }
+      const src = wh.getChain(srcChain);
+      const decimals = await getTokenDecimals(wh, Wormhole.tokenId(srcChain, token), src);
+      const job = await startTransfer(wh, srcChain, dstChain, token, amount.units(amount.parse(args[3], decimals)));
+      await advanceJob(wh, job, RESUME_VAA_TIMEOUT_MS);
+      break;
+    }
+
+    case 'attest': {
+      const srcChain = parseChain(args[0]);
+      const dstChain = parseChain(args[1]);
+      if (!args[2]) {
+        throw new Error(USAGE);
+      }
+      const job = await startAttestation(wh, srcChain, dstChain, args[2]);
+      await advanceJob(wh, job, RESUME_VAA_TIMEOUT_MS);
+      break;
+    }
+
+    case 'resume': {
+      const txidIndex = args.indexOf('--txid');
+      const id = args.find((arg, i) => !arg.startsWith('--') && (txidIndex < 0 || i !== txidIndex + 1));
+
+      if (txidIndex >= 0) {
+        const job = findJob(id);
+        if (job.step !== 'created') {
+          throw new Error(`${job.id} already has source tx ${job.sourceTxid}`);
+        }
+        job.sourceTxid = args[txidIndex + 1];
+        job.step = 'sent';
+        saveJob(job);
+      }
+
+      const jobs = id ? [findJob(id)] : loadJobs().filter(isPending);
+      for (const job of jobs) {
+        try {
+          await advanceJob(wh, job, RESUME_VAA_TIMEOUT_MS);
+        } catch (error: any) {
+          console.error(`❌ ${job.id} failed at ${job.step}:`, error.message);
+        }
+      }
+      break;
+    }
+
+    case 'redeem': {
+      const job = findJob(args[0]);
+      if (job.step === 'completed') {
+        console.log(`${job.id} is already completed.`);
+        break;
+      }
+      await advanceJob(wh, job, REDEEM_VAA_TIMEOUT_MS);
+      break;
+    }
+
+    default:
+      console.log(USAGE);
+  }
+})().catch((e) => {
+  console.error('❌', e.message ?? e);
+  process.exit(1);
+});
@@ -0,0 +1,228 @@
+import { Contract, JsonRpcProvider, Wallet, formatUnits, parseUnits } from 'ethers';
+import { config } from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+config({ path: path.resolve(__dirname, '..', '.env') });
+
+export const DEPLOYMENT_STATE_FILE = path.join(__dirname, '..', 'deployment-state.json');
+
+// Network-specific Uniswap V2 Router addresses
+export const UNISWAP_ROUTERS: Record<string, string> = {
+  mainnet: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+  base: '0x4752ba5dbc23f44d87826276bf6fd6b1c372ad24',
+  sepolia: '0xeE567Fe1712Faf6149d80dA1E6934E354124CfE3',
+};
+
+// LP tokens a V2 pair locks forever on the first deposit
+export const MINIMUM_LIQUIDITY = 1000n;
+
+// ERC20 ABI (minimal for balance, approve, allowance, decimals)
+export const ERC20_ABI = [
+  'function balanceOf(address) external view returns (uint256)',
+  'function approve(address, uint256) external returns (bool)',
+  'function allowance(address, address) external view returns (uint256)',
+  'function decimals() external view returns (uint8)',
+  'function symbol() external view returns (string)',
+  'function name() external view returns (string)',
+] as const;
+
+// Uniswap V2 Router ABI (minimal for adding and removing liquidity)
+export const UNISWAP_ROUTER_ABI = [
+  'function factory() external pure returns (address)',
+  'function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) external returns (uint256 amountA, uint256 amountB, uint256 liquidity)',
+  'function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline) external returns (uint256 amountA, uint256 amountB)',
+] as const;
+
+// Uniswap V2 Factory ABI
+export const UNISWAP_FACTORY_ABI = [
+  'function getPair(address, address) external view returns (address)',
+  'function createPair(address, address) external returns (address)',
+] as const;
+
+// Uniswap V2 Pair ABI (the pair is also the LP token)
+export const UNISWAP_PAIR_ABI = [
+  'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+  'function totalSupply() external view returns (uint256)',
+  'function balanceOf(address) external view returns (uint256)',
+  'function approve(address, uint256) external returns (bool)',
+] as const;
+
+export function normalizeHexPrivateKey(envName: string): string {
+  const raw = process.env[envName]?.trim();
+  if (!raw) {
+    throw new Error(`Missing required environment variable: ${envName}`);
+  }
+
+  const candidate = raw.startsWith('0x') ? raw.slice(2) : raw;
+  if (!/^[0-9a-fA-F]{64}$/.test(candidate)) {
+    throw new Error(
+      `Invalid ${envName}. Expected 32-byte hex string (64 hex chars), with optional 0x prefix.`
+    );
+  }
+
+  return `0x${candidate}`;
+}
+
+export function getEnvVar(envName: string): string {
+  const value = process.env[envName]?.trim();
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${envName}`);
+  }
+  return value;
+}
+
+export function getEnvVarOptional(envName: string, defaultValue: string): string {
+  return process.env[envName]?.trim() || defaultValue;
+}
+
+export interface DeploymentState {
+  ceoToken?: string;
+  usdc?: string;
+  configuration?: {
+    admin?: string;
+  };
+  uniswapPool?: {
+    pairAddress: string;
+    ceoAmount: string;
+    usdcAmount: string;
+    targetPrice: string;
+    deployedAt: string;
+    transactionHash: string;
+    blockNumber: number;
+    // The admin's LP tokens and what was put in for them, scaled down on removals (raw units)
+    position?: {
+      liquidity: string;
+      ceoDeposited: string;
+      usdcDeposited: string;
+    };
+  };
+  lastUpdate?: string;
+}
+
+export async function loadDeploymentState(stateFilePath: string): Promise<DeploymentState> {
+  if (!fs.existsSync(stateFilePath)) {
+    throw new Error('Deployment state not found. Run previous steps first!');
+  }
+  return JSON.parse(fs.readFileSync(stateFilePath, 'utf8'));
+}
+
+export function saveDeploymentState(stateFilePath: string, state: DeploymentState): void {
+  fs.writeFileSync(stateFilePath, JSON.stringify(state, null, 2));
+}
+
+/**
+ * Router for the network the Base RPC URL points at
+ */
+export function getRouterAddress(): string {
+  const network = getEnvVarOptional('BASE_RPC_HTTP_URL', '');
+  const networkName = network.includes('base') ? 'base' : 'mainnet';
+  const routerAddress = UNISWAP_ROUTERS[networkName];
+  if (!routerAddress) {
+    throw new Error(`No Uniswap V2 router configured for network: ${networkName}`);
+  }
+  return routerAddress;
+}
+
+export function createProvider(): JsonRpcProvider {
+  return new JsonRpcProvider(getEnvVar('BASE_RPC_HTTP_URL'));
+}
+
+export function createWallet(provider: JsonRpcProvider): Wallet {
+  return new Wallet(normalizeHexPrivateKey('EVM_PRIVATE_KEY'), provider);
+}
+
+export interface PoolSnapshot {
+  pairAddress: string;
+  ceoReserve: bigint;
+  usdcReserve: bigint;
+  totalSupply: bigint;
+  ceoDecimals: number;
+  usdcDecimals: number;
+}
+
+/**
+ * Pair address, reserves in CEO/USDC order and LP supply. The pair address is
+ * the zero address (and everything else 0) if the factory has no pair yet.
+ */
+export async function readPool(
+  provider: JsonRpcProvider,
+  factoryAddress: string,
+  ceoTokenAddress: string,
+  usdcAddress: string
+): Promise<PoolSnapshot> {
+  const factory = new Contract(factoryAddress, UNISWAP_FACTORY_ABI, provider);
+  const pairAddress: string = await factory.getPair(ceoTokenAddress, usdcAddress);
+  const ceoDecimals = Number(await new Contract(ceoTokenAddress, ERC20_ABI, provider).decimals());
+  const usdcDecimals = Number(await new Contract(usdcAddress, ERC20_ABI, provider).decimals());
+
+  if (BigInt(pairAddress) === 0n) {
+    return { pairAddress, ceoReserve: 0n, usdcReserve: 0n, totalSupply: 0n, ceoDecimals, usdcDecimals };
+  }
+
+  const pair = new Contract(pairAddress, UNISWAP_PAIR_ABI, provider);
+  const token0: string = await pair.token0();
+  const reserves = await pair.getReserves();
+  const isCEOToken0 = token0.toLowerCase() === ceoTokenAddress.toLowerCase();
+
+  return {
+    pairAddress,
+    ceoReserve: isCEOToken0 ? reserves[0] : reserves[1],
+    usdcReserve: isCEOToken0 ? reserves[1] : reserves[0],
+    totalSupply: await pair.totalSupply(),
+    ceoDecimals,
+    usdcDecimals,
+  };
+}
+
+/**
+ * Pool price in USDC per CEO, or null if the pool is empty
+ */
+export function getPoolPrice(pool: PoolSnapshot): number | null {
+  if (pool.ceoReserve === 0n || pool.usdcReserve === 0n) return null;
+  return Number(formatUnits(pool.usdcReserve, pool.usdcDecimals)) / Number(formatUnits(pool.ceoReserve, pool.ceoDecimals));
+}
+
+/**
+ * USDC (raw) worth `ceoAmount` (raw) at `price` USDC per CEO
+ */
+export function quoteUsdcAtPrice(ceoAmount: bigint, price: string, ceoDecimals: number, usdcDecimals: number): bigint {
+  const scaledPrice = parseUnits(price, 18);
+  return (ceoAmount * scaledPrice * 10n ** BigInt(usdcDecimals)) / (10n ** 18n * 10n ** BigInt(ceoDecimals));
+}
+
+/**
+ * CEO (raw) worth `usdcAmount` (raw) at `price` USDC per CEO
+ */
+export function quoteCeoAtPrice(usdcAmount: bigint, price: string, ceoDecimals: number, usdcDecimals: number): bigint {
+  const scaledPrice = parseUnits(price, 18);
+  return (usdcAmount * 10n ** 18n * 10n ** BigInt(ceoDecimals)) / (scaledPrice * 10n ** BigInt(usdcDecimals));
+}
+
+/**
+ * LP tokens the first deposit into an empty pair mints: sqrt(a * b) - MINIMUM_LIQUIDITY
+ */
+export function getInitialLiquidity(amountA: bigint, amountB: bigint): bigint {
+  const product = amountA * amountB;
+  if (product === 0n) return 0n;
+  let x = product;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + product / x) / 2n;
+  }
+  return x > MINIMUM_LIQUIDITY ? x - MINIMUM_LIQUIDITY : 0n;
+}
+
+/**
+ * Decimal string for a price number, without exponent notation
+ */
+export function formatPrice(price: number): string {
+  return price.toFixed(18).replace(/\.?0+$/, '');
+}
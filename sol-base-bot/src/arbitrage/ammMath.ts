@@ -0,0 +1,213 @@
+/**
+ * Constant-product fill math for the two venues, plus concentrated-liquidity
+ * fills for a Base leg on a Uniswap V3 pool.
+ *
+ * All amounts are raw on-chain units (lamports, token base units, USDC base units).
+ * Fees are passed in basis points so callers can use whatever schedule applies;
+ * V3 fills use the pool's own fee tier.
+ */
+
+import { simulateV3Swap, sqrtPriceX96ToPrice } from '../base/uniswapV3/math.js';
+import type { BaseV3Liquidity } from './types.js';
+
+const BPS_DENOMINATOR = 10000n;
+
+/**
+ * SOL (lamports) required to buy an exact amount of tokens on the Pump.fun bonding curve.
+ * The fee is charged on top of the curve cost.
+ */
+export function getPumpFunBuyCost(
+  virtualSolReserves: bigint,
+  virtualTokenReserves: bigint,
+  tokenAmountOut: bigint,
+  feeBps: bigint
+): bigint {
+  if (tokenAmountOut <= 0n) return 0n;
+  if (tokenAmountOut >= virtualTokenReserves) {
+    throw new Error(`Token amount ${tokenAmountOut} exceeds curve reserves ${virtualTokenReserves}`);
+  }
+
+  const k = virtualSolReserves * virtualTokenReserves;
+  const newVirtualTokenReserves = virtualTokenReserves - tokenAmountOut;
+  const newVirtualSolReserves = (k + newVirtualTokenReserves - 1n) / newVirtualTokenReserves;
+  const solNeeded = newVirtualSolReserves - virtualSolReserves;
+  const fee = (solNeeded * feeBps) / BPS_DENOMINATOR;
+
+  return solNeeded + fee;
+}
+
+/**
+ * SOL (lamports) received for selling an exact amount of tokens into the Pump.fun bonding curve.
+ * The fee is deducted from the curve output.
+ */
+export function getPumpFunSellProceeds(
+  virtualSolReserves: bigint,
+  virtualTokenReserves: bigint,
+  tokenAmountIn: bigint,
+  feeBps: bigint
+): bigint {
+  if (tokenAmountIn <= 0n) return 0n;
+
+  const k = virtualSolReserves * virtualTokenReserves;
+  const newVirtualTokenReserves = virtualTokenReserves + tokenAmountIn;
+  const newVirtualSolReserves = (k + newVirtualTokenReserves - 1n) / newVirtualTokenReserves;
+  const solOutputRaw = virtualSolReserves - newVirtualSolReserves;
+  const fee = (solOutputRaw * feeBps) / BPS_DENOMINATOR;
+
+  return solOutputRaw - fee;
+}
+
+/**
+ * Uniswap V2 getAmountOut: output for an exact input, fee taken on the input.
+ */
+export function getUniswapV2AmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: bigint
+): bigint {
+  if (amountIn <= 0n) return 0n;
+
+  const amountInWithFee = amountIn * (BPS_DENOMINATOR - feeBps);
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * BPS_DENOMINATOR + amountInWithFee;
+
+  return numerator / denominator;
+}
+
+/**
+ * Uniswap V2 getAmountIn: input required for an exact output, fee taken on the input.
+ */
+export function getUniswapV2AmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: bigint
+): bigint {
+  if (amountOut <= 0n) return 0n;
+  if (amountOut >= reserveOut) {
+    throw new Error(`Amount out ${amountOut} exceeds pool reserves ${reserveOut}`);
+  }
+
+  const numerator = reserveIn * amountOut * BPS_DENOMINATOR;
+  const denominator = (reserveOut - amountOut) * (BPS_DENOMINATOR - feeBps);
+
+  return numerator / denominator + 1n;
+}
+
+/**
+ * Price impact (%) of buying or selling an exact token amount on the Pump.fun curve,
+ * measured as the fee-less average fill price against the spot price.
+ */
+export function getPumpFunPriceImpact(
+  virtualSolReserves: bigint,
+  virtualTokenReserves: bigint,
+  tokenAmount: bigint,
+  isBuy: boolean
+): number {
+  if (tokenAmount <= 0n || virtualTokenReserves <= 0n) return 0;
+  if (isBuy && tokenAmount >= virtualTokenReserves) return 100;
+
+  const spotPrice = Number(virtualSolReserves) / Number(virtualTokenReserves);
+  const solAmount = isBuy
+    ? getPumpFunBuyCost(virtualSolReserves, virtualTokenReserves, tokenAmount, 0n)
+    : getPumpFunSellProceeds(virtualSolReserves, virtualTokenReserves, tokenAmount, 0n);
+  const fillPrice = Number(solAmount) / Number(tokenAmount);
+
+  return Math.abs(fillPrice / spotPrice - 1) * 100;
+}
+
+/**
+ * Price impact (%) of buying or selling an exact token amount on a Uniswap V2 pair,
+ * measured as the fee-less average fill price against the spot price.
+ */
+export function getUniswapV2PriceImpact(
+  quoteReserves: bigint,
+  tokenReserves: bigint,
+  tokenAmount: bigint,
+  isBuy: boolean
+): number {
+  if (tokenAmount <= 0n || tokenReserves <= 0n) return 0;
+  if (isBuy && tokenAmount >= tokenReserves) return 100;
+
+  const spotPrice = Number(quoteReserves) / Number(tokenReserves);
+  const quoteAmount = isBuy
+    ? getUniswapV2AmountIn(tokenAmount, quoteReserves, tokenReserves, 0n)
+    : getUniswapV2AmountOut(tokenAmount, tokenReserves, quoteReserves, 0n);
+  const fillPrice = Number(quoteAmount) / Number(tokenAmount);
+
+  return Math.abs(fillPrice / spotPrice - 1) * 100;
+}
+
+/**
+ * Runs a USDC/token swap through a V3 pool snapshot. Buys are exact-out in tokens,
+ * sells exact-in. Throws when the swap runs past the ticks that were loaded.
+ */
+function simulateV3TokenSwap(v3: BaseV3Liquidity, tokenAmount: bigint, isBuy: boolean, feeless: boolean) {
+  const pool = feeless ? { ...v3.pool, fee: 0 } : v3.pool;
+  // Buying tokens pays USDC in; zeroForOne when USDC is token0
+  const zeroForOne = isBuy === v3.usdcIsToken0;
+  const result = simulateV3Swap(pool, zeroForOne, isBuy ? -tokenAmount : tokenAmount);
+  if (result.exhausted) {
+    throw new Error(`Token amount ${tokenAmount} exceeds loaded V3 liquidity`);
+  }
+  return result;
+}
+
+/**
+ * USDC (raw) required to buy an exact amount of tokens from a V3 pool, fee included.
+ */
+export function getUniswapV3BuyCost(v3: BaseV3Liquidity, tokenAmountOut: bigint): bigint {
+  if (tokenAmountOut <= 0n) return 0n;
+  return simulateV3TokenSwap(v3, tokenAmountOut, true, false).amountIn;
+}
+
+/**
+ * USDC (raw) received for selling an exact amount of tokens into a V3 pool, fee deducted.
+ */
+export function getUniswapV3SellProceeds(v3: BaseV3Liquidity, tokenAmountIn: bigint): bigint {
+  if (tokenAmountIn <= 0n) return 0n;
+  return simulateV3TokenSwap(v3, tokenAmountIn, false, false).amountOut;
+}
+
+/**
+ * Spot price of a V3 pool in raw USDC per raw token
+ */
+function v3UsdcPerToken(v3: BaseV3Liquidity, sqrtPriceX96: bigint): number {
+  const token1PerToken0 = sqrtPriceX96ToPrice(sqrtPriceX96);
+  return v3.usdcIsToken0 ? 1 / token1PerToken0 : token1PerToken0;
+}
+
+/**
+ * Marginal price (raw USDC per raw token) of a V3 pool after buying or selling an
+ * exact token amount. Infinity when the trade runs past the loaded ticks.
+ */
+export function getUniswapV3PriceAfter(v3: BaseV3Liquidity, tokenAmount: bigint, isBuy: boolean): number {
+  if (tokenAmount <= 0n) return v3UsdcPerToken(v3, v3.pool.sqrtPriceX96);
+  try {
+    return v3UsdcPerToken(v3, simulateV3TokenSwap(v3, tokenAmount, isBuy, false).sqrtPriceX96After);
+  } catch {
+    return Infinity;
+  }
+}
+
+/**
+ * Price impact (%) of buying or selling an exact token amount on a V3 pool,
+ * measured as the fee-less average fill price against the spot price.
+ */
+export function getUniswapV3PriceImpact(v3: BaseV3Liquidity, tokenAmount: bigint, isBuy: boolean): number {
+  if (tokenAmount <= 0n || v3.pool.sqrtPriceX96 <= 0n) return 0;
+
+  let quoteAmount: bigint;
+  try {
+    const result = simulateV3TokenSwap(v3, tokenAmount, isBuy, true);
+    quoteAmount = isBuy ? result.amountIn : result.amountOut;
+  } catch {
+    return 100;
+  }
+
+  const spotPrice = v3UsdcPerToken(v3, v3.pool.sqrtPriceX96);
+  const fillPrice = Number(quoteAmount) / Number(tokenAmount);
+
+  return Math.abs(fillPrice / spotPrice - 1) * 100;
+}
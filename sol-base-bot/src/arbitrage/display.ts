@@ -1,7 +1,7 @@
 import { LAMPORTS_PER_SOL } from '@solana/web3.js';
 import type { MarketStats } from './marketFetcher.js';
 import type { WalletStats } from './walletStats.js';
-import type { Opportunity, ArbitrageSimulation } from './types.js';
+import type { Opportunity, ArbitrageSimulation, RiskAssessment } from './types.js';
 
 /**
  * Display market statistics
@@ -112,6 +112,7 @@ export function displayOpportunity(opportunity: Opportunity, config: any, market
   const summaryData = {
     'Opportunity': {
       'Direction': opportunity.direction === 'SOLANA_TO_BASE' ? '🔵 Buy Solana → 🟦 Sell Base' : '🟦 Buy Base → 🔵 Sell Solana',
+      'Route': `${opportunity.buyVenue} → ${opportunity.sellVenue}`,
       'Price Difference': `${opportunity.priceDifferencePercent.toFixed(2)}%`,
       'Estimated Profit': `$${opportunity.estimatedProfitUsd.toFixed(2)}`,
       'Profit Percent': `${opportunity.estimatedProfitPercent.toFixed(2)}%`,
@@ -231,4 +232,30 @@ export function displaySimulationResults(simulation: ArbitrageSimulation, config
   console.log('═'.repeat(100));
 }
 
+/**
+ * Display risk engine verdict
+ */
+export function displayRiskAssessment(assessment: RiskAssessment) {
+  console.log('\n🛡️  RISK CHECK');
+  console.log('═'.repeat(100));
 
+  console.table({
+    'Risk Check': {
+      'Trade Size': `$${assessment.tradeSizeUsd.toFixed(2)}`,
+      'Buy Impact': `${assessment.priceImpact.buy.toFixed(2)}%`,
+      'Sell Impact': `${assessment.priceImpact.sell.toFixed(2)}%`,
+      'Status': assessment.approved ? '✅ Approved' : `❌ Rejected (${assessment.rejections.length})`,
+    }
+  });
+
+  if (assessment.rejections.length > 0) {
+    console.log('\n🚫 REJECTION REASONS:');
+    console.table(assessment.rejections.map((rejection) => ({
+      'Code': rejection.code,
+      'Reason': rejection.message,
+      'Limit': Number(rejection.limit.toFixed(4)),
+      'Actual': Number(rejection.actual.toFixed(4)),
+    })));
+  }
+  console.log('═'.repeat(100));
+}
@@ -0,0 +1,51 @@
+/**
+ * Execution Lock
+ *
+ * All pairs trade from the same Solana and Base wallets, so only one pair may
+ * go from re-validation to settlement at a time. Acquisition is non-blocking:
+ * a pair that finds the lock held skips execution, since its opportunity would
+ * be stale by the time the lock frees up.
+ */
+
+export interface ExecutionLockHolder {
+  owner: string;
+  acquiredAt: number;
+}
+
+export class ExecutionLock {
+  private holder: ExecutionLockHolder | null = null;
+
+  /**
+   * Take the lock for `owner`. Returns false if another owner holds it.
+   */
+  tryAcquire(owner: string): boolean {
+    if (this.holder) {
+      return false;
+    }
+    this.holder = { owner, acquiredAt: Date.now() };
+    return true;
+  }
+
+  /**
+   * Release the lock if `owner` holds it
+   */
+  release(owner: string): void {
+    if (this.holder?.owner === owner) {
+      this.holder = null;
+    }
+  }
+
+  getHolder(): ExecutionLockHolder | null {
+    return this.holder ? { ...this.holder } : null;
+  }
+}
+
+// Singleton shared by every pair in the process
+let executionLock: ExecutionLock | null = null;
+
+export function getExecutionLock(): ExecutionLock {
+  if (!executionLock) {
+    executionLock = new ExecutionLock();
+  }
+  return executionLock;
+}
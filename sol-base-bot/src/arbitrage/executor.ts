@@ -1,27 +1,77 @@
-import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
-import { JsonRpcProvider, Wallet, formatUnits } from 'ethers';
-import { createPumpFunProgram } from '../solana/pumpfun/anchor.js';
-import { buildBuyInstruction, buildSellInstruction } from '../solana/pumpfun/instructions.js';
-import { createTransaction, sendAndConfirmTransactionWithPolling } from '../solana/pumpfun/transactions.js';
+import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { getLiveUsdPrices } from '../utils/priceFetcher.js';
 import {
-  buyTokensWithUsdc,
-  sellTokensForUsdc,
-  getTokenDecimals,
-  simulateBuyTokensWithUsdc,
-  simulateSellTokensForUsdc,
-} from '../base/uniswap/router.js';
-import { getAllBaseBalances } from '../base/baseBalanceUtils.js';
-import type { Opportunity, ArbitrageSimulation } from './types.js';
+  createOpportunityVenues,
+  getVenueChainAccess,
+  getLegAmounts,
+  selectTradeVenues,
+} from './venues/marketVenues.js';
+import type { Venue } from './venues/types.js';
+import type { Opportunity, ArbitrageSimulation, ExecutionResult, TradePlan } from './types.js';
 
 /**
- * Execute arbitrage trades
+ * Build the trade plan from the analyzed opportunity and simulation
+ */
+function buildTradePlan(
+  config: {
+    SOLANA_PRIORITY_FEE_SOL: number;
+    BASE_SWAP_SLIPPAGE_BPS: number;
+    BASE_SWAP_DEADLINE_SECONDS: number;
+  },
+  opportunity: Opportunity,
+  simulation: ArbitrageSimulation
+): TradePlan {
+  const { solana, base } = opportunity.optimalTradeSize;
+  const lamports = BigInt(Math.floor(solana.solAmount * LAMPORTS_PER_SOL));
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + config.BASE_SWAP_DEADLINE_SECONDS);
+  const isSolanaToBase = opportunity.direction === 'SOLANA_TO_BASE';
+
+  const solanaLeg = {
+    chain: 'solana' as const,
+    type: isSolanaToBase ? 'buy' as const : 'sell' as const,
+    amountIn: isSolanaToBase ? lamports : solana.tokenAmount,
+    amountOut: isSolanaToBase ? solana.tokenAmount : lamports,
+    slippageBps: isSolanaToBase ? 2000 : 200,
+    deadline: 0n,
+    gasEstimate: (isSolanaToBase ? simulation.buySimulation : simulation.sellSimulation)?.gasEstimate ?? 0n,
+    priorityFee: config.SOLANA_PRIORITY_FEE_SOL,
+  };
+  const baseLeg = {
+    chain: 'base' as const,
+    type: isSolanaToBase ? 'sell' as const : 'buy' as const,
+    amountIn: isSolanaToBase ? base.tokenAmount : simulation.buySimulation?.inputAmount ?? 0n,
+    amountOut: isSolanaToBase ? simulation.sellSimulation?.outputAmount ?? 0n : base.tokenAmount,
+    slippageBps: config.BASE_SWAP_SLIPPAGE_BPS,
+    deadline,
+    gasEstimate: (isSolanaToBase ? simulation.sellSimulation : simulation.buySimulation)?.gasEstimate ?? 0n,
+  };
+
+  return {
+    opportunity,
+    simulation,
+    buyChain: isSolanaToBase ? 'solana' : 'base',
+    sellChain: isSolanaToBase ? 'base' : 'solana',
+    buyTransaction: isSolanaToBase ? solanaLeg : baseLeg,
+    sellTransaction: isSolanaToBase ? baseLeg : solanaLeg,
+    estimatedExecutionTime: simulation.executionTimeEstimate,
+  };
+}
+
+/**
+ * Execute arbitrage trades.
+ *
+ * Never throws for trade failures: the returned ExecutionResult carries
+ * `success: false`, the error, and whatever legs did confirm.
  */
 export async function executeArbitrage(
   config: {
     SOLANA_TOKEN_MINT: string;
     BASE_TOKEN_ADDRESS: string;
     BASE_USDC_ADDRESS: string;
-    UNISWAP_V2_ROUTER02_ADDRESS: string;
+    BASE_DEX: string;
+    BASE_DEX_REGISTRY: string;
+    BASE_V3_FEE_TIER: number;
     SOLANA_PRIORITY_FEE_SOL: number;
     BASE_SWAP_SLIPPAGE_BPS: number;
     BASE_SWAP_DEADLINE_SECONDS: number;
@@ -32,192 +82,101 @@ export async function executeArbitrage(
   baseProvider: JsonRpcProvider,
   solanaKeypair: Keypair,
   baseWallet: Wallet
-): Promise<void> {
-  try {
-    if (opportunity.direction === 'SOLANA_TO_BASE') {
-      // Buy on Solana first
-      console.log('📥 Executing buy on Solana...');
-      const program = createPumpFunProgram(solanaConnection, solanaKeypair);
-      const mint = new PublicKey(config.SOLANA_TOKEN_MINT);
-      const buySolanaTokenAmount = opportunity.optimalTradeSize.solana.tokenAmount;
-      // Apply 20% slippage buffer (same as simulator)
-      const baseSolCost = opportunity.optimalTradeSize.solana.solAmount * LAMPORTS_PER_SOL;
-      const maxSolCost = BigInt(Math.floor(baseSolCost * 1.20));
-
-      console.log(`   Using maxSolCost with 20% slippage: ${(Number(maxSolCost) / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
-
-      const buyInstruction = await buildBuyInstruction(
-        program,
-        solanaConnection,
-        mint,
-        solanaKeypair.publicKey,
-        buySolanaTokenAmount,
-        maxSolCost,
-        false
-      );
-
-      const buyTransaction = await createTransaction(
-        solanaConnection,
-        [buyInstruction],
-        solanaKeypair.publicKey,
-        config.SOLANA_PRIORITY_FEE_SOL
-      );
-      buyTransaction.sign(solanaKeypair);
-
-      const buySignature = await sendAndConfirmTransactionWithPolling(
-        solanaConnection,
-        buyTransaction,
-        [solanaKeypair]
-      );
-      console.log(`   ✅ Buy transaction confirmed: ${buySignature}`);
-
-      // Wait a bit for token balance to update
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Sell on Base
-      console.log('\n📤 Executing sell on Base...');
-
-      // Re-simulate to get fresh amounts
-      const sellTokenDecimals = await getTokenDecimals(baseProvider, config.BASE_TOKEN_ADDRESS);
-      const sellTokenAmount = opportunity.optimalTradeSize.base.tokenAmount;
-
-      console.log(`   Re-simulating sell transaction...`);
-      const freshSellSim = await simulateSellTokensForUsdc(
-        baseProvider,
-        config.UNISWAP_V2_ROUTER02_ADDRESS,
-        config.BASE_USDC_ADDRESS,
-        config.BASE_TOKEN_ADDRESS,
-        sellTokenAmount,
-        baseWallet.address,
-        config.BASE_SWAP_SLIPPAGE_BPS,
-        config.BASE_SWAP_DEADLINE_SECONDS
-      );
-
-      // Calculate amountOutMin with slippage
-      const slippageMultiplier = BigInt(10000 - config.BASE_SWAP_SLIPPAGE_BPS);
-      const amountOutMin = (freshSellSim.amountOut * slippageMultiplier) / BigInt(10000);
-
-      // Check token balance
-      const balances = await getAllBaseBalances(
-        baseProvider,
-        config.BASE_TOKEN_ADDRESS,
-        config.BASE_USDC_ADDRESS,
-        baseWallet.address
-      );
+): Promise<ExecutionResult> {
+  const startTime = Date.now();
+  const result: ExecutionResult = {
+    plan: buildTradePlan(config, opportunity, simulation),
+    actualBuyAmount: 0n,
+    actualSellAmount: 0n,
+    actualBuyQuoteAmount: 0n,
+    actualSellQuoteAmount: 0n,
+    actualBuyCostUsd: 0,
+    actualSellRevenueUsd: 0,
+    actualGasCostUsd: 0,
+    actualProfitUsd: 0,
+    actualProfitPercent: 0,
+    simulatedProfitUsd: simulation.netProfitUsd,
+    profitDeviationUsd: 0,
+    executionTime: 0,
+    success: false,
+    warnings: [],
+  };
+
+  let legs: { buy: Venue; sell: Venue } | null = null;
 
-      const sellTokenAmountFormatted = parseFloat(formatUnits(sellTokenAmount, sellTokenDecimals));
-
-      if (balances.token < sellTokenAmountFormatted) {
-        throw new Error(`Insufficient token balance. Required: ${sellTokenAmountFormatted.toFixed(2)}, Available: ${balances.token.toFixed(2)}`);
-      }
-
-      console.log(`   Tokens to sell: ${sellTokenAmountFormatted.toFixed(2)}`);
-      console.log(`   Tokens available: ${balances.token.toFixed(2)}`);
-
-      const sellResult = await sellTokensForUsdc(
-        baseWallet,
-        config.UNISWAP_V2_ROUTER02_ADDRESS,
-        config.BASE_USDC_ADDRESS,
-        config.BASE_TOKEN_ADDRESS,
-        sellTokenAmount,
-        amountOutMin,
-        freshSellSim.deadline,
-        config.BASE_SWAP_SLIPPAGE_BPS
-      );
-      console.log(`   ✅ Sell transaction confirmed: ${sellResult.transactionHash}`);
-    } else {
-      // Buy on Base first
-      console.log('📥 Executing buy on Base...');
-
-      // Re-simulate to get fresh amounts (prices may have changed)
-      const buyTokenDecimals = await getTokenDecimals(baseProvider, config.BASE_TOKEN_ADDRESS);
-      const buyTokenAmount = opportunity.optimalTradeSize.base.tokenAmount;
-
-      console.log(`   Re-simulating buy transaction...`);
-      const freshBuySim = await simulateBuyTokensWithUsdc(
-        baseProvider,
-        config.UNISWAP_V2_ROUTER02_ADDRESS,
-        config.BASE_USDC_ADDRESS,
-        config.BASE_TOKEN_ADDRESS,
-        buyTokenAmount,
-        baseWallet.address,
-        config.BASE_SWAP_SLIPPAGE_BPS,
-        config.BASE_SWAP_DEADLINE_SECONDS
-      );
-
-      // Calculate amountInMax with slippage
-      const buySlippageMultiplier = BigInt(10000 + config.BASE_SWAP_SLIPPAGE_BPS);
-      const amountInMax = (freshBuySim.amountIn * buySlippageMultiplier) / BigInt(10000);
-
-      // Check USDC balance
-      const buyBalances = await getAllBaseBalances(
-        baseProvider,
-        config.BASE_TOKEN_ADDRESS,
-        config.BASE_USDC_ADDRESS,
-        baseWallet.address
-      );
-
-      const usdcDecimals = await getTokenDecimals(baseProvider, config.BASE_USDC_ADDRESS);
-      const amountInMaxFormatted = parseFloat(formatUnits(amountInMax, usdcDecimals));
-
-      if (buyBalances.usdc < amountInMaxFormatted) {
-        throw new Error(`Insufficient USDC balance. Required: ${amountInMaxFormatted.toFixed(2)}, Available: ${buyBalances.usdc.toFixed(2)}`);
-      }
-
-      console.log(`   USDC needed: ${amountInMaxFormatted.toFixed(2)} USDC`);
-      console.log(`   USDC available: ${buyBalances.usdc.toFixed(2)} USDC`);
-
-      const buyResult = await buyTokensWithUsdc(
-        baseWallet,
-        config.UNISWAP_V2_ROUTER02_ADDRESS,
-        config.BASE_USDC_ADDRESS,
-        config.BASE_TOKEN_ADDRESS,
-        buyTokenAmount,
-        amountInMax,
-        freshBuySim.deadline,
-        config.BASE_SWAP_SLIPPAGE_BPS
-      );
-      console.log(`   ✅ Buy transaction confirmed: ${buyResult.transactionHash}`);
-
-      // Wait a bit for token balance to update
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Sell on Solana
-      console.log('\n📤 Executing sell on Solana...');
-      const program = createPumpFunProgram(solanaConnection, solanaKeypair);
-      const mint = new PublicKey(config.SOLANA_TOKEN_MINT);
-      const sellSolanaTokenAmount = opportunity.optimalTradeSize.solana.tokenAmount;
-      const minSolOutput = BigInt(Math.floor(opportunity.optimalTradeSize.solana.solAmount * LAMPORTS_PER_SOL * 0.98));
-
-      const sellInstruction = await buildSellInstruction(
-        program,
-        solanaConnection,
-        mint,
-        solanaKeypair.publicKey,
-        sellSolanaTokenAmount,
-        minSolOutput
-      );
-
-      const sellTransaction = await createTransaction(
-        solanaConnection,
-        [sellInstruction],
-        solanaKeypair.publicKey,
-        config.SOLANA_PRIORITY_FEE_SOL
-      );
-      sellTransaction.sign(solanaKeypair);
-
-      const sellSignature = await sendAndConfirmTransactionWithPolling(
-        solanaConnection,
-        sellTransaction,
-        [solanaKeypair]
-      );
-      console.log(`   ✅ Sell transaction confirmed: ${sellSignature}`);
+  try {
+    // Both legs are valued at the prices the venues are built with; no trade goes out on a static price
+    let prices: { sol: number; eth: number };
+    try {
+      prices = await getLiveUsdPrices();
+    } catch (error) {
+      throw new Error(`Skipped: live SOL/ETH prices unavailable (${error instanceof Error ? error.message : String(error)})`);
     }
 
+    const venues = createOpportunityVenues(
+      opportunity,
+      prices.sol,
+      getVenueChainAccess(config, solanaConnection, baseProvider, solanaKeypair, baseWallet, prices.eth)
+    );
+    legs = selectTradeVenues(venues, opportunity);
+    const { buy, sell } = legs;
+
+    console.log(`📥 Executing buy on ${buy.id}...`);
+    const buyLeg = getLegAmounts(opportunity, 'buy');
+    const buyFill = await buy.execute('buy', buyLeg.tokenAmount, buyLeg.expectedQuote);
+    result.buyTxHash = buyFill.txHash;
+    result.buyBlockNumber = buyFill.blockNumber;
+    result.actualBuyAmount = buyFill.tokenAmount;
+    result.actualBuyQuoteAmount = buyFill.quoteAmount;
+    result.actualGasCostUsd += buyFill.networkFeeUsd;
+    result.warnings.push(...buyFill.warnings);
+
+    // Wait a bit for token balance to update
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    console.log(`\n📤 Executing sell on ${sell.id}...`);
+    const sellLeg = getLegAmounts(opportunity, 'sell');
+    const sellFill = await sell.execute('sell', sellLeg.tokenAmount, sellLeg.expectedQuote);
+    result.sellTxHash = sellFill.txHash;
+    result.sellBlockNumber = sellFill.blockNumber;
+    result.actualSellAmount = sellFill.tokenAmount;
+    result.actualSellQuoteAmount = sellFill.quoteAmount;
+    result.actualGasCostUsd += sellFill.networkFeeUsd;
+    result.warnings.push(...sellFill.warnings);
+
+    result.success = true;
     console.log('\n✅ Arbitrage execution completed!');
   } catch (error) {
     console.error('Error executing arbitrage:', error);
-    throw error;
+    result.error = error instanceof Error ? error.message : String(error);
+    // Solana sends that time out or fail on chain carry their signature
+    const signature = (error as any)?.signature;
+    if (result.buyTxHash && typeof signature === 'string') {
+      result.pendingSellTxHash = signature;
+    }
   }
+
+  // Value both legs in USD from the amounts that actually moved; an unread leg leaves the profit unknown
+  const toUsd = (amount: bigint | null, venue: Venue | undefined) =>
+    amount === null ? null : venue ? (Number(amount) / (10 ** venue.quoteDecimals)) * venue.quoteUsd : 0;
+
+  const buyCostUsd = toUsd(result.actualBuyQuoteAmount, legs?.buy);
+  const sellRevenueUsd = toUsd(result.actualSellQuoteAmount, legs?.sell);
+  result.actualBuyCostUsd = buyCostUsd;
+  result.actualSellRevenueUsd = sellRevenueUsd;
+  if (buyCostUsd !== null && sellRevenueUsd !== null) {
+    const profitUsd = sellRevenueUsd - buyCostUsd - result.actualGasCostUsd;
+    result.actualProfitUsd = profitUsd;
+    result.actualProfitPercent = buyCostUsd > 0 ? (profitUsd / buyCostUsd) * 100 : 0;
+    result.profitDeviationUsd = profitUsd - result.simulatedProfitUsd;
+  } else {
+    result.actualProfitUsd = null;
+    result.actualProfitPercent = null;
+    result.profitDeviationUsd = null;
+    result.warnings.push('Realized profit unknown: the fill amounts of a confirmed leg could not be read');
+  }
+  result.executionTime = Date.now() - startTime;
+
+  return result;
 }
 
@@ -1,12 +1,17 @@
 import { Connection, PublicKey, LAMPORTS_PER_SOL, Keypair } from '@solana/web3.js';
 import { JsonRpcProvider, Contract } from 'ethers';
-import { getCoinData } from '../solana/pumpfun/api.js';
-import { getPairAddress } from '../base/uniswap/events.js';
+import { getBondingCurveState } from '../solana/pumpfun/bondingCurve.js';
+import { resolveBaseDex } from '../base/uniswap/dexRegistry.js';
 import { getTokenDecimals } from '../base/uniswap/router.js';
-import { createPumpFunProgram } from '../solana/pumpfun/anchor.js';
-import { buildBuyInstruction } from '../solana/pumpfun/instructions.js';
+import { getBasePoolAddress } from '../base/venue.js';
+import { fetchV3PoolState } from '../base/uniswapV3/pool.js';
+import { getVirtualReserves } from '../base/uniswapV3/math.js';
+import { fetchPumpSwapMarket } from '../solana/pumpswap/amm.js';
+import { buildSolanaBuyInstructions, type SolanaVenue } from '../solana/venue.js';
+import { getBondingCurveFeeBps } from '../solana/pumpfun/fees.js';
 import { createTransaction, simulateTransaction } from '../solana/pumpfun/transactions.js';
-import { getPriceFetcher } from '../utils/priceFetcher.js';
+import { getSolPriceUsd } from '../utils/priceFetcher.js';
+import type { BaseV3Liquidity } from './types.js';
 
 export interface MarketStats {
   solana: {
@@ -20,6 +25,8 @@ export interface MarketStats {
     realSolReserves: bigint;
     realTokenReserves: bigint;
     tokenDecimals: number;
+    venue: SolanaVenue;
+    feeBps: bigint; // Total Solana trading fee
   };
   base: {
     price: number;
@@ -30,6 +37,9 @@ export interface MarketStats {
     tokenReserves: bigint;
     usdcDecimals: number;
     tokenDecimals: number;
+    dex: string; // Registry name of the DEX the pool is on
+    feeBps: bigint; // Pool swap fee
+    v3: BaseV3Liquidity | null; // Tick snapshot when the DEX is Uniswap V3
   };
 }
 
@@ -64,12 +74,8 @@ async function simulateTokenPrice(
     // Set a high max SOL cost to avoid slippage errors (we just want to see the actual cost)
     const maxSolCostLamports = BigInt(1e8); // 0.1 SOL max
 
-    // Create program instance
-    const program = createPumpFunProgram(solanaConnection, payer);
-
-    // Build buy instruction
-    const instruction = await buildBuyInstruction(
-      program,
+    // Build buy instructions for the current venue
+    const instructions = await buildSolanaBuyInstructions(
       solanaConnection,
       mint,
       payer.publicKey,
@@ -81,7 +87,7 @@ async function simulateTokenPrice(
     // Create transaction
     const transaction = await createTransaction(
       solanaConnection,
-      [instruction],
+      instructions,
       payer.publicKey,
       priorityFeeSol
     );
@@ -137,6 +143,79 @@ async function simulateTokenPrice(
   }
 }
 
+// Pump.fun mints use 6 decimals
+export const PUMP_FUN_TOKEN_DECIMALS = 6;
+
+/**
+ * Solana reserves for the venue the token currently trades on
+ */
+export interface SolanaReserves {
+  venue: SolanaVenue;
+  feeBps: bigint;
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  realSolReserves: bigint;
+  realTokenReserves: bigint;
+  totalSupplyTokens: number | null;
+}
+
+/**
+ * Read reserves from the bonding curve account or, after graduation, from the
+ * PumpSwap pool. The pool is constant-product without virtual liquidity, so its
+ * balances fill both the virtual and real reserve fields.
+ */
+export async function fetchSolanaReserves(
+  tokenMint: string,
+  solanaConnection: Connection,
+  useApiFallback: boolean
+): Promise<SolanaReserves> {
+  const mint = new PublicKey(tokenMint);
+  const curve = await getBondingCurveState(solanaConnection, mint, useApiFallback);
+
+  // A completed (or missing) curve means the token trades on its PumpSwap pool
+  if (!curve || curve.complete) {
+    const market = await fetchPumpSwapMarket(solanaConnection, mint);
+    if (market.quoteReserves <= 0n || market.baseReserves <= 0n) {
+      throw new Error('Invalid PumpSwap pool reserves');
+    }
+    const supply = await solanaConnection.getTokenSupply(mint);
+
+    return {
+      venue: 'pumpswap',
+      feeBps: market.feeBps,
+      virtualSolReserves: market.quoteReserves,
+      virtualTokenReserves: market.baseReserves,
+      realSolReserves: market.quoteReserves,
+      realTokenReserves: market.baseReserves,
+      totalSupplyTokens: supply.value.uiAmount,
+    };
+  }
+
+  // Virtual reserves are used for price calculation (includes virtual liquidity from bonding curve)
+  // Real reserves are used for liquidity calculations (actual tradable amounts)
+  const { virtualSolReserves, virtualTokenReserves, realSolReserves, realTokenReserves } = curve;
+
+  if (virtualSolReserves <= 0n || virtualTokenReserves <= 0n) {
+    throw new Error('Invalid Solana virtual reserves');
+  }
+
+  if (realSolReserves <= 0n || realTokenReserves <= 0n) {
+    throw new Error('Invalid Solana real reserves');
+  }
+
+  return {
+    venue: 'bonding_curve',
+    feeBps: await getBondingCurveFeeBps(solanaConnection, curve),
+    virtualSolReserves,
+    virtualTokenReserves,
+    realSolReserves,
+    realTokenReserves,
+    totalSupplyTokens: curve.tokenTotalSupply > 0n
+      ? Number(curve.tokenTotalSupply) / (10 ** PUMP_FUN_TOKEN_DECIMALS)
+      : null,
+  };
+}
+
 /**
  * Fetch market data from both Solana and Base chains
  */
@@ -147,42 +226,23 @@ export async function fetchMarketData(
     BASE_USDC_ADDRESS: string;
     SOLANA_SOL_PRICE_USD: number;
     SOLANA_PRIORITY_FEE_SOL?: number;
-    UNISWAP_V2_ROUTER02_ADDRESS: string;
-    COINMARKETCAP_API_KEY: string;
+    BASE_DEX: string;
+    BASE_DEX_REGISTRY: string;
+    BASE_V3_FEE_TIER: number;
+    PUMPFUN_API_FALLBACK: boolean;
   },
   solanaConnection: Connection,
   baseProvider: JsonRpcProvider,
   solanaKeypair?: Keypair | null
 ): Promise<MarketStats | null> {
   try {
-    // Fetch Solana market data
-    const coinData = await getCoinData(config.SOLANA_TOKEN_MINT);
-    //console.log('coinData', coinData);
-
-    if (!coinData) {
-      throw new Error('Failed to fetch Solana coin data');
-    }
-
-    // Ensure proper conversion from API response (might be string or number)
-    // Virtual reserves are used for price calculation (includes virtual liquidity from bonding curve)
-    const vSolValue = coinData['virtual_sol_reserves'];
-    const vTokenValue = coinData['virtual_token_reserves'];
-    const virtualSolReserves = BigInt(typeof vSolValue === 'string' ? vSolValue : String(vSolValue));
-    const virtualTokenReserves = BigInt(typeof vTokenValue === 'string' ? vTokenValue : String(vTokenValue));
-
-    // Real reserves are used for liquidity calculations (actual tradable amounts)
-    const rSolValue = coinData['real_sol_reserves'];
-    const rTokenValue = coinData['real_token_reserves'];
-    const realSolReserves = BigInt(typeof rSolValue === 'string' ? rSolValue : String(rSolValue));
-    const realTokenReserves = BigInt(typeof rTokenValue === 'string' ? rTokenValue : String(rTokenValue));
-
-    if (virtualSolReserves <= 0n || virtualTokenReserves <= 0n) {
-      throw new Error('Invalid Solana virtual reserves');
-    }
-
-    if (realSolReserves <= 0n || realTokenReserves <= 0n) {
-      throw new Error('Invalid Solana real reserves');
-    }
+    // Fetch Solana market data from the bonding curve or, once graduated, the PumpSwap pool
+    const solanaReserves = await fetchSolanaReserves(
+      config.SOLANA_TOKEN_MINT,
+      solanaConnection,
+      config.PUMPFUN_API_FALLBACK
+    );
+    const { virtualSolReserves, virtualTokenReserves, realSolReserves, realTokenReserves } = solanaReserves;
 
     // Calculate price by simulating 1 token buy to get actual SOL cost
     // This accounts for bonding curve mechanics, fees, and gives accurate price
@@ -210,16 +270,8 @@ export async function fetchMarketData(
       solanaPrice = vSolNorm / vTokenNorm;
       console.log('⚠️  Using formula-based price calculation (simulation unavailable)');
     }
-    // Get SOL price from CoinMarketCap if available, otherwise use config
-    let solPriceUsd = config.SOLANA_SOL_PRICE_USD;
-    if (config.COINMARKETCAP_API_KEY) {
-      try {
-        const priceFetcher = getPriceFetcher();
-        solPriceUsd = await priceFetcher.getSolPrice();
-      } catch (error) {
-        console.warn('⚠️  Failed to fetch SOL price, using config value:', error);
-      }
-    }
+    // Aggregated live SOL price, or the configured static one
+    const solPriceUsd = await getSolPriceUsd(config);
 
     const solanaPriceUsd = solanaPrice * solPriceUsd;
 
@@ -227,52 +279,50 @@ export async function fetchMarketData(
     const solanaLiquidity = Number(realSolReserves) / LAMPORTS_PER_SOL;
     const solanaLiquidityUsd = solanaLiquidity * solPriceUsd;
 
-    // Calculate market cap USD (use API value if available, otherwise calculate from total supply)
-    let marketCapUsd: number;
-    if (coinData['usd_market_cap'] !== undefined) {
-      marketCapUsd = typeof coinData['usd_market_cap'] === 'string'
-        ? parseFloat(coinData['usd_market_cap'])
-        : Number(coinData['usd_market_cap']);
-    } else {
-      // Fallback: calculate from total supply and price
-      const totalSupply = coinData['total_supply']
-        ? (typeof coinData['total_supply'] === 'string'
-          ? BigInt(coinData['total_supply'])
-          : BigInt(coinData['total_supply']))
-        : null;
-      if (totalSupply) {
-        const SOLANA_TOKEN_DECIMALS = 9;
-        const totalSupplyTokens = Number(totalSupply) / (10 ** SOLANA_TOKEN_DECIMALS);
-        marketCapUsd = totalSupplyTokens * solanaPriceUsd;
-      } else {
-        marketCapUsd = 0;
-      }
-    }
+    // Calculate market cap USD from total supply
+    const marketCapUsd = solanaReserves.totalSupplyTokens !== null
+      ? solanaReserves.totalSupplyTokens * solanaPriceUsd
+      : 0;
 
-    // Fetch Base market data
-    const pairAddress = await getPairAddress(
+    // Fetch Base market data from the configured DEX
+    const dex = resolveBaseDex(config);
+    const poolAddress = await getBasePoolAddress(
       baseProvider,
-      config.UNISWAP_V2_ROUTER02_ADDRESS,
+      dex,
       config.BASE_USDC_ADDRESS,
       config.BASE_TOKEN_ADDRESS
     );
 
-    const uniswapPairAbi = [
-      'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
-      'function token0() view returns (address)',
-      'function token1() view returns (address)',
-    ];
-
-    const pairContract = new Contract(pairAddress, uniswapPairAbi, baseProvider);
-    const [reserve0, reserve1] = await pairContract.getReserves();
-    const token0Address = await pairContract.token0();
-
-    const isUsdcToken0 = token0Address.toLowerCase() === config.BASE_USDC_ADDRESS.toLowerCase();
-    // Convert BigInt reserves to string first, then to BigInt to ensure proper handling
-    const reserve0Str = typeof reserve0 === 'bigint' ? reserve0.toString() : String(reserve0);
-    const reserve1Str = typeof reserve1 === 'bigint' ? reserve1.toString() : String(reserve1);
-    const usdcReserves = BigInt(isUsdcToken0 ? reserve0Str : reserve1Str);
-    const tokenReserves = BigInt(isUsdcToken0 ? reserve1Str : reserve0Str);
+    let usdcReserves: bigint;
+    let tokenReserves: bigint;
+    let baseV3: BaseV3Liquidity | null = null;
+
+    if (dex.version === 'v3') {
+      // Concentrated liquidity: virtual reserves of the in-range liquidity carry the sqrtPriceX96 price
+      const pool = await fetchV3PoolState(baseProvider, poolAddress);
+      const usdcIsToken0 = pool.token0.toLowerCase() === config.BASE_USDC_ADDRESS.toLowerCase();
+      const { reserve0, reserve1 } = getVirtualReserves(pool);
+      usdcReserves = usdcIsToken0 ? reserve0 : reserve1;
+      tokenReserves = usdcIsToken0 ? reserve1 : reserve0;
+      baseV3 = { pool, usdcIsToken0 };
+    } else {
+      const uniswapPairAbi = [
+        'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+        'function token0() view returns (address)',
+        'function token1() view returns (address)',
+      ];
+
+      const pairContract = new Contract(poolAddress, uniswapPairAbi, baseProvider);
+      const [reserve0, reserve1] = await pairContract.getReserves();
+      const token0Address = await pairContract.token0();
+
+      const isUsdcToken0 = token0Address.toLowerCase() === config.BASE_USDC_ADDRESS.toLowerCase();
+      // Convert BigInt reserves to string first, then to BigInt to ensure proper handling
+      const reserve0Str = typeof reserve0 === 'bigint' ? reserve0.toString() : String(reserve0);
+      const reserve1Str = typeof reserve1 === 'bigint' ? reserve1.toString() : String(reserve1);
+      usdcReserves = BigInt(isUsdcToken0 ? reserve0Str : reserve1Str);
+      tokenReserves = BigInt(isUsdcToken0 ? reserve1Str : reserve0Str);
+    }
 
     if (usdcReserves <= 0n || tokenReserves <= 0n) {
       throw new Error('Invalid Base reserves');
@@ -311,6 +361,8 @@ export async function fetchMarketData(
         realSolReserves,
         realTokenReserves,
         tokenDecimals: tokenDecimalsNum,
+        venue: solanaReserves.venue,
+        feeBps: solanaReserves.feeBps,
       },
       base: {
         price: basePrice,
@@ -321,6 +373,9 @@ export async function fetchMarketData(
         tokenReserves,
         usdcDecimals: usdcDecimalsNum,
         tokenDecimals: tokenDecimalsNum,
+        dex: dex.name,
+        feeBps: dex.feeBps,
+        v3: baseV3,
       },
     };
   } catch (error) {
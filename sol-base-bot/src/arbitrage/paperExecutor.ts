@@ -0,0 +1,225 @@
+/**
+ * Paper Executor
+ *
+ * Fills an opportunity against the reserves of its buy and sell venues instead of sending transactions, and books the result in a
+ * virtual balance ledger covering both chains.
+ */
+
+import type { MarketStats } from './marketFetcher.js';
+import type { Opportunity, ArbitrageSimulation, Balances } from './types.js';
+import { createOpportunityVenues, selectTradeVenues, getLegAmounts } from './venues/marketVenues.js';
+import type { TradeSide, Venue } from './venues/types.js';
+
+export interface PaperFill {
+  chain: 'solana' | 'base';
+  type: 'buy' | 'sell';
+  tokenAmount: bigint;
+  quoteAmount: number; // SOL on Solana, USDC on Base
+  quoteSymbol: 'SOL' | 'USDC';
+  averagePrice: number; // Quote per token
+  gasCostUsd: number;
+}
+
+export interface PaperTradeResult {
+  opportunityId: string;
+  direction: Opportunity['direction'];
+  buyFill: PaperFill;
+  sellFill: PaperFill;
+  costUsd: number;
+  revenueUsd: number;
+  gasCostUsd: number;
+  profitUsd: number;
+  profitPercent: number;
+  simulatedProfitUsd: number;
+  balancesBefore: Balances;
+  balancesAfter: Balances;
+  timestamp: number;
+}
+
+export interface PaperLedgerSummary {
+  startingBalances: Balances;
+  balances: Balances;
+  tradeCount: number;
+  realizedPnlUsd: number;
+  gasSpentUsd: number;
+}
+
+/**
+ * Virtual balances for both chains plus running PnL
+ */
+export class PaperLedger {
+  private readonly startingBalances: Balances;
+  private balances: Balances;
+  private trades: PaperTradeResult[] = [];
+
+  constructor(startingBalances: Balances) {
+    this.startingBalances = cloneBalances(startingBalances);
+    this.balances = cloneBalances(startingBalances);
+  }
+
+  getBalances(): Balances {
+    return cloneBalances(this.balances);
+  }
+
+  getTrades(): PaperTradeResult[] {
+    return [...this.trades];
+  }
+
+  /**
+   * Move balances for a filled trade. Throws if the ledger cannot cover the buy leg.
+   */
+  applyTrade(
+    direction: Opportunity['direction'],
+    buyFill: PaperFill,
+    sellFill: PaperFill,
+    solTokenDecimals: number,
+    baseTokenDecimals: number
+  ): void {
+    const solanaTokens = Number(direction === 'SOLANA_TO_BASE' ? buyFill.tokenAmount : sellFill.tokenAmount) / (10 ** solTokenDecimals);
+    const baseTokens = Number(direction === 'SOLANA_TO_BASE' ? sellFill.tokenAmount : buyFill.tokenAmount) / (10 ** baseTokenDecimals);
+
+    if (direction === 'SOLANA_TO_BASE') {
+      if (this.balances.solana.sol < buyFill.quoteAmount) {
+        throw new Error(`Insufficient paper SOL balance. Required: ${buyFill.quoteAmount.toFixed(6)}, Available: ${this.balances.solana.sol.toFixed(6)}`);
+      }
+      if (this.balances.base.token < baseTokens) {
+        throw new Error(`Insufficient paper Base token balance. Required: ${baseTokens.toFixed(2)}, Available: ${this.balances.base.token.toFixed(2)}`);
+      }
+
+      this.balances.solana.sol -= buyFill.quoteAmount;
+      this.balances.solana.token += solanaTokens;
+      this.balances.base.token -= baseTokens;
+      this.balances.base.usdc += sellFill.quoteAmount;
+    } else {
+      if (this.balances.base.usdc < buyFill.quoteAmount) {
+        throw new Error(`Insufficient paper USDC balance. Required: ${buyFill.quoteAmount.toFixed(2)}, Available: ${this.balances.base.usdc.toFixed(2)}`);
+      }
+      if (this.balances.solana.token < solanaTokens) {
+        throw new Error(`Insufficient paper Solana token balance. Required: ${solanaTokens.toFixed(2)}, Available: ${this.balances.solana.token.toFixed(2)}`);
+      }
+
+      this.balances.base.usdc -= buyFill.quoteAmount;
+      this.balances.base.token += baseTokens;
+      this.balances.solana.token -= solanaTokens;
+      this.balances.solana.sol += sellFill.quoteAmount;
+    }
+  }
+
+  record(result: PaperTradeResult): void {
+    this.trades.push(result);
+  }
+
+  getSummary(): PaperLedgerSummary {
+    return {
+      startingBalances: cloneBalances(this.startingBalances),
+      balances: cloneBalances(this.balances),
+      tradeCount: this.trades.length,
+      realizedPnlUsd: this.trades.reduce((sum, t) => sum + t.profitUsd, 0),
+      gasSpentUsd: this.trades.reduce((sum, t) => sum + t.gasCostUsd, 0),
+    };
+  }
+}
+
+function cloneBalances(balances: Balances): Balances {
+  return {
+    solana: { ...balances.solana },
+    base: { ...balances.base },
+  };
+}
+
+/**
+ * Fill the opportunity against the reserves it was priced on and book it in the ledger.
+ * Gas is charged at the simulated cost of each leg.
+ */
+export function executePaperArbitrage(
+  config: {
+    SOLANA_SOL_PRICE_USD: number;
+  },
+  opportunity: Opportunity,
+  simulation: ArbitrageSimulation,
+  marketStats: MarketStats,
+  ledger: PaperLedger
+): PaperTradeResult {
+  const solTokenDecimals = marketStats.solana.tokenDecimals;
+  const baseTokenDecimals = marketStats.base.tokenDecimals;
+
+  const venues = createOpportunityVenues(opportunity, config.SOLANA_SOL_PRICE_USD);
+  const { buy, sell } = selectTradeVenues(venues, opportunity);
+
+  const buyFill = fillOnVenue(buy, 'buy', getLegAmounts(opportunity, 'buy').tokenAmount, simulation.buySimulation?.gasCostUsd ?? 0);
+  const sellFill = fillOnVenue(sell, 'sell', getLegAmounts(opportunity, 'sell').tokenAmount, simulation.sellSimulation?.gasCostUsd ?? 0);
+
+  const balancesBefore = ledger.getBalances();
+  ledger.applyTrade(opportunity.direction, buyFill, sellFill, solTokenDecimals, baseTokenDecimals);
+
+  const costUsd = buyFill.quoteAmount * buy.quoteUsd;
+  const revenueUsd = sellFill.quoteAmount * sell.quoteUsd;
+  const gasCostUsd = buyFill.gasCostUsd + sellFill.gasCostUsd;
+  const profitUsd = revenueUsd - costUsd - gasCostUsd;
+
+  const result: PaperTradeResult = {
+    opportunityId: opportunity.id,
+    direction: opportunity.direction,
+    buyFill,
+    sellFill,
+    costUsd,
+    revenueUsd,
+    gasCostUsd,
+    profitUsd,
+    profitPercent: costUsd > 0 ? (profitUsd / costUsd) * 100 : 0,
+    simulatedProfitUsd: simulation.netProfitUsd,
+    balancesBefore,
+    balancesAfter: ledger.getBalances(),
+    timestamp: Date.now(),
+  };
+
+  ledger.record(result);
+  return result;
+}
+
+/**
+ * Fill one leg at the venue's quote for its snapshot
+ */
+function fillOnVenue(venue: Venue, type: TradeSide, tokenAmount: bigint, gasCostUsd: number): PaperFill {
+  const quoteAmount = Number(venue.quote(type, tokenAmount)) / (10 ** venue.quoteDecimals);
+  const tokens = Number(tokenAmount) / (10 ** venue.tokenDecimals);
+  return {
+    chain: venue.chain,
+    type,
+    tokenAmount,
+    quoteAmount,
+    quoteSymbol: venue.chain === 'solana' ? 'SOL' : 'USDC',
+    averagePrice: tokens > 0 ? quoteAmount / tokens : 0,
+    gasCostUsd,
+  };
+}
+
+// One ledger per pair (keyed by mint) so balances carry across analyses in the same process.
+// Token balances are per token, so pairs cannot share a ledger.
+const paperLedgers = new Map<string, PaperLedger>();
+
+export function getPaperLedger(config: {
+  SOLANA_TOKEN_MINT: string;
+  PAPER_SOL_BALANCE: number;
+  PAPER_SOLANA_TOKEN_BALANCE: number;
+  PAPER_ETH_BALANCE: number;
+  PAPER_USDC_BALANCE: number;
+  PAPER_BASE_TOKEN_BALANCE: number;
+}): PaperLedger {
+  let ledger = paperLedgers.get(config.SOLANA_TOKEN_MINT);
+  if (!ledger) {
+    ledger = new PaperLedger({
+      solana: {
+        sol: config.PAPER_SOL_BALANCE,
+        token: config.PAPER_SOLANA_TOKEN_BALANCE,
+      },
+      base: {
+        eth: config.PAPER_ETH_BALANCE,
+        usdc: config.PAPER_USDC_BALANCE,
+        token: config.PAPER_BASE_TOKEN_BALANCE,
+      },
+    });
+    paperLedgers.set(config.SOLANA_TOKEN_MINT, ledger);
+  }
+  return ledger;
+}
@@ -0,0 +1,601 @@
+/**
+ * Inventory Rebalancer
+ *
+ * Every arbitrage leaves tokens on the chain it bought on and quote on the chain
+ * it sold on, so after a few trades one side runs dry. The rebalancer compares
+ * both wallets' balances with a target split and bridges the surplus. Each
+ * transfer is persisted and walked through send → signed VAA (or Circle
+ * attestation) → redeem, across restarts, and while it is in flight the
+ * arbitrage direction that needs the bridged asset is paused.
+ *
+ * Tokens go over the Wormhole token bridge. Quote (SOL on Solana, USDC on Base)
+ * goes over Circle's CCTP as native USDC, with SOL swapped through Jupiter on
+ * the Solana side: before the burn when it leaves, after the mint when it
+ * arrives. Quote is only rebalanced when the pair's Base quote is Circle USDC,
+ * and since every pair shares the wallets' SOL and USDC, quote transfers are
+ * shared by all pairs.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Connection } from '@solana/web3.js';
+import { JsonRpcProvider, Wallet, formatUnits, parseUnits } from 'ethers';
+import { getKeyPairFromPrivateKey, waitForSignature } from '../solana/utils.js';
+import { buildJupiterSwap, getJupiterQuote, SOL_MINT, type JupiterQuote } from '../solana/jupiter.js';
+import { getTokenDecimals } from '../base/uniswap/router.js';
+import {
+  createWormholeBridge,
+  fetchCircleAttestation,
+  fetchTransferVaa,
+  formatMessageId,
+  getBridgeTokenId,
+  getCircleTransferMessage,
+  getCircleUsdcAddress,
+  getDestinationTokenAddress,
+  getTransferMessage,
+  redeemCircleTransfer,
+  redeemTransfer,
+  sendCircleTransfer,
+  sendTransfer,
+  type BridgeChain,
+  type BridgeMessageId,
+  type CircleMessage,
+  type WormholeBridge,
+} from '../bridge/wormholeBridge.js';
+import { fetchMarketData, PUMP_FUN_TOKEN_DECIMALS } from './marketFetcher.js';
+import { fetchWalletStats, type WalletStats } from './walletStats.js';
+import type { AppConfig } from '../config.js';
+import type { Opportunity } from './types.js';
+
+// How long one check waits for the source transaction's message
+const MESSAGE_TIMEOUT_MS = 30_000;
+
+// How long one check waits for the guardians (or Circle) to sign; unsigned transfers are retried next check
+const VAA_POLL_TIMEOUT_MS = 10_000;
+
+// Slippage of the SOL <-> USDC swaps around quote transfers
+const QUOTE_SWAP_SLIPPAGE_BPS = 50;
+
+// How long a sent swap is waited on before it is treated as never landing
+const SWAP_TIMEOUT_MS = 90_000;
+
+const SOL_DECIMALS = 9;
+const USDC_DECIMALS = 6;
+
+export type RebalanceAsset = 'token' | 'quote';
+
+/**
+ * `created` is saved before the source transaction is signed. A transfer left
+ * there may or may not have been sent, so it is never re-sent: it keeps its
+ * direction paused until the source hash is attached with `pnpm rebalance --attach`.
+ */
+export type RebalanceStatus = 'created' | 'sent' | 'signed' | 'redeemed' | 'failed';
+
+type Direction = Opportunity['direction'];
+
+/**
+ * A leg the inventory needs, before anything is sent
+ */
+export interface RebalanceLeg {
+  asset: RebalanceAsset;
+  from: BridgeChain;
+  to: BridgeChain;
+  uiAmount: number; // Source units: tokens, or SOL / USDC for quote
+  usdValue: number;
+  solanaShare: number; // Share of the asset (by USD value for quote) on Solana before the transfer
+}
+
+/**
+ * Persisted record of a bridge transfer. Amounts are raw source units stored as strings.
+ */
+export interface RebalanceTransfer {
+  id: string;
+  asset: RebalanceAsset;
+  solanaMint: string; // Pair the transfer was planned for
+  from: BridgeChain;
+  to: BridgeChain;
+  token: string; // Source token address (USDC for quote)
+  amount: string;
+  uiAmount: number;
+  usdValue: number;
+  status: RebalanceStatus;
+  sourceTxHash?: string;
+  message?: BridgeMessageId;
+  circleMessage?: CircleMessage; // Quote transfers
+  redeemTxHash?: string;
+  swapTxHash?: string; // Jupiter swap on Solana: SOL → USDC before the burn, USDC → SOL after the mint
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The arbitrage direction that needs `asset` on `to`: selling on a chain spends
+ * its tokens, buying spends its quote
+ */
+export function getDependentDirection(asset: RebalanceAsset, to: BridgeChain): Direction {
+  if (asset === 'quote') {
+    return to === 'solana' ? 'SOLANA_TO_BASE' : 'BASE_TO_SOLANA';
+  }
+  return to === 'solana' ? 'BASE_TO_SOLANA' : 'SOLANA_TO_BASE';
+}
+
+type RebalanceTargets = { targetSolanaShare: number; driftThreshold: number; minUsd: number };
+
+/**
+ * Direction and size (in the units of the balances) of the shift back to the
+ * target share, if it has drifted further than the threshold
+ */
+function planShift(
+  onSolana: number,
+  onBase: number,
+  targets: RebalanceTargets
+): { from: BridgeChain; to: BridgeChain; amount: number; share: number } | null {
+  const total = onSolana + onBase;
+  if (total <= 0) return null;
+
+  const share = onSolana / total;
+  const drift = Math.abs(share - targets.targetSolanaShare);
+  if (drift <= targets.driftThreshold) return null;
+
+  const from: BridgeChain = share > targets.targetSolanaShare ? 'solana' : 'base';
+  return { from, to: from === 'solana' ? 'base' : 'solana', amount: drift * total, share };
+}
+
+/**
+ * The legs that bring the token and the quote back to the target share on
+ * Solana, for each that has drifted further than the threshold and is worth
+ * at least minUsd. Quote compares SOL and USDC by USD value.
+ */
+export function planRebalance(
+  walletStats: WalletStats,
+  tokenPriceUsd: number,
+  targets: RebalanceTargets
+): RebalanceLeg[] {
+  const legs: RebalanceLeg[] = [];
+
+  const token = planShift(walletStats.solana.token, walletStats.base.token, targets);
+  if (token) {
+    legs.push({
+      asset: 'token',
+      from: token.from,
+      to: token.to,
+      uiAmount: token.amount,
+      usdValue: token.amount * tokenPriceUsd,
+      solanaShare: token.share,
+    });
+  }
+
+  const solPriceUsd = walletStats.solana.sol > 0 ? walletStats.solana.solUsd / walletStats.solana.sol : 0;
+  const quote = planShift(walletStats.solana.solUsd, walletStats.base.usdc, targets);
+  if (quote && solPriceUsd > 0) {
+    legs.push({
+      asset: 'quote',
+      from: quote.from,
+      to: quote.to,
+      uiAmount: quote.from === 'solana' ? quote.amount / solPriceUsd : quote.amount,
+      usdValue: quote.amount,
+      solanaShare: quote.share,
+    });
+  }
+
+  return legs.filter(leg => leg.usdValue >= targets.minUsd);
+}
+
+/**
+ * JSON file store for rebalance transfers
+ */
+export class RebalanceStore {
+  private readonly filePath: string;
+  private transfers: Map<string, RebalanceTransfer> = new Map();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as RebalanceTransfer[];
+      for (const transfer of data) {
+        this.transfers.set(transfer.id, transfer);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Failed to load rebalance transfers from ${this.filePath}:`, error);
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify([...this.transfers.values()], null, 2));
+  }
+
+  upsert(transfer: RebalanceTransfer): void {
+    transfer.updatedAt = Date.now();
+    this.transfers.set(transfer.id, transfer);
+    this.save();
+  }
+
+  getAll(): RebalanceTransfer[] {
+    return [...this.transfers.values()];
+  }
+
+  get(id: string): RebalanceTransfer | null {
+    return this.transfers.get(id) ?? null;
+  }
+
+  /**
+   * Created or sent and not yet redeemed, for one pair (its tokens and the shared quote) or all of them
+   */
+  getInFlight(solanaMint?: string): RebalanceTransfer[] {
+    return this.getAll().filter(t =>
+      (t.status === 'created' || t.status === 'sent' || t.status === 'signed')
+      && (!solanaMint || t.asset === 'quote' || t.solanaMint === solanaMint)
+    );
+  }
+
+  /**
+   * The in-flight transfer a pair's arbitrage direction is waiting for, if any
+   */
+  getPause(direction: Direction, solanaMint: string): RebalanceTransfer | null {
+    return this.getInFlight(solanaMint).find(t => getDependentDirection(t.asset, t.to) === direction) ?? null;
+  }
+}
+
+// Singleton store
+let rebalanceStore: RebalanceStore | null = null;
+
+// Check + send of every rebalancer in the process runs one at a time: pairs share the
+// store and the wallets, so two overlapping checks could bridge the same gap twice
+let rebalanceQueue: Promise<unknown> = Promise.resolve();
+
+function runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+  const run = rebalanceQueue.then(fn, fn);
+  rebalanceQueue = run.catch(() => undefined);
+  return run;
+}
+
+export function getRebalanceStore(filePath: string): RebalanceStore {
+  if (!rebalanceStore) {
+    rebalanceStore = new RebalanceStore(filePath);
+  }
+  return rebalanceStore;
+}
+
+/**
+ * Periodically rebalances one pair's inventory. Bridging only sends transactions
+ * in live mode; otherwise the legs it would send are logged.
+ */
+export class InventoryRebalancer {
+  private readonly config: AppConfig;
+  private readonly solanaConnection: Connection;
+  private readonly baseProvider: JsonRpcProvider;
+  private readonly store: RebalanceStore;
+  private readonly live: boolean;
+
+  private bridge: WormholeBridge | null = null;
+  private tokenBridgeable = false;
+  private readonly quoteBridgeable: boolean;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    config: AppConfig,
+    solanaConnection: Connection,
+    baseProvider: JsonRpcProvider,
+    store: RebalanceStore = getRebalanceStore(config.REBALANCE_STATE_FILE)
+  ) {
+    this.config = config;
+    this.solanaConnection = solanaConnection;
+    this.baseProvider = baseProvider;
+    this.store = store;
+    this.live = config.RUN_MODE === 'live' && config.ENABLE_LIVE_TRADING;
+    // CCTP only moves Circle USDC; other stablecoin quotes stay where they are
+    this.quoteBridgeable = config.BASE_USDC_ADDRESS.toLowerCase() === getCircleUsdcAddress('base').toLowerCase();
+  }
+
+  /**
+   * Connect to Wormhole (live mode), run a first check, then check every REBALANCE_CHECK_INTERVAL_MS
+   */
+  async start(): Promise<void> {
+    if (this.live) {
+      await this.connect();
+    }
+    await this.tick();
+    this.timer = setInterval(() => void this.tick(), this.config.REBALANCE_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Advance in-flight transfers, then start the legs the inventory needs.
+   * Returns the legs that were planned (sent in live mode, logged otherwise).
+   */
+  async tick(): Promise<RebalanceLeg[]> {
+    // A slow VAA fetch must not overlap the next interval
+    if (this.running) return [];
+    this.running = true;
+
+    try {
+      return await runExclusive(async () => {
+        for (const transfer of this.store.getInFlight(this.config.SOLANA_TOKEN_MINT)) {
+          await this.advance(transfer);
+        }
+
+        const legs = await this.check();
+        for (const leg of legs) {
+          await this.send(leg);
+        }
+        return legs;
+      });
+    } catch (error) {
+      console.error('❌ Rebalance check failed:', error);
+      return [];
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Create the bridge and confirm the Base token is the Wormhole-wrapped Solana mint
+   */
+  async connect(): Promise<WormholeBridge> {
+    if (this.bridge) return this.bridge;
+    this.bridge = await createWormholeBridge(this.config);
+
+    const wrapped = await getDestinationTokenAddress(
+      this.bridge,
+      'solana',
+      'base',
+      getBridgeTokenId('solana', this.config.SOLANA_TOKEN_MINT)
+    );
+    this.tokenBridgeable = wrapped.toLowerCase() === this.config.BASE_TOKEN_ADDRESS.toLowerCase();
+    if (!this.tokenBridgeable) {
+      console.warn(`⚠️  ${this.config.BASE_TOKEN_ADDRESS} is not the Wormhole-wrapped ${this.config.SOLANA_TOKEN_MINT} (${wrapped}); nothing will be rebalanced`);
+    }
+    return this.bridge;
+  }
+
+  /**
+   * Legs the pair needs now, minus those already in flight or still cooling down
+   */
+  private async check(): Promise<RebalanceLeg[]> {
+    if (!this.config.SOLANA_PRIVATE_KEY || !this.config.BASE_PRIVATE_KEY_HEX) {
+      console.warn('⚠️  Skipping rebalance check: SOLANA_PRIVATE_KEY and BASE_PRIVATE_KEY_HEX are needed to read both wallets');
+      return [];
+    }
+
+    const marketStats = await fetchMarketData(this.config, this.solanaConnection, this.baseProvider);
+    const walletStats = await fetchWalletStats(
+      this.config,
+      this.solanaConnection,
+      this.baseProvider,
+      getKeyPairFromPrivateKey(this.config.SOLANA_PRIVATE_KEY),
+      new Wallet(this.config.BASE_PRIVATE_KEY_HEX, this.baseProvider),
+      marketStats
+    );
+    if (!marketStats || !walletStats) {
+      console.warn('⚠️  Skipping rebalance check: market data or wallet balances unavailable');
+      return [];
+    }
+
+    const legs = planRebalance(
+      walletStats,
+      marketStats.solana.priceUsd,
+      {
+        targetSolanaShare: this.config.REBALANCE_TARGET_SOLANA_SHARE,
+        driftThreshold: this.config.REBALANCE_DRIFT_THRESHOLD,
+        minUsd: this.config.REBALANCE_MIN_USD,
+      }
+    );
+
+    const now = Date.now();
+    return legs.filter(leg => {
+      if (leg.asset === 'token' && this.live && !this.tokenBridgeable) return false;
+      if (leg.asset === 'quote' && !this.quoteBridgeable) return false;
+
+      // Quote transfers belong to every pair, token transfers to this one
+      const sameGap = (t: RebalanceTransfer) =>
+        t.asset === leg.asset && (leg.asset === 'quote' || t.solanaMint === this.config.SOLANA_TOKEN_MINT);
+
+      if (this.store.getInFlight(this.config.SOLANA_TOKEN_MINT).some(sameGap)) return false;
+      // Redeemed transfers can take a while to show up; don't bridge the same gap twice
+      return !this.store.getAll().some(t =>
+        sameGap(t)
+        && t.status === 'redeemed'
+        && now - t.updatedAt < this.config.REBALANCE_COOLDOWN_MS
+      );
+    });
+  }
+
+  private async send(leg: RebalanceLeg): Promise<void> {
+    const share = `${(leg.solanaShare * 100).toFixed(1)}% on Solana, target ${(this.config.REBALANCE_TARGET_SOLANA_SHARE * 100).toFixed(0)}%`;
+    const units = leg.asset === 'token' ? 'tokens' : leg.from === 'solana' ? 'SOL' : 'USDC';
+    const route = leg.asset === 'quote' ? ' as USDC over CCTP' : '';
+    const description = `${leg.uiAmount.toFixed(4)} ${units} ${leg.from} → ${leg.to}${route} ($${leg.usdValue.toFixed(2)}; ${share})`;
+
+    if (!this.live) {
+      console.log(`📝 Rebalance (paper, not sent): ${description}`);
+      return;
+    }
+
+    const bridge = await this.connect();
+    const { token, decimals } = await this.getSourceToken(leg);
+    // Quote leaves Solana as USDC: the SOL is swapped first and what the swap is sure to return is bridged
+    const swapQuote = leg.asset === 'quote' && leg.from === 'solana'
+      ? await getJupiterQuote(SOL_MINT, token, parseUnits(leg.uiAmount.toFixed(SOL_DECIMALS), SOL_DECIMALS), QUOTE_SWAP_SLIPPAGE_BPS)
+      : null;
+    const amount = swapQuote ? BigInt(swapQuote.otherAmountThreshold) : parseUnits(leg.uiAmount.toFixed(decimals), decimals);
+    const transfer: RebalanceTransfer = {
+      id: `reb_${Date.now()}`,
+      asset: leg.asset,
+      solanaMint: this.config.SOLANA_TOKEN_MINT,
+      from: leg.from,
+      to: leg.to,
+      token,
+      amount: amount.toString(),
+      uiAmount: Number(formatUnits(amount, decimals)),
+      usdValue: leg.usdValue,
+      status: 'created',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    // On record before anything is signed, so a crash mid-send leaves a trace
+    this.store.upsert(transfer);
+
+    console.log(`🌉 Bridging ${description}...`);
+    try {
+      if (swapQuote) {
+        await this.swapOnSolana(transfer, swapQuote);
+      }
+      transfer.sourceTxHash = leg.asset === 'quote'
+        ? await sendCircleTransfer(bridge, leg.from, leg.to, amount)
+        : await sendTransfer(bridge, leg.from, leg.to, getBridgeTokenId(leg.from, token), amount);
+      transfer.status = 'sent';
+      console.log(`   Sent: ${transfer.sourceTxHash}. ${getDependentDirection(leg.asset, leg.to)} paused until it is redeemed.`);
+    } catch (error: any) {
+      transfer.status = 'failed';
+      transfer.error = error.message;
+      const swapped = transfer.swapTxHash ? ` (the USDC from swap ${transfer.swapTxHash} stays on Solana)` : '';
+      console.error(`❌ Bridge transfer failed to send: ${error.message}${swapped}`);
+    }
+    this.store.upsert(transfer);
+  }
+
+  /**
+   * Move a transfer one step further: message → signed VAA (or Circle
+   * attestation) → redeemed, then for quote arriving on Solana, the swap back to SOL.
+   * Errors are recorded on the transfer and the step is retried next check.
+   */
+  private async advance(transfer: RebalanceTransfer): Promise<void> {
+    if (!this.live) {
+      return;
+    }
+    if (!transfer.sourceTxHash) {
+      console.warn(`⚠️  Rebalance ${transfer.id} has no source transaction on record. Check ${transfer.from} and attach it with: pnpm rebalance --attach ${transfer.id} <txHash>`);
+      return;
+    }
+
+    try {
+      const bridge = await this.connect();
+      const redeemed = transfer.asset === 'quote'
+        ? await this.advanceQuote(bridge, transfer, transfer.sourceTxHash)
+        : await this.advanceToken(bridge, transfer, transfer.sourceTxHash);
+      if (!redeemed) {
+        return;
+      }
+
+      transfer.status = 'redeemed';
+      transfer.error = undefined;
+      this.store.upsert(transfer);
+      console.log(`✅ Rebalance ${transfer.id} redeemed on ${transfer.to}${transfer.redeemTxHash ? `: ${transfer.redeemTxHash}` : ' (already redeemed)'}`);
+    } catch (error: any) {
+      transfer.error = error.message;
+      this.store.upsert(transfer);
+      console.warn(`⚠️  Rebalance ${transfer.id} stuck at ${transfer.status}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Token bridge steps. Returns true once the VAA is redeemed.
+   */
+  private async advanceToken(bridge: WormholeBridge, transfer: RebalanceTransfer, sourceTxHash: string): Promise<boolean> {
+    if (!transfer.message) {
+      transfer.message = await getTransferMessage(bridge, transfer.from, sourceTxHash, MESSAGE_TIMEOUT_MS);
+      this.store.upsert(transfer);
+    }
+
+    const vaa = await fetchTransferVaa(bridge, transfer.message, VAA_POLL_TIMEOUT_MS);
+    if (!vaa) {
+      console.log(`⏳ Rebalance ${transfer.id}: waiting for the guardians to sign ${formatMessageId(transfer.message)}`);
+      return false;
+    }
+    this.markSigned(transfer);
+
+    transfer.redeemTxHash = (await redeemTransfer(bridge, transfer.to, vaa)) ?? undefined;
+    return true;
+  }
+
+  /**
+   * CCTP steps, then the swap back to SOL when the USDC landed on Solana.
+   * Returns true once all of them are done.
+   */
+  private async advanceQuote(bridge: WormholeBridge, transfer: RebalanceTransfer, sourceTxHash: string): Promise<boolean> {
+    if (!transfer.circleMessage) {
+      transfer.circleMessage = await getCircleTransferMessage(bridge, transfer.from, sourceTxHash);
+      this.store.upsert(transfer);
+    }
+
+    const attestation = await fetchCircleAttestation(bridge, transfer.circleMessage, VAA_POLL_TIMEOUT_MS);
+    if (!attestation) {
+      console.log(`⏳ Rebalance ${transfer.id}: waiting for Circle to attest ${transfer.circleMessage.hash}`);
+      return false;
+    }
+    this.markSigned(transfer);
+
+    // Minting twice is refused on chain, so this is safe to repeat until the swap is done
+    const redeemTxHash = await redeemCircleTransfer(bridge, transfer.to, transfer.circleMessage, attestation);
+    if (redeemTxHash) {
+      transfer.redeemTxHash = redeemTxHash;
+      this.store.upsert(transfer);
+    }
+
+    if (transfer.to === 'solana') {
+      // A swap sent before a restart or a failed check may have landed
+      const landed = transfer.swapTxHash
+        && await waitForSignature(this.solanaConnection, transfer.swapTxHash, SWAP_TIMEOUT_MS) === 'confirmed';
+      if (!landed) {
+        const quote = await getJupiterQuote(getCircleUsdcAddress('solana'), SOL_MINT, BigInt(transfer.amount), QUOTE_SWAP_SLIPPAGE_BPS);
+        await this.swapOnSolana(transfer, quote);
+      }
+    }
+    return true;
+  }
+
+  private markSigned(transfer: RebalanceTransfer): void {
+    if (transfer.status === 'sent') {
+      transfer.status = 'signed';
+      this.store.upsert(transfer);
+    }
+  }
+
+  /**
+   * Sign, record, send and confirm a Jupiter swap on the Solana wallet. Throws
+   * unless it confirms; the record is cleared when it cannot land anymore.
+   */
+  private async swapOnSolana(transfer: RebalanceTransfer, quote: JupiterQuote): Promise<void> {
+    const { transaction, signature } = await buildJupiterSwap(quote, getKeyPairFromPrivateKey(this.config.SOLANA_PRIVATE_KEY));
+    // On record before it is sent, so a check after a crash looks for it instead of swapping again
+    transfer.swapTxHash = signature;
+    this.store.upsert(transfer);
+
+    console.log(`   Swapping ${quote.inAmount} ${quote.inputMint} → ${quote.outputMint} on Jupiter: ${signature}`);
+    await this.solanaConnection.sendRawTransaction(transaction.serialize(), { maxRetries: 3 });
+    const outcome = await waitForSignature(this.solanaConnection, signature, SWAP_TIMEOUT_MS);
+    if (outcome !== 'confirmed') {
+      transfer.swapTxHash = undefined;
+      this.store.upsert(transfer);
+      throw new Error(`Jupiter swap ${signature} ${outcome}`);
+    }
+  }
+
+  /**
+   * Address and decimals of the token the leg bridges from its source chain
+   */
+  private async getSourceToken(leg: RebalanceLeg): Promise<{ token: string; decimals: number }> {
+    if (leg.asset === 'quote') {
+      return { token: getCircleUsdcAddress(leg.from), decimals: USDC_DECIMALS };
+    }
+    return leg.from === 'solana'
+      ? { token: this.config.SOLANA_TOKEN_MINT, decimals: PUMP_FUN_TOKEN_DECIMALS }
+      : { token: this.config.BASE_TOKEN_ADDRESS, decimals: Number(await getTokenDecimals(this.baseProvider, this.config.BASE_TOKEN_ADDRESS)) };
+  }
+}
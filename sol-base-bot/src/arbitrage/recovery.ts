@@ -0,0 +1,430 @@
+/**
+ * Partial Execution Recovery
+ *
+ * When the buy leg of an arbitrage confirms but the sell leg fails, the bot is
+ * left holding an unhedged token position. This module saves that position,
+ * retries the sell with progressively wider slippage, and as a last resort
+ * unwinds the position on the chain it was bought on. Every attempt and the
+ * final outcome are persisted so the operator can see what inventory is left.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { buildSolanaSellInstructions } from '../solana/venue.js';
+import { createTransaction, sendAndConfirmTransactionWithPolling } from '../solana/pumpfun/transactions.js';
+import { waitForSignature } from '../solana/utils.js';
+import { simulateBaseSell, sellBaseTokens } from '../base/venue.js';
+import { resolveBaseDex } from '../base/uniswap/dexRegistry.js';
+import { getNotificationService } from '../monitoring/notifications.js';
+import { getPumpFunSellProceeds } from './ammMath.js';
+import { fetchSolanaReserves } from './marketFetcher.js';
+import type { ExecutionResult } from './types.js';
+
+
+export type RecoveryStatus = 'open' | 'recovered' | 'unwound' | 'stranded';
+
+// How long a sent Solana sell may still land: its blockhash stays valid for about 150 slots
+const PENDING_SELL_TIMEOUT_MS = 90_000;
+
+export interface RecoveryAttempt {
+  action: 'retry_sell' | 'unwind';
+  chain: 'solana' | 'base';
+  slippageBps: number;
+  txHash?: string;
+  error?: string;
+  timestamp: number;
+}
+
+/**
+ * Persisted record of a half-executed arbitrage.
+ * Token amounts are raw units stored as strings so the record survives JSON.
+ */
+export interface RecoveryPosition {
+  id: string;
+  opportunityId: string;
+  direction: 'SOLANA_TO_BASE' | 'BASE_TO_SOLANA';
+  buyChain: 'solana' | 'base';
+  sellChain: 'solana' | 'base';
+  buyTxHash: string;
+  buyTokenDecimals: number;
+  sellTokenDecimals: number;
+  boughtTokenAmount: string | null; // Held on buyChain; null when the buy fill could not be read back
+  sellTokenAmount: string; // Still to be sold on sellChain
+  expectedSellQuoteAmount: string; // Lamports or USDC units the sell leg was planned to receive
+  buyQuoteAmount: string | null; // Lamports or USDC units paid on the buy leg; null when unread
+  originalError: string;
+  status: RecoveryStatus;
+  attempts: RecoveryAttempt[];
+  resolutionTxHash?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RecoveryInventory {
+  solana: { unhedgedTokens: bigint; openPositions: number };
+  base: { unhedgedTokens: bigint; openPositions: number };
+}
+
+/**
+ * JSON file store for recovery positions
+ */
+export class RecoveryStore {
+  private readonly filePath: string;
+  private positions: Map<string, RecoveryPosition> = new Map();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as RecoveryPosition[];
+      for (const position of data) {
+        this.positions.set(position.id, position);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Failed to load recovery state from ${this.filePath}:`, error);
+    }
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify([...this.positions.values()], null, 2));
+  }
+
+  upsert(position: RecoveryPosition): void {
+    position.updatedAt = Date.now();
+    this.positions.set(position.id, position);
+    this.save();
+  }
+
+  getAll(): RecoveryPosition[] {
+    return [...this.positions.values()];
+  }
+
+  getUnresolved(): RecoveryPosition[] {
+    return this.getAll().filter(p => p.status === 'open' || p.status === 'stranded');
+  }
+
+  /**
+   * Tokens left unhedged on each chain by positions that were not recovered or unwound
+   */
+  getInventory(): RecoveryInventory {
+    const inventory: RecoveryInventory = {
+      solana: { unhedgedTokens: 0n, openPositions: 0 },
+      base: { unhedgedTokens: 0n, openPositions: 0 },
+    };
+    for (const position of this.getUnresolved()) {
+      inventory[position.buyChain].unhedgedTokens += BigInt(position.boughtTokenAmount ?? position.sellTokenAmount);
+      inventory[position.buyChain].openPositions++;
+    }
+    return inventory;
+  }
+}
+
+// Singleton store
+let recoveryStore: RecoveryStore | null = null;
+
+export function getRecoveryStore(filePath: string): RecoveryStore {
+  if (!recoveryStore) {
+    recoveryStore = new RecoveryStore(filePath);
+  }
+  return recoveryStore;
+}
+
+/**
+ * A result is partial when the buy leg confirmed and the sell leg did not
+ */
+export function isPartialExecution(result: ExecutionResult): boolean {
+  return !result.success && !!result.buyTxHash && !result.sellTxHash;
+}
+
+/**
+ * Signature of a Solana send that was not seen confirmed (a timeout or an
+ * on-chain failure), once it has landed after all; null once it cannot.
+ */
+async function getLateSignature(solanaConnection: Connection, error: unknown): Promise<string | null> {
+  const signature = (error as any)?.signature;
+  if (typeof signature !== 'string') {
+    return null;
+  }
+  console.log(`   ⏳ Checking whether ${signature} still lands before sending again...`);
+  const outcome = await waitForSignature(solanaConnection, signature, PENDING_SELL_TIMEOUT_MS);
+  console.log(`   ${signature}: ${outcome}`);
+  return outcome === 'confirmed' ? signature : null;
+}
+
+/**
+ * Wait for a sell that was sent but not seen confirmed before treating the
+ * execution as partial. If it lands, the result becomes a success whose sell
+ * amounts are unverified; if it fails or expires, the result stays partial.
+ */
+export async function settlePendingSell(result: ExecutionResult, solanaConnection: Connection): Promise<void> {
+  const signature = result.pendingSellTxHash;
+  if (!signature || result.plan.sellChain !== 'solana') {
+    return;
+  }
+
+  console.log(`⏳ Sell ${signature} was sent but not confirmed. Checking its status before recovery...`);
+  const outcome = await waitForSignature(solanaConnection, signature, PENDING_SELL_TIMEOUT_MS);
+  if (outcome === 'failed') {
+    console.log(`   Sell ${signature} failed on chain`);
+    return;
+  }
+  if (outcome === 'confirmed') {
+    console.log(`   ✅ Sell ${signature} confirmed late`);
+    result.sellTxHash = signature;
+    result.pendingSellTxHash = undefined;
+    result.success = true;
+    result.error = undefined;
+    result.actualSellAmount = null;
+    result.actualSellQuoteAmount = null;
+    result.actualSellRevenueUsd = null;
+    result.actualProfitUsd = null;
+    result.actualProfitPercent = null;
+    result.profitDeviationUsd = null;
+    result.warnings.push(`Sell ${signature} confirmed after the executor gave up on it; its fill amounts are unverified`);
+    return;
+  }
+  console.log(`   Sell ${signature} did not land within ${PENDING_SELL_TIMEOUT_MS / 1000}s`);
+}
+
+/**
+ * Slippage for each sell retry: one step above what the leg was sent with,
+ * widening to RECOVERY_MAX_SLIPPAGE_BPS. There is always at least one attempt.
+ */
+function getRetrySlippages(legSlippageBps: number, stepBps: number, maxSlippageBps: number): number[] {
+  const ladder: number[] = [];
+  for (let slippageBps = legSlippageBps + stepBps; slippageBps < maxSlippageBps; slippageBps += stepBps) {
+    ladder.push(slippageBps);
+  }
+  ladder.push(maxSlippageBps);
+  return ladder;
+}
+
+/**
+ * Sell tokens on Pump.fun (bonding curve or PumpSwap) with a minimum SOL output
+ * quoted from the reserves as they are now
+ */
+async function sellOnSolana(
+  config: { SOLANA_TOKEN_MINT: string; SOLANA_PRIORITY_FEE_SOL: number },
+  solanaConnection: Connection,
+  solanaKeypair: Keypair,
+  tokenAmount: bigint,
+  slippageBps: number
+): Promise<string> {
+  const reserves = await fetchSolanaReserves(config.SOLANA_TOKEN_MINT, solanaConnection, false);
+  const expectedLamports = getPumpFunSellProceeds(
+    reserves.virtualSolReserves,
+    reserves.virtualTokenReserves,
+    tokenAmount,
+    reserves.feeBps
+  );
+  const minSolOutput = (expectedLamports * BigInt(10000 - slippageBps)) / 10000n;
+  console.log(`   Min SOL output: ${(Number(minSolOutput) / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+
+  const instructions = await buildSolanaSellInstructions(
+    solanaConnection,
+    new PublicKey(config.SOLANA_TOKEN_MINT),
+    solanaKeypair.publicKey,
+    tokenAmount,
+    minSolOutput
+  );
+  const transaction = await createTransaction(
+    solanaConnection,
+    instructions,
+    solanaKeypair.publicKey,
+    config.SOLANA_PRIORITY_FEE_SOL
+  );
+  transaction.sign(solanaKeypair);
+  return sendAndConfirmTransactionWithPolling(solanaConnection, transaction, [solanaKeypair]);
+}
+
+/**
+ * Sell tokens for USDC on Uniswap V2 with a freshly quoted minimum output
+ */
+async function sellOnBase(
+  config: {
+    BASE_TOKEN_ADDRESS: string;
+    BASE_USDC_ADDRESS: string;
+    BASE_DEX: string;
+    BASE_DEX_REGISTRY: string;
+    BASE_V3_FEE_TIER: number;
+    BASE_SWAP_DEADLINE_SECONDS: number;
+  },
+  baseProvider: JsonRpcProvider,
+  baseWallet: Wallet,
+  tokenAmount: bigint,
+  slippageBps: number
+): Promise<string> {
+  const quote = await simulateBaseSell(
+    baseProvider,
+    resolveBaseDex(config),
+    config.BASE_USDC_ADDRESS,
+    config.BASE_TOKEN_ADDRESS,
+    tokenAmount,
+    baseWallet.address,
+    slippageBps,
+    config.BASE_SWAP_DEADLINE_SECONDS
+  );
+  const amountOutMin = (quote.amountOut * BigInt(10000 - slippageBps)) / 10000n;
+  const result = await sellBaseTokens(
+    baseWallet,
+    resolveBaseDex(config),
+    config.BASE_USDC_ADDRESS,
+    config.BASE_TOKEN_ADDRESS,
+    tokenAmount,
+    amountOutMin,
+    quote.deadline,
+    slippageBps
+  );
+  return result.transactionHash;
+}
+
+/**
+ * Recover a half-executed arbitrage.
+ *
+ * 1. Save the partial position.
+ * 2. Retry the sell leg, widening its slippage by RECOVERY_SLIPPAGE_STEP_BPS up to RECOVERY_MAX_SLIPPAGE_BPS.
+ * 3. If the sell side stays unfillable, sell the bought tokens back on the buy chain.
+ *
+ * A Solana send that was not seen confirmed may still land, and the wallet holds
+ * inventory on both chains for the next send to sell. So nothing more is sent
+ * until it has failed or expired; if it lands, it resolves the position.
+ */
+export async function recoverPartialExecution(
+  config: {
+    SOLANA_TOKEN_MINT: string;
+    BASE_TOKEN_ADDRESS: string;
+    BASE_USDC_ADDRESS: string;
+    BASE_DEX: string;
+    BASE_DEX_REGISTRY: string;
+    BASE_V3_FEE_TIER: number;
+    SOLANA_PRIORITY_FEE_SOL: number;
+    BASE_SWAP_DEADLINE_SECONDS: number;
+    RECOVERY_STATE_FILE: string;
+    RECOVERY_SLIPPAGE_STEP_BPS: number;
+    RECOVERY_MAX_SLIPPAGE_BPS: number;
+    RECOVERY_RETRY_DELAY_MS: number;
+    RECOVERY_UNWIND_ENABLED: boolean;
+  },
+  result: ExecutionResult,
+  solanaConnection: Connection,
+  baseProvider: JsonRpcProvider,
+  solanaKeypair: Keypair,
+  baseWallet: Wallet
+): Promise<RecoveryPosition> {
+  const store = getRecoveryStore(config.RECOVERY_STATE_FILE);
+  const notificationService = getNotificationService(true);
+  const { plan } = result;
+  const opportunity = plan.opportunity;
+
+  const position: RecoveryPosition = {
+    id: `rec_${Date.now()}`,
+    opportunityId: opportunity.id,
+    direction: opportunity.direction,
+    buyChain: plan.buyChain,
+    sellChain: plan.sellChain,
+    buyTxHash: result.buyTxHash!,
+    buyTokenDecimals: opportunity.liquidity[plan.buyChain].tokenDecimals,
+    sellTokenDecimals: opportunity.liquidity[plan.sellChain].tokenDecimals,
+    boughtTokenAmount: result.actualBuyAmount?.toString() ?? null,
+    sellTokenAmount: plan.sellTransaction.amountIn.toString(),
+    expectedSellQuoteAmount: plan.sellTransaction.amountOut.toString(),
+    buyQuoteAmount: result.actualBuyQuoteAmount?.toString() ?? null,
+    originalError: result.error || 'Sell leg failed',
+    status: 'open',
+    attempts: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+  store.upsert(position);
+
+  await notificationService.notifyCriticalRecovery(position, 'Sell leg failed after buy confirmed. Starting recovery.');
+
+  const recordAttempt = (attempt: RecoveryAttempt) => {
+    position.attempts.push(attempt);
+    store.upsert(position);
+  };
+
+  // Step 2: retry the sell leg with widening slippage
+  const sellTokenAmount = BigInt(position.sellTokenAmount);
+  const retrySlippages = getRetrySlippages(
+    plan.sellTransaction.slippageBps,
+    config.RECOVERY_SLIPPAGE_STEP_BPS,
+    config.RECOVERY_MAX_SLIPPAGE_BPS
+  );
+  for (const slippageBps of retrySlippages) {
+    await new Promise(resolve => setTimeout(resolve, config.RECOVERY_RETRY_DELAY_MS));
+    console.log(`🔁 Recovery: retrying ${position.sellChain} sell with ${slippageBps} bps slippage...`);
+
+    let txHash: string | null;
+    try {
+      txHash = position.sellChain === 'base'
+        ? await sellOnBase(config, baseProvider, baseWallet, sellTokenAmount, slippageBps)
+        : await sellOnSolana(config, solanaConnection, solanaKeypair, sellTokenAmount, slippageBps);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`   ⚠️  Recovery sell failed: ${message}`);
+      txHash = position.sellChain === 'solana' ? await getLateSignature(solanaConnection, error) : null;
+      if (!txHash) {
+        recordAttempt({ action: 'retry_sell', chain: position.sellChain, slippageBps, error: message, timestamp: Date.now() });
+        continue;
+      }
+    }
+
+    recordAttempt({ action: 'retry_sell', chain: position.sellChain, slippageBps, txHash, timestamp: Date.now() });
+    position.status = 'recovered';
+    position.resolutionTxHash = txHash;
+    store.upsert(position);
+    await notificationService.notifyCriticalRecovery(position, `Sell leg recovered at ${slippageBps} bps slippage.`);
+    return position;
+  }
+
+  // Step 3: unwind on the buy chain
+  if (config.RECOVERY_UNWIND_ENABLED) {
+    const slippageBps = config.RECOVERY_MAX_SLIPPAGE_BPS;
+    const boughtTokenAmount = BigInt(position.boughtTokenAmount ?? position.sellTokenAmount);
+    console.log(`↩️  Recovery: unwinding ${position.buyChain} position with ${slippageBps} bps slippage...`);
+    if (position.boughtTokenAmount === null) {
+      console.warn(`   ⚠️  Buy fill unverified, unwinding the planned ${position.sellTokenAmount} tokens`);
+    }
+
+    let txHash: string | null;
+    try {
+      txHash = position.buyChain === 'solana'
+        ? await sellOnSolana(config, solanaConnection, solanaKeypair, boughtTokenAmount, slippageBps)
+        : await sellOnBase(config, baseProvider, baseWallet, boughtTokenAmount, slippageBps);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`   ⚠️  Unwind failed: ${message}`);
+      txHash = position.buyChain === 'solana' ? await getLateSignature(solanaConnection, error) : null;
+      if (!txHash) {
+        recordAttempt({ action: 'unwind', chain: position.buyChain, slippageBps, error: message, timestamp: Date.now() });
+      }
+    }
+
+    if (txHash) {
+      recordAttempt({ action: 'unwind', chain: position.buyChain, slippageBps, txHash, timestamp: Date.now() });
+      position.status = 'unwound';
+      position.resolutionTxHash = txHash;
+      store.upsert(position);
+      await notificationService.notifyCriticalRecovery(position, `Position unwound on ${position.buyChain}.`);
+      return position;
+    }
+  }
+
+  position.status = 'stranded';
+  store.upsert(position);
+  await notificationService.notifyCriticalRecovery(
+    position,
+    'Recovery exhausted. Position is unhedged and needs manual intervention.'
+  );
+  return position;
+}
@@ -0,0 +1,126 @@
+/**
+ * Opportunity Re-validation
+ *
+ * Between analysis and execution there can be several seconds of RPC calls
+ * (wallet balances, simulation on both chains). Right before the first leg is
+ * sent, re-read both pools and recompute the equilibrium size and profit so we
+ * never execute on an edge that has already closed.
+ */
+
+import { Connection, Keypair } from '@solana/web3.js';
+import { JsonRpcProvider } from 'ethers';
+import { fetchMarketData, type MarketStats } from './marketFetcher.js';
+import { analyzeOpportunity } from './opportunityAnalyzer.js';
+import type { WalletStats } from './walletStats.js';
+import type { Opportunity } from './types.js';
+
+export interface RevalidationResult {
+  action: 'proceed' | 'resize' | 'abort';
+  opportunity: Opportunity; // Opportunity to execute (resized on 'resize', marked stale on 'abort')
+  marketStats: MarketStats | null; // Fresh market data, if the pools were re-read
+  reason: string;
+  ageMs: number;
+}
+
+/**
+ * Re-validate an opportunity right before execution.
+ *
+ * - Aborts if the opportunity is older than STALE_OPPORTUNITY_TIMEOUT_MS.
+ * - Skips the re-read if re-validation is disabled and prices are younger than PRICE_STALENESS_THRESHOLD_MS,
+ *   unless `requireReread` is set (prices came from event-driven state, not RPC).
+ * - Otherwise re-reads both pools and re-runs the analyzer:
+ *   - no opportunity / direction flipped → abort
+ *   - smaller equilibrium size → resize
+ *   - otherwise → proceed with the original size
+ */
+export async function revalidateOpportunity(
+  config: {
+    SOLANA_TOKEN_MINT: string;
+    BASE_TOKEN_ADDRESS: string;
+    BASE_USDC_ADDRESS: string;
+    BASE_DEX: string;
+    BASE_DEX_REGISTRY: string;
+    BASE_V3_FEE_TIER: number;
+    SOLANA_SOL_PRICE_USD: number;
+    BASE_ETH_PRICE_USD: number;
+    PUMPFUN_API_FALLBACK: boolean;
+    MIN_PROFIT_THRESHOLD: number;
+    TRADE_SIZE_USD: number;
+    MAX_PRICE_IMPACT_PERCENT: number;
+    ESTIMATED_GAS_COST_USD: number;
+    REVALIDATE_BEFORE_EXECUTE: boolean;
+    STALE_OPPORTUNITY_TIMEOUT_MS: number;
+    PRICE_STALENESS_THRESHOLD_MS: number;
+  },
+  opportunity: Opportunity,
+  walletStats: WalletStats | null,
+  solanaConnection: Connection,
+  baseProvider: JsonRpcProvider,
+  solanaKeypair: Keypair | null,
+  requireReread: boolean = false
+): Promise<RevalidationResult> {
+  const now = Date.now();
+  const ageMs = now - opportunity.detectedAt;
+
+  const abort = (reason: string, marketStats: MarketStats | null = null): RevalidationResult => {
+    opportunity.stale = true;
+    return { action: 'abort', opportunity, marketStats, reason, ageMs };
+  };
+
+  if (ageMs > config.STALE_OPPORTUNITY_TIMEOUT_MS) {
+    return abort(`Opportunity is ${ageMs}ms old (timeout ${config.STALE_OPPORTUNITY_TIMEOUT_MS}ms)`);
+  }
+
+  const priceAgeMs = now - Math.min(opportunity.solanaPrice.timestamp, opportunity.basePrice.timestamp);
+  if (!requireReread && !config.REVALIDATE_BEFORE_EXECUTE && priceAgeMs <= config.PRICE_STALENESS_THRESHOLD_MS) {
+    return { action: 'proceed', opportunity, marketStats: null, reason: `Prices are ${priceAgeMs}ms old`, ageMs };
+  }
+
+  console.log(`🔄 Re-validating opportunity ${opportunity.id} (age ${ageMs}ms, prices ${priceAgeMs}ms old)...`);
+
+  const marketStats = await fetchMarketData(config, solanaConnection, baseProvider, solanaKeypair);
+  if (!marketStats) {
+    return abort('Failed to re-read market data');
+  }
+
+  const fresh = await analyzeOpportunity(config, marketStats, walletStats);
+  if (!fresh) {
+    return abort(`Edge closed: profit is now below MIN_PROFIT_THRESHOLD (${(config.MIN_PROFIT_THRESHOLD * 100).toFixed(2)}%)`, marketStats);
+  }
+
+  if (fresh.direction !== opportunity.direction) {
+    return abort(`Direction flipped from ${opportunity.direction} to ${fresh.direction}`, marketStats);
+  }
+
+  if (fresh.optimalTradeSize.solana.tokenAmount < opportunity.optimalTradeSize.solana.tokenAmount) {
+    const resized: Opportunity = {
+      ...fresh,
+      id: opportunity.id,
+      detectedAt: opportunity.detectedAt,
+    };
+    const from = Number(opportunity.optimalTradeSize.solana.tokenAmount) / (10 ** marketStats.solana.tokenDecimals);
+    const to = Number(fresh.optimalTradeSize.solana.tokenAmount) / (10 ** marketStats.solana.tokenDecimals);
+    return {
+      action: 'resize',
+      opportunity: resized,
+      marketStats,
+      reason: `Equilibrium size shrank from ${from.toFixed(2)} to ${to.toFixed(2)} tokens (profit $${opportunity.estimatedProfitUsd.toFixed(4)} → $${fresh.estimatedProfitUsd.toFixed(4)})`,
+      ageMs,
+    };
+  }
+
+  // Edge still holds at the simulated size; keep the size we simulated, refresh prices
+  return {
+    action: 'proceed',
+    opportunity: {
+      ...opportunity,
+      solanaPrice: fresh.solanaPrice,
+      basePrice: fresh.basePrice,
+      priceDifferencePercent: fresh.priceDifferencePercent,
+      liquidity: fresh.liquidity,
+    },
+    marketStats,
+    reason: `Edge holds (${fresh.priceDifferencePercent.toFixed(2)}% spread, est. profit $${fresh.estimatedProfitUsd.toFixed(4)})`,
+    ageMs,
+  };
+}
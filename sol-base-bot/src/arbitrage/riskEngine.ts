@@ -0,0 +1,271 @@
+/**
+ * Risk Engine
+ *
+ * Sits between simulation and execution and enforces the ArbitrageConfig limits:
+ * profit floors, trade size, price impact, pool liquidity, concurrency, a daily
+ * loss limit, per-chain token inventory caps and a cool-off after consecutive
+ * failed executions. Every failed check is returned as a structured rejection.
+ */
+
+import { getPumpFunPriceImpact, getUniswapV2PriceImpact, getUniswapV3PriceImpact } from './ammMath.js';
+import type { MarketStats } from './marketFetcher.js';
+import type {
+  ArbitrageConfig,
+  ArbitrageSimulation,
+  Balances,
+  Opportunity,
+  RiskAssessment,
+  RiskRejection,
+} from './types.js';
+
+export interface RiskState {
+  activeTrades: number;
+  consecutiveFailures: number;
+  cooloffUntil: number | null;
+  tradingDay: string; // UTC date the PnL below belongs to
+  dailyRealizedPnlUsd: number;
+  limits: ArbitrageConfig;
+}
+
+/**
+ * Map the flat env config onto ArbitrageConfig
+ */
+export function buildArbitrageConfig(config: {
+  MIN_PROFIT_THRESHOLD: number;
+  MIN_PROFIT_USD: number;
+  TRADE_SIZE_USD: number;
+  MAX_PRICE_IMPACT_PERCENT: number;
+  BASE_SWAP_SLIPPAGE_BPS: number;
+  BASE_SWAP_DEADLINE_SECONDS: number;
+  REVALIDATE_BEFORE_EXECUTE: boolean;
+  STALE_OPPORTUNITY_TIMEOUT_MS: number;
+  PRICE_STALENESS_THRESHOLD_MS: number;
+  GAS_MULTIPLIER: number;
+  EVENT_DEBOUNCE_MS: number;
+  MAX_CONCURRENT_TRADES: number;
+  MIN_LIQUIDITY_USD: number;
+  DAILY_LOSS_LIMIT_USD: number;
+  MAX_SOLANA_INVENTORY_USD: number;
+  MAX_BASE_INVENTORY_USD: number;
+  MAX_CONSECUTIVE_FAILURES: number;
+  FAILURE_COOLOFF_MS: number;
+}): ArbitrageConfig {
+  return {
+    minProfitPercent: config.MIN_PROFIT_THRESHOLD * 100,
+    minProfitUsd: config.MIN_PROFIT_USD,
+    maxTradeSizeUsd: config.TRADE_SIZE_USD,
+    maxPriceImpact: config.MAX_PRICE_IMPACT_PERCENT,
+    slippageTolerance: config.BASE_SWAP_SLIPPAGE_BPS / 10000,
+    revalidateBeforeExecute: config.REVALIDATE_BEFORE_EXECUTE,
+    staleOpportunityTimeout: config.STALE_OPPORTUNITY_TIMEOUT_MS,
+    executionTimeout: config.BASE_SWAP_DEADLINE_SECONDS * 1000,
+    priceStalenessThreshold: config.PRICE_STALENESS_THRESHOLD_MS,
+    gasMultiplier: config.GAS_MULTIPLIER,
+    priorityFeeMultiplier: 1, // Solana priority fee is a flat SOLANA_PRIORITY_FEE_SOL
+    eventDebounceMs: config.EVENT_DEBOUNCE_MS,
+    maxConcurrentTrades: config.MAX_CONCURRENT_TRADES,
+    minLiquidityUsd: config.MIN_LIQUIDITY_USD,
+    maxPriceImpactForTrade: config.MAX_PRICE_IMPACT_PERCENT,
+    dailyLossLimitUsd: config.DAILY_LOSS_LIMIT_USD,
+    maxInventoryUsd: {
+      solana: config.MAX_SOLANA_INVENTORY_USD,
+      base: config.MAX_BASE_INVENTORY_USD,
+    },
+    maxConsecutiveFailures: config.MAX_CONSECUTIVE_FAILURES,
+    failureCooloffMs: config.FAILURE_COOLOFF_MS,
+  };
+}
+
+/**
+ * Price impact (%) of both legs at the opportunity's size, against the reserves it was priced on
+ */
+export function getLegPriceImpacts(opportunity: Opportunity): { buy: number; sell: number } {
+  const { virtualSolReserves, virtualTokenReserves } = opportunity.liquidity.solana;
+  const { usdcReserves, tokenReserves, v3 } = opportunity.liquidity.base;
+  const solanaTokens = opportunity.optimalTradeSize.solana.tokenAmount;
+  const baseTokens = opportunity.optimalTradeSize.base.tokenAmount;
+  const baseImpact = (isBuy: boolean) => v3
+    ? getUniswapV3PriceImpact(v3, baseTokens, isBuy)
+    : getUniswapV2PriceImpact(usdcReserves, tokenReserves, baseTokens, isBuy);
+
+  if (opportunity.direction === 'SOLANA_TO_BASE') {
+    return {
+      buy: getPumpFunPriceImpact(virtualSolReserves, virtualTokenReserves, solanaTokens, true),
+      sell: baseImpact(false),
+    };
+  }
+
+  return {
+    buy: baseImpact(true),
+    sell: getPumpFunPriceImpact(virtualSolReserves, virtualTokenReserves, solanaTokens, false),
+  };
+}
+
+function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+export class RiskEngine {
+  private readonly limits: ArbitrageConfig;
+  private activeTrades = 0;
+  private consecutiveFailures = 0;
+  private cooloffUntil: number | null = null;
+  private tradingDay = utcDay(Date.now());
+  private dailyRealizedPnlUsd = 0;
+
+  constructor(limits: ArbitrageConfig) {
+    this.limits = limits;
+  }
+
+  /**
+   * Check a simulated opportunity against every limit. Rejections are cumulative,
+   * so the caller sees all the reasons a trade was blocked, not just the first.
+   */
+  assess(
+    opportunity: Opportunity,
+    simulation: ArbitrageSimulation,
+    marketStats: MarketStats,
+    balances: Balances | null
+  ): RiskAssessment {
+    const now = Date.now();
+    this.rollTradingDay(now);
+
+    const limits = this.limits;
+    const rejections: RiskRejection[] = [];
+    const reject = (code: RiskRejection['code'], message: string, limit: number, actual: number) => {
+      rejections.push({ code, message, limit, actual });
+    };
+
+    // Profit floors (net of gas, as simulated)
+    if (simulation.netProfitUsd < limits.minProfitUsd) {
+      reject('MIN_PROFIT_USD', `Net profit $${simulation.netProfitUsd.toFixed(4)} is below $${limits.minProfitUsd.toFixed(2)}`, limits.minProfitUsd, simulation.netProfitUsd);
+    }
+    if (simulation.netProfitPercent < limits.minProfitPercent) {
+      reject('MIN_PROFIT_PERCENT', `Net profit ${simulation.netProfitPercent.toFixed(2)}% is below ${limits.minProfitPercent.toFixed(2)}%`, limits.minProfitPercent, simulation.netProfitPercent);
+    }
+
+    // Trade size (buy leg notional). The analyzer sizes against an average price, so allow 1% for rounding.
+    const solPriceUsd = marketStats.solana.price > 0 ? marketStats.solana.priceUsd / marketStats.solana.price : 0;
+    const tradeSizeUsd = opportunity.direction === 'SOLANA_TO_BASE'
+      ? opportunity.optimalTradeSize.solana.solAmount * solPriceUsd
+      : opportunity.optimalTradeSize.base.usdcAmount;
+    if (tradeSizeUsd > limits.maxTradeSizeUsd * 1.01) {
+      reject('MAX_TRADE_SIZE', `Trade size $${tradeSizeUsd.toFixed(2)} exceeds $${limits.maxTradeSizeUsd.toFixed(2)}`, limits.maxTradeSizeUsd, tradeSizeUsd);
+    }
+
+    // Price impact per leg
+    const priceImpact = getLegPriceImpacts(opportunity);
+    for (const [leg, impact] of Object.entries(priceImpact)) {
+      if (impact > limits.maxPriceImpact) {
+        reject('MAX_PRICE_IMPACT', `${leg === 'buy' ? 'Buy' : 'Sell'} leg price impact ${impact.toFixed(2)}% exceeds ${limits.maxPriceImpact.toFixed(2)}%`, limits.maxPriceImpact, impact);
+      }
+    }
+
+    // Pool depth on both venues
+    for (const chain of ['solana', 'base'] as const) {
+      const liquidityUsd = marketStats[chain].liquidityUsd;
+      if (liquidityUsd < limits.minLiquidityUsd) {
+        reject('MIN_LIQUIDITY', `${chain === 'solana' ? 'Solana' : 'Base'} pool liquidity $${liquidityUsd.toFixed(2)} is below $${limits.minLiquidityUsd.toFixed(2)}`, limits.minLiquidityUsd, liquidityUsd);
+      }
+    }
+
+    if (this.activeTrades >= limits.maxConcurrentTrades) {
+      reject('MAX_CONCURRENT_TRADES', `${this.activeTrades} trade(s) already in flight (max ${limits.maxConcurrentTrades})`, limits.maxConcurrentTrades, this.activeTrades);
+    }
+
+    if (limits.dailyLossLimitUsd > 0 && -this.dailyRealizedPnlUsd >= limits.dailyLossLimitUsd) {
+      reject('DAILY_LOSS_LIMIT', `Realized loss today $${(-this.dailyRealizedPnlUsd).toFixed(2)} has reached the $${limits.dailyLossLimitUsd.toFixed(2)} limit`, limits.dailyLossLimitUsd, -this.dailyRealizedPnlUsd);
+    }
+
+    // Token inventory accumulates on the chain we buy on
+    if (balances) {
+      const buyChain = opportunity.direction === 'SOLANA_TO_BASE' ? 'solana' : 'base';
+      const maxInventoryUsd = limits.maxInventoryUsd[buyChain];
+      if (maxInventoryUsd > 0) {
+        const decimals = buyChain === 'solana' ? marketStats.solana.tokenDecimals : marketStats.base.tokenDecimals;
+        const tokensBought = Number(opportunity.optimalTradeSize[buyChain].tokenAmount) / (10 ** decimals);
+        const inventoryUsd = (balances[buyChain].token + tokensBought) * marketStats[buyChain].priceUsd;
+        if (inventoryUsd > maxInventoryUsd) {
+          reject('MAX_INVENTORY', `${buyChain === 'solana' ? 'Solana' : 'Base'} token inventory would reach $${inventoryUsd.toFixed(2)} (max $${maxInventoryUsd.toFixed(2)})`, maxInventoryUsd, inventoryUsd);
+        }
+      }
+    }
+
+    if (this.cooloffUntil !== null && now < this.cooloffUntil) {
+      const remainingMs = this.cooloffUntil - now;
+      reject('FAILURE_COOLOFF', `Cooling off after ${this.consecutiveFailures} consecutive failures (${Math.ceil(remainingMs / 1000)}s left)`, limits.maxConsecutiveFailures, this.consecutiveFailures);
+    }
+
+    return {
+      opportunityId: opportunity.id,
+      approved: rejections.length === 0,
+      rejections,
+      priceImpact,
+      tradeSizeUsd,
+      checkedAt: now,
+    };
+  }
+
+  /**
+   * Mark a trade as in flight. Pair with endTrade().
+   */
+  beginTrade(): void {
+    this.activeTrades++;
+  }
+
+  /**
+   * Book the outcome of a trade started with beginTrade()
+   */
+  endTrade(outcome: { success: boolean; profitUsd: number }): void {
+    const now = Date.now();
+    this.rollTradingDay(now);
+
+    this.activeTrades = Math.max(0, this.activeTrades - 1);
+    this.dailyRealizedPnlUsd += outcome.profitUsd;
+
+    if (outcome.success) {
+      this.consecutiveFailures = 0;
+      this.cooloffUntil = null;
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.limits.maxConsecutiveFailures > 0 && this.consecutiveFailures >= this.limits.maxConsecutiveFailures) {
+      this.cooloffUntil = now + this.limits.failureCooloffMs;
+      console.warn(`🧊 ${this.consecutiveFailures} consecutive failed executions. Pausing trading for ${this.limits.failureCooloffMs / 1000}s.`);
+    }
+  }
+
+  getState(): RiskState {
+    this.rollTradingDay(Date.now());
+    return {
+      activeTrades: this.activeTrades,
+      consecutiveFailures: this.consecutiveFailures,
+      cooloffUntil: this.cooloffUntil,
+      tradingDay: this.tradingDay,
+      dailyRealizedPnlUsd: this.dailyRealizedPnlUsd,
+      limits: this.limits,
+    };
+  }
+
+  /**
+   * Reset the daily PnL at UTC midnight
+   */
+  private rollTradingDay(now: number): void {
+    const day = utcDay(now);
+    if (day !== this.tradingDay) {
+      this.tradingDay = day;
+      this.dailyRealizedPnlUsd = 0;
+    }
+  }
+}
+
+// Singleton so limits and counters are shared across analyses in the same process
+let riskEngine: RiskEngine | null = null;
+
+export function getRiskEngine(config: Parameters<typeof buildArbitrageConfig>[0]): RiskEngine {
+  if (!riskEngine) {
+    riskEngine = new RiskEngine(buildArbitrageConfig(config));
+  }
+  return riskEngine;
+}
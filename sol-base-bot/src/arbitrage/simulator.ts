@@ -1,31 +1,32 @@
-import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { Connection, Keypair } from '@solana/web3.js';
 import { JsonRpcProvider, Wallet } from 'ethers';
-import { createPumpFunProgram } from '../solana/pumpfun/anchor.js';
-import { buildBuyInstruction, buildSellInstruction } from '../solana/pumpfun/instructions.js';
-import { createTransaction, simulateTransaction } from '../solana/pumpfun/transactions.js';
+import { getUsdPrices } from '../utils/priceFetcher.js';
 import {
-  simulateBuyTokensWithUsdc,
-  simulateSellTokensForUsdc,
-  getTokenDecimals,
-} from '../base/uniswap/router.js';
-import { getPriceFetcher } from '../utils/priceFetcher.js';
+  createOpportunityVenues,
+  getVenueChainAccess,
+  getLegAmounts,
+  selectTradeVenues,
+} from './venues/marketVenues.js';
 import type { Opportunity, ArbitrageSimulation, SimulationResult } from './types.js';
 
 /**
- * Simulate arbitrage transactions on both chains
+ * Simulate both legs of an opportunity on the venues it buys and sells on
  */
 export async function simulateArbitrage(
   config: {
     SOLANA_TOKEN_MINT: string;
     BASE_TOKEN_ADDRESS: string;
     BASE_USDC_ADDRESS: string;
-    UNISWAP_V2_ROUTER02_ADDRESS: string;
+    BASE_DEX: string;
+    BASE_DEX_REGISTRY: string;
+    BASE_V3_FEE_TIER: number;
     SOLANA_SOL_PRICE_USD: number;
     SOLANA_PRIORITY_FEE_SOL: number;
     BASE_SWAP_SLIPPAGE_BPS: number;
     BASE_SWAP_DEADLINE_SECONDS: number;
     MIN_PROFIT_THRESHOLD: number;
-    COINMARKETCAP_API_KEY: string;
+    GAS_MULTIPLIER: number;
+    BASE_ETH_PRICE_USD: number;
   },
   opportunity: Opportunity,
   solanaConnection: Connection,
@@ -34,201 +35,36 @@ export async function simulateArbitrage(
   baseWallet: Wallet | null
 ): Promise<ArbitrageSimulation | null> {
   try {
-    // Get prices from CoinMarketCap if available, otherwise use fallback
-    let ethPrice = 3300; // Default fallback
-    let solPrice = config.SOLANA_SOL_PRICE_USD; // Default fallback
-    if (config.COINMARKETCAP_API_KEY) {
-      try {
-        const priceFetcher = getPriceFetcher();
-        const prices = await priceFetcher.getPrices();
-        ethPrice = prices.eth;
-        solPrice = prices.sol;
-      } catch (error) {
-        console.warn('⚠️  Failed to fetch prices, using fallback:', error);
-      }
-    }
+    // Aggregated live prices, or the configured static ones
+    const { sol: solPrice, eth: ethPrice } = await getUsdPrices(config);
+
+    const venues = createOpportunityVenues(
+      opportunity,
+      solPrice,
+      getVenueChainAccess(config, solanaConnection, baseProvider, solanaKeypair, baseWallet, ethPrice)
+    );
+    const { buy, sell } = selectTradeVenues(venues, opportunity);
 
     let buySimulation: SimulationResult | null = null;
     let sellSimulation: SimulationResult | null = null;
     let buyError: string | null = null;
     let sellError: string | null = null;
 
-    if (opportunity.direction === 'SOLANA_TO_BASE') {
-      // Buy on Solana, sell on Base
-      if (solanaKeypair) {
-        const program = createPumpFunProgram(solanaConnection, solanaKeypair);
-        const mint = new PublicKey(config.SOLANA_TOKEN_MINT);
-        const tokenAmount = opportunity.optimalTradeSize.solana.tokenAmount;
-        // Try with 20% slippage buffer initially
-        const baseSolCost = opportunity.optimalTradeSize.solana.solAmount * LAMPORTS_PER_SOL;
-        const maxSolCost = BigInt(Math.floor(baseSolCost * 1.20));
-
-        console.log(`   🔄 Attempting Solana buy with 20% slippage buffer (${(opportunity.optimalTradeSize.solana.solAmount * 1.20).toFixed(6)} SOL max)`);
-
-        const instruction = await buildBuyInstruction(
-          program,
-          solanaConnection,
-          mint,
-          solanaKeypair.publicKey,
-          tokenAmount,
-          maxSolCost,
-          false
-        );
-
-        const transaction = await createTransaction(
-          solanaConnection,
-          [instruction],
-          solanaKeypair.publicKey,
-          config.SOLANA_PRIORITY_FEE_SOL
-        );
-        transaction.sign(solanaKeypair);
-
-        const simResult = await simulateTransaction(solanaConnection, transaction, solanaKeypair);
-
-        if (!simResult.value.err) {
-          const actualSolCost = Number(maxSolCost) / LAMPORTS_PER_SOL;
-          buySimulation = {
-            chain: 'solana',
-            type: 'buy',
-            inputAmount: maxSolCost,
-            outputAmount: tokenAmount,
-            inputAmountFormatted: actualSolCost,
-            outputAmountFormatted: Number(tokenAmount) / 1e6, // Use actual decimals (6 for PumpFun)
-            priceImpact: 20,
-            gasEstimate: BigInt(simResult.value.unitsConsumed || 0),
-            gasCostUsd: (actualSolCost * solPrice * 0.01),
-            slippage: 20,
-            success: true,
-          };
-          console.log(`   ✅ Solana buy simulation succeeded with 20% slippage`);
-        } else {
-          buyError = `Solana buy simulation failed: ${JSON.stringify(simResult.value.err)}`;
-          console.error(`❌ ${buyError}`);
-        }
-      }
-
-      if (baseWallet) {
-        try {
-          const tokenAmount = opportunity.optimalTradeSize.base.tokenAmount;
-          const sellSim = await simulateSellTokensForUsdc(
-            baseProvider,
-            config.UNISWAP_V2_ROUTER02_ADDRESS,
-            config.BASE_USDC_ADDRESS,
-            config.BASE_TOKEN_ADDRESS,
-            tokenAmount,
-            baseWallet.address,
-            config.BASE_SWAP_SLIPPAGE_BPS,
-            config.BASE_SWAP_DEADLINE_SECONDS
-          );
-
-          sellSimulation = {
-            chain: 'base',
-            type: 'sell',
-            inputAmount: tokenAmount,
-            outputAmount: sellSim.amountOut,
-            inputAmountFormatted: sellSim.amountInFormatted,
-            outputAmountFormatted: sellSim.amountOutFormatted,
-            priceImpact: 0,
-            gasEstimate: sellSim.gasEstimate,
-            gasCostUsd: sellSim.gasCostEthFormatted * ethPrice,
-            slippage: 0,
-            success: true,
-          };
-        } catch (error: any) {
-          sellError = `Base sell simulation error: ${error.message || error}`;
-          console.error(`❌ ${sellError}`);
-          if (error.message?.includes('underflow') || error.message?.includes('ds-math')) {
-            sellError += ' (Likely insufficient liquidity - trade size exceeds pool capacity)';
-          }
-        }
-      }
-    } else {
-      // Buy on Base, sell on Solana
-      if (baseWallet) {
-        const tokenAmount = opportunity.optimalTradeSize.base.tokenAmount;
-        const tokenDecimalsRaw = await getTokenDecimals(baseProvider, config.BASE_TOKEN_ADDRESS);
-        const tokenDecimals = Number(tokenDecimalsRaw);
-        const tokenAmountFormatted = Number(tokenAmount) / (10 ** tokenDecimals);
-
-        console.log(`   Attempting to buy ${tokenAmountFormatted.toFixed(2)} tokens on Base...`);
-
-        try {
-          const buySim = await simulateBuyTokensWithUsdc(
-            baseProvider,
-            config.UNISWAP_V2_ROUTER02_ADDRESS,
-            config.BASE_USDC_ADDRESS,
-            config.BASE_TOKEN_ADDRESS,
-            tokenAmount,
-            baseWallet.address,
-            config.BASE_SWAP_SLIPPAGE_BPS,
-            config.BASE_SWAP_DEADLINE_SECONDS
-          );
-
-          buySimulation = {
-            chain: 'base',
-            type: 'buy',
-            inputAmount: buySim.amountIn,
-            outputAmount: tokenAmount,
-            inputAmountFormatted: buySim.amountInFormatted,
-            outputAmountFormatted: buySim.amountOutFormatted,
-            priceImpact: 0,
-            gasEstimate: buySim.gasEstimate,
-            gasCostUsd: buySim.gasCostEthFormatted * ethPrice,
-            slippage: 0,
-            success: true,
-          };
-        } catch (error: any) {
-          console.error(`   ❌ Base buy simulation failed: ${error.message || error}`);
-          if (error.message?.includes('underflow') || error.message?.includes('ds-math')) {
-            console.error(`   ⚠️  Trade size may be too large for available liquidity.`);
-            console.error(`   💡 Try reducing TRADE_SIZE_USD in config or check pool liquidity.`);
-          }
-          return null;
-        }
-      }
-
-      if (solanaKeypair) {
-        const program = createPumpFunProgram(solanaConnection, solanaKeypair);
-        const mint = new PublicKey(config.SOLANA_TOKEN_MINT);
-        const tokenAmount = opportunity.optimalTradeSize.solana.tokenAmount;
-        const minSolOutput = BigInt(Math.floor(opportunity.optimalTradeSize.solana.solAmount * LAMPORTS_PER_SOL * 0.98)); // 2% slippage
-
-        const instruction = await buildSellInstruction(
-          program,
-          solanaConnection,
-          mint,
-          solanaKeypair.publicKey,
-          tokenAmount,
-          minSolOutput
-        );
-
-        const transaction = await createTransaction(
-          solanaConnection,
-          [instruction],
-          solanaKeypair.publicKey,
-          config.SOLANA_PRIORITY_FEE_SOL
-        );
-        transaction.sign(solanaKeypair);
-
-        const simResult = await simulateTransaction(solanaConnection, transaction, solanaKeypair);
+    // Simulate both legs even if one fails, so the failure reason covers both
+    try {
+      const leg = getLegAmounts(opportunity, 'buy');
+      buySimulation = await buy.simulate('buy', leg.tokenAmount, leg.expectedQuote);
+    } catch (error: any) {
+      buyError = `${buy.id} buy: ${error.message || error}`;
+      console.error(`❌ ${buyError}`);
+    }
 
-        if (!simResult.value.err) {
-          const solOutput = opportunity.optimalTradeSize.solana.solAmount;
-          sellSimulation = {
-            chain: 'solana',
-            type: 'sell',
-            inputAmount: tokenAmount,
-            outputAmount: BigInt(Math.floor(solOutput * LAMPORTS_PER_SOL)),
-            inputAmountFormatted: Number(tokenAmount) / 1e9,
-            outputAmountFormatted: solOutput,
-            priceImpact: 0,
-            gasEstimate: BigInt(simResult.value.unitsConsumed || 0),
-            gasCostUsd: (solOutput * 0.01),
-            slippage: 0,
-            success: true,
-          };
-        }
-      }
+    try {
+      const leg = getLegAmounts(opportunity, 'sell');
+      sellSimulation = await sell.simulate('sell', leg.tokenAmount, leg.expectedQuote);
+    } catch (error: any) {
+      sellError = `${sell.id} sell: ${error.message || error}`;
+      console.error(`❌ ${sellError}`);
     }
 
     if (!buySimulation || !sellSimulation || !buySimulation.success || !sellSimulation.success) {
@@ -236,10 +72,10 @@ export async function simulateArbitrage(
       const failures: string[] = [];
 
       if (!buySimulation || !buySimulation.success) {
-        failures.push(buyError || 'Buy simulation failed (no wallet or unknown error)');
+        failures.push(buyError || 'Buy simulation failed (unknown error)');
       }
       if (!sellSimulation || !sellSimulation.success) {
-        failures.push(sellError || 'Sell simulation failed (no wallet or unknown error)');
+        failures.push(sellError || 'Sell simulation failed (unknown error)');
       }
 
       failureReason += failures.join(' | ');
@@ -261,9 +97,13 @@ export async function simulateArbitrage(
       };
     }
 
+    // Pad gas estimates with the safety multiplier before judging profitability
+    buySimulation.gasCostUsd *= config.GAS_MULTIPLIER;
+    sellSimulation.gasCostUsd *= config.GAS_MULTIPLIER;
+
     // Calculate net profit
-    const totalCost = buySimulation.inputAmountFormatted * (buySimulation.chain === 'solana' ? solPrice : 1) + buySimulation.gasCostUsd;
-    const totalRevenue = sellSimulation.outputAmountFormatted * (sellSimulation.chain === 'solana' ? solPrice : 1) - sellSimulation.gasCostUsd;
+    const totalCost = buySimulation.inputAmountFormatted * buy.quoteUsd + buySimulation.gasCostUsd;
+    const totalRevenue = sellSimulation.outputAmountFormatted * sell.quoteUsd - sellSimulation.gasCostUsd;
     const netProfitUsd = totalRevenue - totalCost;
     const netProfitPercent = (netProfitUsd / totalCost) * 100;
 
@@ -0,0 +1,119 @@
+/**
+ * Trading Pairs
+ *
+ * Resolves the Pump.fun mint ↔ Base ERC-20 pairs to monitor. SOLANA_TOKEN_MINTS,
+ * BASE_TOKEN_ADDRESSES and BASE_QUOTE_ADDRESSES are comma-separated and matched by
+ * position; without SOLANA_TOKEN_MINTS the single-pair settings are used.
+ *
+ * The quote is priced at $1 everywhere downstream (market data, risk limits,
+ * journal), so only USD stablecoins are accepted as quotes.
+ */
+
+// USD stablecoins on Base: USDC, USDbC (bridged USDC) and DAI
+const BASE_USD_STABLECOINS = [
+  '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
+  '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+];
+
+export interface TradingPair {
+  id: string; // Short label used in logs and stats
+  solanaMint: string;
+  baseTokenAddress: string;
+  baseQuoteAddress: string; // USD stablecoin the Uniswap pair is quoted in (USDC unless overridden)
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function pairId(solanaMint: string): string {
+  return `${solanaMint.slice(0, 4)}…${solanaMint.slice(-4)}`;
+}
+
+function isUsdQuote(address: string, usdcAddress: string): boolean {
+  const allowed = [...BASE_USD_STABLECOINS, usdcAddress].map((entry) => entry.toLowerCase());
+  return allowed.includes(address.toLowerCase());
+}
+
+/**
+ * Build the list of pairs to monitor from config
+ */
+export function resolveTradingPairs(config: {
+  SOLANA_TOKEN_MINT: string;
+  SOLANA_TOKEN_MINTS: string;
+  BASE_TOKEN_ADDRESS: string;
+  BASE_TOKEN_ADDRESSES: string;
+  BASE_USDC_ADDRESS: string;
+  BASE_QUOTE_ADDRESSES: string;
+}): TradingPair[] {
+  const mints = splitList(config.SOLANA_TOKEN_MINTS);
+
+  if (mints.length === 0) {
+    if (!config.SOLANA_TOKEN_MINT || !config.BASE_TOKEN_ADDRESS) {
+      return [];
+    }
+    return [{
+      id: pairId(config.SOLANA_TOKEN_MINT),
+      solanaMint: config.SOLANA_TOKEN_MINT,
+      baseTokenAddress: config.BASE_TOKEN_ADDRESS,
+      baseQuoteAddress: config.BASE_USDC_ADDRESS,
+    }];
+  }
+
+  const baseTokens = splitList(config.BASE_TOKEN_ADDRESSES);
+  if (baseTokens.length !== mints.length) {
+    throw new Error(`BASE_TOKEN_ADDRESSES has ${baseTokens.length} entries but SOLANA_TOKEN_MINTS has ${mints.length}`);
+  }
+
+  const quotes = splitList(config.BASE_QUOTE_ADDRESSES);
+  if (quotes.length > 0 && quotes.length !== mints.length) {
+    throw new Error(`BASE_QUOTE_ADDRESSES has ${quotes.length} entries but SOLANA_TOKEN_MINTS has ${mints.length}`);
+  }
+
+  const seen = new Set<string>();
+  return mints.map((solanaMint, i) => {
+    if (seen.has(solanaMint)) {
+      throw new Error(`Duplicate mint in SOLANA_TOKEN_MINTS: ${solanaMint}`);
+    }
+    seen.add(solanaMint);
+
+    const baseQuoteAddress = quotes[i] ?? config.BASE_USDC_ADDRESS;
+    if (!baseQuoteAddress) {
+      throw new Error(`No quote token for ${solanaMint}. Set BASE_QUOTE_ADDRESSES or BASE_USDC_ADDRESS`);
+    }
+    if (!isUsdQuote(baseQuoteAddress, config.BASE_USDC_ADDRESS)) {
+      throw new Error(
+        `Quote ${baseQuoteAddress} for ${solanaMint} is not a supported USD stablecoin ` +
+        `(USDC, USDbC, DAI or BASE_USDC_ADDRESS); quotes are priced at $1`
+      );
+    }
+
+    return {
+      id: pairId(solanaMint),
+      solanaMint,
+      baseTokenAddress: baseTokens[i],
+      baseQuoteAddress,
+    };
+  });
+}
+
+/**
+ * Copy of the config scoped to one pair, so the single-pair pipeline
+ * (fetch → analyze → simulate → execute) runs unchanged per pair
+ */
+export function withTradingPair<T extends {
+  SOLANA_TOKEN_MINT: string;
+  BASE_TOKEN_ADDRESS: string;
+  BASE_USDC_ADDRESS: string;
+}>(config: T, pair: TradingPair): T {
+  return {
+    ...config,
+    SOLANA_TOKEN_MINT: pair.solanaMint,
+    BASE_TOKEN_ADDRESS: pair.baseTokenAddress,
+    BASE_USDC_ADDRESS: pair.baseQuoteAddress,
+  };
+}
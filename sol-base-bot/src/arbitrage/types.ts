@@ -2,6 +2,9 @@
  * Type definitions for the arbitrage bot
  */
 
+import type { SolanaVenue } from '../solana/venue.js';
+import type { V3PoolState } from '../base/uniswapV3/math.js';
+
 export interface PriceData {
   price: number; // Price in USD
   timestamp: number; // Unix timestamp in ms
@@ -22,13 +25,30 @@ export interface LiquidityData {
     tokenReserves: bigint;
     virtualSolReserves: bigint;
     virtualTokenReserves: bigint;
+    venue: SolanaVenue;
+    feeBps: bigint; // Solana trading fee at detection time
+    tokenDecimals: number;
   };
   base: {
     usdcReserves: bigint;
     tokenReserves: bigint;
+    feeBps: bigint; // Base pair swap fee at detection time
+    v3: BaseV3Liquidity | null; // Set when the Base DEX is Uniswap V3
+    usdcDecimals: number;
+    tokenDecimals: number;
+    dex: string;
   };
 }
 
+/**
+ * Concentrated-liquidity snapshot of the Base pool. Reserves alongside it are the
+ * virtual reserves of the in-range liquidity and only hold near the current price.
+ */
+export interface BaseV3Liquidity {
+  pool: V3PoolState;
+  usdcIsToken0: boolean;
+}
+
 export interface Balances {
   solana: {
     sol: number;
@@ -41,6 +61,14 @@ export interface Balances {
   };
 }
 
+/**
+ * One leg of an opportunity in its venue's raw units
+ */
+export interface OpportunityLeg {
+  tokenAmount: bigint;
+  quoteAmount: bigint; // Quote paid (buy) or received (sell) at detection time
+}
+
 export interface TradeSize {
   solana: {
     tokenAmount: bigint;
@@ -89,6 +117,10 @@ export interface Opportunity {
   basePrice: PriceData;
   priceDifferencePercent: number;
   direction: 'SOLANA_TO_BASE' | 'BASE_TO_SOLANA';
+  buyVenue: string; // Venue id, e.g. "solana:bonding_curve"
+  sellVenue: string; // Venue id, e.g. "base:uniswap-v2"
+  buyLeg: OpportunityLeg; // Amounts on buyVenue
+  sellLeg: OpportunityLeg; // Amounts on sellVenue
   optimalTradeSize: TradeSize;
   estimatedProfitUsd: number;
   estimatedProfitPercent: number;
@@ -134,15 +166,21 @@ export interface ExecutionResult {
   plan: TradePlan;
   buyTxHash?: string;
   sellTxHash?: string;
+  pendingSellTxHash?: string; // Sell sent but not seen confirmed; it may still land
   buyBlockNumber?: number;
   sellBlockNumber?: number;
-  actualBuyAmount: bigint;
-  actualSellAmount: bigint;
-  actualBuyCostUsd: number;
-  actualSellRevenueUsd: number;
+  // Actual amounts and the USD figures derived from them are null when a confirmed leg could not be read back
+  actualBuyAmount: bigint | null; // Tokens received on the buy leg (raw units)
+  actualSellAmount: bigint | null; // Tokens sent on the sell leg (raw units)
+  actualBuyQuoteAmount: bigint | null; // Lamports or USDC units paid on the buy leg
+  actualSellQuoteAmount: bigint | null; // Lamports or USDC units received on the sell leg
+  actualBuyCostUsd: number | null;
+  actualSellRevenueUsd: number | null;
   actualGasCostUsd: number;
-  actualProfitUsd: number;
-  actualProfitPercent: number;
+  actualProfitUsd: number | null;
+  actualProfitPercent: number | null;
+  simulatedProfitUsd: number;
+  profitDeviationUsd: number | null; // actualProfitUsd - simulatedProfitUsd
   executionTime: number; // ms
   success: boolean;
   error?: string;
@@ -186,5 +224,44 @@ export interface ArbitrageConfig {
   // Trade size optimization
   minLiquidityUsd: number; // Minimum liquidity required
   maxPriceImpactForTrade: number; // Max price impact to consider trade
+
+  // Loss and exposure limits
+  dailyLossLimitUsd: number; // 0 disables
+  maxInventoryUsd: {
+    solana: number; // Max token inventory held on Solana (USD), 0 disables
+    base: number; // Max token inventory held on Base (USD), 0 disables
+  };
+  maxConsecutiveFailures: number; // Failures before cooling off, 0 disables
+  failureCooloffMs: number;
+}
+
+export type RiskRejectionCode =
+  | 'MIN_PROFIT_USD'
+  | 'MIN_PROFIT_PERCENT'
+  | 'MAX_TRADE_SIZE'
+  | 'MAX_PRICE_IMPACT'
+  | 'MIN_LIQUIDITY'
+  | 'MAX_CONCURRENT_TRADES'
+  | 'DAILY_LOSS_LIMIT'
+  | 'MAX_INVENTORY'
+  | 'FAILURE_COOLOFF';
+
+export interface RiskRejection {
+  code: RiskRejectionCode;
+  message: string;
+  limit: number;
+  actual: number;
+}
+
+export interface RiskAssessment {
+  opportunityId: string;
+  approved: boolean;
+  rejections: RiskRejection[];
+  priceImpact: {
+    buy: number; // Percentage
+    sell: number; // Percentage
+  };
+  tradeSizeUsd: number;
+  checkedAt: number;
 }
 
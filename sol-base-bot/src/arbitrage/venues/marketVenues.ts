@@ -0,0 +1,106 @@
+/**
+ * Builds the venues for one token pair from a market snapshot or from the
+ * reserves an opportunity was priced on, and maps an opportunity back to them.
+ */
+
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { resolveBaseDex } from '../../base/uniswap/dexRegistry.js';
+import type { MarketStats } from '../marketFetcher.js';
+import type { Opportunity } from '../types.js';
+import { createPumpFunVenue, type PumpFunVenueChain } from './pumpFunVenue.js';
+import { createUniswapVenue, type UniswapVenueChain } from './uniswapVenue.js';
+import type { TradeSide, Venue } from './types.js';
+
+export interface VenueChainAccess {
+  solana: PumpFunVenueChain;
+  base: UniswapVenueChain;
+}
+
+/**
+ * Chain access for venues that simulate and execute, from the pair's config
+ */
+export function getVenueChainAccess(
+  config: {
+    SOLANA_TOKEN_MINT: string;
+    SOLANA_PRIORITY_FEE_SOL: number;
+    BASE_TOKEN_ADDRESS: string;
+    BASE_USDC_ADDRESS: string;
+    BASE_DEX: string;
+    BASE_DEX_REGISTRY: string;
+    BASE_V3_FEE_TIER: number;
+    BASE_SWAP_SLIPPAGE_BPS: number;
+    BASE_SWAP_DEADLINE_SECONDS: number;
+  },
+  solanaConnection: Connection,
+  baseProvider: JsonRpcProvider,
+  solanaKeypair: Keypair | null,
+  baseWallet: Wallet | null,
+  ethPriceUsd: number
+): VenueChainAccess {
+  return {
+    solana: {
+      connection: solanaConnection,
+      mint: new PublicKey(config.SOLANA_TOKEN_MINT),
+      keypair: solanaKeypair,
+      priorityFeeSol: config.SOLANA_PRIORITY_FEE_SOL,
+    },
+    base: {
+      provider: baseProvider,
+      dex: resolveBaseDex(config),
+      usdcAddress: config.BASE_USDC_ADDRESS,
+      tokenAddress: config.BASE_TOKEN_ADDRESS,
+      wallet: baseWallet,
+      slippageBps: config.BASE_SWAP_SLIPPAGE_BPS,
+      deadlineSeconds: config.BASE_SWAP_DEADLINE_SECONDS,
+      ethPriceUsd,
+    },
+  };
+}
+
+/**
+ * Venues over a fresh market snapshot, priced with the SOL price the snapshot used
+ */
+export function createMarketVenues(marketStats: MarketStats, access: VenueChainAccess | null = null): Venue[] {
+  const solPriceUsd = marketStats.solana.price > 0
+    ? marketStats.solana.priceUsd / marketStats.solana.price
+    : 0;
+  return [
+    createPumpFunVenue(marketStats.solana, solPriceUsd, access?.solana ?? null),
+    createUniswapVenue(marketStats.base, access?.base ?? null),
+  ];
+}
+
+/**
+ * Venues over the reserves an opportunity was priced on
+ */
+export function createOpportunityVenues(
+  opportunity: Opportunity,
+  solPriceUsd: number,
+  access: VenueChainAccess | null = null
+): Venue[] {
+  return [
+    createPumpFunVenue(opportunity.liquidity.solana, solPriceUsd, access?.solana ?? null),
+    createUniswapVenue(opportunity.liquidity.base, access?.base ?? null),
+  ];
+}
+
+/**
+ * The venues an opportunity buys and sells on
+ */
+export function selectTradeVenues(venues: Venue[], opportunity: Opportunity): { buy: Venue; sell: Venue } {
+  const buy = venues.find((venue) => venue.id === opportunity.buyVenue);
+  const sell = venues.find((venue) => venue.id === opportunity.sellVenue);
+  if (!buy || !sell) {
+    throw new Error(`Opportunity venues ${opportunity.buyVenue} → ${opportunity.sellVenue} are not available for this pair`);
+  }
+  return { buy, sell };
+}
+
+/**
+ * Token amount and expected quote (venue raw units) of an opportunity's buy or sell leg
+ */
+export function getLegAmounts(opportunity: Opportunity, side: TradeSide): { tokenAmount: bigint; expectedQuote: bigint } {
+  const leg = side === 'buy' ? opportunity.buyLeg : opportunity.sellLeg;
+  return { tokenAmount: leg.tokenAmount, expectedQuote: leg.quoteAmount };
+}
@@ -0,0 +1,404 @@
+/**
+ * Venue-pair trade sizing
+ *
+ * Buying on one venue pushes its price up, selling on the other pushes its price
+ * down. Profit grows while the sell venue's fee-adjusted marginal price is above
+ * the buy venue's, so the profit-maximizing size is where the two meet. Gas is
+ * a fixed cost per trade: it decides whether the best size is worth trading but
+ * does not move it. Everything here goes through the Venue interface, so any
+ * pair of venues can be sized, including two venues on the same chain.
+ */
+
+import type { Venue } from './types.js';
+
+const NEWTON_MAX_STEPS = 12;
+const NEWTON_TOLERANCE = 1e-9; // Relative size change treated as converged
+
+export interface VenueTradeLimits {
+  maxTradeSizeUsd: number;
+  maxPriceImpact: number; // Per-leg limit (%)
+  minSpreadPercent: number; // Spot spread below which a pair is not sized
+  gasCostUsd: number; // Estimated network fees for both legs
+}
+
+export interface VenueTradePlan {
+  buyVenue: Venue;
+  sellVenue: Venue;
+  buyTokenAmount: bigint; // Buy venue's token decimals
+  sellTokenAmount: bigint; // Sell venue's token decimals
+  costQuote: bigint; // Buy venue's quote units
+  revenueQuote: bigint; // Sell venue's quote units
+  costUsd: number;
+  revenueUsd: number;
+  gasCostUsd: number;
+  profitUsd: number; // Net of fees and estimated gas
+  profitPercent: number; // Of the cost
+  spreadPercent: number; // Spot spread before trading
+}
+
+/**
+ * Convert a token amount between two venues' token decimals
+ */
+export function convertTokenAmount(amount: bigint, from: Venue, to: Venue): bigint {
+  return (amount * (10n ** BigInt(to.tokenDecimals))) / (10n ** BigInt(from.tokenDecimals));
+}
+
+/**
+ * USD value of a venue's quote-side reserves
+ */
+function getLiquidityUsd(venue: Venue): number {
+  return (Number(venue.getReserves().quote) / (10 ** venue.quoteDecimals)) * venue.quoteUsd;
+}
+
+function quoteToUsd(venue: Venue, amount: bigint): number {
+  return (Number(amount) / (10 ** venue.quoteDecimals)) * venue.quoteUsd;
+}
+
+/**
+ * Calculate pool skewness ratio to inform trade size limits.
+ * Returns ratio of larger pool to smaller pool.
+ * Higher ratio = more skewed = allow more aggressive trading on small pool
+ */
+function calculatePoolSkewness(
+  buyLiquidityUsd: number,
+  sellLiquidityUsd: number
+): { ratio: number; smallerPool: 'buy' | 'sell' } {
+  const ratio = Math.max(buyLiquidityUsd, sellLiquidityUsd) / Math.min(buyLiquidityUsd, sellLiquidityUsd);
+  const smallerPool = buyLiquidityUsd < sellLiquidityUsd ? 'buy' : 'sell';
+  return { ratio, smallerPool };
+}
+
+/**
+ * Determine max pool usage based on skewness.
+ * For highly skewed pools (ratio > 100), allow up to 50% usage of small pool.
+ * For moderately skewed (ratio 10-100), allow up to 30%.
+ * For balanced pools (ratio < 10), limit to 20%.
+ */
+function getMaxPoolUsage(skewnessRatio: number): number {
+  if (skewnessRatio > 100) return 0.50; // 50% for highly skewed
+  if (skewnessRatio > 10) return 0.30;  // 30% for moderately skewed
+  return 0.20; // 20% for balanced pools
+}
+
+interface TradeSizeCap {
+  maxTokens: bigint; // Buy venue's token decimals
+  maxPoolUsage: number;
+  skewness: { ratio: number; smallerPool: 'buy' | 'sell' };
+  limitingVenue: Venue;
+  limitingPercent: number;
+}
+
+/**
+ * Largest size worth searching: a share of each pool's token reserves (adaptive
+ * to skewness) and the max trade size in USD
+ */
+function getTradeSizeCap(buyVenue: Venue, sellVenue: Venue, maxTradeSizeUsd: number): TradeSizeCap {
+  // Analyze pool skewness to determine appropriate trade limits
+  const skewness = calculatePoolSkewness(getLiquidityUsd(buyVenue), getLiquidityUsd(sellVenue));
+  const maxPoolUsage = getMaxPoolUsage(skewness.ratio);
+
+  // For the SMALLER pool, we use maxPoolUsage (20-50% based on skewness)
+  // For the LARGER pool, use conservative 20% (it won't be the limiting factor)
+  const maxBuyPercent = skewness.smallerPool === 'buy' ? maxPoolUsage : 0.20;
+  const maxSellPercent = skewness.smallerPool === 'sell' ? maxPoolUsage : 0.20;
+
+  const maxTokensBuy = BigInt(Math.floor(Number(buyVenue.getReserves().token) * maxBuyPercent));
+  const maxTokensSell = BigInt(Math.floor(Number(sellVenue.getReserves().token) * maxSellPercent));
+  const maxTokensSellInBuyDec = convertTokenAmount(maxTokensSell, sellVenue, buyVenue);
+  const buyLimited = maxTokensBuy < maxTokensSellInBuyDec;
+
+  // Use the smaller of the two limits
+  let maxTokens = buyLimited ? maxTokensBuy : maxTokensSellInBuyDec;
+
+  // Also cap by max trade size USD
+  const avgPriceUsd = (buyVenue.getMarginalPrice() + sellVenue.getMarginalPrice()) / 2;
+  const maxTokensByUsd = BigInt(Math.floor((maxTradeSizeUsd / avgPriceUsd) * (10 ** buyVenue.tokenDecimals)));
+  if (maxTokensByUsd < maxTokens) {
+    maxTokens = maxTokensByUsd;
+  }
+
+  return {
+    maxTokens,
+    maxPoolUsage,
+    skewness,
+    limitingVenue: buyLimited ? buyVenue : sellVenue,
+    limitingPercent: buyLimited ? maxBuyPercent : maxSellPercent,
+  };
+}
+
+/**
+ * Find the trade size (buy venue's token decimals) that brings both venues to the same price.
+ *
+ * - After buying X tokens on the buy venue (price increases)
+ * - And selling X tokens on the sell venue (price decreases)
+ * - The fee-adjusted marginal prices should be equal
+ *
+ * Binary search for where: price_after_buy = price_after_sell. Kept as the reference
+ * that findOptimalTradeSize is checked against (npm run verify-sizing).
+ */
+export function findEquilibriumTradeSize(
+  buyVenue: Venue,
+  sellVenue: Venue,
+  maxTradeSizeUsd: number
+): bigint {
+  const buyLiquidityUsd = getLiquidityUsd(buyVenue);
+  const sellLiquidityUsd = getLiquidityUsd(sellVenue);
+  const { maxTokens, maxPoolUsage, skewness, limitingVenue, limitingPercent } =
+    getTradeSizeCap(buyVenue, sellVenue, maxTradeSizeUsd);
+  let high = maxTokens;
+  const avgPriceUsd = (buyVenue.getMarginalPrice() + sellVenue.getMarginalPrice()) / 2;
+
+  let low = 0n;
+  let optimalSize = 0n;
+  let bestPriceDiff = Infinity;
+  const iterations = 200;
+  const tolerance = 0.001; // 0.001%
+
+  console.log(`[EQUILIBRIUM] ========================================`);
+  console.log(`[EQUILIBRIUM] Starting equilibrium search`);
+  console.log(`[EQUILIBRIUM] Route: buy ${buyVenue.id} → sell ${sellVenue.id}`);
+  console.log(`[EQUILIBRIUM] Pool Liquidity - Buy: $${buyLiquidityUsd.toFixed(2)}, Sell: $${sellLiquidityUsd.toFixed(2)}`);
+  console.log(`[EQUILIBRIUM] Pool Skewness: ${skewness.ratio.toFixed(1)}x (${skewness.smallerPool === 'buy' ? buyVenue.id : sellVenue.id} is smaller)`);
+  console.log(`[EQUILIBRIUM] Max Pool Usage: ${(maxPoolUsage * 100).toFixed(0)}% (adaptive based on skewness)`);
+  console.log(`[EQUILIBRIUM] Search range: 0 to ${high} (${(Number(high) / (10 ** buyVenue.tokenDecimals)).toFixed(2)} tokens)`);
+  console.log(`[EQUILIBRIUM] Limited by ${limitingVenue.id} pool at ${(limitingPercent * 100).toFixed(0)}% usage`);
+  console.log(`[EQUILIBRIUM] Initial ${buyVenue.id}: $${buyVenue.getMarginalPrice().toFixed(8)}, ${sellVenue.id}: $${sellVenue.getMarginalPrice().toFixed(8)}`);
+  console.log(`[EQUILIBRIUM] ========================================`);
+
+  for (let i = 0; i < iterations; i++) {
+    const mid = (low + high) / 2n;
+    if (mid <= 0n) {
+      low = 1n;
+      continue;
+    }
+
+    const priceBuyUsd = buyVenue.getPriceAfter('buy', mid);
+    const priceSellUsd = sellVenue.getPriceAfter('sell', convertTokenAmount(mid, buyVenue, sellVenue));
+
+    if (!Number.isFinite(priceBuyUsd) || !Number.isFinite(priceSellUsd) || priceSellUsd <= 0) {
+      // Trade size too large for one of the pools, reduce high
+      high = mid - 1n;
+      continue;
+    }
+
+    const priceDiff = Math.abs(priceBuyUsd - priceSellUsd);
+    const avgPrice = (priceBuyUsd + priceSellUsd) / 2;
+    const priceDiffPercent = (priceDiff / avgPrice) * 100;
+
+    if (priceDiff < bestPriceDiff) {
+      bestPriceDiff = priceDiff;
+      optimalSize = mid;
+    }
+
+    if (i % 10 === 0) {
+      console.log(`[EQUILIBRIUM] Iteration ${i}: size=${mid}, buyPrice=$${priceBuyUsd.toFixed(8)}, sellPrice=$${priceSellUsd.toFixed(8)}, diff=${priceDiffPercent.toFixed(4)}%`);
+    }
+
+    if (priceDiffPercent < tolerance) {
+      console.log(`[EQUILIBRIUM] ✓ Found equilibrium at iteration ${i}: size=${mid}, price diff=${priceDiffPercent.toFixed(6)}%`);
+      console.log(`[EQUILIBRIUM] ✓ Final prices - Buy: $${priceBuyUsd.toFixed(8)}, Sell: $${priceSellUsd.toFixed(8)}`);
+      return mid;
+    }
+
+    // As size increases the buy price goes UP and the sell price goes DOWN.
+    // Buy still cheaper: trade more. Prices crossed: traded too much.
+    if (priceBuyUsd < priceSellUsd) {
+      low = mid + 1n;
+    } else {
+      high = mid - 1n;
+    }
+  }
+
+  console.log(`[EQUILIBRIUM] ⚠ Max iterations reached. Best size found: ${optimalSize}, final price diff: $${bestPriceDiff.toFixed(8)} (${((bestPriceDiff / avgPriceUsd) * 100).toFixed(4)}%)`);
+
+  return optimalSize > 0n ? optimalSize : 0n;
+}
+
+/**
+ * Marginal profit slope in USD per whole token: buy venue's fee-adjusted price after
+ * `buyTokens` minus the sell venue's. Negative while trading more still adds profit.
+ */
+function getMarginalGap(buyVenue: Venue, sellVenue: Venue, buyTokens: number): number {
+  const size = BigInt(Math.floor(buyTokens));
+  return buyVenue.getPriceAfter('buy', size) - sellVenue.getPriceAfter('sell', convertTokenAmount(size, buyVenue, sellVenue));
+}
+
+/**
+ * Closed-form optimum for two constant-product venues (buy venue's raw tokens).
+ *
+ * A constant-product price after trading x moves as P0 * (T / (T ∓ x))², so equal
+ * fee-adjusted marginal prices solve to
+ *   x = Ta * Tb * (√Ps - √Pb) / (s * Ta * √Pb + Tb * √Ps)
+ * where Pb, Ps are the fee-adjusted spot prices, Ta, Tb the token reserves and s
+ * the sell/buy token decimal scale. Exact for bonding curves, PumpSwap and V2
+ * pairs; for a V3 pool it uses the in-range virtual reserves.
+ */
+function estimateOptimalTradeSize(buyVenue: Venue, sellVenue: Venue): number {
+  const rootBuy = Math.sqrt(buyVenue.getPriceAfter('buy', 0n));
+  const rootSell = Math.sqrt(sellVenue.getPriceAfter('sell', 0n));
+  const buyTokens = Number(buyVenue.getReserves().token);
+  const sellTokens = Number(sellVenue.getReserves().token);
+  const scale = 10 ** (sellVenue.tokenDecimals - buyVenue.tokenDecimals);
+  return (buyTokens * sellTokens * (rootSell - rootBuy)) / (scale * buyTokens * rootBuy + sellTokens * rootSell);
+}
+
+/**
+ * Profit-maximizing trade size (buy venue's token decimals), capped like the
+ * equilibrium search.
+ *
+ * Starts from the constant-product closed form and refines it with safeguarded
+ * Newton steps on the marginal profit, which is exact for V3 pools whose trade
+ * crosses ticks. Profit is concave in size, so clamping to the cap is optimal.
+ */
+export function findOptimalTradeSize(
+  buyVenue: Venue,
+  sellVenue: Venue,
+  maxTradeSizeUsd: number
+): bigint {
+  const { maxTokens } = getTradeSizeCap(buyVenue, sellVenue, maxTradeSizeUsd);
+  if (maxTokens <= 0n) return 0n;
+
+  const gap = (buyTokens: number) => getMarginalGap(buyVenue, sellVenue, buyTokens);
+  if (!(gap(0) < 0)) return 0n;
+
+  // Bracket the root: gap < 0 at low, gap >= 0 (or unfillable) at high
+  let low = 0;
+  let high = Number(maxTokens);
+  const gapAtCap = gap(high);
+  if (Number.isFinite(gapAtCap) && gapAtCap < 0) {
+    return maxTokens;
+  }
+
+  let size = estimateOptimalTradeSize(buyVenue, sellVenue);
+  if (!(size > low && size < high)) size = (low + high) / 2;
+
+  for (let step = 0; step < NEWTON_MAX_STEPS; step++) {
+    const value = gap(size);
+    if (!Number.isFinite(value) || value >= 0) {
+      high = size;
+    } else {
+      low = size;
+    }
+    if (high - low <= Math.max(1, size * NEWTON_TOLERANCE)) break;
+
+    // Slope from a central difference; fall back to bisection outside the bracket
+    const h = Math.max(1, size * 1e-6);
+    const slope = (gap(size + h) - gap(size - h)) / (2 * h);
+    let next = Number.isFinite(value) && slope > 0 ? size - value / slope : NaN;
+    if (!(next > low && next < high)) next = (low + high) / 2;
+    if (Math.abs(next - size) <= Math.max(1, size * NEWTON_TOLERANCE)) {
+      size = next;
+      break;
+    }
+    size = next;
+  }
+
+  // Whole raw units, within the bracket and the cap
+  const optimal = BigInt(Math.floor(Math.min(Math.max(size, low), high)));
+  return optimal < maxTokens ? optimal : maxTokens;
+}
+
+/**
+ * Largest token amount (buy venue's decimals) at or below `tradeSize` where neither leg
+ * moves its pool by more than maxPriceImpact (%). Impact grows with size, so bisect.
+ */
+export function capTradeSizeByPriceImpact(
+  tradeSize: bigint,
+  buyVenue: Venue,
+  sellVenue: Venue,
+  maxPriceImpact: number
+): bigint {
+  const worstImpact = (buyTokens: bigint): number => Math.max(
+    buyVenue.getPriceImpact('buy', buyTokens),
+    sellVenue.getPriceImpact('sell', convertTokenAmount(buyTokens, buyVenue, sellVenue))
+  );
+
+  if (worstImpact(tradeSize) <= maxPriceImpact) {
+    return tradeSize;
+  }
+
+  let low = 0n;
+  let high = tradeSize;
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (worstImpact(mid) <= maxPriceImpact) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  console.log(`[SIZING] Capped size from ${tradeSize} to ${low} to keep price impact within ${maxPriceImpact}%`);
+  return low;
+}
+
+/**
+ * Size and price buying on one venue and selling on the other.
+ * Returns null if the spot spread is too small or no size can be filled.
+ */
+export function planVenueTrade(
+  buyVenue: Venue,
+  sellVenue: Venue,
+  limits: VenueTradeLimits
+): VenueTradePlan | null {
+  const buySpot = buyVenue.getMarginalPrice();
+  const spreadPercent = ((sellVenue.getMarginalPrice() - buySpot) / buySpot) * 100;
+  if (!(spreadPercent >= limits.minSpreadPercent)) {
+    return null;
+  }
+
+  const optimal = findOptimalTradeSize(buyVenue, sellVenue, limits.maxTradeSizeUsd);
+  // Never size past the per-leg price impact limit (profit is concave, so the cap is the best size left)
+  const buyTokenAmount = capTradeSizeByPriceImpact(optimal, buyVenue, sellVenue, limits.maxPriceImpact);
+  if (buyTokenAmount <= 0n) {
+    return null;
+  }
+  const sellTokenAmount = convertTokenAmount(buyTokenAmount, buyVenue, sellVenue);
+
+  let costQuote: bigint;
+  let revenueQuote: bigint;
+  try {
+    costQuote = buyVenue.quote('buy', buyTokenAmount);
+    revenueQuote = sellVenue.quote('sell', sellTokenAmount);
+  } catch (error) {
+    console.warn(`⚠️  Could not price ${buyVenue.id} → ${sellVenue.id}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  const costUsd = quoteToUsd(buyVenue, costQuote);
+  const revenueUsd = quoteToUsd(sellVenue, revenueQuote);
+  const profitUsd = revenueUsd - costUsd - limits.gasCostUsd;
+  console.log(`[SIZING] ${buyVenue.id} → ${sellVenue.id}: ${(Number(buyTokenAmount) / (10 ** buyVenue.tokenDecimals)).toFixed(2)} tokens, net profit $${profitUsd.toFixed(4)} (gas $${limits.gasCostUsd.toFixed(4)})`);
+
+  return {
+    buyVenue,
+    sellVenue,
+    buyTokenAmount,
+    sellTokenAmount,
+    costQuote,
+    revenueQuote,
+    costUsd,
+    revenueUsd,
+    gasCostUsd: limits.gasCostUsd,
+    profitUsd,
+    profitPercent: costUsd > 0 ? (profitUsd / costUsd) * 100 : 0,
+    spreadPercent,
+  };
+}
+
+/**
+ * Size every ordered pair of venues and return the plan with the highest net profit
+ */
+export function findBestVenueTrade(venues: Venue[], limits: VenueTradeLimits): VenueTradePlan | null {
+  let best: VenueTradePlan | null = null;
+  for (const buyVenue of venues) {
+    for (const sellVenue of venues) {
+      if (buyVenue === sellVenue) continue;
+      const plan = planVenueTrade(buyVenue, sellVenue, limits);
+      if (plan && (!best || plan.profitUsd > best.profitUsd)) {
+        best = plan;
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,236 @@
+/**
+ * Pump.fun venue: the bonding curve, or the PumpSwap pool once the token graduates.
+ * Both price as constant product over the reserves in MarketStats; instruction
+ * building and trade subscriptions are routed by the Solana venue facade.
+ */
+
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import {
+  buildSolanaBuyInstructions,
+  buildSolanaSellInstructions,
+  subscribeToSolanaTrades,
+  type SolanaVenue,
+} from '../../solana/venue.js';
+import {
+  createTransaction,
+  simulateTransaction,
+  sendAndConfirmTransactionWithPolling,
+  getTransactionBalanceChanges,
+  type TransactionBalanceChanges,
+} from '../../solana/pumpfun/transactions.js';
+import { getPumpFunBuyCost, getPumpFunSellProceeds, getPumpFunPriceImpact } from '../ammMath.js';
+import type { SimulationResult } from '../types.js';
+import { pricingOnly, type TradeSide, type Venue, type VenueFill } from './types.js';
+
+const BPS_DENOMINATOR = 10000n;
+const SOL_DECIMALS = 9;
+
+// Curve moves between simulation and landing are large, so buys carry a wide SOL limit
+export const BUY_SLIPPAGE_BUFFER = 1.20;
+export const SELL_SLIPPAGE_BUFFER = 0.98;
+
+export interface PumpFunVenueState {
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  venue: SolanaVenue;
+  feeBps: bigint;
+  tokenDecimals: number;
+}
+
+export interface PumpFunVenueChain {
+  connection: Connection;
+  mint: PublicKey;
+  keypair: Keypair | null;
+  priorityFeeSol: number;
+}
+
+/**
+ * Read a leg's balance changes from transaction meta, or null (with a warning) if unreadable
+ */
+async function readBalanceChanges(
+  chain: PumpFunVenueChain,
+  signature: string,
+  owner: PublicKey,
+  warnings: string[]
+): Promise<TransactionBalanceChanges | null> {
+  try {
+    return await getTransactionBalanceChanges(chain.connection, signature, owner, chain.mint);
+  } catch (error) {
+    const message = `Could not read Solana transaction meta for ${signature}: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(`   ⚠️  ${message}`);
+    warnings.push(message);
+    return null;
+  }
+}
+
+/**
+ * Build a venue over a Pump.fun reserves snapshot. Without `chain` it can only price trades.
+ */
+export function createPumpFunVenue(
+  state: PumpFunVenueState,
+  solPriceUsd: number,
+  chain: PumpFunVenueChain | null
+): Venue {
+  const id = `solana:${state.venue}`;
+  const { virtualSolReserves: vSol, virtualTokenReserves: vToken, feeBps } = state;
+
+  // lamports per raw token → USD per whole token
+  const toUsd = (lamportsPerRawToken: number) =>
+    (lamportsPerRawToken * solPriceUsd * (10 ** state.tokenDecimals)) / (10 ** SOL_DECIMALS);
+
+  const requireSigner = (): { chain: PumpFunVenueChain; keypair: Keypair } => {
+    if (!chain) throw pricingOnly(id);
+    if (!chain.keypair) throw new Error('No Solana keypair configured');
+    return { chain, keypair: chain.keypair };
+  };
+
+  const buildTransaction = async (side: TradeSide, tokenAmount: bigint, solLimit: bigint) => {
+    const { chain, keypair } = requireSigner();
+    const instructions = side === 'buy'
+      ? await buildSolanaBuyInstructions(chain.connection, chain.mint, keypair.publicKey, tokenAmount, solLimit, false)
+      : await buildSolanaSellInstructions(chain.connection, chain.mint, keypair.publicKey, tokenAmount, solLimit);
+    const transaction = await createTransaction(chain.connection, instructions, keypair.publicKey, chain.priorityFeeSol);
+    transaction.sign(keypair);
+    return transaction;
+  };
+
+  const solLimitFor = (side: TradeSide, expectedQuote: bigint): bigint =>
+    BigInt(Math.floor(Number(expectedQuote) * (side === 'buy' ? BUY_SLIPPAGE_BUFFER : SELL_SLIPPAGE_BUFFER)));
+
+  return {
+    id,
+    chain: 'solana',
+    quoteSymbol: 'SOL',
+    tokenDecimals: state.tokenDecimals,
+    quoteDecimals: SOL_DECIMALS,
+    quoteUsd: solPriceUsd,
+    feeBps,
+
+    getReserves: () => ({ token: vToken, quote: vSol }),
+
+    getMarginalPrice: () => toUsd(Number(vSol) / Number(vToken)),
+
+    getPriceAfter(side, tokenAmount) {
+      const k = vSol * vToken;
+      if (side === 'buy') {
+        if (tokenAmount >= vToken) return Infinity;
+        const newVToken = vToken - tokenAmount;
+        const newVSol = (k + newVToken - 1n) / newVToken;
+        return toUsd(Number(newVSol) / Number(newVToken)) * (1 + Number(feeBps) / Number(BPS_DENOMINATOR));
+      }
+      const newVToken = vToken + tokenAmount;
+      const newVSol = k / newVToken;
+      return toUsd(Number(newVSol) / Number(newVToken)) * (1 - Number(feeBps) / Number(BPS_DENOMINATOR));
+    },
+
+    quote: (side, tokenAmount) => side === 'buy'
+      ? getPumpFunBuyCost(vSol, vToken, tokenAmount, feeBps)
+      : getPumpFunSellProceeds(vSol, vToken, tokenAmount, feeBps),
+
+    getPriceImpact: (side, tokenAmount) => getPumpFunPriceImpact(vSol, vToken, tokenAmount, side === 'buy'),
+
+    async simulate(side, tokenAmount, expectedQuote): Promise<SimulationResult> {
+      const { chain, keypair } = requireSigner();
+      const solLimit = solLimitFor(side, expectedQuote);
+      if (side === 'buy') {
+        console.log(`   🔄 Attempting Solana buy with 20% slippage buffer (${(Number(solLimit) / LAMPORTS_PER_SOL).toFixed(6)} SOL max)`);
+      }
+
+      const transaction = await buildTransaction(side, tokenAmount, solLimit);
+      const simResult = await simulateTransaction(chain.connection, transaction, keypair);
+
+      if (simResult.value.err) {
+        throw new Error(`Solana ${side} simulation failed: ${JSON.stringify(simResult.value.err)}`);
+      }
+
+      const tokenAmountFormatted = Number(tokenAmount) / (10 ** state.tokenDecimals);
+      const gasEstimate = BigInt(simResult.value.unitsConsumed || 0);
+      if (side === 'buy') {
+        // Priced at the SOL limit, so the simulated profit already absorbs the slippage buffer
+        const maxSolCost = Number(solLimit) / LAMPORTS_PER_SOL;
+        console.log(`   ✅ Solana buy simulation succeeded with 20% slippage`);
+        return {
+          chain: 'solana',
+          type: 'buy',
+          inputAmount: solLimit,
+          outputAmount: tokenAmount,
+          inputAmountFormatted: maxSolCost,
+          outputAmountFormatted: tokenAmountFormatted,
+          priceImpact: 20,
+          gasEstimate,
+          gasCostUsd: maxSolCost * solPriceUsd * 0.01,
+          slippage: 20,
+          success: true,
+        };
+      }
+
+      const solOutput = Number(expectedQuote) / LAMPORTS_PER_SOL;
+      return {
+        chain: 'solana',
+        type: 'sell',
+        inputAmount: tokenAmount,
+        outputAmount: expectedQuote,
+        inputAmountFormatted: tokenAmountFormatted,
+        outputAmountFormatted: solOutput,
+        priceImpact: 0,
+        gasEstimate,
+        gasCostUsd: solOutput * 0.01,
+        slippage: 0,
+        success: true,
+      };
+    },
+
+    async execute(side, tokenAmount, expectedQuote): Promise<VenueFill> {
+      const { chain, keypair } = requireSigner();
+      const solLimit = solLimitFor(side, expectedQuote);
+      if (side === 'buy') {
+        console.log(`   Using maxSolCost with 20% slippage: ${(Number(solLimit) / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+      }
+
+      const transaction = await buildTransaction(side, tokenAmount, solLimit);
+      const signature = await sendAndConfirmTransactionWithPolling(chain.connection, transaction, [keypair]);
+      console.log(`   ✅ ${side === 'buy' ? 'Buy' : 'Sell'} transaction confirmed: ${signature}`);
+
+      const warnings: string[] = [];
+      const changes = await readBalanceChanges(chain, signature, keypair.publicKey, warnings);
+      if (!changes) {
+        // Confirmed, but what it filled at is unknown
+        return {
+          txHash: signature,
+          tokenAmount: null,
+          quoteAmount: null,
+          networkFeeUsd: 0,
+          warnings,
+        };
+      }
+
+      return {
+        txHash: signature,
+        blockNumber: changes.slot,
+        tokenAmount: side === 'buy' ? changes.tokenChange : -changes.tokenChange,
+        // SOL that moved through the venue, net of the network fee
+        quoteAmount: side === 'buy'
+          ? -(changes.solChangeLamports + changes.feeLamports)
+          : changes.solChangeLamports + changes.feeLamports,
+        networkFeeUsd: (Number(changes.feeLamports) / LAMPORTS_PER_SOL) * solPriceUsd,
+        warnings,
+      };
+    },
+
+    async subscribe(callback, pollInterval = 2000) {
+      if (!chain) throw pricingOnly(id);
+      return subscribeToSolanaTrades(
+        chain.connection,
+        chain.mint,
+        (trade) => callback({
+          venueId: `solana:${trade.venue}`,
+          side: trade.isBuy ? 'buy' : 'sell',
+          tokenAmount: trade.tokenAmount,
+          quoteAmount: trade.solAmount,
+          txHash: trade.signature,
+        }),
+        pollInterval
+      );
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Venue abstraction
+ *
+ * A venue is one place the token trades against a quote asset: the Pump.fun
+ * curve (or its PumpSwap pool) against SOL, or a Base DEX pool against USDC.
+ * Pricing methods work on the reserves snapshot the venue was built from and are
+ * synchronous, so the optimizer can call them in a tight loop; simulate, execute
+ * and subscribe talk to the chain and need a venue built with chain access.
+ *
+ * Token amounts are raw units in the venue's own token decimals, quote amounts
+ * are raw units of the quote asset (lamports, USDC base units). Prices are USD
+ * per whole token so any two venues can be compared, including two on one chain.
+ */
+
+import type { SimulationResult } from '../types.js';
+
+export type VenueChain = 'solana' | 'base';
+export type TradeSide = 'buy' | 'sell';
+
+export interface VenueReserves {
+  token: bigint;
+  quote: bigint;
+}
+
+/**
+ * Confirmed trade sent by a venue, with the amounts that actually moved.
+ * Amounts are null when the confirmed transaction could not be read back.
+ */
+export interface VenueFill {
+  txHash: string;
+  blockNumber?: number;
+  tokenAmount: bigint | null; // Tokens received (buy) or sent (sell)
+  quoteAmount: bigint | null; // Quote paid (buy) or received (sell), excluding network fees
+  networkFeeUsd: number;
+  warnings: string[];
+}
+
+/**
+ * Trade seen on a venue's pool, from the trader's side
+ */
+export interface VenueTrade {
+  venueId: string;
+  side: TradeSide;
+  tokenAmount: bigint;
+  quoteAmount: bigint;
+  txHash: string;
+}
+
+export type VenueTradeCallback = (trade: VenueTrade) => void;
+
+export interface VenueSubscription {
+  unsubscribe: () => void;
+}
+
+export interface Venue {
+  readonly id: string; // e.g. "solana:bonding_curve", "base:uniswap-v2"
+  readonly chain: VenueChain;
+  readonly quoteSymbol: string;
+  readonly tokenDecimals: number;
+  readonly quoteDecimals: number;
+  readonly quoteUsd: number; // USD per whole quote unit at snapshot time
+  readonly feeBps: bigint;
+
+  /** Reserves the venue prices against (virtual reserves where the venue has them) */
+  getReserves(): VenueReserves;
+
+  /** Fee-less spot price, USD per whole token */
+  getMarginalPrice(): number;
+
+  /**
+   * Marginal price after trading `tokenAmount`, with the fee applied in the
+   * trader's direction (higher for buys, lower for sells). Infinity for a buy
+   * and 0 for a sell the pool cannot fill.
+   */
+  getPriceAfter(side: TradeSide, tokenAmount: bigint): number;
+
+  /** Quote paid to buy (or received to sell) an exact token amount, fees included. Throws if unfillable */
+  quote(side: TradeSide, tokenAmount: bigint): bigint;
+
+  /** Fee-less average fill price against the spot price (%) */
+  getPriceImpact(side: TradeSide, tokenAmount: bigint): number;
+
+  /** Simulates the trade on-chain, with the venue's own slippage limits around `expectedQuote` */
+  simulate(side: TradeSide, tokenAmount: bigint, expectedQuote: bigint): Promise<SimulationResult>;
+
+  /** Sends the trade and waits for confirmation */
+  execute(side: TradeSide, tokenAmount: bigint, expectedQuote: bigint): Promise<VenueFill>;
+
+  /** Subscribes to trades on the venue's pool */
+  subscribe(callback: VenueTradeCallback, pollInterval?: number): Promise<VenueSubscription>;
+}
+
+/**
+ * Error for chain calls on a venue that was built from a snapshot only
+ */
+export function pricingOnly(venueId: string): Error {
+  return new Error(`Venue ${venueId} was built without chain access and can only price trades`);
+}
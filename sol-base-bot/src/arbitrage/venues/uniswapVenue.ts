@@ -0,0 +1,250 @@
+/**
+ * Uniswap venue: the USDC/token pool on the configured Base DEX, a V2 pair or a
+ * V3 pool. V2 prices as constant product over the pair reserves, V3 by walking
+ * the tick snapshot; chain calls go through the Base venue facade.
+ */
+
+import { JsonRpcProvider, Wallet, formatUnits } from 'ethers';
+import {
+  simulateBaseBuy,
+  simulateBaseSell,
+  buyBaseTokens,
+  sellBaseTokens,
+  subscribeToBaseSwaps,
+} from '../../base/venue.js';
+import { getAllBaseBalances } from '../../base/baseBalanceUtils.js';
+import type { DexConfig } from '../../base/uniswap/dexRegistry.js';
+import {
+  getUniswapV2AmountIn,
+  getUniswapV2AmountOut,
+  getUniswapV2PriceImpact,
+  getUniswapV3BuyCost,
+  getUniswapV3SellProceeds,
+  getUniswapV3PriceAfter,
+  getUniswapV3PriceImpact,
+} from '../ammMath.js';
+import type { BaseV3Liquidity, SimulationResult } from '../types.js';
+import { pricingOnly, type Venue, type VenueFill } from './types.js';
+
+const BPS_DENOMINATOR = 10000n;
+
+export interface UniswapVenueState {
+  usdcReserves: bigint;
+  tokenReserves: bigint;
+  feeBps: bigint;
+  v3: BaseV3Liquidity | null;
+  usdcDecimals: number;
+  tokenDecimals: number;
+  dex: string;
+}
+
+export interface UniswapVenueChain {
+  provider: JsonRpcProvider;
+  dex: DexConfig;
+  usdcAddress: string;
+  tokenAddress: string;
+  wallet: Wallet | null;
+  slippageBps: number;
+  deadlineSeconds: number;
+  ethPriceUsd: number;
+}
+
+/**
+ * Build a venue over a Base pool snapshot. Without `chain` it can only price trades.
+ */
+export function createUniswapVenue(
+  state: UniswapVenueState,
+  chain: UniswapVenueChain | null
+): Venue {
+  const id = `base:${state.dex}`;
+  const { usdcReserves, tokenReserves, feeBps, v3 } = state;
+
+  // raw USDC per raw token → USD per whole token (USDC at $1)
+  const toUsd = (usdcPerRawToken: number) =>
+    (usdcPerRawToken * (10 ** state.tokenDecimals)) / (10 ** state.usdcDecimals);
+
+  const requireWallet = (): { chain: UniswapVenueChain; wallet: Wallet } => {
+    if (!chain) throw pricingOnly(id);
+    if (!chain.wallet) throw new Error('No Base wallet configured');
+    return { chain, wallet: chain.wallet };
+  };
+
+  const simulateSwap = (c: UniswapVenueChain, wallet: Wallet, isBuy: boolean, tokenAmount: bigint) =>
+    (isBuy ? simulateBaseBuy : simulateBaseSell)(
+      c.provider,
+      c.dex,
+      c.usdcAddress,
+      c.tokenAddress,
+      tokenAmount,
+      wallet.address,
+      c.slippageBps,
+      c.deadlineSeconds
+    );
+
+  return {
+    id,
+    chain: 'base',
+    quoteSymbol: 'USDC',
+    tokenDecimals: state.tokenDecimals,
+    quoteDecimals: state.usdcDecimals,
+    quoteUsd: 1,
+    feeBps,
+
+    getReserves: () => ({ token: tokenReserves, quote: usdcReserves }),
+
+    getMarginalPrice: () => toUsd(Number(usdcReserves) / Number(tokenReserves)),
+
+    getPriceAfter(side, tokenAmount) {
+      const feeFactor = side === 'buy'
+        ? 1 + Number(feeBps) / Number(BPS_DENOMINATOR)
+        : 1 - Number(feeBps) / Number(BPS_DENOMINATOR);
+
+      if (v3) {
+        const price = getUniswapV3PriceAfter(v3, tokenAmount, side === 'buy');
+        if (!Number.isFinite(price)) return side === 'buy' ? Infinity : 0;
+        return toUsd(price) * feeFactor;
+      }
+
+      const k = usdcReserves * tokenReserves;
+      if (side === 'buy') {
+        if (tokenAmount >= tokenReserves) return Infinity;
+        const newTokenReserves = tokenReserves - tokenAmount;
+        const newUsdcReserves = (k + newTokenReserves - 1n) / newTokenReserves;
+        return toUsd(Number(newUsdcReserves) / Number(newTokenReserves)) * feeFactor;
+      }
+      const newTokenReserves = tokenReserves + tokenAmount;
+      const newUsdcReserves = k / newTokenReserves;
+      return toUsd(Number(newUsdcReserves) / Number(newTokenReserves)) * feeFactor;
+    },
+
+    quote(side, tokenAmount) {
+      if (v3) {
+        return side === 'buy'
+          ? getUniswapV3BuyCost(v3, tokenAmount)
+          : getUniswapV3SellProceeds(v3, tokenAmount);
+      }
+      return side === 'buy'
+        ? getUniswapV2AmountIn(tokenAmount, usdcReserves, tokenReserves, feeBps)
+        : getUniswapV2AmountOut(tokenAmount, tokenReserves, usdcReserves, feeBps);
+    },
+
+    getPriceImpact: (side, tokenAmount) => v3
+      ? getUniswapV3PriceImpact(v3, tokenAmount, side === 'buy')
+      : getUniswapV2PriceImpact(usdcReserves, tokenReserves, tokenAmount, side === 'buy'),
+
+    async simulate(side, tokenAmount): Promise<SimulationResult> {
+      const { chain, wallet } = requireWallet();
+      if (side === 'buy') {
+        console.log(`   Attempting to buy ${(Number(tokenAmount) / (10 ** state.tokenDecimals)).toFixed(2)} tokens on Base...`);
+      }
+
+      try {
+        const sim = await simulateSwap(chain, wallet, side === 'buy', tokenAmount);
+        return {
+          chain: 'base',
+          type: side,
+          inputAmount: side === 'buy' ? sim.amountIn : tokenAmount,
+          outputAmount: side === 'buy' ? tokenAmount : sim.amountOut,
+          inputAmountFormatted: sim.amountInFormatted,
+          outputAmountFormatted: sim.amountOutFormatted,
+          priceImpact: 0,
+          gasEstimate: sim.gasEstimate,
+          gasCostUsd: sim.gasCostEthFormatted * chain.ethPriceUsd,
+          slippage: 0,
+          success: true,
+        };
+      } catch (error: any) {
+        let message = `Base ${side} simulation error: ${error.message || error}`;
+        if (error.message?.includes('underflow') || error.message?.includes('ds-math')) {
+          message += ' (Likely insufficient liquidity - trade size exceeds pool capacity)';
+        }
+        throw new Error(message);
+      }
+    },
+
+    async execute(side, tokenAmount): Promise<VenueFill> {
+      const { chain, wallet } = requireWallet();
+
+      // Re-simulate to get fresh amounts (prices may have changed)
+      console.log(`   Re-simulating ${side} transaction...`);
+      const freshSim = await simulateSwap(chain, wallet, side === 'buy', tokenAmount);
+
+      const balances = await getAllBaseBalances(chain.provider, chain.tokenAddress, chain.usdcAddress, wallet.address);
+
+      let result;
+      if (side === 'sell') {
+        const amountOutMin = (freshSim.amountOut * BigInt(10000 - chain.slippageBps)) / BigInt(10000);
+
+        const tokensNeeded = parseFloat(formatUnits(tokenAmount, state.tokenDecimals));
+        if (balances.token < tokensNeeded) {
+          throw new Error(`Insufficient token balance. Required: ${tokensNeeded.toFixed(2)}, Available: ${balances.token.toFixed(2)}`);
+        }
+        console.log(`   Tokens to sell: ${tokensNeeded.toFixed(2)}`);
+        console.log(`   Tokens available: ${balances.token.toFixed(2)}`);
+
+        result = await sellBaseTokens(
+          wallet,
+          chain.dex,
+          chain.usdcAddress,
+          chain.tokenAddress,
+          tokenAmount,
+          amountOutMin,
+          freshSim.deadline,
+          chain.slippageBps
+        );
+      } else {
+        const amountInMax = (freshSim.amountIn * BigInt(10000 + chain.slippageBps)) / BigInt(10000);
+
+        const usdcNeeded = parseFloat(formatUnits(amountInMax, state.usdcDecimals));
+        if (balances.usdc < usdcNeeded) {
+          throw new Error(`Insufficient USDC balance. Required: ${usdcNeeded.toFixed(2)}, Available: ${balances.usdc.toFixed(2)}`);
+        }
+        console.log(`   USDC needed: ${usdcNeeded.toFixed(2)} USDC`);
+        console.log(`   USDC available: ${balances.usdc.toFixed(2)} USDC`);
+
+        result = await buyBaseTokens(
+          wallet,
+          chain.dex,
+          chain.usdcAddress,
+          chain.tokenAddress,
+          tokenAmount,
+          amountInMax,
+          freshSim.deadline,
+          chain.slippageBps
+        );
+      }
+      console.log(`   ✅ ${side === 'buy' ? 'Buy' : 'Sell'} transaction confirmed: ${result.transactionHash}`);
+
+      return {
+        txHash: result.transactionHash,
+        blockNumber: result.blockNumber,
+        tokenAmount: side === 'buy' ? result.amountOut : result.amountIn,
+        quoteAmount: side === 'buy' ? result.amountIn : result.amountOut,
+        networkFeeUsd: result.actualGasCostEth * chain.ethPriceUsd,
+        warnings: [],
+      };
+    },
+
+    async subscribe(callback, pollInterval = 2000) {
+      if (!chain) throw pricingOnly(id);
+      return subscribeToBaseSwaps(
+        chain.provider,
+        chain.dex,
+        chain.usdcAddress,
+        chain.tokenAddress,
+        (swap) => {
+          // Only trades that stayed on chain are reported
+          if (swap.removed) return;
+          callback({
+            venueId: `base:${swap.dex}`,
+            side: swap.isBuy ? 'buy' : 'sell',
+            tokenAmount: swap.tokenAmount,
+            quoteAmount: swap.usdcAmount,
+            txHash: swap.transactionHash,
+          });
+        },
+        pollInterval
+      );
+    },
+  };
+}
@@ -1,7 +1,7 @@
 import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
 import { JsonRpcProvider, Wallet } from 'ethers';
 import { getAllBaseBalances } from '../base/baseBalanceUtils.js';
-import { getPriceFetcher } from '../utils/priceFetcher.js';
+import { getUsdPrices } from '../utils/priceFetcher.js';
 import type { MarketStats } from './marketFetcher.js';
 
 export interface WalletStats {
@@ -30,7 +30,7 @@ export async function fetchWalletStats(
     BASE_TOKEN_ADDRESS: string;
     BASE_USDC_ADDRESS: string;
     SOLANA_SOL_PRICE_USD: number;
-    COINMARKETCAP_API_KEY: string;
+    BASE_ETH_PRICE_USD: number;
   },
   solanaConnection: Connection,
   baseProvider: JsonRpcProvider,
@@ -39,20 +39,8 @@ export async function fetchWalletStats(
   currentMarketStats: MarketStats | null
 ): Promise<WalletStats | null> {
   try {
-    // Fetch current prices from CoinMarketCap if API key is provided
-    let solPrice = config.SOLANA_SOL_PRICE_USD;
-    let ethPrice = 2000; // Default fallback
-
-    if (config.COINMARKETCAP_API_KEY) {
-      try {
-        const priceFetcher = getPriceFetcher();
-        const prices = await priceFetcher.getPrices();
-        solPrice = prices.sol;
-        ethPrice = prices.eth;
-      } catch (error) {
-        console.warn('⚠️  Failed to fetch prices from CoinMarketCap, using fallback values:', error);
-      }
-    }
+    // Aggregated live prices, or the configured static ones
+    const { sol: solPrice, eth: ethPrice } = await getUsdPrices(config);
 
     let solanaStats = null;
     let baseStats = null;
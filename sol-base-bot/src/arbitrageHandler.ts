@@ -13,10 +13,94 @@ import { fetchWalletStats } from './arbitrage/walletStats.js';
 import { analyzeOpportunity } from './arbitrage/opportunityAnalyzer.js';
 import { simulateArbitrage } from './arbitrage/simulator.js';
 import { executeArbitrage } from './arbitrage/executor.js';
-import { displayMarketStats, displayWalletStats, displayOpportunity, displaySimulationResults } from './arbitrage/display.js';
-import { initializePriceFetcher, PriceFetcher } from './utils/priceFetcher.js';
+import { executePaperArbitrage, getPaperLedger } from './arbitrage/paperExecutor.js';
+import { isPartialExecution, recoverPartialExecution, settlePendingSell } from './arbitrage/recovery.js';
+import { revalidateOpportunity } from './arbitrage/revalidator.js';
+import { getRiskEngine } from './arbitrage/riskEngine.js';
+import { getExecutionLock } from './arbitrage/executionLock.js';
+import { getRebalanceStore } from './arbitrage/rebalancer.js';
+import { displayMarketStats, displayWalletStats, displayOpportunity, displaySimulationResults, displayRiskAssessment } from './arbitrage/display.js';
+import { getPriceAggregationOptions, initializePriceFetcher, PriceFetcher } from './utils/priceFetcher.js';
+import { createPriceSources } from './utils/priceSources.js';
 import { getNotificationService } from './monitoring/notifications.js';
+import { journalSafely } from './monitoring/tradeJournal.js';
+import type { MarketState } from './monitoring/marketState.js';
 import type { AppConfig } from './config.js';
+import type { MarketStats } from './arbitrage/marketFetcher.js';
+import type { WalletStats } from './arbitrage/walletStats.js';
+import type { Opportunity, ArbitrageSimulation } from './arbitrage/types.js';
+
+/**
+ * Re-validate the opportunity right before the first leg is sent.
+ * Returns the (possibly resized and re-simulated) trade to execute, or null to abort.
+ * Analysis on event-driven market state is always verified over RPC, and the
+ * re-read reserves replace the cached ones.
+ */
+async function revalidateForExecution(
+    config: AppConfig,
+    opportunity: Opportunity,
+    simulation: ArbitrageSimulation,
+    marketStats: MarketStats,
+    walletStats: WalletStats | null,
+    solanaConnection: Connection,
+    baseProvider: JsonRpcProvider,
+    solanaKeypair: Keypair | null,
+    baseWallet: Wallet | null,
+    marketState: MarketState | null
+): Promise<{ opportunity: Opportunity; simulation: ArbitrageSimulation; marketStats: MarketStats } | null> {
+    const revalidation = await revalidateOpportunity(
+        config,
+        opportunity,
+        walletStats,
+        solanaConnection,
+        baseProvider,
+        solanaKeypair,
+        marketState !== null
+    );
+    console.log(`   Re-validation: ${revalidation.action.toUpperCase()} - ${revalidation.reason}\n`);
+
+    if (revalidation.marketStats) {
+        marketState?.reset(revalidation.marketStats);
+    }
+
+    if (revalidation.action === 'abort') {
+        journalSafely(config, journal => journal.updateOpportunityStatus(opportunity.id, 'stale'));
+        return null;
+    }
+
+    const freshMarketStats = revalidation.marketStats ?? marketStats;
+
+    if (revalidation.action === 'proceed') {
+        return {
+            opportunity: revalidation.opportunity,
+            simulation: { ...simulation, opportunity: revalidation.opportunity },
+            marketStats: freshMarketStats
+        };
+    }
+
+    // Resized: the earlier simulation no longer matches, simulate again at the new size
+    console.log('🧪 Re-simulating at the resized amount...\n');
+    const resimulation = await simulateArbitrage(
+        config,
+        revalidation.opportunity,
+        solanaConnection,
+        baseProvider,
+        solanaKeypair,
+        baseWallet
+    );
+
+    if (resimulation) {
+        journalSafely(config, journal => journal.recordSimulation(resimulation));
+    }
+
+    if (!resimulation || !resimulation.success) {
+        console.log(`❌ Re-simulation failed: ${resimulation?.failureReason ?? 'unknown error'}\n`);
+        return null;
+    }
+
+    displaySimulationResults(resimulation, config);
+    return { opportunity: revalidation.opportunity, simulation: resimulation, marketStats: freshMarketStats };
+}
 
 /**
  * Run arbitrage analysis and optionally execute trades
@@ -25,7 +109,8 @@ import type { AppConfig } from './config.js';
  * @param solanaConnection - Solana RPC connection
  * @param baseProvider - Base chain RPC provider
  * @param autoExecute - Whether to automatically execute profitable trades (default: from config)
- * @param priceFetcher - Optional shared PriceFetcher instance for live pricing (if not provided, creates one if API key is configured)
+ * @param priceFetcher - Optional shared PriceFetcher instance for live pricing (if not provided, creates one from the configured chains)
+ * @param marketState - Optional event-driven market state to analyze on instead of fetching (verified over RPC before execution)
  * @returns Execution result or null if no opportunity found
  */
 export async function runArbitrageAnalysis(
@@ -33,11 +118,12 @@ export async function runArbitrageAnalysis(
     solanaConnection: Connection,
     baseProvider: JsonRpcProvider,
     autoExecute?: boolean,
-    priceFetcher?: PriceFetcher | null
+    priceFetcher?: PriceFetcher | null,
+    marketState: MarketState | null = null
 ): Promise<any> {
 
     const shouldAutoExecute = autoExecute ?? config.AUTO_EXECUTE_TRADES;
-    const notificationService = getNotificationService(true);
+    const liveTradingEnabled = config.RUN_MODE === 'live' && config.ENABLE_LIVE_TRADING;
 
     try {
         // Setup wallets
@@ -52,23 +138,30 @@ export async function runArbitrageAnalysis(
             baseWallet = new Wallet(config.BASE_PRIVATE_KEY_HEX, baseProvider);
         }
 
-        // Initialize price fetcher if not provided and API key is available
-        if (!priceFetcher && config.COINMARKETCAP_API_KEY) {
-            try {
-                priceFetcher = initializePriceFetcher(config.COINMARKETCAP_API_KEY);
-            } catch (error) {
-                console.warn('⚠️  Failed to initialize price fetcher:', error);
-            }
+        // Initialize price fetcher if not provided
+        if (!priceFetcher) {
+            priceFetcher = initializePriceFetcher(
+                createPriceSources({
+                    solanaConnection,
+                    baseProvider,
+                    baseUsdcAddress: config.BASE_USDC_ADDRESS,
+                    dexRegistry: config,
+                    coinMarketCapApiKey: config.COINMARKETCAP_API_KEY,
+                }),
+                getPriceAggregationOptions(config)
+            );
         }
 
-        // Fetch market data
+        // Fetch market data, or read it from the event-driven state
         console.log('📊 Fetching market data from both chains...\n');
-        const marketStats = await fetchMarketData(
-            config,
-            solanaConnection,
-            baseProvider,
-            solanaKeypair
-        );
+        const marketStats = marketState
+            ? await marketState.getMarketStats(solanaKeypair)
+            : await fetchMarketData(
+                config,
+                solanaConnection,
+                baseProvider,
+                solanaKeypair
+            );
 
         if (!marketStats) {
             throw new Error('Failed to fetch market data');
@@ -99,8 +192,7 @@ export async function runArbitrageAnalysis(
         const opportunity = await analyzeOpportunity(
             config,
             marketStats,
-            walletStats,
-            baseProvider
+            walletStats
         );
 
         if (!opportunity) {
@@ -108,6 +200,8 @@ export async function runArbitrageAnalysis(
             return null;
         }
 
+        journalSafely(config, journal => journal.recordOpportunity(opportunity));
+
         // Display opportunity
         displayOpportunity(opportunity, config, marketStats);
 
@@ -122,6 +216,10 @@ export async function runArbitrageAnalysis(
             baseWallet
         );
 
+        if (simulation) {
+            journalSafely(config, journal => journal.recordSimulation(simulation));
+        }
+
         if (!simulation || !simulation.success) {
             console.log('❌ Simulation failed or not profitable.\n');
             if (simulation?.failureReason) {
@@ -133,75 +231,48 @@ export async function runArbitrageAnalysis(
         // Display simulation results
         displaySimulationResults(simulation, config);
 
-        // Execute if auto-execute is enabled
-        if (shouldAutoExecute) {
-            if (!solanaKeypair || !baseWallet) {
-                console.warn('⚠️  Auto-execution enabled but private keys not configured\n');
-                return { opportunity, simulation, executed: false };
-            }
-
-            console.log('\n📤 Auto-executing trades...\n');
-
-            const startTime = Date.now();
-            const preTradeWalletBalances = walletStats ? {
-                solana: { ...walletStats.solana },
-                base: { ...walletStats.base }
-            } : {
-                solana: { sol: 0, token: 0, solUsd: 0, tokenUsd: 0, totalUsd: 0 },
-                base: { eth: 0, usdc: 0, token: 0, ethUsd: 0, totalUsd: 0 }
-            };
-
-            try {
-                const result = await executeArbitrage(
-                    config,
-                    opportunity,
-                    simulation,
-                    solanaConnection,
-                    baseProvider,
-                    solanaKeypair,
-                    baseWallet
-                );
+        if (!shouldAutoExecute) {
+            console.log('\n⏸️  Auto-execution disabled. Opportunity found but not executed.\n');
+            return { opportunity, simulation, executed: false };
+        }
 
-                const executionDurationMs = Date.now() - startTime;
+        if (liveTradingEnabled && (!solanaKeypair || !baseWallet)) {
+            console.warn('⚠️  Auto-execution enabled but private keys not configured\n');
+            return { opportunity, simulation, executed: false };
+        }
 
-                // Fetch post-trade balances
-                const postTradeWalletStats = await fetchWalletStats(
-                    config,
-                    solanaConnection,
-                    baseProvider,
-                    solanaKeypair,
-                    baseWallet,
-                    marketStats
-                );
-
-                // Send notification
-                await notificationService.notifyTradeExecution({
-                    opportunity,
-                    simulation,
-                    solanaSignature: undefined, // Will be populated based on direction
-                    baseTransactionHash: undefined, // Will be populated based on direction
-                    preTradeMarketStats: marketStats,
-                    preTradeWalletBalances,
-                    postTradeWalletBalances: postTradeWalletStats ? {
-                        solana: { ...postTradeWalletStats.solana },
-                        base: { ...postTradeWalletStats.base }
-                    } : undefined,
-                    timestamp: Date.now(),
-                    executionDurationMs
-                });
-
-                return { opportunity, simulation, result, executed: true };
-            } catch (error: any) {
-                await notificationService.notifyTradeFailed(
-                    opportunity,
-                    'Execution failed',
-                    error
-                );
-                throw error;
+        // The direction is waiting on bridged inventory
+        if (config.REBALANCE_ENABLED) {
+            const pendingTransfer = getRebalanceStore(config.REBALANCE_STATE_FILE).getPause(opportunity.direction, config.SOLANA_TOKEN_MINT);
+            if (pendingTransfer) {
+                console.log(`⏸️  ${opportunity.direction} paused until rebalance ${pendingTransfer.id} (${pendingTransfer.asset} → ${pendingTransfer.to}) is redeemed.\n`);
+                return { opportunity, simulation, executed: false, paused: true };
             }
-        } else {
-            console.log('\n⏸️  Auto-execution disabled. Opportunity found but not executed.\n');
-            return { opportunity, simulation, executed: false };
+        }
+
+        // All pairs share the same wallets, so only one may trade at a time
+        const executionLock = getExecutionLock();
+        if (!executionLock.tryAcquire(config.SOLANA_TOKEN_MINT)) {
+            console.log(`⏳ Execution lock held by ${executionLock.getHolder()?.owner}. Skipping execution.\n`);
+            return { opportunity, simulation, executed: false, locked: true };
+        }
+
+        try {
+            return await validateAndExecute(
+                config,
+                liveTradingEnabled,
+                opportunity,
+                simulation,
+                marketStats,
+                walletStats,
+                solanaConnection,
+                baseProvider,
+                solanaKeypair,
+                baseWallet,
+                marketState
+            );
+        } finally {
+            executionLock.release(config.SOLANA_TOKEN_MINT);
         }
 
     } catch (error) {
@@ -209,3 +280,202 @@ export async function runArbitrageAnalysis(
         throw error;
     }
 }
+
+/**
+ * Re-validate, apply risk limits and execute. Runs while holding the execution lock.
+ */
+async function validateAndExecute(
+    config: AppConfig,
+    liveTradingEnabled: boolean,
+    opportunity: Opportunity,
+    simulation: ArbitrageSimulation,
+    marketStats: MarketStats,
+    walletStats: WalletStats | null,
+    solanaConnection: Connection,
+    baseProvider: JsonRpcProvider,
+    solanaKeypair: Keypair | null,
+    baseWallet: Wallet | null,
+    marketState: MarketState | null
+): Promise<any> {
+    // Re-validate right before the first leg is sent
+    const validated = await revalidateForExecution(
+        config,
+        opportunity,
+        simulation,
+        marketStats,
+        walletStats,
+        solanaConnection,
+        baseProvider,
+        solanaKeypair,
+        baseWallet,
+        marketState
+    );
+
+    if (!validated) {
+        console.log('❌ Opportunity no longer valid. Skipping execution.\n');
+        return { opportunity, simulation, executed: false, stale: true };
+    }
+
+    // Enforce risk limits on the exact trade we are about to send
+    const riskEngine = getRiskEngine(config);
+    const balances = liveTradingEnabled ? validated.opportunity.balances : getPaperLedger(config).getBalances();
+    const assessment = riskEngine.assess(validated.opportunity, validated.simulation, validated.marketStats, balances);
+    displayRiskAssessment(assessment);
+
+    if (!assessment.approved) {
+        journalSafely(config, journal => journal.recordRiskRejection(validated.opportunity, assessment));
+        console.log('❌ Trade blocked by risk limits. Skipping execution.\n');
+        return { opportunity: validated.opportunity, simulation: validated.simulation, risk: assessment, executed: false };
+    }
+
+    riskEngine.beginTrade();
+    let outcome = { success: false, profitUsd: 0 };
+    try {
+        const execution = await executeOpportunity(
+            config,
+            liveTradingEnabled,
+            validated.opportunity,
+            validated.simulation,
+            validated.marketStats,
+            walletStats,
+            solanaConnection,
+            baseProvider,
+            solanaKeypair,
+            baseWallet
+        );
+        // A leg whose fill could not be read counts as break-even
+        outcome = {
+            success: execution.executed,
+            profitUsd: (execution.paper ? execution.result?.profitUsd : execution.result?.actualProfitUsd) ?? 0
+        };
+        return execution;
+    } finally {
+        riskEngine.endTrade(outcome);
+    }
+}
+
+/**
+ * Execute a validated opportunity, on paper or live depending on the run mode
+ */
+async function executeOpportunity(
+    config: AppConfig,
+    liveTradingEnabled: boolean,
+    opportunity: Opportunity,
+    simulation: ArbitrageSimulation,
+    marketStats: MarketStats,
+    walletStats: WalletStats | null,
+    solanaConnection: Connection,
+    baseProvider: JsonRpcProvider,
+    solanaKeypair: Keypair | null,
+    baseWallet: Wallet | null
+): Promise<any> {
+    const notificationService = getNotificationService(true);
+
+    // Paper mode: fill against the fetched reserves instead of sending transactions
+    if (!liveTradingEnabled) {
+        console.log('\n📝 Paper trading (set RUN_MODE=live and ENABLE_LIVE_TRADING=true to trade for real)...\n');
+
+        const ledger = getPaperLedger(config);
+        try {
+            const result = executePaperArbitrage(config, opportunity, simulation, marketStats, ledger);
+            journalSafely(config, journal => journal.recordPaperExecution(result));
+            await notificationService.notifyPaperTrade(result, ledger.getSummary());
+            return { opportunity, simulation, result, executed: true, paper: true };
+        } catch (error: any) {
+            journalSafely(config, journal => journal.recordExecutionFailure(opportunity, 'paper', error.message));
+            await notificationService.notifyTradeFailed(
+                opportunity,
+                'Paper execution failed',
+                error
+            );
+            return { opportunity, simulation, executed: false, paper: true };
+        }
+    }
+
+    // Live execution
+    if (!solanaKeypair || !baseWallet) {
+        console.warn('⚠️  Auto-execution enabled but private keys not configured\n');
+        return { opportunity, simulation, executed: false };
+    }
+
+    console.log('\n📤 Auto-executing trades...\n');
+
+    const startTime = Date.now();
+    const preTradeWalletBalances = walletStats ? {
+        solana: { ...walletStats.solana },
+        base: { ...walletStats.base }
+    } : {
+        solana: { sol: 0, token: 0, solUsd: 0, tokenUsd: 0, totalUsd: 0 },
+        base: { eth: 0, usdc: 0, token: 0, ethUsd: 0, totalUsd: 0 }
+    };
+
+    try {
+        const result = await executeArbitrage(
+            config,
+            opportunity,
+            simulation,
+            solanaConnection,
+            baseProvider,
+            solanaKeypair,
+            baseWallet
+        );
+
+        const executionDurationMs = Date.now() - startTime;
+
+        await settlePendingSell(result, solanaConnection);
+        if (isPartialExecution(result)) {
+            const position = await recoverPartialExecution(
+                config,
+                result,
+                solanaConnection,
+                baseProvider,
+                solanaKeypair,
+                baseWallet
+            );
+            journalSafely(config, journal => journal.recordExecution(result, position));
+            return { opportunity, simulation, result, recovery: position, executed: false };
+        }
+
+        journalSafely(config, journal => journal.recordExecution(result));
+
+        if (!result.success) {
+            throw new Error(result.error || 'Execution failed');
+        }
+
+        // Fetch post-trade balances
+        const postTradeWalletStats = await fetchWalletStats(
+            config,
+            solanaConnection,
+            baseProvider,
+            solanaKeypair,
+            baseWallet,
+            marketStats
+        );
+
+        // Send notification
+        await notificationService.notifyTradeExecution({
+            opportunity,
+            simulation,
+            executionResult: result,
+            solanaSignature: result.plan.buyChain === 'solana' ? result.buyTxHash : result.sellTxHash,
+            baseTransactionHash: result.plan.buyChain === 'base' ? result.buyTxHash : result.sellTxHash,
+            preTradeMarketStats: marketStats,
+            preTradeWalletBalances,
+            postTradeWalletBalances: postTradeWalletStats ? {
+                solana: { ...postTradeWalletStats.solana },
+                base: { ...postTradeWalletStats.base }
+            } : undefined,
+            timestamp: Date.now(),
+            executionDurationMs
+        });
+
+        return { opportunity, simulation, result, executed: true };
+    } catch (error: any) {
+        await notificationService.notifyTradeFailed(
+            opportunity,
+            'Execution failed',
+            error
+        );
+        throw error;
+    }
+}
@@ -0,0 +1,125 @@
+import 'dotenv/config';
+import { loadConfigKeys } from './config.js';
+import { runBacktest, type BacktestReport } from './backtest/backtester.js';
+import { readRecordedEvents } from './backtest/recordedEvents.js';
+import { printHeader, printFooter, handleTestError } from './utils/testHelpers.js';
+
+/**
+ * Backtest CLI
+ *
+ * Usage:
+ *   pnpm backtest <recording.jsonl> [more.jsonl ...] [--min-profit 0.02] [--trade-size 100]
+ *     [--max-impact 5] [--gas-usd 0.1] [--slippage-bps 50] [--latency-ms 2000] [--verbose]
+ *
+ * Recordings are replayed in the order given. Flags override the matching
+ * config values (MIN_PROFIT_THRESHOLD, TRADE_SIZE_USD, MAX_PRICE_IMPACT_PERCENT,
+ * ESTIMATED_GAS_COST_USD, BASE_SWAP_SLIPPAGE_BPS) so settings can be compared
+ * on the same recording.
+ */
+const NUMERIC_FLAGS = ['min-profit', 'trade-size', 'max-impact', 'gas-usd', 'slippage-bps', 'latency-ms'] as const;
+type NumericFlag = typeof NUMERIC_FLAGS[number];
+
+const DEFAULT_LATENCY_MS = 2000;
+
+function parseArgs(argv: string[]): { paths: string[]; flags: Partial<Record<NumericFlag, number>>; verbose: boolean } {
+  const paths: string[] = [];
+  const flags: Partial<Record<NumericFlag, number>> = {};
+  let verbose = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      paths.push(arg);
+      continue;
+    }
+    if (arg === '--verbose') {
+      verbose = true;
+      continue;
+    }
+
+    const flag = arg.slice(2) as NumericFlag;
+    const value = Number(argv[i + 1]);
+    if (!NUMERIC_FLAGS.includes(flag) || argv[i + 1] === undefined || !Number.isFinite(value)) {
+      throw new Error(`Invalid argument: ${arg}`);
+    }
+    flags[flag] = value;
+    i++;
+  }
+
+  if (paths.length === 0) {
+    throw new Error(`Usage: pnpm backtest <recording.jsonl> [...] [${NUMERIC_FLAGS.map((f) => `--${f} N`).join('] [')}] [--verbose]`);
+  }
+  return { paths, flags, verbose };
+}
+
+function displayReport(report: BacktestReport): void {
+  const iso = (timestamp: number | null) => (timestamp === null ? '-' : new Date(timestamp).toISOString());
+
+  if (report.trades.length > 0) {
+    console.log('📒 Trades:');
+    console.table(report.trades.map((t) => ({
+      'Detected': iso(t.detectedAt),
+      'Route': t.route,
+      'Status': t.status,
+      'Est. Profit': `$${t.estimatedProfitUsd.toFixed(4)}`,
+      'Cost': `$${t.costUsd.toFixed(2)}`,
+      'Revenue': `$${t.revenueUsd.toFixed(2)}`,
+      'Gas': `$${t.gasCostUsd.toFixed(4)}`,
+      'Profit': `$${t.profitUsd.toFixed(4)}`,
+    })));
+  }
+
+  console.log('\n📊 Summary:');
+  console.table({
+    'Events': { Value: report.events },
+    'From': { Value: iso(report.firstEventAt) },
+    'To': { Value: iso(report.lastEventAt) },
+    'Opportunities': { Value: report.opportunities },
+    'Trades': { Value: report.trades.length },
+    'Filled': { Value: report.filled },
+    'Reverted': { Value: report.reverted },
+    'Hit Rate': { Value: `${report.hitRate.toFixed(1)}%` },
+    'PnL': { Value: `$${report.pnlUsd.toFixed(4)}` },
+    'Gas': { Value: `$${report.gasCostUsd.toFixed(4)}` },
+    'Max Drawdown': { Value: `$${report.maxDrawdownUsd.toFixed(4)}` },
+    'Missed Opportunities': { Value: report.missedOpportunities },
+    'Missed Est. Profit': { Value: `$${report.missedProfitUsd.toFixed(4)}` },
+  });
+}
+
+async function main() {
+  const config = loadConfigKeys([
+    'MIN_PROFIT_THRESHOLD',
+    'TRADE_SIZE_USD',
+    'MAX_PRICE_IMPACT_PERCENT',
+    'ESTIMATED_GAS_COST_USD',
+    'BASE_SWAP_SLIPPAGE_BPS',
+  ]);
+  const { paths, flags, verbose } = parseArgs(process.argv.slice(2));
+
+  const backtestConfig = {
+    ...config,
+    MIN_PROFIT_THRESHOLD: flags['min-profit'] ?? config.MIN_PROFIT_THRESHOLD,
+    TRADE_SIZE_USD: flags['trade-size'] ?? config.TRADE_SIZE_USD,
+    MAX_PRICE_IMPACT_PERCENT: flags['max-impact'] ?? config.MAX_PRICE_IMPACT_PERCENT,
+    ESTIMATED_GAS_COST_USD: flags['gas-usd'] ?? config.ESTIMATED_GAS_COST_USD,
+    BASE_SWAP_SLIPPAGE_BPS: flags['slippage-bps'] ?? config.BASE_SWAP_SLIPPAGE_BPS,
+  };
+  const latencyMs = flags['latency-ms'] ?? DEFAULT_LATENCY_MS;
+
+  printHeader('🧪 BACKTEST');
+  console.log(`   Recordings: ${paths.join(', ')}`);
+  console.log(`   Min Profit Threshold: ${(backtestConfig.MIN_PROFIT_THRESHOLD * 100).toFixed(2)}%`);
+  console.log(`   Max Trade Size: $${backtestConfig.TRADE_SIZE_USD}`);
+  console.log(`   Max Price Impact: ${backtestConfig.MAX_PRICE_IMPACT_PERCENT}%`);
+  console.log(`   Estimated Gas: $${backtestConfig.ESTIMATED_GAS_COST_USD}`);
+  console.log(`   Base Slippage: ${backtestConfig.BASE_SWAP_SLIPPAGE_BPS} bps`);
+  console.log(`   Latency: ${latencyMs}ms\n`);
+
+  const report = await runBacktest(backtestConfig, readRecordedEvents(paths), { latencyMs, verbose });
+  displayReport(report);
+
+  printFooter('✅ Backtest Complete');
+}
+
+main().catch(handleTestError);
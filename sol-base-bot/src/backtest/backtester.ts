@@ -0,0 +1,268 @@
+/**
+ * Backtester
+ *
+ * Replays a recording through the live analyzer: after every event the rebuilt
+ * reserves are analyzed, and each opportunity is filled against the reserves
+ * `latencyMs` later, with the same per-leg slippage limits the executor sends.
+ * Runs entirely offline; nothing here touches an RPC.
+ */
+
+import { analyzeOpportunity } from '../arbitrage/opportunityAnalyzer.js';
+import { createMarketVenues, selectTradeVenues, getLegAmounts } from '../arbitrage/venues/marketVenues.js';
+import { BUY_SLIPPAGE_BUFFER, SELL_SLIPPAGE_BUFFER } from '../arbitrage/venues/pumpFunVenue.js';
+import type { TradeSide, Venue } from '../arbitrage/venues/types.js';
+import type { Opportunity } from '../arbitrage/types.js';
+import { MarketReplay } from './marketReplay.js';
+import type { RecordedEvent } from './recordedEvents.js';
+
+const BPS_DENOMINATOR = 10000n;
+
+export interface BacktestOptions {
+  latencyMs: number; // Detection to landing
+  verbose: boolean; // Keep the analyzer's logs
+}
+
+export type BacktestTradeStatus = 'filled' | 'buy_reverted' | 'sell_reverted';
+
+export interface BacktestTrade {
+  detectedAt: number;
+  landedAt: number;
+  route: string;
+  status: BacktestTradeStatus;
+  estimatedProfitUsd: number;
+  costUsd: number;
+  revenueUsd: number; // Sell proceeds, or unwind proceeds when the sell reverted
+  gasCostUsd: number;
+  profitUsd: number;
+}
+
+export interface BacktestReport {
+  events: number;
+  firstEventAt: number | null;
+  lastEventAt: number | null;
+  opportunities: number;
+  trades: BacktestTrade[];
+  filled: number;
+  reverted: number;
+  hitRate: number; // Profitable trades (%)
+  pnlUsd: number;
+  gasCostUsd: number;
+  maxDrawdownUsd: number;
+  missedOpportunities: number; // Detected while a trade was in flight
+  missedProfitUsd: number; // Their estimated profit
+}
+
+interface PendingTrade {
+  opportunity: Opportunity;
+  detectedAt: number;
+  landsAt: number;
+}
+
+type BacktestConfig = {
+  MIN_PROFIT_THRESHOLD: number;
+  TRADE_SIZE_USD: number;
+  MAX_PRICE_IMPACT_PERCENT: number;
+  ESTIMATED_GAS_COST_USD: number;
+  BASE_SWAP_SLIPPAGE_BPS: number;
+};
+
+/**
+ * Worst quote a leg accepts: the executor's SOL limits on Solana and
+ * BASE_SWAP_SLIPPAGE_BPS on Base. Live Base legs re-quote just before sending,
+ * so holding them to the detection-time quote is conservative.
+ */
+function getQuoteLimit(venue: Venue, side: TradeSide, expectedQuote: bigint, baseSlippageBps: number): bigint {
+  if (venue.chain === 'solana') {
+    return BigInt(Math.floor(Number(expectedQuote) * (side === 'buy' ? BUY_SLIPPAGE_BUFFER : SELL_SLIPPAGE_BUFFER)));
+  }
+  const bps = BigInt(baseSlippageBps);
+  return side === 'buy'
+    ? (expectedQuote * (BPS_DENOMINATOR + bps)) / BPS_DENOMINATOR
+    : (expectedQuote * (BPS_DENOMINATOR - bps)) / BPS_DENOMINATOR;
+}
+
+function tryQuote(venue: Venue, side: TradeSide, tokenAmount: bigint): bigint | null {
+  try {
+    return venue.quote(side, tokenAmount);
+  } catch {
+    return null;
+  }
+}
+
+function toUsd(amount: bigint, venue: Venue): number {
+  return (Number(amount) / (10 ** venue.quoteDecimals)) * venue.quoteUsd;
+}
+
+/**
+ * Venues over the current replayed reserves; null if the opportunity's venues are gone (graduation)
+ */
+function getTradeVenues(replay: MarketReplay, opportunity: Opportunity): { buy: Venue; sell: Venue } | null {
+  try {
+    return selectTradeVenues(createMarketVenues(replay.getMarketStats()), opportunity);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Land both legs on the current reserves. A reverted buy only costs gas; a reverted
+ * sell leaves the tokens, which are unwound on the buy venue like the recovery path does.
+ */
+function fillTrade(replay: MarketReplay, pending: PendingTrade, landedAt: number, config: BacktestConfig): BacktestTrade {
+  const { opportunity } = pending;
+  const legGasUsd = config.ESTIMATED_GAS_COST_USD / 2;
+  const trade: BacktestTrade = {
+    detectedAt: pending.detectedAt,
+    landedAt,
+    route: `${opportunity.buyVenue} → ${opportunity.sellVenue}`,
+    status: 'buy_reverted',
+    estimatedProfitUsd: opportunity.estimatedProfitUsd,
+    costUsd: 0,
+    revenueUsd: 0,
+    gasCostUsd: legGasUsd,
+    profitUsd: 0,
+  };
+  const finish = (): BacktestTrade => {
+    trade.profitUsd = trade.revenueUsd - trade.costUsd - trade.gasCostUsd;
+    return trade;
+  };
+
+  const buyVenues = getTradeVenues(replay, opportunity);
+  if (!buyVenues) return finish();
+  const { buy } = buyVenues;
+  const buyLeg = getLegAmounts(opportunity, 'buy');
+  const cost = tryQuote(buy, 'buy', buyLeg.tokenAmount);
+  if (cost === null || cost > getQuoteLimit(buy, 'buy', buyLeg.expectedQuote, config.BASE_SWAP_SLIPPAGE_BPS)) {
+    return finish();
+  }
+  replay.applyFill(buy, 'buy', buyLeg.tokenAmount, cost);
+  trade.costUsd = toUsd(cost, buy);
+  trade.gasCostUsd += legGasUsd;
+
+  // The sell leg prices against the reserves after our buy
+  const sellVenues = getTradeVenues(replay, opportunity);
+  if (sellVenues) {
+    const { sell } = sellVenues;
+    const sellLeg = getLegAmounts(opportunity, 'sell');
+    const revenue = tryQuote(sell, 'sell', sellLeg.tokenAmount);
+    if (revenue !== null && revenue >= getQuoteLimit(sell, 'sell', sellLeg.expectedQuote, config.BASE_SWAP_SLIPPAGE_BPS)) {
+      replay.applyFill(sell, 'sell', sellLeg.tokenAmount, revenue);
+      trade.status = 'filled';
+      trade.revenueUsd = toUsd(revenue, sell);
+      return finish();
+    }
+  }
+
+  trade.status = 'sell_reverted';
+  trade.gasCostUsd += legGasUsd;
+  const unwindVenues = getTradeVenues(replay, opportunity);
+  const proceeds = unwindVenues ? tryQuote(unwindVenues.buy, 'sell', buyLeg.tokenAmount) : null;
+  if (unwindVenues && proceeds !== null) {
+    replay.applyFill(unwindVenues.buy, 'sell', buyLeg.tokenAmount, proceeds);
+    trade.revenueUsd = toUsd(proceeds, unwindVenues.buy);
+  }
+  return finish();
+}
+
+/**
+ * Run the analyzer without its per-analysis logging
+ */
+async function analyze(
+  config: BacktestConfig,
+  replay: MarketReplay,
+  verbose: boolean
+): Promise<Opportunity | null> {
+  if (verbose) {
+    return analyzeOpportunity(config, replay.getMarketStats(), null);
+  }
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await analyzeOpportunity(config, replay.getMarketStats(), null);
+  } finally {
+    console.log = log;
+  }
+}
+
+/**
+ * Replay a recording and trade it. The recording must open with a snapshot.
+ * One trade is in flight at a time, like the execution lock; opportunities seen
+ * meanwhile are reported as missed.
+ */
+export async function runBacktest(
+  config: BacktestConfig,
+  events: AsyncIterable<RecordedEvent>,
+  options: BacktestOptions
+): Promise<BacktestReport> {
+  const trades: BacktestTrade[] = [];
+  let replay: MarketReplay | null = null;
+  let pending: PendingTrade | null = null;
+  let eventCount = 0;
+  let firstEventAt: number | null = null;
+  let lastEventAt: number | null = null;
+  let opportunities = 0;
+  let missedOpportunities = 0;
+  let missedProfitUsd = 0;
+
+  for await (const event of events) {
+    eventCount++;
+    firstEventAt ??= event.timestamp;
+    lastEventAt = event.timestamp;
+
+    // Legs land on the reserves as they stood before the first event past the latency
+    if (replay && pending && event.timestamp >= pending.landsAt) {
+      trades.push(fillTrade(replay, pending, pending.landsAt, config));
+      pending = null;
+    }
+
+    if (replay) {
+      replay.apply(event);
+    } else if (event.type === 'snapshot') {
+      replay = new MarketReplay(event);
+    } else {
+      throw new Error(`Recording must open with a snapshot, got ${event.type}`);
+    }
+
+    const opportunity = await analyze(config, replay, options.verbose);
+    if (!opportunity) continue;
+    opportunities++;
+
+    if (pending) {
+      missedOpportunities++;
+      missedProfitUsd += opportunity.estimatedProfitUsd;
+      continue;
+    }
+    pending = { opportunity, detectedAt: event.timestamp, landsAt: event.timestamp + options.latencyMs };
+  }
+
+  // A trade still in flight lands on the final reserves
+  if (replay && pending) {
+    trades.push(fillTrade(replay, pending, lastEventAt ?? pending.landsAt, config));
+  }
+
+  let pnlUsd = 0;
+  let peakPnlUsd = 0;
+  let maxDrawdownUsd = 0;
+  for (const trade of trades) {
+    pnlUsd += trade.profitUsd;
+    peakPnlUsd = Math.max(peakPnlUsd, pnlUsd);
+    maxDrawdownUsd = Math.max(maxDrawdownUsd, peakPnlUsd - pnlUsd);
+  }
+  const profitable = trades.filter((t) => t.profitUsd > 0).length;
+
+  return {
+    events: eventCount,
+    firstEventAt,
+    lastEventAt,
+    opportunities,
+    trades,
+    filled: trades.filter((t) => t.status === 'filled').length,
+    reverted: trades.filter((t) => t.status !== 'filled').length,
+    hitRate: trades.length > 0 ? (profitable / trades.length) * 100 : 0,
+    pnlUsd,
+    gasCostUsd: trades.reduce((sum, t) => sum + t.gasCostUsd, 0),
+    maxDrawdownUsd,
+    missedOpportunities,
+    missedProfitUsd,
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Market Replay
+ *
+ * Rebuilds both pools' reserves from a recorded event stream, in the same
+ * MarketStats shape the market fetcher returns, so the analyzer runs unchanged.
+ */
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { MarketStats } from '../arbitrage/marketFetcher.js';
+import { getPumpSwapReservesAfter } from '../solana/pumpswap/events.js';
+import type { TradeSide, Venue } from '../arbitrage/venues/types.js';
+import type { RecordedEvent, RecordedSnapshot } from './recordedEvents.js';
+
+const BPS_DENOMINATOR = 10000n;
+
+export class MarketReplay {
+  private solana: RecordedSnapshot['solana'];
+  private base: RecordedSnapshot['base'];
+  private solPriceUsd: number;
+  private baseBlockNumber: number | null; // Base block the last snapshot's reserves include
+  // Set once our own fills have moved a pool away from what the recording saw
+  private solanaDiverged = false;
+  private baseDiverged = false;
+
+  constructor(snapshot: RecordedSnapshot) {
+    this.solana = { ...snapshot.solana };
+    this.base = { ...snapshot.base };
+    this.solPriceUsd = snapshot.solPriceUsd;
+    this.baseBlockNumber = snapshot.baseBlockNumber ?? null;
+  }
+
+  /**
+   * Move the reserves by one recorded event
+   */
+  apply(event: RecordedEvent): void {
+    switch (event.type) {
+      case 'snapshot':
+        this.solana = { ...event.solana };
+        this.base = { ...event.base };
+        this.baseBlockNumber = event.baseBlockNumber ?? null;
+        this.solPriceUsd = event.solPriceUsd;
+        this.solanaDiverged = false;
+        this.baseDiverged = false;
+        break;
+
+      case 'pumpfun_trade':
+        this.solana.venue = 'bonding_curve';
+        if (this.solanaDiverged) {
+          this.applyCurveTrade(event.isBuy, event.tokenAmount);
+          break;
+        }
+        this.solana.virtualSolReserves = event.virtualSolReserves;
+        this.solana.virtualTokenReserves = event.virtualTokenReserves;
+        this.solana.realSolReserves = event.realSolReserves;
+        this.solana.realTokenReserves = event.realTokenReserves;
+        break;
+
+      case 'pumpswap_trade': {
+        // Graduation starts a new pool, which our fills never touched
+        if (this.solanaDiverged && this.solana.venue === 'pumpswap') {
+          this.applyCurveTrade(event.isBuy, event.baseAmount);
+          break;
+        }
+        this.solana.venue = 'pumpswap';
+        this.solanaDiverged = false;
+        const { baseReserves: tokens, quoteReserves: lamports } = getPumpSwapReservesAfter(event);
+        this.solana.virtualTokenReserves = tokens;
+        this.solana.virtualSolReserves = lamports;
+        this.solana.realTokenReserves = tokens;
+        this.solana.realSolReserves = lamports;
+        break;
+      }
+
+      case 'uniswap_swap': {
+        if (this.includedInSnapshot(event.blockNumber)) break;
+        const usdcIn = this.base.usdcIsToken0 ? event.amount0In : event.amount1In;
+        const usdcOut = this.base.usdcIsToken0 ? event.amount0Out : event.amount1Out;
+        const tokenIn = this.base.usdcIsToken0 ? event.amount1In : event.amount0In;
+        const tokenOut = this.base.usdcIsToken0 ? event.amount1Out : event.amount0Out;
+        // A reorged swap is undone
+        const sign = event.removed ? -1n : 1n;
+        this.base.usdcReserves += sign * (usdcIn - usdcOut);
+        this.base.tokenReserves += sign * (tokenIn - tokenOut);
+        break;
+      }
+
+      case 'uniswap_sync':
+        if (this.includedInSnapshot(event.blockNumber)) break;
+        // The Swaps already moved a diverged pair; the recorded reserves would undo our fills
+        if (this.baseDiverged) break;
+        this.base.usdcReserves = this.base.usdcIsToken0 ? event.reserve0 : event.reserve1;
+        this.base.tokenReserves = this.base.usdcIsToken0 ? event.reserve1 : event.reserve0;
+        break;
+
+      case 'sol_price':
+        this.solPriceUsd = event.priceUsd;
+        break;
+    }
+  }
+
+  /**
+   * Whether the last snapshot's Base reserves were read at or after this block
+   */
+  private includedInSnapshot(blockNumber: number): boolean {
+    return this.baseBlockNumber !== null && blockNumber <= this.baseBlockNumber;
+  }
+
+  /**
+   * Move the reserves by a simulated fill of our own. From then on the pool's
+   * recorded trades are replayed as amounts through the curve instead of taking
+   * their absolute reserves, which never saw the fill.
+   */
+  applyFill(venue: Venue, side: TradeSide, tokenAmount: bigint, quoteAmount: bigint): void {
+    if (venue.chain === 'solana') {
+      // Quotes include the fee, which leaves the pool
+      const feeBps = this.solana.feeBps;
+      const lamports = side === 'buy'
+        ? (quoteAmount * BPS_DENOMINATOR) / (BPS_DENOMINATOR + feeBps)
+        : (quoteAmount * BPS_DENOMINATOR) / (BPS_DENOMINATOR - feeBps);
+      const sign = side === 'buy' ? 1n : -1n;
+      this.solana.virtualSolReserves += sign * lamports;
+      this.solana.realSolReserves += sign * lamports;
+      this.solana.virtualTokenReserves -= sign * tokenAmount;
+      this.solana.realTokenReserves -= sign * tokenAmount;
+      this.solanaDiverged = true;
+    } else {
+      // V2 fees stay in the pair
+      const sign = side === 'buy' ? 1n : -1n;
+      this.base.usdcReserves += sign * quoteAmount;
+      this.base.tokenReserves -= sign * tokenAmount;
+      this.baseDiverged = true;
+    }
+  }
+
+  /**
+   * Trade a recorded token amount through the Solana curve at the current reserves (fee-less)
+   */
+  private applyCurveTrade(isBuy: boolean, tokenAmount: bigint): void {
+    const { virtualSolReserves: vSol, virtualTokenReserves: vToken } = this.solana;
+    if (isBuy && tokenAmount >= vToken) return;
+    const newVToken = isBuy ? vToken - tokenAmount : vToken + tokenAmount;
+    const newVSol = (vSol * vToken) / newVToken;
+    this.solana.virtualTokenReserves = newVToken;
+    this.solana.virtualSolReserves = newVSol;
+    this.solana.realTokenReserves += newVToken - vToken;
+    this.solana.realSolReserves += newVSol - vSol;
+  }
+
+  /**
+   * Current reserves as market stats, priced like the market fetcher prices live reserves
+   */
+  getMarketStats(): MarketStats {
+    const { solana, base } = this;
+
+    const solanaPrice = (Number(solana.virtualSolReserves) / LAMPORTS_PER_SOL)
+      / (Number(solana.virtualTokenReserves) / (10 ** solana.tokenDecimals));
+    const solanaLiquidity = Number(solana.realSolReserves) / LAMPORTS_PER_SOL;
+
+    const basePrice = (Number(base.usdcReserves) / Number(base.tokenReserves)) * (10 ** (base.tokenDecimals - base.usdcDecimals));
+    const baseLiquidity = Number(base.usdcReserves) / (10 ** base.usdcDecimals);
+
+    return {
+      solana: {
+        price: solanaPrice,
+        priceUsd: solanaPrice * this.solPriceUsd,
+        liquidity: solanaLiquidity,
+        liquidityUsd: solanaLiquidity * this.solPriceUsd,
+        marketCapUsd: 0,
+        virtualSolReserves: solana.virtualSolReserves,
+        virtualTokenReserves: solana.virtualTokenReserves,
+        realSolReserves: solana.realSolReserves,
+        realTokenReserves: solana.realTokenReserves,
+        tokenDecimals: solana.tokenDecimals,
+        venue: solana.venue,
+        feeBps: solana.feeBps,
+      },
+      base: {
+        price: basePrice,
+        priceUsd: basePrice,
+        liquidity: baseLiquidity,
+        liquidityUsd: baseLiquidity,
+        usdcReserves: base.usdcReserves,
+        tokenReserves: base.tokenReserves,
+        usdcDecimals: base.usdcDecimals,
+        tokenDecimals: base.tokenDecimals,
+        dex: base.dex,
+        feeBps: base.feeBps,
+        v3: null,
+      },
+    };
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Recorded market events
+ *
+ * A recording is JSONL: one event per line, bigints written as decimal strings.
+ * It opens with a `snapshot` of both pools, and every later event moves one of
+ * them or the SOL price, so the reserves at any point can be rebuilt offline.
+ * Events replay in file order; slot and logIndex are kept for reference and are
+ * absent from recordings made before the recorder. Base events carry their
+ * block's timestamp, so they can sit slightly behind Solana events delivered
+ * earlier. A snapshot's `baseBlockNumber` is the Base block its reserves already
+ * include: swaps and syncs up to it are skipped on replay.
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { z } from 'zod';
+
+const bigintString = z.coerce.bigint();
+
+const snapshotSchema = z.object({
+  type: z.literal('snapshot'),
+  timestamp: z.number(), // ms
+  baseBlockNumber: z.number().int().optional(),
+  solPriceUsd: z.number().positive(),
+  solana: z.object({
+    venue: z.enum(['bonding_curve', 'pumpswap']),
+    virtualSolReserves: bigintString,
+    virtualTokenReserves: bigintString,
+    realSolReserves: bigintString,
+    realTokenReserves: bigintString,
+    feeBps: bigintString,
+    tokenDecimals: z.number().int().min(0),
+  }),
+  base: z.object({
+    dex: z.string(),
+    usdcIsToken0: z.boolean(),
+    usdcReserves: bigintString,
+    tokenReserves: bigintString,
+    feeBps: bigintString,
+    usdcDecimals: z.number().int().min(0),
+    tokenDecimals: z.number().int().min(0),
+  }),
+});
+
+// Bonding-curve TradeEvent; reserves are after the trade
+const pumpFunTradeSchema = z.object({
+  type: z.literal('pumpfun_trade'),
+  timestamp: z.number(),
+  signature: z.string(),
+  slot: z.number().int().optional(),
+  isBuy: z.boolean(),
+  solAmount: bigintString,
+  tokenAmount: bigintString,
+  virtualSolReserves: bigintString,
+  virtualTokenReserves: bigintString,
+  realSolReserves: bigintString,
+  realTokenReserves: bigintString,
+});
+
+// PumpSwap BuyEvent/SellEvent; pool reserves are before the trade
+const pumpSwapTradeSchema = z.object({
+  type: z.literal('pumpswap_trade'),
+  timestamp: z.number(),
+  signature: z.string(),
+  slot: z.number().int().optional(),
+  isBuy: z.boolean(),
+  baseAmount: bigintString,
+  quoteAmount: bigintString,
+  poolBaseReserves: bigintString,
+  poolQuoteReserves: bigintString,
+  lpFee: bigintString,
+  protocolFee: bigintString,
+});
+
+// Uniswap V2 pair Swap event
+const uniswapSwapSchema = z.object({
+  type: z.literal('uniswap_swap'),
+  timestamp: z.number(),
+  transactionHash: z.string(),
+  blockNumber: z.number().int(),
+  logIndex: z.number().int().optional(),
+  amount0In: bigintString,
+  amount1In: bigintString,
+  amount0Out: bigintString,
+  amount1Out: bigintString,
+  removed: z.boolean().default(false), // A reorg orphaned an earlier recorded swap
+});
+
+// Uniswap V2 pair Sync event: the pair's reserves after the swap
+const uniswapSyncSchema = z.object({
+  type: z.literal('uniswap_sync'),
+  timestamp: z.number(),
+  transactionHash: z.string(),
+  blockNumber: z.number().int(),
+  reserve0: bigintString,
+  reserve1: bigintString,
+});
+
+const solPriceSchema = z.object({
+  type: z.literal('sol_price'),
+  timestamp: z.number(),
+  priceUsd: z.number().positive(),
+});
+
+const recordedEventSchema = z.discriminatedUnion('type', [
+  snapshotSchema,
+  pumpFunTradeSchema,
+  pumpSwapTradeSchema,
+  uniswapSwapSchema,
+  uniswapSyncSchema,
+  solPriceSchema,
+]);
+
+export type RecordedEvent = z.infer<typeof recordedEventSchema>;
+export type RecordedSnapshot = z.infer<typeof snapshotSchema>;
+export type RecordedEventType = RecordedEvent['type'];
+
+/**
+ * One JSONL line for an event (no trailing newline)
+ */
+export function serializeRecordedEvent(event: RecordedEvent): string {
+  return JSON.stringify(event, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+/**
+ * Parse one JSONL line. Throws with the schema issues if the line is not a known event.
+ */
+export function parseRecordedEvent(line: string): RecordedEvent {
+  const parsed = recordedEventSchema.safeParse(JSON.parse(line));
+  if (!parsed.success) {
+    const message = parsed.error.issues
+      .map((i: z.ZodIssue) => `${i.path.join('.')}: ${i.message}`)
+      .join(', ');
+    throw new Error(`Invalid recorded event: ${message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Stream the events of one or more recordings, in file order
+ */
+export async function* readRecordedEvents(paths: string[]): AsyncGenerator<RecordedEvent> {
+  for (const path of paths) {
+    const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) continue;
+      try {
+        yield parseRecordedEvent(line);
+      } catch (err) {
+        throw new Error(`Failed to read ${path}:${lineNumber}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Log Cursor
+ *
+ * Reorg-safe ingestion for polled Base event subscriptions. Logs are handed
+ * over once their block is `confirmations` deep, in block and log index order,
+ * and are keyed by block hash and log index. The last processed block and a
+ * trail of recent block hashes are saved per address. When the saved hash no
+ * longer matches the chain, the ingestor walks the trail back to the common
+ * ancestor, rolls back the logs it handed over from orphaned blocks, and
+ * re-ingests from there. Missed ranges, including downtime, are backfilled in
+ * bounded getLogs windows.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { JsonRpcProvider, type Log } from 'ethers';
+
+// Free-tier RPCs cap getLogs at 10 blocks (inclusive)
+const MAX_LOG_BLOCK_RANGE = 9;
+
+// Windows fetched per poll; a longer backlog continues on the next poll
+const MAX_WINDOWS_PER_POLL = 50;
+
+// Window-end blocks kept for finding the common ancestor after a reorg
+const BLOCK_TRAIL_LENGTH = 64;
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface LogCursor {
+  block: BlockRef; // Last processed block
+  trail: BlockRef[]; // Recent processed blocks, oldest first, ending with `block`
+  updatedAt: number;
+}
+
+/**
+ * Receives new logs in order, or logs from orphaned blocks (`removed`) newest first
+ */
+export type LogHandler = (logs: Log[], removed: boolean) => Promise<void> | void;
+
+export type LogFetcher = (fromBlock: number, toBlock: number) => Promise<Log[]>;
+
+/**
+ * A log is unique by its block and position; transaction hashes repeat for multi-hop swaps
+ */
+export function getLogKey(log: Log): string {
+  return `${log.blockHash}:${log.index}`;
+}
+
+/**
+ * JSON file store for the last processed block of each address
+ */
+export class LogCursorStore {
+  private readonly filePath: string | null;
+  private cursors: Map<string, LogCursor> = new Map();
+
+  // Without a file the cursors live in memory for this run only
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, LogCursor>;
+      this.cursors = new Map(Object.entries(data));
+    } catch (error) {
+      console.warn(`⚠️  Failed to load log cursors from ${this.filePath}:`, error);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.cursors), null, 2));
+  }
+
+  get(address: string): LogCursor | null {
+    return this.cursors.get(address.toLowerCase()) ?? null;
+  }
+
+  set(address: string, cursor: LogCursor): void {
+    this.cursors.set(address.toLowerCase(), cursor);
+    this.save();
+  }
+}
+
+// Singleton store
+let logCursorStore: LogCursorStore | null = null;
+
+/**
+ * Save this process's cursors to `filePath`. Processes running side by side,
+ * like the bot and `pnpm record`, must each use their own file.
+ */
+export function initializeLogCursorStore(filePath: string): LogCursorStore {
+  logCursorStore = new LogCursorStore(filePath);
+  return logCursorStore;
+}
+
+/**
+ * The store set by initializeLogCursorStore. Processes that never set one (the
+ * test scripts) keep cursors in memory and start at the newest block each run.
+ */
+export function getLogCursorStore(): LogCursorStore {
+  if (!logCursorStore) {
+    logCursorStore = new LogCursorStore(null);
+  }
+  return logCursorStore;
+}
+
+/**
+ * Feeds every confirmed log of an address to a handler exactly once, and hands
+ * back the ones a reorg orphaned. Logs handed over before a restart can't be
+ * rolled back (they aren't persisted), but their range is still re-ingested.
+ */
+export class LogIngestor {
+  private readonly provider: JsonRpcProvider;
+  private readonly address: string;
+  private readonly fetchLogs: LogFetcher;
+  private readonly handler: LogHandler;
+  private readonly confirmations: number;
+  private readonly store: LogCursorStore;
+
+  private cursor: LogCursor | null;
+  private readonly delivered = new Map<string, Log>(); // Handed over within the trail
+  private processed = 0;
+  private reorgs = 0;
+  private stopped = false;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(
+    provider: JsonRpcProvider,
+    address: string,
+    fetchLogs: LogFetcher,
+    handler: LogHandler,
+    confirmations: number,
+    store: LogCursorStore = getLogCursorStore()
+  ) {
+    this.provider = provider;
+    this.address = address;
+    this.fetchLogs = fetchLogs;
+    this.handler = handler;
+    this.confirmations = confirmations;
+    this.store = store;
+    this.cursor = store.get(address);
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  getStats(): { processed: number; reorgs: number; cursor: LogCursor | null } {
+    return { processed: this.processed, reorgs: this.reorgs, cursor: this.cursor };
+  }
+
+  /**
+   * Roll back any reorg, then ingest confirmed blocks past the cursor. Without a
+   * saved cursor, ingestion starts at the newest confirmed block.
+   */
+  async poll(): Promise<void> {
+    // Overlapping polls would hand over the same logs twice
+    if (this.inFlight) return this.inFlight;
+
+    const start = this.cursor;
+    this.inFlight = this.ingest().finally(() => {
+      this.inFlight = null;
+      if (this.cursor && this.cursor !== start) {
+        this.store.set(this.address, this.cursor);
+      }
+    });
+    return this.inFlight;
+  }
+
+  private async ingest(): Promise<void> {
+    if (this.stopped) return;
+    const safeHead = (await this.provider.getBlockNumber()) - this.confirmations;
+
+    if (!this.cursor) {
+      const block = await this.getBlockRef(safeHead);
+      this.cursor = { block, trail: [block], updatedAt: Date.now() };
+      return;
+    }
+
+    await this.rollBackReorg(this.cursor);
+
+    for (let window = 0; window < MAX_WINDOWS_PER_POLL; window++) {
+      const cursor: LogCursor = this.cursor;
+      if (this.stopped || cursor.block.number >= safeHead) return;
+
+      const fromBlock = cursor.block.number + 1;
+      const toBlock = await this.getBlockRef(Math.min(fromBlock + MAX_LOG_BLOCK_RANGE, safeHead));
+      const logs = (await this.fetchLogs(fromBlock, toBlock.number))
+        .filter((log) => log.blockNumber <= toBlock.number)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+      // The window reorged between reading its end block and its logs; retry next poll
+      if (logs.some((log) => log.blockNumber === toBlock.number && log.blockHash !== toBlock.hash)) {
+        return;
+      }
+
+      const fresh = logs.filter((log) => !this.delivered.has(getLogKey(log)));
+      if (fresh.length > 0) {
+        await this.handler(fresh, false);
+        fresh.forEach((log) => this.delivered.set(getLogKey(log), log));
+        this.processed += fresh.length;
+      }
+
+      const trail: BlockRef[] = [...cursor.trail, toBlock].slice(-BLOCK_TRAIL_LENGTH);
+      this.cursor = { block: toBlock, trail, updatedAt: Date.now() };
+      this.prune(trail[0].number);
+    }
+  }
+
+  /**
+   * If the last processed block is no longer canonical, rewind to the newest
+   * trail block that still is and hand back the logs from the orphaned blocks
+   */
+  private async rollBackReorg(cursor: LogCursor): Promise<void> {
+    const current = await this.getBlockRef(cursor.block.number);
+    if (current.hash === cursor.block.hash) return;
+
+    let ancestorIndex = -1;
+    for (let i = cursor.trail.length - 2; i >= 0; i--) {
+      const ref = cursor.trail[i];
+      if ((await this.getBlockRef(ref.number)).hash === ref.hash) {
+        ancestorIndex = i;
+        break;
+      }
+    }
+
+    // Deeper than the trail: re-anchor at its oldest block as it is now
+    const ancestor = ancestorIndex >= 0
+      ? cursor.trail[ancestorIndex]
+      : await this.getBlockRef(cursor.trail[0].number);
+    const trail = ancestorIndex >= 0 ? cursor.trail.slice(0, ancestorIndex + 1) : [ancestor];
+
+    const removed = [...this.delivered.values()]
+      .filter((log) => log.blockNumber > ancestor.number)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.index - a.index);
+    if (removed.length > 0) {
+      await this.handler(removed, true);
+      removed.forEach((log) => this.delivered.delete(getLogKey(log)));
+    }
+
+    this.cursor = { block: ancestor, trail, updatedAt: Date.now() };
+    this.reorgs++;
+    console.warn(
+      `⚠️  Reorg on ${this.address} past block ${ancestor.number}` +
+      `${ancestorIndex < 0 ? ' (deeper than the saved trail)' : ''}: ` +
+      `rolled back ${removed.length} log(s), re-ingesting from block ${ancestor.number + 1}`
+    );
+  }
+
+  private async getBlockRef(blockNumber: number): Promise<BlockRef> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block || !block.hash) {
+      throw new Error(`Block ${blockNumber} not available`);
+    }
+    return { number: block.number, hash: block.hash };
+  }
+
+  private prune(oldestBlock: number): void {
+    for (const [key, log] of this.delivered) {
+      if (log.blockNumber < oldestBlock) {
+        this.delivered.delete(key);
+      }
+    }
+  }
+}
@@ -6,6 +6,7 @@ import {
   buyTokensWithUsdc,
   getTokenDecimals,
 } from '../uniswap/router.js';
+import { resolveBaseDex } from '../uniswap/dexRegistry.js';
 import { createReadlineInterface, promptConfirmation } from '../../utils/cliUtils.js';
 import { formatNumber } from '../../utils/formatters.js';
 
@@ -26,9 +27,7 @@ async function testBuyToken() {
     throw new Error('Missing BASE_PRIVATE_KEY_HEX in environment variables');
   }
 
-  if (!config.UNISWAP_V2_ROUTER02_ADDRESS) {
-    throw new Error('Missing UNISWAP_V2_ROUTER02_ADDRESS in environment variables');
-  }
+  const dex = resolveBaseDex(config);
 
   if (!config.BASE_USDC_ADDRESS) {
     throw new Error('Missing BASE_USDC_ADDRESS in environment variables');
@@ -55,7 +54,8 @@ async function testBuyToken() {
   console.log('📋 Configuration:');
   console.log(`   Base RPC URL:           ${config.BASE_RPC_HTTP_URL}`);
   console.log(`   Wallet Address:         ${walletAddress}`);
-  console.log(`   Router Address:         ${config.UNISWAP_V2_ROUTER02_ADDRESS}`);
+  console.log(`   DEX:                    ${dex.name} (${dex.feeBps} bps)`);
+  console.log(`   Router Address:         ${dex.router}`);
   console.log(`   USDC Address:           ${config.BASE_USDC_ADDRESS}`);
   console.log(`   Token Address:          ${config.BASE_TOKEN_ADDRESS}`);
   console.log(`   Slippage:               ${config.BASE_SWAP_SLIPPAGE_BPS / 100}%`);
@@ -88,7 +88,7 @@ async function testBuyToken() {
     // Simulate the swap
     const simulation = await simulateBuyTokensWithUsdc(
       provider,
-      config.UNISWAP_V2_ROUTER02_ADDRESS,
+      dex.router,
       config.BASE_USDC_ADDRESS,
       config.BASE_TOKEN_ADDRESS,
       amountOut,
@@ -149,7 +149,7 @@ async function testBuyToken() {
     console.log('\n📤 Executing Transaction...\n');
     const swapResult = await buyTokensWithUsdc(
       wallet,
-      config.UNISWAP_V2_ROUTER02_ADDRESS,
+      dex.router,
       config.BASE_USDC_ADDRESS,
       config.BASE_TOKEN_ADDRESS,
       amountOut,
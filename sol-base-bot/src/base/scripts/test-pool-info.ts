@@ -3,6 +3,7 @@ import { Contract, JsonRpcProvider, formatUnits } from 'ethers';
 import { createBaseProvider } from '../baseBalanceUtils.js';
 import { getPairAddress } from '../uniswap/events.js';
 import { getTokenDecimals } from '../uniswap/router.js';
+import { resolveBaseDex, type DexConfig } from '../uniswap/dexRegistry.js';
 import { formatTable } from '../../utils/formatters.js';
 import { printHeader, printFooter, logError, handleTestError } from '../../utils/testHelpers.js';
 import uniswapPairAbi from '../abi/UniswapV2Pair.json' with { type: 'json' };
@@ -48,14 +49,14 @@ interface PoolInfo {
 
 async function getPoolInfo(
   provider: JsonRpcProvider,
-  routerAddress: string,
+  dex: DexConfig,
   usdcAddress: string,
   tokenAddress: string
 ): Promise<PoolInfo | null> {
   try {
     // Get pair address
-    console.log(`   Finding Uniswap V2 pair...`);
-    const pairAddress = await getPairAddress(provider, routerAddress, usdcAddress, tokenAddress);
+    console.log(`   Finding ${dex.name} pair...`);
+    const pairAddress = await getPairAddress(provider, dex, usdcAddress, tokenAddress);
     console.log(`   Pair Address: ${pairAddress}`);
 
     // Create pair contract instance
@@ -201,9 +202,7 @@ async function testPoolInfo() {
     throw new Error('Missing BASE_RPC_HTTP_URL in environment variables');
   }
 
-  if (!config.UNISWAP_V2_ROUTER02_ADDRESS) {
-    throw new Error('Missing UNISWAP_V2_ROUTER02_ADDRESS in environment variables');
-  }
+  const dex = resolveBaseDex(config);
 
   if (!config.BASE_USDC_ADDRESS) {
     throw new Error('Missing BASE_USDC_ADDRESS in environment variables');
@@ -215,7 +214,8 @@ async function testPoolInfo() {
 
   console.log(`📋 Configuration:`);
   console.log(`   Base RPC URL:           ${config.BASE_RPC_HTTP_URL}`);
-  console.log(`   Router Address:         ${config.UNISWAP_V2_ROUTER02_ADDRESS}`);
+  console.log(`   DEX:                    ${dex.name} (${dex.feeBps} bps)`);
+  console.log(`   Router Address:         ${dex.router}`);
   console.log(`   USDC Address:           ${config.BASE_USDC_ADDRESS}`);
   console.log(`   Token Address:          ${config.BASE_TOKEN_ADDRESS}\n`);
 
@@ -226,7 +226,7 @@ async function testPoolInfo() {
   console.log('📊 Fetching Pool Information...\n');
   const poolInfo = await getPoolInfo(
     provider,
-    config.UNISWAP_V2_ROUTER02_ADDRESS,
+    dex,
     config.BASE_USDC_ADDRESS,
     config.BASE_TOKEN_ADDRESS
   );
@@ -6,6 +6,7 @@ import {
   formatSwapEvent,
   SwapEvent,
 } from '../uniswap/events.js';
+import { resolveBaseDex } from '../uniswap/dexRegistry.js';
 import { createReadlineInterface } from '../../utils/cliUtils.js';
 
 async function testSwapEvents() {
@@ -21,9 +22,7 @@ async function testSwapEvents() {
     throw new Error('Missing BASE_RPC_HTTP_URL in environment variables');
   }
 
-  if (!config.UNISWAP_V2_ROUTER02_ADDRESS) {
-    throw new Error('Missing UNISWAP_V2_ROUTER02_ADDRESS in environment variables');
-  }
+  const dex = resolveBaseDex(config);
 
   if (!config.BASE_USDC_ADDRESS) {
     throw new Error('Missing BASE_USDC_ADDRESS in environment variables');
@@ -38,16 +37,17 @@ async function testSwapEvents() {
 
   console.log('📋 Configuration:');
   console.log(`   Base RPC URL:           ${config.BASE_RPC_HTTP_URL}`);
-  console.log(`   Router Address:         ${config.UNISWAP_V2_ROUTER02_ADDRESS}`);
+  console.log(`   DEX:                    ${dex.name} (${dex.feeBps} bps)`);
+  console.log(`   Router Address:         ${dex.router}`);
   console.log(`   USDC Address:           ${config.BASE_USDC_ADDRESS}`);
   console.log(`   Token Address:          ${config.BASE_TOKEN_ADDRESS}\n`);
 
   try {
     // Get pair address
-    console.log('🔍 Finding Uniswap V2 Pair...\n');
+    console.log(`🔍 Finding ${dex.name} Pair...\n`);
     const pairAddress = await getPairAddress(
       provider,
-      config.UNISWAP_V2_ROUTER02_ADDRESS,
+      dex,
       config.BASE_USDC_ADDRESS,
       config.BASE_TOKEN_ADDRESS
     );
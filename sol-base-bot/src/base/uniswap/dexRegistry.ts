@@ -0,0 +1,171 @@
+import { getAddress, getCreate2Address, keccak256, solidityPacked } from 'ethers';
+import { z } from 'zod';
+
+/**
+ * Base DEX Registry
+ *
+ * The Base leg trades on a Uniswap V2 style pair or a Uniswap V3 style pool.
+ * Forks share the pair/pool and router interface but use their own factory,
+ * router, fee and init code hash, so pricing and pool lookup go through the
+ * entry for the configured DEX. V3 entries trade the pool at BASE_V3_FEE_TIER
+ * unless the entry pins its own tier.
+ */
+
+export type DexVersion = 'v2' | 'v3';
+
+export interface DexConfig {
+  name: string;
+  version: DexVersion;
+  factory: string;
+  router: string; // Router02 (V2) or SwapRouter02 (V3)
+  quoter: string; // QuoterV2, V3 only
+  feeBps: bigint; // Swap fee taken from the input amount
+  feeTier: number; // V3 pool fee in hundredths of a bip, 0 for V2
+  initCodeHash: string; // Pair/pool creation code hash for CREATE2, '' to ask the factory
+}
+
+/**
+ * DEX settings as read from the environment
+ */
+export interface DexRegistryConfig {
+  BASE_DEX: string;
+  BASE_DEX_REGISTRY: string;
+  BASE_V3_FEE_TIER: number;
+}
+
+export const DEFAULT_DEX_NAME = 'uniswap-v2';
+
+const UNISWAP_V2: DexConfig = {
+  name: DEFAULT_DEX_NAME,
+  version: 'v2',
+  factory: '0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6',
+  router: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24',
+  quoter: '',
+  feeBps: 30n,
+  feeTier: 0,
+  initCodeHash: '0x96e8ac4277198ff8b6f785478aa9a39f403cb768dd02cbee326c3e7da348845f',
+};
+
+const UNISWAP_V3: DexConfig = {
+  name: 'uniswap-v3',
+  version: 'v3',
+  factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+  router: '0x2626664c2603336E57B271c5C0b26F421741e481',
+  quoter: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+  feeBps: 0n, // From the fee tier
+  feeTier: 0,
+  initCodeHash: '0xe34f199b19b2b4f47f68442619d555527d244f78a3297ea89325f843f87b8b54',
+};
+
+const dexEntrySchema = z.object({
+  name: z.string().min(1),
+  version: z.enum(['v2', 'v3']).default('v2'),
+  factory: z.string().min(1),
+  router: z.string().min(1),
+  quoter: z.string().default(''),
+  feeBps: z.coerce.number().int().min(0).max(10_000).optional(),
+  feeTier: z.coerce.number().int().min(0).max(1_000_000).default(0),
+  initCodeHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/).or(z.literal('')).default(''),
+})
+  .refine((entry) => entry.version !== 'v2' || entry.feeBps !== undefined, {
+    message: 'feeBps is required for V2 entries',
+    path: ['feeBps'],
+  })
+  .refine((entry) => entry.version !== 'v3' || entry.quoter !== '', {
+    message: 'quoter is required for V3 entries',
+    path: ['quoter'],
+  });
+
+let registryCache: { key: string; dexes: Map<string, DexConfig> } | null = null;
+
+/**
+ * Parses BASE_DEX_REGISTRY: a JSON array of
+ * { name, version?, factory, router, quoter?, feeBps?, feeTier?, initCodeHash? }
+ */
+export function parseDexRegistry(json: string): DexConfig[] {
+  if (!json.trim()) {
+    return [];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new Error(
+      `Invalid BASE_DEX_REGISTRY JSON: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  const parsed = z.array(dexEntrySchema).safeParse(raw);
+  if (!parsed.success) {
+    const message = parsed.error.issues
+      .map((i: z.ZodIssue) => `${i.path.join('.')}: ${i.message}`)
+      .join('\n');
+    throw new Error(`Invalid BASE_DEX_REGISTRY:\n${message}`);
+  }
+
+  return parsed.data.map((entry) => ({
+    name: entry.name,
+    version: entry.version,
+    factory: getAddress(entry.factory),
+    router: getAddress(entry.router),
+    quoter: entry.quoter ? getAddress(entry.quoter) : '',
+    feeBps: BigInt(entry.feeBps ?? 0),
+    feeTier: entry.feeTier,
+    initCodeHash: entry.initCodeHash,
+  }));
+}
+
+/**
+ * Built-in Uniswap V2 and V3 entries plus the configured forks, keyed by lowercase name.
+ * A V2 deployment with another router is registered as its own entry, with its
+ * factory and init code hash, rather than by swapping the built-in router.
+ */
+export function getDexRegistry(config: DexRegistryConfig): Map<string, DexConfig> {
+  const key = config.BASE_DEX_REGISTRY;
+  if (registryCache && registryCache.key === key) {
+    return registryCache.dexes;
+  }
+
+  const dexes = new Map<string, DexConfig>();
+  dexes.set(UNISWAP_V2.name, UNISWAP_V2);
+  dexes.set(UNISWAP_V3.name, UNISWAP_V3);
+  for (const dex of parseDexRegistry(config.BASE_DEX_REGISTRY)) {
+    dexes.set(dex.name.toLowerCase(), dex);
+  }
+
+  registryCache = { key, dexes };
+  return dexes;
+}
+
+/**
+ * The DEX the Base leg trades on (BASE_DEX), with the V3 fee tier applied
+ */
+export function resolveBaseDex(config: DexRegistryConfig): DexConfig {
+  const name = (config.BASE_DEX || DEFAULT_DEX_NAME).toLowerCase();
+  const dex = getDexRegistry(config).get(name);
+  if (!dex) {
+    const known = [...getDexRegistry(config).keys()].join(', ');
+    throw new Error(`Unknown BASE_DEX "${config.BASE_DEX}" (registered: ${known})`);
+  }
+  if (dex.version === 'v2') {
+    return dex;
+  }
+
+  const feeTier = dex.feeTier || config.BASE_V3_FEE_TIER;
+  return { ...dex, feeTier, feeBps: BigInt(feeTier) / 100n };
+}
+
+/**
+ * Computes a pair address from the factory and init code hash (tokens sorted like the factory does)
+ */
+export function computePairAddress(dex: DexConfig, tokenA: string, tokenB: string): string {
+  if (!dex.initCodeHash) {
+    throw new Error(`No init code hash registered for ${dex.name}`);
+  }
+  const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase()
+    ? [tokenA, tokenB]
+    : [tokenB, tokenA];
+  const salt = keccak256(solidityPacked(['address', 'address'], [getAddress(token0), getAddress(token1)]));
+  return getCreate2Address(dex.factory, salt, dex.initCodeHash);
+}
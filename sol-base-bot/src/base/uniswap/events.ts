@@ -1,7 +1,8 @@
-import { Contract, JsonRpcProvider, formatUnits, EventLog } from 'ethers';
+import { Contract, JsonRpcProvider, formatUnits, EventLog, Log } from 'ethers';
 import uniswapPairAbi from '../abi/UniswapV2Pair.json' with { type: "json" };
-import uniswapRouterAbi from '../abi/UniswapRouter02.json' with { type: "json" };
 import { getTokenDecimals } from './router.js';
+import { computePairAddress, type DexConfig } from './dexRegistry.js';
+import { LogIngestor, getLogKey } from '../logCursor.js';
 
 /**
  * SwapEvent interface matching Uniswap V2 Pair Swap event
@@ -15,7 +16,10 @@ export interface SwapEvent {
   to: string;
   transactionHash: string;
   blockNumber: number;
+  blockHash: string;
+  logIndex: number;
   blockTimestamp: number;
+  removed: boolean; // A reorg orphaned this swap; undo it
 }
 
 /**
@@ -23,6 +27,21 @@ export interface SwapEvent {
  */
 export type SwapEventCallback = (event: SwapEvent) => void;
 
+/**
+ * Uniswap V2 Pair Sync event: the pair's reserves after a swap, mint, burn or sync
+ */
+export interface SyncEvent {
+  reserve0: bigint;
+  reserve1: bigint;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+  blockTimestamp: number;
+  removed: boolean; // A reorg orphaned this update; the reserves before it are unknown
+}
+
+export type SyncEventCallback = (event: SyncEvent) => void;
+
 /**
  * Subscription handle for managing event listeners
  */
@@ -31,19 +50,27 @@ export interface SwapEventSubscription {
 }
 
 /**
- * Gets the Uniswap V2 pair address for two tokens
- * Uses the factory's getPair function via the router
+ * Gets the V2 pair address for two tokens on a registered DEX.
+ * Uses the DEX's init code hash when it has one, otherwise the factory's getPair.
  */
 export async function getPairAddress(
   provider: JsonRpcProvider,
-  routerAddress: string,
+  dex: DexConfig,
   tokenA: string,
   tokenB: string
 ): Promise<string> {
   try {
-    const router = new Contract(routerAddress, uniswapRouterAbi, provider);
-    const factoryAddress = await router.factory();
-    
+    let pairAddress: string;
+
+    if (dex.initCodeHash) {
+      pairAddress = computePairAddress(dex, tokenA, tokenB);
+      const code = await provider.getCode(pairAddress);
+      if (code === '0x') {
+        throw new Error(`Pair does not exist on ${dex.name} for tokens ${tokenA} and ${tokenB}`);
+      }
+      return pairAddress;
+    }
+
     // Uniswap V2 Factory ABI - just the getPair function
     const factoryAbi = [
       {
@@ -58,11 +85,11 @@ export async function getPairAddress(
       },
     ];
     
-    const factory = new Contract(factoryAddress, factoryAbi, provider);
-    const pairAddress = await factory.getPair(tokenA, tokenB);
+    const factory = new Contract(dex.factory, factoryAbi, provider);
+    pairAddress = await factory.getPair(tokenA, tokenB);
     
     if (!pairAddress || pairAddress === '0x0000000000000000000000000000000000000000') {
-      throw new Error(`Pair does not exist for tokens ${tokenA} and ${tokenB}`);
+      throw new Error(`Pair does not exist on ${dex.name} for tokens ${tokenA} and ${tokenB}`);
     }
     
     return pairAddress;
@@ -92,82 +119,62 @@ function parseSwapEvent(
     to: args.to || event.args[5],
     transactionHash: event.transactionHash,
     blockNumber: event.blockNumber,
+    blockHash: event.blockHash,
+    logIndex: event.index,
     blockTimestamp: 0, // Will be filled by the subscription handler
+    removed: false,
+  };
+}
+
+function parseSyncEvent(event: EventLog): SyncEvent {
+  return {
+    reserve0: BigInt(event.args[0]),
+    reserve1: BigInt(event.args[1]),
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    logIndex: event.index,
+    blockTimestamp: 0, // Will be filled by the subscription handler
+    removed: false,
   };
 }
 
 /**
- * Polls for new swap events by querying recent blocks
- * This is a fallback for RPC providers that don't support WebSocket subscriptions
+ * Parses a batch of Swap (and Sync) logs with their block timestamps and passes them to the callbacks
  */
-async function pollForSwapEvents(
+async function handleSwapLogs(
   provider: JsonRpcProvider,
-  pairAddress: string,
+  logs: Log[],
+  removed: boolean,
   callback: SwapEventCallback,
   token0Address: string,
   token1Address: string,
-  processedTxHashes: Set<string>,
-  subscriptionStartBlock: number,
-  pollInterval: number = 2000
+  onSync?: SyncEventCallback
 ): Promise<void> {
-  try {
-    const pairContract = new Contract(pairAddress, uniswapPairAbi, provider);
-    const currentBlock = await provider.getBlockNumber();
-    
-    // Query events from the last few blocks (or from subscription start)
-    // Free tier allows max 10 blocks (inclusive), so use currentBlock - 9
-    const fromBlock = Math.max(subscriptionStartBlock, currentBlock - 9);
-    const toBlock = currentBlock;
-    
-    // Get all Swap events in the block range
-    const filter = pairContract.filters.Swap();
-    const events = await pairContract.queryFilter(filter, fromBlock, toBlock);
-    
-    // Filter out already processed events
-    const newEvents = events.filter(
-      (e) => !processedTxHashes.has(e.transactionHash)
-    );
-    
-    if (newEvents.length === 0) {
-      return; // No new events
-    }
-    
-    // Get block timestamps for new events
-    const blockNumbers = new Set(newEvents.map(e => e.blockNumber));
-    const blockTimestamps: Map<number, number> = new Map();
-    
-    // Fetch block timestamps in parallel
-    await Promise.all(
-      Array.from(blockNumbers).map(async (blockNum) => {
-        try {
-          const block = await provider.getBlock(blockNum);
-          if (block) {
-            blockTimestamps.set(blockNum, block.timestamp);
-          }
-        } catch (err) {
-          // Ignore errors fetching block
+  const blockTimestamps: Map<number, number> = new Map();
+
+  // Fetch block timestamps in parallel
+  await Promise.all(
+    Array.from(new Set(logs.map(log => log.blockNumber))).map(async (blockNum) => {
+      try {
+        const block = await provider.getBlock(blockNum);
+        if (block) {
+          blockTimestamps.set(blockNum, block.timestamp);
         }
-      })
-    );
-    
-    // Process new events
-    for (const event of newEvents) {
-      const swapEvent = parseSwapEvent(event as EventLog, token0Address, token1Address);
-      swapEvent.blockTimestamp = blockTimestamps.get(event.blockNumber) || 0;
-      
-      callback(swapEvent);
-      processedTxHashes.add(event.transactionHash);
-    }
-    
-    // Clean up old transaction hashes to prevent memory leak
-    if (processedTxHashes.size > 5000) {
-      const txHashesArray = Array.from(processedTxHashes);
-      const toKeep = txHashesArray.slice(-2500); // Keep last 2500
-      processedTxHashes.clear();
-      toKeep.forEach(tx => processedTxHashes.add(tx));
+      } catch (err) {
+        // Ignore errors fetching block
+      }
+    })
+  );
+
+  for (const log of logs) {
+    if ((log as EventLog).eventName === 'Sync') {
+      onSync?.({ ...parseSyncEvent(log as EventLog), blockTimestamp: blockTimestamps.get(log.blockNumber) || 0, removed });
+      continue;
     }
-  } catch (error) {
-    console.error('Error polling for swap events:', error);
+    const swapEvent = parseSwapEvent(log as EventLog, token0Address, token1Address);
+    swapEvent.blockTimestamp = blockTimestamps.get(log.blockNumber) || 0;
+    swapEvent.removed = removed;
+    callback(swapEvent);
   }
 }
 
@@ -186,6 +193,8 @@ async function pollForSwapEvents(
  * @param pollInterval - Polling interval in ms (default: 2000ms)
  * @param usePollingMode - Use polling mode instead of WebSocket (default: false)
  *                        Set to true to force polling (works with all RPC providers)
+ * @param confirmations - Blocks a swap must be buried under before polling hands it over (default: 2)
+ * @param onSync - Optional callback for the pair's Sync events, fetched alongside the swaps
  * @returns Subscription handle with unsubscribe method
  */
 export function subscribeToSwapEvents(
@@ -195,65 +204,62 @@ export function subscribeToSwapEvents(
   token1Address: string,
   callback: SwapEventCallback,
   pollInterval: number = 2000,
-  usePollingMode: boolean = false
+  usePollingMode: boolean = false,
+  confirmations: number = 2,
+  onSync?: SyncEventCallback
 ): SwapEventSubscription {
   const pairContract = new Contract(pairAddress, uniswapPairAbi, provider);
+  // Swap, or Swap and Sync in a single getLogs call
+  const logFilter = onSync
+    ? [[pairContract.interface.getEvent('Swap')!.topicHash, pairContract.interface.getEvent('Sync')!.topicHash]]
+    : pairContract.filters.Swap();
   
   let isUnsubscribed = false;
   let eventListener: ((...args: any[]) => void) | null = null;
   let pollingActive = false;
-  const processedTxHashes = new Set<string>();
-  let startBlock = 0;
+  const processedLogKeys = new Set<string>();
+
+  // Resumes from the saved block, backfills in bounded windows and rolls back reorged swaps
+  const ingestor = new LogIngestor(
+    provider,
+    pairAddress,
+    (fromBlock, toBlock) => pairContract.queryFilter(logFilter, fromBlock, toBlock),
+    (logs, removed) => handleSwapLogs(provider, logs, removed, callback, token0Address, token1Address, onSync),
+    confirmations
+  );
+
+  const pollForSwapEvents = async () => {
+    try {
+      await ingestor.poll();
+    } catch (error) {
+      console.error('Error polling for swap events:', error);
+    }
+  };
   
   // Start polling function
   const startPolling = async () => {
     if (pollingActive) return;
     pollingActive = true;
     
-    // Get initial start block
-    try {
-      startBlock = await provider.getBlockNumber();
-    } catch (err) {
-      console.error('Failed to get start block:', err);
-      startBlock = 0;
-    }
-    
     let pollCount = 0;
     const statusInterval = 10000; // Show status every 10 seconds
     let lastStatusTime = Date.now();
     
-    // Initial poll immediately
-    await pollForSwapEvents(
-      provider,
-      pairAddress,
-      callback,
-      token0Address,
-      token1Address,
-      processedTxHashes,
-      startBlock,
-      pollInterval
-    );
+    // Initial poll immediately (resumes from the saved block, or starts at the newest confirmed one)
+    await pollForSwapEvents();
     
     // Then poll at intervals
     while (!isUnsubscribed) {
       await new Promise((resolve) => setTimeout(resolve, pollInterval));
       if (!isUnsubscribed) {
         pollCount++;
-        await pollForSwapEvents(
-          provider,
-          pairAddress,
-          callback,
-          token0Address,
-          token1Address,
-          processedTxHashes,
-          startBlock,
-          pollInterval
-        );
+        await pollForSwapEvents();
         
         // Show status periodically
         const now = Date.now();
         if (now - lastStatusTime >= statusInterval) {
-          console.log(`   [Status] Polling active... (${pollCount} polls, ${processedTxHashes.size} events processed)`);
+          const stats = ingestor.getStats();
+          console.log(`   [Status] Polling active... (${pollCount} polls, ${stats.processed} events processed, ${stats.reorgs} reorgs, block ${stats.cursor?.block.number ?? '-'})`);
           lastStatusTime = now;
         }
       }
@@ -263,7 +269,7 @@ export function subscribeToSwapEvents(
   if (usePollingMode) {
     // Use polling mode (works with all RPC providers)
     console.log('📡 Using polling mode (compatible with all RPC providers)');
-    console.log(`   Polling every ${pollInterval}ms`);
+    console.log(`   Polling every ${pollInterval}ms (${confirmations} confirmations)`);
     console.log(`   Pair address: ${pairAddress}\n`);
     startPolling();
     
@@ -271,6 +277,7 @@ export function subscribeToSwapEvents(
       unsubscribe: () => {
         isUnsubscribed = true;
         pollingActive = false;
+        ingestor.stop();
       },
     };
   }
@@ -283,8 +290,8 @@ export function subscribeToSwapEvents(
     eventListener = async (event: EventLog) => {
       if (isUnsubscribed) return;
       
-      // Skip if we've already processed this transaction
-      if (processedTxHashes.has(event.transactionHash)) {
+      // Skip if we've already processed this log
+      if (processedLogKeys.has(getLogKey(event))) {
         return;
       }
       
@@ -295,13 +302,23 @@ export function subscribeToSwapEvents(
         swapEvent.blockTimestamp = block?.timestamp || 0;
         
         callback(swapEvent);
-        processedTxHashes.add(event.transactionHash);
+        processedLogKeys.add(getLogKey(event));
       } catch (error) {
         console.error('Error processing swap event:', error);
       }
     };
     
     pairContract.on(filter, eventListener);
+
+    const syncFilter = pairContract.filters.Sync();
+    const syncListener = (...args: any[]) => {
+      const event = args[args.length - 1]?.log as EventLog | undefined;
+      if (isUnsubscribed || !event) return;
+      onSync?.(parseSyncEvent(event));
+    };
+    if (onSync) {
+      pairContract.on(syncFilter, syncListener);
+    }
     
     console.log('✅ Using WebSocket subscription (real-time updates)');
     console.log(`   Pair address: ${pairAddress}\n`);
@@ -312,6 +329,9 @@ export function subscribeToSwapEvents(
         if (eventListener) {
           try {
             pairContract.off(filter, eventListener);
+            if (onSync) {
+              pairContract.off(syncFilter, syncListener);
+            }
           } catch (error) {
             // Ignore errors when unsubscribing
           }
@@ -328,6 +348,7 @@ export function subscribeToSwapEvents(
       unsubscribe: () => {
         isUnsubscribed = true;
         pollingActive = false;
+        ingestor.stop();
         // No need to unsubscribe from filter since WebSocket subscription failed
       },
     };
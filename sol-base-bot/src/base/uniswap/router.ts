@@ -1,4 +1,4 @@
-import { Contract, Wallet, JsonRpcProvider, formatUnits, parseUnits, formatEther } from 'ethers';
+import { Contract, Interface, Wallet, JsonRpcProvider, TransactionReceipt, formatUnits, parseUnits, formatEther } from 'ethers';
 import uniswapRouterAbi from '../abi/UniswapRouter02.json' with { type: "json" };
 import erc20Abi from '../abi/ERC20.json' with { type: "json" };
 
@@ -22,6 +22,50 @@ export interface SwapResult {
   gasUsed: bigint;
   effectiveGasPrice: bigint;
   actualGasCostEth: number;
+  amountIn: bigint; // Actual input token amount, read from receipt Transfer logs
+  amountOut: bigint; // Actual output token amount, read from receipt Transfer logs
+}
+
+const erc20Interface = new Interface(erc20Abi);
+
+/**
+ * Sums the ERC20 transfers of the swap's input and output tokens that leave
+ * and reach the wallet in a receipt
+ */
+export function parseSwapAmountsFromReceipt(
+  receipt: TransactionReceipt,
+  tokenIn: string,
+  tokenOut: string,
+  walletAddress: string
+): { amountIn: bigint; amountOut: bigint } {
+  let amountIn = 0n;
+  let amountOut = 0n;
+  const wallet = walletAddress.toLowerCase();
+
+  for (const log of receipt.logs) {
+    const logAddress = log.address.toLowerCase();
+    if (logAddress !== tokenIn.toLowerCase() && logAddress !== tokenOut.toLowerCase()) {
+      continue;
+    }
+
+    const parsed = erc20Interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || parsed.name !== 'Transfer') {
+      continue;
+    }
+
+    const from = String(parsed.args[0]).toLowerCase();
+    const to = String(parsed.args[1]).toLowerCase();
+    const value = BigInt(parsed.args[2]);
+
+    if (logAddress === tokenIn.toLowerCase() && from === wallet) {
+      amountIn += value;
+    }
+    if (logAddress === tokenOut.toLowerCase() && to === wallet) {
+      amountOut += value;
+    }
+  }
+
+  return { amountIn, amountOut };
 }
 
 /**
@@ -379,6 +423,7 @@ export async function sellTokensForUsdc(
     const gasUsed = receipt.gasUsed;
     const effectiveGasPrice = receipt.gasPrice || BigInt(0);
     const actualGasCostEth = parseFloat(formatEther(gasUsed * effectiveGasPrice));
+    const amounts = parseSwapAmountsFromReceipt(receipt, tokenAddress, usdcAddress, wallet.address);
 
     return {
       transactionHash: receipt.hash,
@@ -386,6 +431,8 @@ export async function sellTokensForUsdc(
       gasUsed,
       effectiveGasPrice,
       actualGasCostEth,
+      amountIn: amounts.amountIn,
+      amountOut: amounts.amountOut,
     };
   } catch (err) {
     throw new Error(
@@ -448,6 +495,7 @@ export async function buyTokensWithUsdc(
     const gasUsed = receipt.gasUsed;
     const effectiveGasPrice = receipt.gasPrice || BigInt(0);
     const actualGasCostEth = parseFloat(formatEther(gasUsed * effectiveGasPrice));
+    const amounts = parseSwapAmountsFromReceipt(receipt, usdcAddress, tokenAddress, wallet.address);
 
     return {
       transactionHash: receipt.hash,
@@ -455,6 +503,8 @@ export async function buyTokensWithUsdc(
       gasUsed,
       effectiveGasPrice,
       actualGasCostEth,
+      amountIn: amounts.amountIn,
+      amountOut: amounts.amountOut,
     };
   } catch (err) {
     throw new Error(
@@ -0,0 +1,172 @@
+import { Contract, JsonRpcProvider, EventLog, type Log } from 'ethers';
+import { uniswapV3PoolAbi } from './pool.js';
+import { LogIngestor, getLogKey } from '../logCursor.js';
+
+/**
+ * V3 pool Swap event. Amounts are signed from the pool's perspective:
+ * positive is paid into the pool, negative is paid out.
+ */
+export interface V3SwapEvent {
+  sender: string;
+  recipient: string;
+  amount0: bigint;
+  amount1: bigint;
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  tick: number;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  blockTimestamp: number;
+  removed: boolean; // A reorg orphaned this swap; undo it
+}
+
+export type V3SwapEventCallback = (event: V3SwapEvent) => void;
+
+export interface V3SwapEventSubscription {
+  unsubscribe: () => void;
+}
+
+function parseV3SwapEvent(event: EventLog): V3SwapEvent {
+  const args = event.args;
+  return {
+    sender: String(args[0]),
+    recipient: String(args[1]),
+    amount0: BigInt(args[2]),
+    amount1: BigInt(args[3]),
+    sqrtPriceX96: BigInt(args[4]),
+    liquidity: BigInt(args[5]),
+    tick: Number(args[6]),
+    transactionHash: event.transactionHash,
+    blockNumber: event.blockNumber,
+    blockHash: event.blockHash,
+    logIndex: event.index,
+    blockTimestamp: 0, // Filled in by the subscription
+    removed: false,
+  };
+}
+
+/**
+ * Parses a batch of Swap logs with their block timestamps and passes them to the callback
+ */
+async function handleV3SwapLogs(
+  provider: JsonRpcProvider,
+  logs: Log[],
+  removed: boolean,
+  callback: V3SwapEventCallback
+): Promise<void> {
+  const blockTimestamps = new Map<number, number>();
+  await Promise.all(
+    [...new Set(logs.map((log) => log.blockNumber))].map(async (blockNumber) => {
+      try {
+        const block = await provider.getBlock(blockNumber);
+        if (block) {
+          blockTimestamps.set(blockNumber, block.timestamp);
+        }
+      } catch (err) {
+        // Ignore errors fetching block
+      }
+    })
+  );
+
+  for (const log of logs) {
+    const swapEvent = parseV3SwapEvent(log as EventLog);
+    swapEvent.blockTimestamp = blockTimestamps.get(log.blockNumber) || 0;
+    swapEvent.removed = removed;
+    callback(swapEvent);
+  }
+}
+
+/**
+ * Subscribes to Swap events from a Uniswap V3 pool, by polling or, when the
+ * provider supports it, a live event subscription. Polling hands swaps over
+ * once they are `confirmations` blocks deep and re-emits reorged ones as removed.
+ */
+export function subscribeToV3SwapEvents(
+  provider: JsonRpcProvider,
+  poolAddress: string,
+  callback: V3SwapEventCallback,
+  pollInterval: number = 2000,
+  usePollingMode: boolean = false,
+  confirmations: number = 2
+): V3SwapEventSubscription {
+  const pool = new Contract(poolAddress, uniswapV3PoolAbi, provider);
+  const processedLogs = new Set<string>();
+  let isUnsubscribed = false;
+
+  const ingestor = new LogIngestor(
+    provider,
+    poolAddress,
+    (fromBlock, toBlock) => pool.queryFilter(pool.filters.Swap(), fromBlock, toBlock),
+    (logs, removed) => handleV3SwapLogs(provider, logs, removed, callback),
+    confirmations
+  );
+
+  const startPolling = async () => {
+    while (!isUnsubscribed) {
+      try {
+        await ingestor.poll();
+      } catch (error) {
+        console.error('Error polling for V3 swap events:', error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+  };
+
+  if (usePollingMode) {
+    console.log('📡 Using polling mode (compatible with all RPC providers)');
+    console.log(`   Polling every ${pollInterval}ms (${confirmations} confirmations)`);
+    console.log(`   Pool address: ${poolAddress}\n`);
+    void startPolling();
+    return {
+      unsubscribe: () => {
+        isUnsubscribed = true;
+        ingestor.stop();
+      },
+    };
+  }
+
+  try {
+    const filter = pool.filters.Swap();
+    const listener = async (...args: any[]) => {
+      const event = args[args.length - 1]?.log as EventLog | undefined;
+      if (isUnsubscribed || !event) return;
+      const key = getLogKey(event);
+      if (processedLogs.has(key)) return;
+
+      try {
+        const block = await provider.getBlock(event.blockNumber);
+        const swapEvent = parseV3SwapEvent(event);
+        swapEvent.blockTimestamp = block?.timestamp || 0;
+        callback(swapEvent);
+        processedLogs.add(key);
+      } catch (error) {
+        console.error('Error processing V3 swap event:', error);
+      }
+    };
+
+    void pool.on(filter, listener);
+    console.log('✅ Using WebSocket subscription (real-time updates)');
+    console.log(`   Pool address: ${poolAddress}\n`);
+
+    return {
+      unsubscribe: () => {
+        isUnsubscribed = true;
+        pool.off(filter, listener).catch(() => {
+          // Ignore errors when unsubscribing
+        });
+      },
+    };
+  } catch (error) {
+    console.warn('⚠️  WebSocket subscription failed, falling back to polling mode');
+    console.warn(`   Polling every ${pollInterval}ms\n`);
+    void startPolling();
+    return {
+      unsubscribe: () => {
+        isUnsubscribed = true;
+        ingestor.stop();
+      },
+    };
+  }
+}
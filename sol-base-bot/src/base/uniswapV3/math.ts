@@ -0,0 +1,344 @@
+/**
+ * Uniswap V3 swap math
+ *
+ * BigInt ports of the core TickMath, SqrtPriceMath and SwapMath libraries, and
+ * a swap simulator that walks the initialized ticks of a pool snapshot the way
+ * UniswapV3Pool.swap does. Fees are in hundredths of a bip (3000 = 0.3%).
+ */
+
+export const Q96 = 1n << 96n;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+export interface V3Tick {
+  index: number;
+  liquidityNet: bigint;
+}
+
+/**
+ * Pool state a swap can be simulated against. `ticks` holds the initialized
+ * ticks in [minTick, maxTick], sorted by index; liquidity outside that window is unknown.
+ */
+export interface V3PoolState {
+  address: string;
+  token0: string;
+  token1: string;
+  fee: number; // Hundredths of a bip
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  ticks: V3Tick[];
+  minTick: number;
+  maxTick: number;
+}
+
+export interface V3SwapResult {
+  amountIn: bigint; // Including the fee
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  ticksCrossed: number;
+  exhausted: boolean; // Ran past the loaded ticks before filling the amount
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  return product / denominator + (product % denominator > 0n ? 1n : 0n);
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+/**
+ * sqrt(1.0001^tick) as a Q64.96, exactly as TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+  const absTick = BigInt(Math.abs(tick));
+
+  let ratio = (absTick & 0x1n) !== 0n
+    ? 0xfffcb933bd6fad37aa2d162d1a594001n
+    : 0x100000000000000000000000000000000n;
+  if ((absTick & 0x2n) !== 0n) ratio = (ratio * 0xfff97272373d413259a46990580e213an) >> 128n;
+  if ((absTick & 0x4n) !== 0n) ratio = (ratio * 0xfff2e50f5f656932ef12357cf3c7fdccn) >> 128n;
+  if ((absTick & 0x8n) !== 0n) ratio = (ratio * 0xffe5caca7e10e4e61c3624eaa0941cd0n) >> 128n;
+  if ((absTick & 0x10n) !== 0n) ratio = (ratio * 0xffcb9843d60f6159c9db58835c926644n) >> 128n;
+  if ((absTick & 0x20n) !== 0n) ratio = (ratio * 0xff973b41fa98c081472e6896dfb254c0n) >> 128n;
+  if ((absTick & 0x40n) !== 0n) ratio = (ratio * 0xff2ea16466c96a3843ec78b326b52861n) >> 128n;
+  if ((absTick & 0x80n) !== 0n) ratio = (ratio * 0xfe5dee046a99a2a811c461f1969c3053n) >> 128n;
+  if ((absTick & 0x100n) !== 0n) ratio = (ratio * 0xfcbe86c7900a88aedcffc83b479aa3a4n) >> 128n;
+  if ((absTick & 0x200n) !== 0n) ratio = (ratio * 0xf987a7253ac413176f2b074cf7815e54n) >> 128n;
+  if ((absTick & 0x400n) !== 0n) ratio = (ratio * 0xf3392b0822b70005940c7a398e4b70f3n) >> 128n;
+  if ((absTick & 0x800n) !== 0n) ratio = (ratio * 0xe7159475a2c29b7443b29c7fa6e889d9n) >> 128n;
+  if ((absTick & 0x1000n) !== 0n) ratio = (ratio * 0xd097f3bdfd2022b8845ad8f792aa5825n) >> 128n;
+  if ((absTick & 0x2000n) !== 0n) ratio = (ratio * 0xa9f746462d870fdf8a65dc1f90e061e5n) >> 128n;
+  if ((absTick & 0x4000n) !== 0n) ratio = (ratio * 0x70d869a156d2a1b890bb3df62baf32f7n) >> 128n;
+  if ((absTick & 0x8000n) !== 0n) ratio = (ratio * 0x31be135f97d08fd981231505542fcfa6n) >> 128n;
+  if ((absTick & 0x10000n) !== 0n) ratio = (ratio * 0x9aa508b5b7a84e1c677de54f3e99bc9n) >> 128n;
+  if ((absTick & 0x20000n) !== 0n) ratio = (ratio * 0x5d6af8dedb81196699c329225ee604n) >> 128n;
+  if ((absTick & 0x40000n) !== 0n) ratio = (ratio * 0x2216e584f5fa1ea926041bedfe98n) >> 128n;
+  if ((absTick & 0x80000n) !== 0n) ratio = (ratio * 0x48a170391f7dc42444e8fa2n) >> 128n;
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Q128.128 -> Q64.96, rounding up
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Greatest tick whose sqrt ratio is <= sqrtPriceX96 (TickMath.getTickAtSqrtRatio)
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`sqrtPriceX96 ${sqrtPriceX96} out of range`);
+  }
+
+  // Floating-point estimate, then step to the exact tick
+  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
+  let tick = Math.floor((2 * Math.log(sqrtPrice)) / Math.log(1.0001));
+  tick = Math.min(Math.max(tick, MIN_TICK), MAX_TICK - 1);
+
+  while (tick > MIN_TICK && getSqrtRatioAtTick(tick) > sqrtPriceX96) tick--;
+  while (tick < MAX_TICK - 1 && getSqrtRatioAtTick(tick + 1) <= sqrtPriceX96) tick++;
+  return tick;
+}
+
+/**
+ * Amount of token0 between two prices for a liquidity (SqrtPriceMath.getAmount0Delta)
+ */
+export function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = sqrtB - sqrtA;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtB), sqrtA)
+    : (numerator1 * numerator2) / sqrtB / sqrtA;
+}
+
+/**
+ * Amount of token1 between two prices for a liquidity (SqrtPriceMath.getAmount1Delta)
+ */
+export function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtB - sqrtA, Q96)
+    : (liquidity * (sqrtB - sqrtA)) / Q96;
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+
+  if (add) {
+    return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 + product);
+  }
+  if (numerator1 <= product) {
+    throw new Error('Insufficient token0 liquidity for output amount');
+  }
+  return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 - product);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (add) {
+    return sqrtPriceX96 + (amount << 96n) / liquidity;
+  }
+  const quotient = divRoundingUp(amount << 96n, liquidity);
+  if (sqrtPriceX96 <= quotient) {
+    throw new Error('Insufficient token1 liquidity for output amount');
+  }
+  return sqrtPriceX96 - quotient;
+}
+
+function getNextSqrtPriceFromInput(sqrtPriceX96: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountIn, true);
+}
+
+function getNextSqrtPriceFromOutput(sqrtPriceX96: bigint, liquidity: bigint, amountOut: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountOut, false);
+}
+
+/**
+ * One swap step within a single tick range (SwapMath.computeSwapStep).
+ * amountRemaining > 0 is exact input, < 0 exact output.
+ */
+export function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number
+): { sqrtRatioNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const fee = BigInt(feePips);
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+  const exactIn = amountRemaining >= 0n;
+
+  let sqrtRatioNextX96: bigint;
+  let amountIn = 0n;
+  let amountOut = 0n;
+
+  if (exactIn) {
+    const amountRemainingLessFee = (amountRemaining * (FEE_DENOMINATOR - fee)) / FEE_DENOMINATOR;
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+    sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+      ? sqrtRatioTargetX96
+      : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false);
+    sqrtRatioNextX96 = -amountRemaining >= amountOut
+      ? sqrtRatioTargetX96
+      : getNextSqrtPriceFromOutput(sqrtRatioCurrentX96, liquidity, -amountRemaining, zeroForOne);
+  }
+
+  const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+
+  if (zeroForOne) {
+    amountIn = max && exactIn ? amountIn : getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+    amountOut = max && !exactIn ? amountOut : getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+  } else {
+    amountIn = max && exactIn ? amountIn : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+    amountOut = max && !exactIn ? amountOut : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+  }
+
+  if (!exactIn && amountOut > -amountRemaining) {
+    amountOut = -amountRemaining;
+  }
+
+  const feeAmount = exactIn && sqrtRatioNextX96 !== sqrtRatioTargetX96
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, fee, FEE_DENOMINATOR - fee);
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * Next initialized tick in the swap direction, or the edge of the loaded window
+ */
+function nextTick(pool: V3PoolState, tick: number, zeroForOne: boolean): { index: number; initialized: boolean } {
+  if (zeroForOne) {
+    for (let i = pool.ticks.length - 1; i >= 0; i--) {
+      if (pool.ticks[i].index <= tick) return { index: pool.ticks[i].index, initialized: true };
+    }
+    return { index: Math.max(pool.minTick, MIN_TICK), initialized: false };
+  }
+  for (const t of pool.ticks) {
+    if (t.index > tick) return { index: t.index, initialized: true };
+  }
+  return { index: Math.min(pool.maxTick, MAX_TICK), initialized: false };
+}
+
+/**
+ * Simulates UniswapV3Pool.swap against a snapshot.
+ * amountSpecified > 0 is exact input, < 0 exact output (same convention as the pool).
+ */
+export function simulateV3Swap(
+  pool: V3PoolState,
+  zeroForOne: boolean,
+  amountSpecified: bigint
+): V3SwapResult {
+  const exactInput = amountSpecified > 0n;
+  const sqrtPriceLimitX96 = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+  let amountRemaining = amountSpecified;
+  let amountCalculated = 0n;
+  let sqrtPriceX96 = pool.sqrtPriceX96;
+  let tick = pool.tick;
+  let liquidity = pool.liquidity;
+  let ticksCrossed = 0;
+  let exhausted = false;
+
+  while (amountRemaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const next = nextTick(pool, tick, zeroForOne);
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(next.index);
+    const sqrtPriceTargetX96 = zeroForOne
+      ? (sqrtPriceNextX96 < sqrtPriceLimitX96 ? sqrtPriceLimitX96 : sqrtPriceNextX96)
+      : (sqrtPriceNextX96 > sqrtPriceLimitX96 ? sqrtPriceLimitX96 : sqrtPriceNextX96);
+
+    const sqrtPriceStartX96 = sqrtPriceX96;
+    const step = computeSwapStep(sqrtPriceX96, sqrtPriceTargetX96, liquidity, amountRemaining, pool.fee);
+    sqrtPriceX96 = step.sqrtRatioNextX96;
+
+    if (exactInput) {
+      amountRemaining -= step.amountIn + step.feeAmount;
+      amountCalculated += step.amountOut;
+    } else {
+      amountRemaining += step.amountOut;
+      amountCalculated += step.amountIn + step.feeAmount;
+    }
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      if (!next.initialized) {
+        // Beyond here the snapshot does not know the liquidity
+        exhausted = amountRemaining !== 0n;
+        tick = zeroForOne ? next.index - 1 : next.index;
+        break;
+      }
+      const tickData = pool.ticks.find((t) => t.index === next.index);
+      const liquidityNet = tickData ? tickData.liquidityNet : 0n;
+      liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+      tick = zeroForOne ? next.index - 1 : next.index;
+      ticksCrossed++;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  if (amountRemaining !== 0n && sqrtPriceX96 === sqrtPriceLimitX96) {
+    exhausted = true;
+  }
+
+  const specifiedFilled = amountSpecified - amountRemaining;
+  return exactInput
+    ? { amountIn: specifiedFilled, amountOut: amountCalculated, sqrtPriceX96After: sqrtPriceX96, tickAfter: tick, ticksCrossed, exhausted }
+    : { amountIn: amountCalculated, amountOut: -specifiedFilled, sqrtPriceX96After: sqrtPriceX96, tickAfter: tick, ticksCrossed, exhausted };
+}
+
+/**
+ * Spot price of token0 in token1 raw units
+ */
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint): number {
+  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
+  return sqrtPrice * sqrtPrice;
+}
+
+/**
+ * Constant-product reserves equivalent to the in-range liquidity at the current price
+ * (x = L / sqrtP, y = L * sqrtP), for sizing and display
+ */
+export function getVirtualReserves(pool: V3PoolState): { reserve0: bigint; reserve1: bigint } {
+  if (pool.sqrtPriceX96 === 0n) {
+    return { reserve0: 0n, reserve1: 0n };
+  }
+  return {
+    reserve0: (pool.liquidity * Q96) / pool.sqrtPriceX96,
+    reserve1: (pool.liquidity * pool.sqrtPriceX96) / Q96,
+  };
+}
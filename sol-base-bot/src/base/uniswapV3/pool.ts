@@ -0,0 +1,156 @@
+import { AbiCoder, Contract, JsonRpcProvider, getAddress, getCreate2Address, keccak256 } from 'ethers';
+import type { DexConfig } from '../uniswap/dexRegistry.js';
+import type { V3PoolState, V3Tick } from './math.js';
+
+/**
+ * Uniswap V3 pool reader
+ *
+ * Reads slot0, in-range liquidity and the initialized ticks around the current
+ * price. Ticks are found through the tick bitmap: each 256-bit word covers 256
+ * tick spacings, and `wordRadius` words are read on either side of the current one.
+ */
+
+export const uniswapV3PoolAbi = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  'function tickSpacing() view returns (int24)',
+  'function liquidity() view returns (uint128)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+];
+
+const factoryAbi = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)',
+];
+
+// Words of the tick bitmap read on each side of the current tick
+const DEFAULT_WORD_RADIUS = 2;
+
+/**
+ * Computes a pool address from the factory and init code hash (salt is abi.encode(token0, token1, fee))
+ */
+export function computeV3PoolAddress(dex: DexConfig, tokenA: string, tokenB: string): string {
+  if (!dex.initCodeHash) {
+    throw new Error(`No init code hash registered for ${dex.name}`);
+  }
+  const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase()
+    ? [tokenA, tokenB]
+    : [tokenB, tokenA];
+  const salt = keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ['address', 'address', 'uint24'],
+      [getAddress(token0), getAddress(token1), dex.feeTier]
+    )
+  );
+  return getCreate2Address(dex.factory, salt, dex.initCodeHash);
+}
+
+/**
+ * Gets the V3 pool address for two tokens at the DEX's fee tier
+ */
+export async function getV3PoolAddress(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  tokenA: string,
+  tokenB: string
+): Promise<string> {
+  try {
+    let poolAddress: string;
+    if (dex.initCodeHash) {
+      poolAddress = computeV3PoolAddress(dex, tokenA, tokenB);
+      if (await provider.getCode(poolAddress) === '0x') {
+        poolAddress = '';
+      }
+    } else {
+      const factory = new Contract(dex.factory, factoryAbi, provider);
+      poolAddress = await factory.getPool(tokenA, tokenB, dex.feeTier);
+    }
+
+    if (!poolAddress || poolAddress === '0x0000000000000000000000000000000000000000') {
+      throw new Error(`No ${dex.name} pool at fee tier ${dex.feeTier} for tokens ${tokenA} and ${tokenB}`);
+    }
+    return poolAddress;
+  } catch (err) {
+    throw new Error(
+      `Failed to get pool address: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Index of every set bit in a bitmap word
+ */
+function setBits(word: bigint): number[] {
+  const bits: number[] = [];
+  for (let bit = 0; word > 0n; bit++, word >>= 1n) {
+    if (word & 1n) bits.push(bit);
+  }
+  return bits;
+}
+
+/**
+ * Reads a pool snapshot the swap simulator can run against
+ */
+export async function fetchV3PoolState(
+  provider: JsonRpcProvider,
+  poolAddress: string,
+  wordRadius: number = DEFAULT_WORD_RADIUS
+): Promise<V3PoolState> {
+  try {
+    const pool = new Contract(poolAddress, uniswapV3PoolAbi, provider);
+    const [token0, token1, fee, tickSpacing, liquidity, slot0] = await Promise.all([
+      pool.token0(),
+      pool.token1(),
+      pool.fee(),
+      pool.tickSpacing(),
+      pool.liquidity(),
+      pool.slot0(),
+    ]);
+
+    const spacing = Number(tickSpacing);
+    const tick = Number(slot0.tick);
+    const compressed = Math.floor(tick / spacing);
+    const currentWord = compressed >> 8;
+
+    const wordPositions: number[] = [];
+    for (let w = currentWord - wordRadius; w <= currentWord + wordRadius; w++) {
+      wordPositions.push(w);
+    }
+    const words: bigint[] = await Promise.all(
+      wordPositions.map(async (w) => BigInt(await pool.tickBitmap(w)))
+    );
+
+    const tickIndexes = wordPositions.flatMap((w, i) =>
+      setBits(words[i]).map((bit) => ((w << 8) + bit) * spacing)
+    );
+    const ticks: V3Tick[] = await Promise.all(
+      tickIndexes.map(async (index) => {
+        const data = await pool.ticks(index);
+        return { index, liquidityNet: BigInt(data.liquidityNet) };
+      })
+    );
+    ticks.sort((a, b) => a.index - b.index);
+
+    return {
+      address: poolAddress,
+      token0,
+      token1,
+      fee: Number(fee),
+      tickSpacing: spacing,
+      sqrtPriceX96: BigInt(slot0.sqrtPriceX96),
+      tick,
+      liquidity: BigInt(liquidity),
+      ticks,
+      // First and last tick covered by the words that were read
+      minTick: ((currentWord - wordRadius) << 8) * spacing,
+      maxTick: (((currentWord + wordRadius) << 8) + 255) * spacing,
+    };
+  } catch (err) {
+    throw new Error(
+      `Failed to read V3 pool state: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
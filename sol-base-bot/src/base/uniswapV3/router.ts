@@ -0,0 +1,373 @@
+import { Contract, Wallet, JsonRpcProvider, formatUnits, formatEther } from 'ethers';
+import {
+  checkAllowance,
+  approveToken,
+  getTokenDecimals,
+  parseSwapAmountsFromReceipt,
+  type SwapSimulation,
+  type SwapResult,
+} from '../uniswap/router.js';
+import type { DexConfig } from '../uniswap/dexRegistry.js';
+
+/**
+ * Uniswap V3 quoting and swaps
+ *
+ * Quotes come from QuoterV2 (a non-view contract, so it is called with staticCall)
+ * and swaps go through SwapRouter02's single-pool exactInput/exactOutput, wrapped
+ * in multicall so the deadline is enforced.
+ */
+
+const quoterV2Abi = [
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+  'function quoteExactOutputSingle((address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+];
+
+const swapRouter02Abi = [
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountIn)',
+  'function multicall(uint256 deadline, bytes[] data) payable returns (bytes[] results)',
+];
+
+// Typical single-pool V3 swap through SwapRouter02
+const DEFAULT_V3_SWAP_GAS = 250000n;
+
+export interface V3Quote {
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  initializedTicksCrossed: number;
+  gasEstimate: bigint;
+}
+
+/**
+ * Quotes the output for an exact input through QuoterV2
+ */
+export async function quoteExactInputSingle(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint
+): Promise<V3Quote> {
+  try {
+    const quoter = new Contract(dex.quoter, quoterV2Abi, provider);
+    const [amountOut, sqrtPriceX96After, initializedTicksCrossed, gasEstimate] =
+      await quoter.quoteExactInputSingle.staticCall({
+        tokenIn,
+        tokenOut,
+        amountIn,
+        fee: dex.feeTier,
+        sqrtPriceLimitX96: 0n,
+      });
+    return {
+      amountIn,
+      amountOut: BigInt(amountOut),
+      sqrtPriceX96After: BigInt(sqrtPriceX96After),
+      initializedTicksCrossed: Number(initializedTicksCrossed),
+      gasEstimate: BigInt(gasEstimate),
+    };
+  } catch (err) {
+    throw new Error(
+      `Failed to quote exact input: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Quotes the input required for an exact output through QuoterV2
+ */
+export async function quoteExactOutputSingle(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint
+): Promise<V3Quote> {
+  try {
+    const quoter = new Contract(dex.quoter, quoterV2Abi, provider);
+    const [amountIn, sqrtPriceX96After, initializedTicksCrossed, gasEstimate] =
+      await quoter.quoteExactOutputSingle.staticCall({
+        tokenIn,
+        tokenOut,
+        amount: amountOut,
+        fee: dex.feeTier,
+        sqrtPriceLimitX96: 0n,
+      });
+    return {
+      amountIn: BigInt(amountIn),
+      amountOut,
+      sqrtPriceX96After: BigInt(sqrtPriceX96After),
+      initializedTicksCrossed: Number(initializedTicksCrossed),
+      gasEstimate: BigInt(gasEstimate),
+    };
+  } catch (err) {
+    throw new Error(
+      `Failed to quote exact output: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Encodes a SwapRouter02 multicall with a deadline around a single swap
+ */
+function encodeSwap(
+  router: Contract,
+  method: 'exactInputSingle' | 'exactOutputSingle',
+  params: Record<string, unknown>,
+  deadline: bigint
+): string {
+  const swapData = router.interface.encodeFunctionData(method, [params]);
+  return router.interface.encodeFunctionData('multicall', [deadline, [swapData]]);
+}
+
+/**
+ * Estimates gas for a swap if the router is already approved, otherwise uses a static estimate
+ */
+async function estimateSwapGas(
+  provider: JsonRpcProvider,
+  routerAddress: string,
+  walletAddress: string,
+  data: string,
+  hasAllowance: boolean
+): Promise<bigint> {
+  if (!hasAllowance) {
+    return DEFAULT_V3_SWAP_GAS;
+  }
+  try {
+    return await provider.estimateGas({ to: routerAddress, from: walletAddress, data });
+  } catch (err) {
+    return DEFAULT_V3_SWAP_GAS;
+  }
+}
+
+/**
+ * Simulates a swap to buy exact tokens with USDC on a V3 pool
+ */
+export async function simulateBuyTokensWithUsdcV3(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountOut: bigint, // Amount of tokens to buy (in token's smallest unit)
+  walletAddress: string,
+  slippageBps: number = 50,
+  deadlineSeconds: number = 30
+): Promise<SwapSimulation> {
+  try {
+    const quote = await quoteExactOutputSingle(provider, dex, usdcAddress, tokenAddress, amountOut);
+    const amountIn = quote.amountIn;
+    const amountInMax = (amountIn * BigInt(10000 + slippageBps)) / BigInt(10000);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineSeconds);
+
+    const [usdcDecimals, tokenDecimals, allowance] = await Promise.all([
+      getTokenDecimals(provider, usdcAddress),
+      getTokenDecimals(provider, tokenAddress),
+      checkAllowance(provider, usdcAddress, walletAddress, dex.router),
+    ]);
+
+    const router = new Contract(dex.router, swapRouter02Abi, provider);
+    const data = encodeSwap(router, 'exactOutputSingle', {
+      tokenIn: usdcAddress,
+      tokenOut: tokenAddress,
+      fee: dex.feeTier,
+      recipient: walletAddress,
+      amountOut,
+      amountInMaximum: amountInMax,
+      sqrtPriceLimitX96: 0n,
+    }, deadline);
+    const gasEstimate = await estimateSwapGas(provider, dex.router, walletAddress, data, allowance >= amountInMax);
+
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.gasPrice || BigInt(0);
+    const gasCostEth = gasEstimate * gasPrice;
+
+    return {
+      amountIn,
+      amountInFormatted: parseFloat(formatUnits(amountIn, usdcDecimals)),
+      amountOut,
+      amountOutFormatted: parseFloat(formatUnits(amountOut, tokenDecimals)),
+      gasEstimate,
+      gasEstimateFormatted: Number(gasEstimate),
+      gasPrice,
+      gasCostEth,
+      gasCostEthFormatted: parseFloat(formatEther(gasCostEth)),
+      path: [usdcAddress, tokenAddress],
+      deadline,
+    };
+  } catch (err) {
+    throw new Error(
+      `Failed to simulate V3 swap: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Simulates a swap to sell exact tokens for USDC on a V3 pool
+ */
+export async function simulateSellTokensForUsdcV3(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountIn: bigint, // Amount of tokens to sell (in token's smallest unit)
+  walletAddress: string,
+  slippageBps: number = 50,
+  deadlineSeconds: number = 30
+): Promise<SwapSimulation> {
+  try {
+    const quote = await quoteExactInputSingle(provider, dex, tokenAddress, usdcAddress, amountIn);
+    const amountOut = quote.amountOut;
+    const amountOutMin = (amountOut * BigInt(10000 - slippageBps)) / BigInt(10000);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineSeconds);
+
+    const [usdcDecimals, tokenDecimals, allowance] = await Promise.all([
+      getTokenDecimals(provider, usdcAddress),
+      getTokenDecimals(provider, tokenAddress),
+      checkAllowance(provider, tokenAddress, walletAddress, dex.router),
+    ]);
+
+    const router = new Contract(dex.router, swapRouter02Abi, provider);
+    const data = encodeSwap(router, 'exactInputSingle', {
+      tokenIn: tokenAddress,
+      tokenOut: usdcAddress,
+      fee: dex.feeTier,
+      recipient: walletAddress,
+      amountIn,
+      amountOutMinimum: amountOutMin,
+      sqrtPriceLimitX96: 0n,
+    }, deadline);
+    const gasEstimate = await estimateSwapGas(provider, dex.router, walletAddress, data, allowance >= amountIn);
+
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.gasPrice || BigInt(0);
+    const gasCostEth = gasEstimate * gasPrice;
+
+    return {
+      amountIn,
+      amountInFormatted: parseFloat(formatUnits(amountIn, tokenDecimals)),
+      amountOut,
+      amountOutFormatted: parseFloat(formatUnits(amountOut, usdcDecimals)),
+      gasEstimate,
+      gasEstimateFormatted: Number(gasEstimate),
+      gasPrice,
+      gasCostEth,
+      gasCostEthFormatted: parseFloat(formatEther(gasCostEth)),
+      path: [tokenAddress, usdcAddress],
+      deadline,
+    };
+  } catch (err) {
+    throw new Error(
+      `Failed to simulate V3 swap: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Approves the router if needed, sends the encoded swap and reads the filled amounts from the receipt
+ */
+async function sendSwap(
+  wallet: Wallet,
+  dex: DexConfig,
+  tokenIn: string,
+  tokenOut: string,
+  maxAmountIn: bigint,
+  data: string
+): Promise<SwapResult> {
+  if (!wallet.provider) {
+    throw new Error('Wallet provider is not set');
+  }
+  const allowance = await checkAllowance(
+    wallet.provider as JsonRpcProvider,
+    tokenIn,
+    wallet.address,
+    dex.router
+  );
+  if (allowance < maxAmountIn) {
+    console.log('   ⚠️  Insufficient allowance. Approving token...');
+    const approveTxHash = await approveToken(wallet, tokenIn, dex.router, maxAmountIn);
+    console.log(`   ✅ Approval successful: ${approveTxHash}`);
+  }
+
+  const tx = await wallet.sendTransaction({ to: dex.router, data });
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error('Transaction receipt not found');
+  }
+
+  const gasUsed = receipt.gasUsed;
+  const effectiveGasPrice = receipt.gasPrice || BigInt(0);
+  const actualGasCostEth = parseFloat(formatEther(gasUsed * effectiveGasPrice));
+  const amounts = parseSwapAmountsFromReceipt(receipt, tokenIn, tokenOut, wallet.address);
+
+  return {
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed,
+    effectiveGasPrice,
+    actualGasCostEth,
+    amountIn: amounts.amountIn,
+    amountOut: amounts.amountOut,
+  };
+}
+
+/**
+ * Executes a swap to buy exact tokens with USDC on a V3 pool
+ */
+export async function buyTokensWithUsdcV3(
+  wallet: Wallet,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountOut: bigint, // Amount of tokens to buy
+  amountInMax: bigint, // Maximum USDC to spend (with slippage)
+  deadline: bigint
+): Promise<SwapResult> {
+  try {
+    const router = new Contract(dex.router, swapRouter02Abi, wallet);
+    const data = encodeSwap(router, 'exactOutputSingle', {
+      tokenIn: usdcAddress,
+      tokenOut: tokenAddress,
+      fee: dex.feeTier,
+      recipient: wallet.address,
+      amountOut,
+      amountInMaximum: amountInMax,
+      sqrtPriceLimitX96: 0n,
+    }, deadline);
+    return await sendSwap(wallet, dex, usdcAddress, tokenAddress, amountInMax, data);
+  } catch (err) {
+    throw new Error(
+      `Failed to execute V3 swap: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Executes a swap to sell exact tokens for USDC on a V3 pool
+ */
+export async function sellTokensForUsdcV3(
+  wallet: Wallet,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountIn: bigint, // Amount of tokens to sell
+  amountOutMin: bigint, // Minimum USDC to receive (with slippage)
+  deadline: bigint
+): Promise<SwapResult> {
+  try {
+    const router = new Contract(dex.router, swapRouter02Abi, wallet);
+    const data = encodeSwap(router, 'exactInputSingle', {
+      tokenIn: tokenAddress,
+      tokenOut: usdcAddress,
+      fee: dex.feeTier,
+      recipient: wallet.address,
+      amountIn,
+      amountOutMinimum: amountOutMin,
+      sqrtPriceLimitX96: 0n,
+    }, deadline);
+    return await sendSwap(wallet, dex, tokenAddress, usdcAddress, amountIn, data);
+  } catch (err) {
+    throw new Error(
+      `Failed to execute V3 swap: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
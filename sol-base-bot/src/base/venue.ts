@@ -0,0 +1,226 @@
+/**
+ * Base Venue
+ *
+ * The Base leg trades on whichever DEX the registry entry names: a V2 pair
+ * through Router02, or a V3 pool through QuoterV2 and SwapRouter02. This module
+ * routes pool lookup, simulation, execution and swap subscriptions to the right
+ * implementation so callers only deal with a DexConfig.
+ */
+
+import { JsonRpcProvider, Wallet } from 'ethers';
+import type { DexConfig } from './uniswap/dexRegistry.js';
+import {
+  simulateBuyTokensWithUsdc,
+  simulateSellTokensForUsdc,
+  buyTokensWithUsdc,
+  sellTokensForUsdc,
+  type SwapSimulation,
+  type SwapResult,
+} from './uniswap/router.js';
+import { getPairAddress, subscribeToSwapEvents, type SwapEvent, type SyncEvent } from './uniswap/events.js';
+import { getV3PoolAddress } from './uniswapV3/pool.js';
+import {
+  simulateBuyTokensWithUsdcV3,
+  simulateSellTokensForUsdcV3,
+  buyTokensWithUsdcV3,
+  sellTokensForUsdcV3,
+} from './uniswapV3/router.js';
+import { subscribeToV3SwapEvents, type V3SwapEvent } from './uniswapV3/events.js';
+
+/**
+ * Swap on either pool type, from the trader's side: token bought or sold against USDC
+ */
+export interface BaseSwap {
+  dex: string;
+  isBuy: boolean; // Trader bought tokens with USDC
+  usdcAmount: bigint;
+  tokenAmount: bigint;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+  removed: boolean; // A reorg orphaned this swap; undo it
+}
+
+export type BaseSwapCallback = (swap: BaseSwap) => void;
+
+/**
+ * Pool reserves after a V2 Sync event
+ */
+export interface BaseReserveUpdate {
+  usdcReserves: bigint;
+  tokenReserves: bigint;
+  blockNumber: number;
+  removed: boolean; // A reorg orphaned this update; re-read the pool
+}
+
+export type BaseReserveCallback = (update: BaseReserveUpdate) => void;
+
+export interface BaseSwapSubscription {
+  unsubscribe: () => void;
+}
+
+/**
+ * Address of the USDC/token pair (V2) or pool at the DEX's fee tier (V3)
+ */
+export async function getBasePoolAddress(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string
+): Promise<string> {
+  return dex.version === 'v3'
+    ? getV3PoolAddress(provider, dex, usdcAddress, tokenAddress)
+    : getPairAddress(provider, dex, usdcAddress, tokenAddress);
+}
+
+/**
+ * Simulates buying exact tokens with USDC
+ */
+export async function simulateBaseBuy(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountOut: bigint,
+  walletAddress: string,
+  slippageBps: number = 50,
+  deadlineSeconds: number = 30
+): Promise<SwapSimulation> {
+  return dex.version === 'v3'
+    ? simulateBuyTokensWithUsdcV3(provider, dex, usdcAddress, tokenAddress, amountOut, walletAddress, slippageBps, deadlineSeconds)
+    : simulateBuyTokensWithUsdc(provider, dex.router, usdcAddress, tokenAddress, amountOut, walletAddress, slippageBps, deadlineSeconds);
+}
+
+/**
+ * Simulates selling exact tokens for USDC
+ */
+export async function simulateBaseSell(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountIn: bigint,
+  walletAddress: string,
+  slippageBps: number = 50,
+  deadlineSeconds: number = 30
+): Promise<SwapSimulation> {
+  return dex.version === 'v3'
+    ? simulateSellTokensForUsdcV3(provider, dex, usdcAddress, tokenAddress, amountIn, walletAddress, slippageBps, deadlineSeconds)
+    : simulateSellTokensForUsdc(provider, dex.router, usdcAddress, tokenAddress, amountIn, walletAddress, slippageBps, deadlineSeconds);
+}
+
+/**
+ * Buys exact tokens for at most `amountInMax` USDC
+ */
+export async function buyBaseTokens(
+  wallet: Wallet,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountOut: bigint,
+  amountInMax: bigint,
+  deadline: bigint,
+  slippageBps: number = 50
+): Promise<SwapResult> {
+  return dex.version === 'v3'
+    ? buyTokensWithUsdcV3(wallet, dex, usdcAddress, tokenAddress, amountOut, amountInMax, deadline)
+    : buyTokensWithUsdc(wallet, dex.router, usdcAddress, tokenAddress, amountOut, amountInMax, deadline, slippageBps);
+}
+
+/**
+ * Sells exact tokens for at least `amountOutMin` USDC
+ */
+export async function sellBaseTokens(
+  wallet: Wallet,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  amountIn: bigint,
+  amountOutMin: bigint,
+  deadline: bigint,
+  slippageBps: number = 50
+): Promise<SwapResult> {
+  return dex.version === 'v3'
+    ? sellTokensForUsdcV3(wallet, dex, usdcAddress, tokenAddress, amountIn, amountOutMin, deadline)
+    : sellTokensForUsdc(wallet, dex.router, usdcAddress, tokenAddress, amountIn, amountOutMin, deadline, slippageBps);
+}
+
+/**
+ * Subscribe to swaps on the USDC/token pool of the configured DEX. Swaps arrive
+ * once `confirmations` blocks deep; a reorg re-sends orphaned ones as removed.
+ * `onReserves` receives a V2 pair's Sync events; V3 pools have no equivalent.
+ */
+export async function subscribeToBaseSwaps(
+  provider: JsonRpcProvider,
+  dex: DexConfig,
+  usdcAddress: string,
+  tokenAddress: string,
+  callback: BaseSwapCallback,
+  pollInterval: number = 2000,
+  confirmations: number = 2,
+  onReserves?: BaseReserveCallback
+): Promise<BaseSwapSubscription> {
+  const poolAddress = await getBasePoolAddress(provider, dex, usdcAddress, tokenAddress);
+  console.log(`   Pool: ${poolAddress} (${dex.name})`);
+
+  // Pools order their tokens by address
+  const usdcIsToken0 = usdcAddress.toLowerCase() < tokenAddress.toLowerCase();
+
+  if (dex.version === 'v3') {
+    return subscribeToV3SwapEvents(
+      provider,
+      poolAddress,
+      (event: V3SwapEvent) => {
+        const usdcDelta = usdcIsToken0 ? event.amount0 : event.amount1;
+        const tokenDelta = usdcIsToken0 ? event.amount1 : event.amount0;
+        callback({
+          dex: dex.name,
+          isBuy: usdcDelta > 0n, // USDC paid into the pool
+          usdcAmount: usdcDelta < 0n ? -usdcDelta : usdcDelta,
+          tokenAmount: tokenDelta < 0n ? -tokenDelta : tokenDelta,
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          logIndex: event.logIndex,
+          removed: event.removed,
+        });
+      },
+      pollInterval,
+      true,  // Use polling mode
+      confirmations
+    );
+  }
+
+  const [token0, token1] = usdcIsToken0 ? [usdcAddress, tokenAddress] : [tokenAddress, usdcAddress];
+  return subscribeToSwapEvents(
+    provider,
+    poolAddress,
+    token0,
+    token1,
+    (event: SwapEvent) => {
+      const usdcIn = usdcIsToken0 ? event.amount0In : event.amount1In;
+      const usdcOut = usdcIsToken0 ? event.amount0Out : event.amount1Out;
+      const tokenIn = usdcIsToken0 ? event.amount1In : event.amount0In;
+      const tokenOut = usdcIsToken0 ? event.amount1Out : event.amount0Out;
+      const isBuy = usdcIn > 0n && tokenOut > 0n;
+      callback({
+        dex: dex.name,
+        isBuy,
+        usdcAmount: isBuy ? usdcIn : usdcOut,
+        tokenAmount: isBuy ? tokenOut : tokenIn,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        removed: event.removed,
+      });
+    },
+    pollInterval,
+    true,  // Use polling mode
+    confirmations,
+    onReserves && ((event: SyncEvent) => onReserves({
+      usdcReserves: usdcIsToken0 ? event.reserve0 : event.reserve1,
+      tokenReserves: usdcIsToken0 ? event.reserve1 : event.reserve0,
+      blockNumber: event.blockNumber,
+      removed: event.removed,
+    }))
+  );
+}
@@ -1,10 +1,13 @@
 import 'dotenv/config';
 import { JsonRpcProvider, Wallet } from 'ethers';
 import { PriceFetcher } from './utils/priceFetcher.js';
+import { createPriceSources } from './utils/priceSources.js';
 import { getUserConfig } from './utils/baseVolumeBotConfig.js';
 import { executeBuyTrade, executeSellTrade, getRandomTradeSize, shouldBuy } from './base/volumebot/volumeBotTrading.js';
 import { VolumeTracker, getWalletBalances } from './base/volumebot/volumeBotTracking.js';
 import { displayConfig, displaySummary, displayTradeHistory } from './base/volumebot/volumeBotDisplay.js';
+import { journalSafely } from './monitoring/tradeJournal.js';
+import { loadConfigKeys } from './config.js';
 
 // ============================================================================
 // MAIN BOT LOGIC
@@ -15,31 +18,31 @@ async function runVolumeBot() {
 
     // 1. GET CONFIGURATION
     const config = await getUserConfig();
+    const journalConfig = loadConfigKeys(['JOURNAL_ENABLED', 'JOURNAL_DB_PATH']);
 
-    // 2. INITIALIZE ETH PRICE FETCHER
-    let ethPriceUsd = 3000; // Default fallback
-    let priceFetcher: PriceFetcher | null = null;
+    // 2. INITIALIZE PROVIDER AND WALLET
+    const provider = new JsonRpcProvider(config.rpcUrl);
+    const wallet = new Wallet(config.privateKey, provider);
+
+    // 3. INITIALIZE ETH PRICE FETCHER (Chainlink and the WETH/USDC pair on Base, plus CoinMarketCap if keyed)
+    let ethPriceUsd = Number(process.env.BASE_ETH_PRICE_USD) || 3000; // Static fallback
+    let priceFetcher: PriceFetcher | null = new PriceFetcher(createPriceSources({
+        baseProvider: provider,
+        baseUsdcAddress: config.usdcAddress,
+        coinMarketCapApiKey: process.env.COINMARKETCAP_API_KEY,
+    }));
     let lastPriceFetchTime = 0; // Track price fetch separately from summary
 
-    const cmcApiKey = process.env.COINMARKETCAP_API_KEY;
-    if (cmcApiKey) {
-        try {
-            priceFetcher = new PriceFetcher(cmcApiKey);
-            ethPriceUsd = await priceFetcher.getEthPrice();
-            lastPriceFetchTime = Date.now(); // Initialize price fetch time
-            console.log(`💰 Fetched live ETH price: $${ethPriceUsd.toFixed(2)}\n`);
-        } catch (error) {
-            console.warn(`⚠️  Failed to fetch ETH price: ${error instanceof Error ? error.message : String(error)}`);
-            console.warn(`   Using fallback price: $${ethPriceUsd}\n`);
-        }
-    } else {
-        console.warn('⚠️  COINMARKETCAP_API_KEY not set, using default ETH price: $3000\n');
+    try {
+        ethPriceUsd = await priceFetcher.getEthPrice();
+        lastPriceFetchTime = Date.now(); // Initialize price fetch time
+        console.log(`💰 Fetched live ETH price: $${ethPriceUsd.toFixed(2)} (${priceFetcher.getSourceNames().join(', ')})\n`);
+    } catch (error) {
+        console.warn(`⚠️  Failed to fetch ETH price: ${error instanceof Error ? error.message : String(error)}`);
+        console.warn(`   Using fallback price: $${ethPriceUsd}\n`);
+        priceFetcher = null;
     }
 
-    // 3. INITIALIZE PROVIDER AND WALLET
-    const provider = new JsonRpcProvider(config.rpcUrl);
-    const wallet = new Wallet(config.privateKey, provider);
-
     // Display configuration
     displayConfig(config, ethPriceUsd, priceFetcher);
 
@@ -185,6 +188,8 @@ async function runVolumeBot() {
 
                 // Record trade
                 tracker.addTrade(trade);
+                const recordedTrade = trade;
+                journalSafely(journalConfig, journal => journal.recordVolumeTrade('base', recordedTrade));
 
                 if (trade.success) {
                     totalVolumeUsd += trade.usdValue;
@@ -0,0 +1,297 @@
+/**
+ * Wormhole Bridge
+ *
+ * Token bridge transfers between the bot's Solana and Base wallets, split into
+ * steps a caller can persist and resume: send on the source chain, read the
+ * message it emitted, fetch the signed VAA from the guardians, and redeem it on
+ * the destination chain. Each step only needs what the previous one returned.
+ *
+ * USDC goes over Circle's CCTP instead, in the same steps (burn, message,
+ * Circle attestation, mint), so it arrives as native USDC rather than a
+ * Wormhole-wrapped token.
+ */
+
+import {
+  CircleBridge,
+  CircleTransfer,
+  TokenTransfer,
+  UniversalAddress,
+  Wormhole,
+  circle,
+  encoding,
+  signSendWait,
+  toChainId,
+  type Chain,
+  type ChainContext,
+  type Signer,
+  type TokenId,
+  type WormholeMessageId,
+} from '@wormhole-foundation/sdk-connect';
+import { EvmPlatform, getEvmSignerForKey } from '@wormhole-foundation/sdk-evm';
+import { SolanaPlatform, getSolanaSignAndSendSigner } from '@wormhole-foundation/sdk-solana';
+// Registers the TokenBridge and CircleBridge protocols for each platform
+import '@wormhole-foundation/sdk-evm-tokenbridge';
+import '@wormhole-foundation/sdk-solana-tokenbridge';
+import '@wormhole-foundation/sdk-evm-cctp';
+import '@wormhole-foundation/sdk-solana-cctp';
+
+export type BridgeChain = 'solana' | 'base';
+
+export type TransferVaa = TokenTransfer.VAA;
+
+const WORMHOLE_CHAINS: Record<BridgeChain, Chain> = {
+  solana: 'Solana',
+  base: 'Base',
+};
+
+/**
+ * Wormhole message id in a JSON-safe form
+ */
+export interface BridgeMessageId {
+  chain: Chain;
+  emitter: string; // 32-byte universal address, hex
+  sequence: string;
+}
+
+/**
+ * CCTP message a burn emitted, in a JSON-safe form
+ */
+export interface CircleMessage {
+  hash: string; // Attestation lookup key
+  message: string; // Serialized message, hex
+}
+
+export interface WormholeBridge {
+  wh: Wormhole<'Mainnet'>;
+  chains: Record<BridgeChain, ChainContext<'Mainnet', Chain>>;
+  signers: Record<BridgeChain, Signer<'Mainnet', Chain>>;
+}
+
+/**
+ * Connect to Wormhole mainnet through the bot's own RPCs and wallets
+ */
+export async function createWormholeBridge(config: {
+  SOLANA_RPC_HTTP_URL: string;
+  BASE_RPC_HTTP_URL: string;
+  SOLANA_PRIVATE_KEY: string;
+  BASE_PRIVATE_KEY_HEX: string;
+}): Promise<WormholeBridge> {
+  if (!config.SOLANA_PRIVATE_KEY || !config.BASE_PRIVATE_KEY_HEX) {
+    throw new Error('Bridging needs SOLANA_PRIVATE_KEY and BASE_PRIVATE_KEY_HEX');
+  }
+
+  const wh = new Wormhole('Mainnet', [EvmPlatform, SolanaPlatform], {
+    chains: {
+      Solana: { rpc: config.SOLANA_RPC_HTTP_URL },
+      Base: { rpc: config.BASE_RPC_HTTP_URL },
+    },
+  });
+  const solana = wh.getChain('Solana');
+  const base = wh.getChain('Base');
+
+  return {
+    wh,
+    chains: { solana, base },
+    signers: {
+      solana: await getSolanaSignAndSendSigner(await solana.getRpc(), config.SOLANA_PRIVATE_KEY),
+      base: await getEvmSignerForKey(await base.getRpc(), config.BASE_PRIVATE_KEY_HEX),
+    },
+  };
+}
+
+/**
+ * Token id on a chain; 'native' is SOL or ETH
+ */
+export function getBridgeTokenId(chain: BridgeChain, address: string): TokenId {
+  return Wormhole.tokenId(WORMHOLE_CHAINS[chain], address);
+}
+
+/**
+ * Address the token bridge mints (or releases) `token` as on the other chain
+ */
+export async function getDestinationTokenAddress(
+  bridge: WormholeBridge,
+  from: BridgeChain,
+  to: BridgeChain,
+  token: TokenId
+): Promise<string> {
+  const destination = await TokenTransfer.lookupDestinationToken(bridge.chains[from], bridge.chains[to], token);
+  return destination.address.toString();
+}
+
+/**
+ * Send `amount` (raw source units) of `token` to our own wallet on the other chain.
+ * Returns the source transaction that emitted the transfer message.
+ */
+export async function sendTransfer(
+  bridge: WormholeBridge,
+  from: BridgeChain,
+  to: BridgeChain,
+  token: TokenId,
+  amount: bigint
+): Promise<string> {
+  const sender = bridge.signers[from];
+  const recipient = bridge.signers[to];
+  const txids = await TokenTransfer.transfer(
+    bridge.chains[from],
+    {
+      token,
+      amount,
+      from: Wormhole.chainAddress(WORMHOLE_CHAINS[from], sender.address()),
+      to: Wormhole.chainAddress(WORMHOLE_CHAINS[to], recipient.address()),
+      protocol: 'TokenBridge',
+    },
+    sender
+  );
+
+  // Approvals (EVM) or account setup (Solana) come first; the transfer is last
+  const txid = txids[txids.length - 1]?.txid;
+  if (!txid) {
+    throw new Error(`Token bridge transfer on ${from} returned no transaction`);
+  }
+  return txid;
+}
+
+/**
+ * Wormhole message emitted by a source transaction
+ */
+export async function getTransferMessage(
+  bridge: WormholeBridge,
+  from: BridgeChain,
+  txid: string,
+  timeoutMs: number
+): Promise<BridgeMessageId> {
+  const message = await TokenTransfer.getTransferMessage(bridge.chains[from], txid, timeoutMs);
+  return {
+    chain: message.chain,
+    emitter: message.emitter.toString(),
+    sequence: message.sequence.toString(),
+  };
+}
+
+/**
+ * Signed VAA for a message, or null if the guardians haven't signed it within the timeout
+ */
+export async function fetchTransferVaa(
+  bridge: WormholeBridge,
+  message: BridgeMessageId,
+  timeoutMs: number
+): Promise<TransferVaa | null> {
+  const id: WormholeMessageId = {
+    chain: message.chain,
+    emitter: new UniversalAddress(message.emitter),
+    sequence: BigInt(message.sequence),
+  };
+  return TokenTransfer.getTransferVaa(bridge.wh, id, timeoutMs);
+}
+
+/**
+ * Redeem a VAA on the destination chain. Returns null if it was already redeemed.
+ */
+export async function redeemTransfer(
+  bridge: WormholeBridge,
+  to: BridgeChain,
+  vaa: TransferVaa
+): Promise<string | null> {
+  if (await TokenTransfer.isTransferComplete(bridge.chains[to], vaa)) {
+    return null;
+  }
+  const txids = await TokenTransfer.redeem(bridge.chains[to], vaa, bridge.signers[to]);
+  return txids[txids.length - 1]?.txid ?? null;
+}
+
+/**
+ * Message id in the usual `chainId/emitter/sequence` form
+ */
+export function formatMessageId(message: BridgeMessageId): string {
+  return `${toChainId(message.chain)}/${message.emitter.replace(/^0x/, '')}/${message.sequence}`;
+}
+
+/**
+ * Native USDC on a chain, the only token CCTP moves
+ */
+export function getCircleUsdcAddress(chain: BridgeChain): string {
+  const address = circle.usdcContract.get('Mainnet', WORMHOLE_CHAINS[chain]);
+  if (!address) {
+    throw new Error(`No Circle USDC on ${chain}`);
+  }
+  return address;
+}
+
+/**
+ * Burn `amount` (raw units) of USDC for our own wallet on the other chain.
+ * Returns the source transaction that emitted the CCTP message.
+ */
+export async function sendCircleTransfer(
+  bridge: WormholeBridge,
+  from: BridgeChain,
+  to: BridgeChain,
+  amount: bigint
+): Promise<string> {
+  const sender = bridge.signers[from];
+  const recipient = bridge.signers[to];
+  const txids = await CircleTransfer.transfer(
+    bridge.chains[from],
+    {
+      amount,
+      from: Wormhole.chainAddress(WORMHOLE_CHAINS[from], sender.address()),
+      to: Wormhole.chainAddress(WORMHOLE_CHAINS[to], recipient.address()),
+      automatic: false,
+    },
+    sender
+  );
+
+  // The approval (EVM) comes first; the burn is last
+  const txid = txids[txids.length - 1]?.txid;
+  if (!txid) {
+    throw new Error(`CCTP transfer on ${from} returned no transaction`);
+  }
+  return txid;
+}
+
+/**
+ * CCTP message emitted by a source transaction
+ */
+export async function getCircleTransferMessage(
+  bridge: WormholeBridge,
+  from: BridgeChain,
+  txid: string
+): Promise<CircleMessage> {
+  const transfer = await CircleTransfer.getTransferMessage(bridge.chains[from], txid);
+  return {
+    hash: transfer.id.hash,
+    message: encoding.hex.encode(CircleBridge.serialize(transfer.message)),
+  };
+}
+
+/**
+ * Circle's attestation for a message, or null if it isn't ready within the timeout
+ */
+export async function fetchCircleAttestation(
+  bridge: WormholeBridge,
+  message: CircleMessage,
+  timeoutMs: number
+): Promise<string | null> {
+  return bridge.wh.getCircleAttestation(message.hash, timeoutMs);
+}
+
+/**
+ * Mint the USDC of an attested message on the destination chain. Returns null if it was already minted.
+ */
+export async function redeemCircleTransfer(
+  bridge: WormholeBridge,
+  to: BridgeChain,
+  message: CircleMessage,
+  attestation: string
+): Promise<string | null> {
+  const [decoded] = CircleBridge.deserialize(encoding.hex.decode(message.message));
+  const circleBridge = await bridge.chains[to].getCircleBridge();
+  if (await circleBridge.isTransferCompleted(decoded)) {
+    return null;
+  }
+
+  const signer = bridge.signers[to];
+  const sender = Wormhole.parseAddress(signer.chain(), signer.address());
+  const txids = await signSendWait(bridge.chains[to], circleBridge.redeem(sender, decoded, attestation), signer);
+  return txids[txids.length - 1]?.txid ?? null;
+}
@@ -1,11 +1,25 @@
 import 'dotenv/config';
 import { z } from 'zod';
 
+/**
+ * Parse a boolean env var. z.coerce.boolean() treats any non-empty string
+ * (including "false") as true, so match the literal values instead.
+ */
+function envBoolean(defaultValue: boolean) {
+  return z.preprocess((value) => {
+    if (value === undefined || value === '') return defaultValue;
+    if (typeof value === 'string') {
+      return ['true', '1', 'yes', 'on'].includes(value.trim().toLowerCase());
+    }
+    return value;
+  }, z.boolean());
+}
+
 const configSchema = z.object({
   NODE_ENV: z.string().default('development'),
   LOG_LEVEL: z.string().default('info'),
   RUN_MODE: z.enum(['paper', 'live']).default('paper'),
-  ENABLE_LIVE_TRADING: z.coerce.boolean().default(false),
+  ENABLE_LIVE_TRADING: envBoolean(false),
 
   TOKEN_KEY: z.string().min(1),
 
@@ -16,6 +30,7 @@ const configSchema = z.object({
   MIN_LIQUIDITY_USD: z.coerce.number().min(0).default(0),
 
   SOLANA_RPC_HTTP_URL: z.string().url(),
+  SOLANA_RPC_WS_URL: z.string().default(''),
   SOLANA_PRIVATE_KEY: z.string().default(''),
   SOLANA_TOKEN_MINT: z.string().default(''),
   SOLANA_TOKEN_MINTS: z.string().default(''),
@@ -24,39 +39,122 @@ const configSchema = z.object({
   SOLANA_SOL_PRICE_USD: z.coerce.number().positive().default(200),
   SOLANA_SWAP_SLIPPAGE_DECIMAL: z.coerce.number().min(0).max(5).default(0.25),
   SOLANA_PRIORITY_FEE_SOL: z.coerce.number().min(0).default(0),
+  PUMPFUN_API_FALLBACK: envBoolean(false),
 
   BASE_RPC_HTTP_URL: z.string().url(),
   BASE_CHAIN_ID: z.coerce.number().int().positive().default(8453),
   BASE_PRIVATE_KEY_HEX: z.string().default(''),
   BASE_TOKEN_ADDRESS: z.string().default(''),
   BASE_USDC_ADDRESS: z.string().default(''),
+  BASE_TOKEN_ADDRESSES: z.string().default(''),
+  BASE_QUOTE_ADDRESSES: z.string().default(''),
   BASE_PRICE_SOURCE: z.enum(['mock', 'uniswap-v2-router02']).default('mock'),
   BASE_TOKEN_PRICE_USD: z.coerce.number().positive().default(0.01),
 
-  UNISWAP_V2_ROUTER02_ADDRESS: z.string().default(''),
+  BASE_DEX: z.string().default('uniswap-v2'),
+  BASE_DEX_REGISTRY: z.string().default(''),
+  BASE_V3_FEE_TIER: z.coerce.number().int().positive().max(1_000_000).default(3000),
   BASE_SWAP_SLIPPAGE_BPS: z.coerce.number().int().min(0).max(10_000).default(50),
   BASE_SWAP_DEADLINE_SECONDS: z.coerce.number().int().positive().default(30),
 
+  BASE_ETH_PRICE_USD: z.coerce.number().positive().default(3000),
+
   COINMARKETCAP_API_KEY: z.string().default(''),
+  PRICE_MAX_AGE_MS: z.coerce.number().int().positive().default(300000),
+  PRICE_MIN_SOURCES: z.coerce.number().int().positive().default(1),
+  PRICE_MAX_DEVIATION_PERCENT: z.coerce.number().positive().max(100).default(2),
 
   // Event Monitoring Configuration
   PRICE_MOVEMENT_THRESHOLD: z.coerce.number().min(0).max(100).default(2.0),
-  AUTO_EXECUTE_TRADES: z.coerce.boolean().default(true),
+  AUTO_EXECUTE_TRADES: envBoolean(true),
   SERVER_PORT: z.coerce.number().int().positive().default(3000),
   ANALYSIS_COOLDOWN_MS: z.coerce.number().int().min(0).default(5000),
   EVENT_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(5000),
-  LOG_ALL_EVENTS: z.coerce.boolean().default(false),
+  LOG_ALL_EVENTS: envBoolean(false),
+  SOLANA_CURSOR_FILE: z.string().default('data/solana-cursors.json'),
+  SOLANA_USE_WEBSOCKET: envBoolean(true),
+  BASE_CONFIRMATIONS: z.coerce.number().int().min(0).default(2),
+  BASE_CURSOR_FILE: z.string().default('data/base-cursors.json'),
+  USE_EVENT_MARKET_STATE: envBoolean(true),
+  MARKET_STATE_MAX_AGE_MS: z.coerce.number().int().positive().default(60000),
+
+  // Pre-execution Re-validation
+  REVALIDATE_BEFORE_EXECUTE: envBoolean(true),
+  STALE_OPPORTUNITY_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
+  PRICE_STALENESS_THRESHOLD_MS: z.coerce.number().int().min(0).default(3000),
+
+  // Risk Engine
+  MIN_PROFIT_USD: z.coerce.number().min(0).default(0),
+  MAX_PRICE_IMPACT_PERCENT: z.coerce.number().positive().max(100).default(5),
+  MAX_CONCURRENT_TRADES: z.coerce.number().int().positive().default(1),
+  GAS_MULTIPLIER: z.coerce.number().min(1).default(1.2),
+  ESTIMATED_GAS_COST_USD: z.coerce.number().min(0).default(0.1),
+  EVENT_DEBOUNCE_MS: z.coerce.number().int().min(0).default(250),
+  DAILY_LOSS_LIMIT_USD: z.coerce.number().min(0).default(50),
+  MAX_SOLANA_INVENTORY_USD: z.coerce.number().min(0).default(0),
+  MAX_BASE_INVENTORY_USD: z.coerce.number().min(0).default(0),
+  MAX_CONSECUTIVE_FAILURES: z.coerce.number().int().min(0).default(3),
+  FAILURE_COOLOFF_MS: z.coerce.number().int().min(0).default(300000),
+
+  // Paper Trading Ledger (starting virtual balances, used when RUN_MODE=paper)
+  PAPER_SOL_BALANCE: z.coerce.number().min(0).default(10),
+  PAPER_SOLANA_TOKEN_BALANCE: z.coerce.number().min(0).default(1_000_000),
+  PAPER_ETH_BALANCE: z.coerce.number().min(0).default(0.05),
+  PAPER_USDC_BALANCE: z.coerce.number().min(0).default(1000),
+  PAPER_BASE_TOKEN_BALANCE: z.coerce.number().min(0).default(1_000_000),
+
+  // Partial Execution Recovery
+  RECOVERY_STATE_FILE: z.string().default('data/recovery-positions.json'),
+  RECOVERY_SLIPPAGE_STEP_BPS: z.coerce.number().int().positive().default(100),
+  RECOVERY_MAX_SLIPPAGE_BPS: z.coerce.number().int().min(0).max(10_000).default(500),
+  RECOVERY_RETRY_DELAY_MS: z.coerce.number().int().min(0).default(3000),
+  RECOVERY_UNWIND_ENABLED: envBoolean(true),
+
+  // Trade Journal (SQLite)
+  JOURNAL_ENABLED: envBoolean(true),
+  JOURNAL_DB_PATH: z.string().default('data/journal.db'),
+
+  // Event Recorder (JSONL recordings for the backtester)
+  RECORDER_DIR: z.string().default('data/recordings'),
+  RECORDER_MAX_FILE_MB: z.coerce.number().positive().default(50),
+  RECORDER_SNAPSHOT_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
+
+  // Inventory Rebalancing (Wormhole token bridge, Circle CCTP)
+  REBALANCE_ENABLED: envBoolean(false),
+  REBALANCE_TARGET_SOLANA_SHARE: z.coerce.number().min(0).max(1).default(0.5),
+  REBALANCE_DRIFT_THRESHOLD: z.coerce.number().positive().max(1).default(0.2),
+  REBALANCE_MIN_USD: z.coerce.number().min(0).default(50),
+  REBALANCE_CHECK_INTERVAL_MS: z.coerce.number().int().positive().default(300000),
+  REBALANCE_COOLDOWN_MS: z.coerce.number().int().min(0).default(3600000),
+  REBALANCE_STATE_FILE: z.string().default('data/rebalance-transfers.json'),
 });
 
 export type AppConfig = z.infer<typeof configSchema>;
 
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((i: z.ZodIssue) => `${i.path.join('.')}: ${i.message}`)
+    .join('\n');
+}
+
 export function loadConfig(): AppConfig {
   const parsed = configSchema.safeParse(process.env);
   if (!parsed.success) {
-    const message = parsed.error.issues
-      .map((i: z.ZodIssue) => `${i.path.join('.')}: ${i.message}`)
-      .join('\n');
-    throw new Error(`Invalid configuration:\n${message}`);
+    throw new Error(`Invalid configuration:\n${formatIssues(parsed.error)}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Parse only the given keys, for tools that run without the trading config
+ * (no TOKEN_KEY or RPC URLs), such as the backtester and the volume bots
+ */
+export function loadConfigKeys<K extends keyof AppConfig>(keys: readonly K[]) {
+  const shape = Object.fromEntries(keys.map((key) => [key, configSchema.shape[key]])) as Pick<typeof configSchema.shape, K>;
+  const parsed = z.object(shape).safeParse(process.env);
+  if (!parsed.success) {
+    throw new Error(`Invalid configuration:\n${formatIssues(parsed.error)}`);
   }
 
   return parsed.data;
@@ -0,0 +1,60 @@
+import 'dotenv/config';
+import { loadConfigKeys } from './config.js';
+import { getTradeJournal, parseJournalQuery, JOURNAL_TABLES, type JournalTable } from './monitoring/tradeJournal.js';
+import { printHeader, printFooter, handleTestError } from './utils/testHelpers.js';
+
+/**
+ * Trade journal CLI
+ *
+ * Usage:
+ *   pnpm journal <table> [--from 2025-01-01] [--to 2025-01-31] [--direction SOLANA_TO_BASE] [--status success] [--limit 50]
+ *
+ * Tables: opportunities, simulations, risk_rejections, executions, volume_trades
+ * (on risk_rejections, --status filters by rejection code)
+ */
+function parseArgs(argv: string[]): { table: JournalTable; params: Record<string, string | undefined> } {
+  const [table, ...rest] = argv;
+  if (!table || !JOURNAL_TABLES.includes(table as JournalTable)) {
+    throw new Error(`Usage: pnpm journal <${JOURNAL_TABLES.join('|')}> [--from DATE] [--to DATE] [--direction DIR] [--status STATUS] [--limit N]`);
+  }
+
+  const params: Record<string, string | undefined> = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    const flag = rest[i];
+    if (!flag.startsWith('--') || rest[i + 1] === undefined) {
+      throw new Error(`Invalid argument: ${flag}`);
+    }
+    params[flag.slice(2)] = rest[i + 1];
+  }
+
+  return { table: table as JournalTable, params };
+}
+
+async function main() {
+  const config = loadConfigKeys(['JOURNAL_DB_PATH']);
+  const { table, params } = parseArgs(process.argv.slice(2));
+  const query = parseJournalQuery(params);
+
+  printHeader(`📒 TRADE JOURNAL - ${table.toUpperCase()}`);
+
+  const rows = getTradeJournal(config.JOURNAL_DB_PATH).query<Record<string, unknown>>(table, query);
+
+  if (rows.length === 0) {
+    console.log('No matching entries.\n');
+  } else {
+    // Drop the raw JSON payload and render timestamps as ISO strings
+    console.table(rows.map(({ data, ...row }) => {
+      for (const column of ['detected_at', 'created_at', 'timestamp']) {
+        if (typeof row[column] === 'number') {
+          row[column] = new Date(row[column] as number).toISOString();
+        }
+      }
+      return row;
+    }));
+    console.log(`\n${rows.length} entr${rows.length === 1 ? 'y' : 'ies'}`);
+  }
+
+  printFooter('✅ Journal Query Complete');
+}
+
+main().catch(handleTestError);
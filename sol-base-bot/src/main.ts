@@ -3,7 +3,8 @@ import { loadConfig } from './config.js';
 import { createConnection } from './solana/utils.js';
 import { createBaseProvider } from './base/baseBalanceUtils.js';
 import { runArbitrageAnalysis } from './arbitrageHandler.js';
-import { initializePriceFetcher, PriceFetcher } from './utils/priceFetcher.js';
+import { getPriceAggregationOptions, initializePriceFetcher, PriceFetcher } from './utils/priceFetcher.js';
+import { createPriceSources } from './utils/priceSources.js';
 import { createReadlineInterface, promptConfirmation } from './utils/cliUtils.js';
 import { printHeader, printFooter, logError, handleTestError } from './utils/testHelpers.js';
 
@@ -40,19 +41,23 @@ async function main() {
     const solanaConnection = createConnection(config.SOLANA_RPC_HTTP_URL);
     const baseProvider = createBaseProvider(config.BASE_RPC_HTTP_URL);
 
-    // Initialize SOL price fetcher if API key is configured
-    let priceFetcher: PriceFetcher | null = null;
-    if (config.COINMARKETCAP_API_KEY) {
-      try {
-        priceFetcher = initializePriceFetcher(config.COINMARKETCAP_API_KEY);
-        const solPrice = await priceFetcher.getSolPrice();
-        console.log(`💰 Fetched live SOL price: $${solPrice.toFixed(2)}`);
-      } catch (error) {
-        console.warn('⚠️  Failed to fetch SOL price:', error);
-        console.warn('   Continuing with static pricing');
-      }
-    } else {
-      console.warn('⚠️  COINMARKETCAP_API_KEY not configured, using static pricing');
+    // Initialize the SOL/ETH price aggregator
+    const priceFetcher: PriceFetcher = initializePriceFetcher(
+      createPriceSources({
+        solanaConnection,
+        baseProvider,
+        baseUsdcAddress: config.BASE_USDC_ADDRESS,
+        dexRegistry: config,
+        coinMarketCapApiKey: config.COINMARKETCAP_API_KEY,
+      }),
+      getPriceAggregationOptions(config)
+    );
+    try {
+      const solPrice = await priceFetcher.getSolPrice();
+      console.log(`💰 Fetched live SOL price: $${solPrice.toFixed(2)} (${priceFetcher.getSourceNames().join(', ')})`);
+    } catch (error) {
+      console.warn('⚠️  Failed to fetch SOL price:', error instanceof Error ? error.message : error);
+      console.warn('   Continuing with static pricing (live trades are skipped until prices aggregate)');
     }
     console.log('');
 
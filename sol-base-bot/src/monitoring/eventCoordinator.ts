@@ -1,33 +1,42 @@
 /**
  * Event Coordinator
  * 
- * Coordinates event monitoring across both Solana and Base chains.
+ * Coordinates event monitoring across both Solana and Base chains for one token pair.
  * Subscribes to trade/swap events and triggers arbitrage analysis when price thresholds are met.
+ * Run one coordinator (and PriceTracker) per pair when monitoring several pairs.
  */
 
 import { Connection, PublicKey } from '@solana/web3.js';
 import { JsonRpcProvider } from 'ethers';
-import { subscribeToTradeEvents, type TradeEvent } from '../solana/pumpfun/events.js';
-import { subscribeToSwapEvents, getPairAddress, type SwapEvent } from '../base/uniswap/events.js';
+import { subscribeToSolanaTrades, type SolanaTrade } from '../solana/venue.js';
+import { subscribeToBaseSwaps, type BaseSwap, type BaseReserveUpdate } from '../base/venue.js';
+import type { DexConfig } from '../base/uniswap/dexRegistry.js';
 import { PriceTracker, type PriceChangeEvent } from './priceTracker.js';
+import type { MarketState } from './marketState.js';
 import { LAMPORTS_PER_SOL } from '@solana/web3.js';
 
 export interface EventCoordinatorConfig {
+    // Pair label used in logs and stats
+    pairId: string;
+
     // Required addresses
     solanaMint: PublicKey;
     baseTokenAddress: string;
     baseUsdcAddress: string;
-    baseRouterAddress: string;
+    baseDex: DexConfig;
 
     // Price tracking
     priceMovementThreshold: number;  // Percentage (e.g., 2.0 for 2%)
 
     // Event polling
     solanaEventPollInterval: number;  // ms
+    solanaUseWebSocket: boolean;      // Stream bonding-curve logs, polling while the socket is down
     baseEventPollInterval: number;    // ms
+    baseConfirmations: number;        // Blocks a Base swap must be buried under before it is handled
 
     // Cooldown settings
     analysisCooldownMs: number;       // Minimum time between analyses
+    eventDebounceMs: number;          // Quiet period before a burst of events triggers analysis (0 = immediate)
 
     // Logging
     logAllEvents: boolean;
@@ -40,12 +49,14 @@ export class EventCoordinator {
     private readonly priceTracker: PriceTracker;
     private readonly solanaConnection: Connection;
     private readonly baseProvider: JsonRpcProvider;
+    private readonly marketState: MarketState | null;
 
     private solanaSubscription: any = null;
     private baseSubscription: any = null;
 
     private isAnalysisRunning: boolean = false;
     private lastAnalysisTime: number = 0;
+    private debounceTimer: NodeJS.Timeout | null = null;
 
     private triggerCallback: ArbitrageTriggerCallback | null = null;
 
@@ -57,11 +68,13 @@ export class EventCoordinator {
     constructor(
         config: EventCoordinatorConfig,
         solanaConnection: Connection,
-        baseProvider: JsonRpcProvider
+        baseProvider: JsonRpcProvider,
+        marketState: MarketState | null = null  // Kept current from event payloads when set
     ) {
         this.config = config;
         this.solanaConnection = solanaConnection;
         this.baseProvider = baseProvider;
+        this.marketState = marketState;
 
         this.priceTracker = new PriceTracker(
             config.priceMovementThreshold,
@@ -80,12 +93,13 @@ export class EventCoordinator {
      * Start monitoring events on both chains
      */
     async start(): Promise<void> {
-        console.log('🎯 Starting event monitoring...');
+        console.log(`🎯 Starting event monitoring for pair ${this.config.pairId}...`);
         console.log(`   Triggering analysis on: EVERY EVENT`);
         console.log(`   Analysis cooldown: ${this.config.analysisCooldownMs / 1000}s`);
+        console.log(`   Event debounce: ${this.config.eventDebounceMs}ms`);
         console.log('');
 
-        // Subscribe to Solana Pump.fun events
+        // Subscribe to Solana Pump.fun / PumpSwap events
         this.subscribeToSolanaEvents();
 
         // Subscribe to Base Uniswap events
@@ -98,7 +112,12 @@ export class EventCoordinator {
      * Stop monitoring events
      */
     stop(): void {
-        console.log('🛑 Stopping event monitoring...');
+        console.log(`🛑 Stopping event monitoring for pair ${this.config.pairId}...`);
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
 
         if (this.solanaSubscription) {
             this.solanaSubscription.unsubscribe();
@@ -114,55 +133,47 @@ export class EventCoordinator {
     }
 
     /**
-     * Subscribe to Solana Pump.fun trade events
+     * Subscribe to Solana trade events (bonding curve, or PumpSwap once graduated)
      */
     private subscribeToSolanaEvents(): void {
         console.log(`📡 Subscribing to Pump.fun events for ${this.config.solanaMint.toBase58()}`);
 
-        this.solanaSubscription = subscribeToTradeEvents(
+        this.solanaSubscription = subscribeToSolanaTrades(
             this.solanaConnection,
-            (event: TradeEvent) => this.handleSolanaTradeEvent(event),
             this.config.solanaMint,
+            (event: SolanaTrade) => this.handleSolanaTradeEvent(event),
             this.config.solanaEventPollInterval,
-            true  // Use polling mode
+            this.config.solanaUseWebSocket
         );
     }
 
     /**
-     * Subscribe to Base Uniswap swap events
+     * Subscribe to Base swap events (V2 pair or V3 pool)
      */
     private async subscribeToBaseEvents(): Promise<void> {
-        console.log(`📡 Subscribing to Uniswap events...`);
+        console.log(`📡 Subscribing to ${this.config.baseDex.name} swap events...`);
 
-        // Get the pair address
-        const pairAddress = await getPairAddress(
+        this.baseSubscription = await subscribeToBaseSwaps(
             this.baseProvider,
-            this.config.baseRouterAddress,
-            this.config.baseTokenAddress,
-            this.config.baseUsdcAddress
-        );
-
-        console.log(`   Pair: ${pairAddress}`);
-
-        this.baseSubscription = subscribeToSwapEvents(
-            this.baseProvider,
-            pairAddress,
-            this.config.baseTokenAddress,
+            this.config.baseDex,
             this.config.baseUsdcAddress,
-            (event: SwapEvent) => this.handleBaseSwapEvent(event),
+            this.config.baseTokenAddress,
+            (event: BaseSwap) => this.handleBaseSwapEvent(event),
             this.config.baseEventPollInterval,
-            true  // Use polling mode
+            this.config.baseConfirmations,
+            this.marketState ? (update: BaseReserveUpdate) => this.marketState?.applyBaseReserves(update) : undefined
         );
     }
 
     /**
      * Handle Solana trade event
      */
-    private async handleSolanaTradeEvent(event: TradeEvent): Promise<void> {
+    private async handleSolanaTradeEvent(event: SolanaTrade): Promise<void> {
         this.eventCounts.solana++;
+        this.marketState?.applySolanaTrade(event);
 
         if (this.config.logAllEvents) {
-            console.log(`[Solana Event #${this.eventCounts.solana}] ${event.isBuy ? 'BUY' : 'SELL'}`);
+            console.log(`[Solana Event #${this.eventCounts.solana}] ${event.isBuy ? 'BUY' : 'SELL'} (${event.venue})`);
             console.log(`   Tokens: ${Number(event.tokenAmount) / 1e6}`);
             console.log(`   SOL: ${Number(event.solAmount) / LAMPORTS_PER_SOL}`);
         }
@@ -173,42 +184,63 @@ export class EventCoordinator {
         // Update price tracker for monitoring
         this.priceTracker.updatePrice('solana', solPerToken, 'event');
 
-        // Trigger analysis on every event (respecting cooldown)
-        await this.triggerAnalysisIfReady('solana');
+        // Trigger analysis on every event (respecting debounce and cooldown)
+        await this.scheduleAnalysis('solana');
     }
 
     /**
      * Handle Base swap event
      */
-    private async handleBaseSwapEvent(event: SwapEvent): Promise<void> {
+    private async handleBaseSwapEvent(event: BaseSwap): Promise<void> {
+        this.marketState?.applyBaseSwap(event);
+
+        // A reorg undid the swap: its price never held, but the pool moved back
+        if (event.removed) {
+            console.log(`[Base Event] Reorg removed swap ${event.transactionHash} (log ${event.logIndex})`);
+            await this.scheduleAnalysis('base');
+            return;
+        }
+
         this.eventCounts.base++;
 
         if (this.config.logAllEvents) {
-            console.log(`[Base Event #${this.eventCounts.base}] SWAP`);
-            console.log(`   Amount0In: ${event.amount0In}`);
-            console.log(`   Amount1In: ${event.amount1In}`);
-            console.log(`   Amount0Out: ${event.amount0Out}`);
-            console.log(`   Amount1Out: ${event.amount1Out}`);
+            console.log(`[Base Event #${this.eventCounts.base}] ${event.isBuy ? 'BUY' : 'SELL'} (${event.dex})`);
+            console.log(`   Tokens: ${event.tokenAmount}`);
+            console.log(`   USDC: ${event.usdcAmount}`);
         }
 
         // Calculate USDC per token from the swap
-        let usdcPerToken = 0;
-
-        if (event.amount0In > 0n && event.amount1Out > 0n) {
-            // Buying tokens (USDC in, tokens out)
-            usdcPerToken = Number(event.amount0In) / Number(event.amount1Out);
-        } else if (event.amount1In > 0n && event.amount0Out > 0n) {
-            // Selling tokens (tokens in, USDC out)
-            usdcPerToken = Number(event.amount0Out) / Number(event.amount1In);
-        }
+        const usdcPerToken = event.tokenAmount > 0n
+            ? Number(event.usdcAmount) / Number(event.tokenAmount)
+            : 0;
 
         if (usdcPerToken > 0) {
             // Update price tracker for monitoring
             this.priceTracker.updatePrice('base', usdcPerToken, 'event');
         }
 
-        // Trigger analysis on every event (respecting cooldown)
-        await this.triggerAnalysisIfReady('base');
+        // Trigger analysis on every event (respecting debounce and cooldown)
+        await this.scheduleAnalysis('base');
+    }
+
+    /**
+     * Debounce analysis triggers so a burst of events results in a single analysis
+     * once the chain goes quiet for eventDebounceMs
+     */
+    private async scheduleAnalysis(chain: 'solana' | 'base'): Promise<void> {
+        if (this.config.eventDebounceMs <= 0) {
+            await this.triggerAnalysisIfReady(chain);
+            return;
+        }
+
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            void this.triggerAnalysisIfReady(chain);
+        }, this.config.eventDebounceMs);
     }
 
     /**
@@ -229,6 +261,7 @@ export class EventCoordinator {
         console.log('\n' + '='.repeat(80));
         console.log(`🚨 EVENT DETECTED - TRIGGERING ARBITRAGE ANALYSIS`);
         console.log('='.repeat(80));
+        console.log(`   Pair: ${this.config.pairId}`);
         console.log(`   Chain: ${chain.toUpperCase()}`);
         console.log(`   Event Count - Solana: ${this.eventCounts.solana}, Base: ${this.eventCounts.base}`);
         console.log('='.repeat(80) + '\n');
@@ -273,7 +306,9 @@ export class EventCoordinator {
      */
     getStats() {
         return {
+            pairId: this.config.pairId,
             eventCounts: { ...this.eventCounts },
+            marketState: this.marketState?.getStats() ?? null,
             currentPrices: this.priceTracker.getCurrentSnapshot(),
             baselinePrices: this.priceTracker.getBaselineSnapshot(),
             currentChanges: this.priceTracker.getCurrentChanges(),
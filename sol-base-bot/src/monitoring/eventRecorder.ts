@@ -0,0 +1,285 @@
+/**
+ * Event Recorder
+ *
+ * Writes every parsed trade on both chains to rotating JSONL recordings in the
+ * format the backtester replays. Each file opens with a reserve snapshot and a
+ * new one is written every RECORDER_SNAPSHOT_INTERVAL_MS, so any file replays
+ * on its own and drift from missed events is bounded by the interval.
+ * Base events carry their block's timestamp and the pair's Sync reserves are
+ * recorded with each swap; snapshots note the Base block they were read after,
+ * so the replayer can skip swaps the snapshot already includes.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { JsonRpcProvider } from 'ethers';
+import { fetchMarketData } from '../arbitrage/marketFetcher.js';
+import { resolveBaseDex } from '../base/uniswap/dexRegistry.js';
+import {
+    getPairAddress,
+    subscribeToSwapEvents,
+    type SwapEvent,
+    type SwapEventSubscription,
+    type SyncEvent,
+} from '../base/uniswap/events.js';
+import { subscribeToSolanaTrades, type SolanaTrade } from '../solana/venue.js';
+import type { TradeEventSubscription } from '../solana/pumpfun/events.js';
+import { serializeRecordedEvent, type RecordedEvent, type RecordedSnapshot } from '../backtest/recordedEvents.js';
+
+type EventRecorderConfig = Parameters<typeof fetchMarketData>[0] & {
+    RECORDER_DIR: string;
+    RECORDER_MAX_FILE_MB: number;
+    RECORDER_SNAPSHOT_INTERVAL_MS: number;
+    EVENT_POLL_INTERVAL_MS: number;
+    SOLANA_USE_WEBSOCKET: boolean;
+    BASE_CONFIRMATIONS: number;
+};
+
+export interface EventRecorderStats {
+    file: string | null;
+    files: number;
+    snapshots: number;
+    solanaTrades: number;
+    baseSwaps: number;
+}
+
+// Block timestamps are in seconds; 0 means the block could not be read
+function getBlockTimeMs(blockTimestamp: number): number {
+    return blockTimestamp > 0 ? blockTimestamp * 1000 : Date.now();
+}
+
+export class EventRecorder {
+    private readonly config: EventRecorderConfig;
+    private readonly solanaConnection: Connection;
+    private readonly baseProvider: JsonRpcProvider;
+
+    private solanaSubscription: TradeEventSubscription | null = null;
+    private baseSubscription: SwapEventSubscription | null = null;
+    private snapshotTimer: NodeJS.Timeout | null = null;
+
+    private usdcIsToken0 = false;
+    private filePath: string | null = null;
+    private fileBytes = 0;
+
+    private stats: EventRecorderStats = {
+        file: null,
+        files: 0,
+        snapshots: 0,
+        solanaTrades: 0,
+        baseSwaps: 0,
+    };
+
+    constructor(
+        config: EventRecorderConfig,
+        solanaConnection: Connection,
+        baseProvider: JsonRpcProvider
+    ) {
+        this.config = config;
+        this.solanaConnection = solanaConnection;
+        this.baseProvider = baseProvider;
+    }
+
+    /**
+     * Write the first snapshot, then subscribe to both chains
+     */
+    async start(): Promise<void> {
+        const dex = resolveBaseDex(this.config);
+        if (dex.version === 'v3') {
+            // The replay moves the pair by V2 Swap amounts
+            throw new Error(`Recording supports V2 pairs only; BASE_DEX "${dex.name}" is V3`);
+        }
+
+        const { BASE_USDC_ADDRESS: usdc, BASE_TOKEN_ADDRESS: token } = this.config;
+        const pairAddress = await getPairAddress(this.baseProvider, dex, usdc, token);
+        this.usdcIsToken0 = usdc.toLowerCase() < token.toLowerCase();
+
+        fs.mkdirSync(this.config.RECORDER_DIR, { recursive: true });
+        if (!await this.writeSnapshot()) {
+            throw new Error('Failed to record the opening snapshot: market data unavailable');
+        }
+
+        console.log('📡 Subscribing to Solana trades...');
+        this.solanaSubscription = subscribeToSolanaTrades(
+            this.solanaConnection,
+            new PublicKey(this.config.SOLANA_TOKEN_MINT),
+            (trade: SolanaTrade) => this.recordSolanaTrade(trade),
+            this.config.EVENT_POLL_INTERVAL_MS,
+            this.config.SOLANA_USE_WEBSOCKET
+        );
+
+        console.log('📡 Subscribing to Base swaps...');
+        const [token0, token1] = this.usdcIsToken0 ? [usdc, token] : [token, usdc];
+        this.baseSubscription = subscribeToSwapEvents(
+            this.baseProvider,
+            pairAddress,
+            token0,
+            token1,
+            (event: SwapEvent) => this.recordBaseSwap(event),
+            this.config.EVENT_POLL_INTERVAL_MS,
+            true,  // Use polling mode
+            this.config.BASE_CONFIRMATIONS,
+            (event: SyncEvent) => this.recordBaseSync(event)
+        );
+
+        this.snapshotTimer = setInterval(() => {
+            this.writeSnapshot().catch((error) => console.error('❌ Failed to record snapshot:', error));
+        }, this.config.RECORDER_SNAPSHOT_INTERVAL_MS);
+    }
+
+    /**
+     * Unsubscribe and stop snapshotting. Lines are appended synchronously, so nothing is left to flush.
+     */
+    stop(): void {
+        this.solanaSubscription?.unsubscribe();
+        this.baseSubscription?.unsubscribe();
+        this.solanaSubscription = null;
+        this.baseSubscription = null;
+
+        if (this.snapshotTimer) {
+            clearInterval(this.snapshotTimer);
+            this.snapshotTimer = null;
+        }
+    }
+
+    getStats(): EventRecorderStats {
+        return { ...this.stats };
+    }
+
+    private recordSolanaTrade(trade: SolanaTrade): void {
+        const timestamp = Date.now();
+        if (trade.venue === 'bonding_curve') {
+            this.write({
+                type: 'pumpfun_trade',
+                timestamp,
+                signature: trade.signature,
+                slot: trade.slot,
+                isBuy: trade.isBuy,
+                solAmount: trade.event.solAmount,
+                tokenAmount: trade.event.tokenAmount,
+                virtualSolReserves: trade.event.virtualSolReserves,
+                virtualTokenReserves: trade.event.virtualTokenReserves,
+                realSolReserves: trade.event.realSolReserves,
+                realTokenReserves: trade.event.realTokenReserves,
+            });
+        } else {
+            this.write({
+                type: 'pumpswap_trade',
+                timestamp,
+                signature: trade.signature,
+                slot: trade.slot,
+                isBuy: trade.isBuy,
+                baseAmount: trade.event.baseAmount,
+                quoteAmount: trade.event.quoteAmount,
+                poolBaseReserves: trade.event.poolBaseReserves,
+                poolQuoteReserves: trade.event.poolQuoteReserves,
+                lpFee: trade.event.lpFee,
+                protocolFee: trade.event.protocolFee,
+            });
+        }
+        this.stats.solanaTrades++;
+    }
+
+    private recordBaseSwap(event: SwapEvent): void {
+        this.write({
+            type: 'uniswap_swap',
+            timestamp: getBlockTimeMs(event.blockTimestamp),
+            transactionHash: event.transactionHash,
+            blockNumber: event.blockNumber,
+            logIndex: event.logIndex,
+            amount0In: event.amount0In,
+            amount1In: event.amount1In,
+            amount0Out: event.amount0Out,
+            amount1Out: event.amount1Out,
+            removed: event.removed,
+        });
+        this.stats.baseSwaps++;
+    }
+
+    /**
+     * Absolute reserves after each swap. A reorged Sync is not written: the undone
+     * Swap moves the pair back, and the next Sync sets it again.
+     */
+    private recordBaseSync(event: SyncEvent): void {
+        if (event.removed) return;
+        this.write({
+            type: 'uniswap_sync',
+            timestamp: getBlockTimeMs(event.blockTimestamp),
+            transactionHash: event.transactionHash,
+            blockNumber: event.blockNumber,
+            reserve0: event.reserve0,
+            reserve1: event.reserve1,
+        });
+    }
+
+    /**
+     * Fetch both pools' reserves and write them, rotating first if the file is full.
+     * Returns false if the market data could not be fetched.
+     */
+    private async writeSnapshot(): Promise<boolean> {
+        const snapshot = await this.fetchSnapshot();
+        if (!snapshot) {
+            console.warn('⚠️  Skipping snapshot: market data unavailable');
+            return false;
+        }
+
+        // Rotate only here so every file opens with a snapshot
+        if (!this.filePath || this.fileBytes >= this.config.RECORDER_MAX_FILE_MB * 1024 * 1024) {
+            this.openFile(snapshot.timestamp);
+        }
+        this.write(snapshot);
+        this.stats.snapshots++;
+        return true;
+    }
+
+    private async fetchSnapshot(): Promise<RecordedSnapshot | null> {
+        // Read before the reserves, so every block up to it is in them
+        const baseBlockNumber = await this.baseProvider.getBlockNumber();
+        const marketStats = await fetchMarketData(this.config, this.solanaConnection, this.baseProvider);
+        if (!marketStats) return null;
+
+        const { solana, base } = marketStats;
+        return {
+            type: 'snapshot',
+            timestamp: Date.now(),
+            baseBlockNumber,
+            solPriceUsd: solana.priceUsd / solana.price,
+            solana: {
+                venue: solana.venue,
+                virtualSolReserves: solana.virtualSolReserves,
+                virtualTokenReserves: solana.virtualTokenReserves,
+                realSolReserves: solana.realSolReserves,
+                realTokenReserves: solana.realTokenReserves,
+                feeBps: solana.feeBps,
+                tokenDecimals: solana.tokenDecimals,
+            },
+            base: {
+                dex: base.dex,
+                usdcIsToken0: this.usdcIsToken0,
+                usdcReserves: base.usdcReserves,
+                tokenReserves: base.tokenReserves,
+                feeBps: base.feeBps,
+                usdcDecimals: base.usdcDecimals,
+                tokenDecimals: base.tokenDecimals,
+            },
+        };
+    }
+
+    private openFile(timestamp: number): void {
+        // Names sort chronologically, so a directory glob replays in order
+        const stamp = new Date(timestamp).toISOString().replace(/[:.]/g, '-');
+        const name = `${this.config.SOLANA_TOKEN_MINT.slice(0, 8)}-${stamp}.jsonl`;
+        this.filePath = path.join(this.config.RECORDER_DIR, name);
+        this.fileBytes = 0;
+        this.stats.file = this.filePath;
+        this.stats.files++;
+        console.log(`📝 Recording to ${this.filePath}`);
+    }
+
+    private write(event: RecordedEvent): void {
+        if (!this.filePath) return;
+        const line = `${serializeRecordedEvent(event)}\n`;
+        fs.appendFileSync(this.filePath, line);
+        this.fileBytes += Buffer.byteLength(line);
+    }
+}
@@ -0,0 +1,240 @@
+/**
+ * Market State
+ *
+ * In-memory market data for one pair, kept current from event payloads instead
+ * of refetching on every trigger. Pump.fun TradeEvents carry the curve's
+ * reserves after the trade, PumpSwap events the pool's reserves before it, and
+ * V2 Sync events the pair's reserves. The curve's fee tier follows its market
+ * cap, so it is re-resolved after curve trades. The state is seeded (and re-seeded) from
+ * fetchMarketData, which is also used whenever the cache can't be trusted: a
+ * Solana venue change, a Base reorg, any V3 swap (ticks aren't in the event) or
+ * data older than MARKET_STATE_MAX_AGE_MS. Execution still re-reads both pools.
+ */
+
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { JsonRpcProvider } from 'ethers';
+import { fetchMarketData, PUMP_FUN_TOKEN_DECIMALS, type MarketStats } from '../arbitrage/marketFetcher.js';
+import { getPumpSwapReservesAfter } from '../solana/pumpswap/events.js';
+import { getBondingCurveFeeBps } from '../solana/pumpfun/fees.js';
+import { getPriceFetcher } from '../utils/priceFetcher.js';
+import type { SolanaTrade } from '../solana/venue.js';
+import type { BaseReserveUpdate, BaseSwap } from '../base/venue.js';
+
+type MarketStateConfig = Parameters<typeof fetchMarketData>[0] & {
+    MARKET_STATE_MAX_AGE_MS: number;
+};
+
+export interface MarketStateStats {
+    eventsApplied: number;
+    rpcReads: number;
+    lastRpcReadAt: number | null;
+    lastEventAt: number | null;
+    staleReason: string | null; // Why the next read goes to RPC, if it does
+}
+
+export class MarketState {
+    private readonly config: MarketStateConfig;
+    private readonly solanaConnection: Connection;
+    private readonly baseProvider: JsonRpcProvider;
+
+    private market: MarketStats | null = null;
+    private solPriceUsd = 0;
+    private totalSupplyTokens: number | null = null;
+    private curveCreator: PublicKey | null = null; // From the last curve trade
+    private curveFeeStale = false;
+    private lastSolanaSlot = 0;
+    private readAt = 0;
+    private staleReason: string | null = 'not loaded yet';
+
+    private stats: MarketStateStats = {
+        eventsApplied: 0,
+        rpcReads: 0,
+        lastRpcReadAt: null,
+        lastEventAt: null,
+        staleReason: null,
+    };
+
+    constructor(
+        config: MarketStateConfig,
+        solanaConnection: Connection,
+        baseProvider: JsonRpcProvider
+    ) {
+        this.config = config;
+        this.solanaConnection = solanaConnection;
+        this.baseProvider = baseProvider;
+    }
+
+    /**
+     * Current market data from the cache, or read over RPC when the cache is stale.
+     * Returns null if the RPC read fails.
+     */
+    async getMarketStats(solanaKeypair?: Keypair | null): Promise<MarketStats | null> {
+        if (!this.staleReason && Date.now() - this.readAt > this.config.MARKET_STATE_MAX_AGE_MS) {
+            this.staleReason = `older than ${this.config.MARKET_STATE_MAX_AGE_MS}ms`;
+        }
+        if (!this.staleReason && this.market && this.curveFeeStale) {
+            await this.refreshCurveFee(this.market);
+        }
+
+        if (this.staleReason || !this.market) {
+            console.log(`🔄 Reading market data over RPC (${this.staleReason})...\n`);
+            const marketStats = await fetchMarketData(this.config, this.solanaConnection, this.baseProvider, solanaKeypair);
+            if (marketStats) {
+                this.reset(marketStats);
+            }
+            return marketStats;
+        }
+
+        console.log(`⚡ Using event-driven market data (${this.stats.eventsApplied} events applied since start)\n`);
+        return this.build(this.market, await this.getSolPriceUsd());
+    }
+
+    /**
+     * Replace the cache with market data read over RPC, e.g. by pre-execution re-validation
+     */
+    reset(marketStats: MarketStats): void {
+        this.market = {
+            solana: { ...marketStats.solana },
+            base: { ...marketStats.base },
+        };
+        this.solPriceUsd = marketStats.solana.price > 0 ? marketStats.solana.priceUsd / marketStats.solana.price : 0;
+        this.totalSupplyTokens = marketStats.solana.priceUsd > 0 ? marketStats.solana.marketCapUsd / marketStats.solana.priceUsd : null;
+        this.curveFeeStale = false;
+        this.readAt = Date.now();
+        this.staleReason = null;
+        this.stats.rpcReads++;
+        this.stats.lastRpcReadAt = this.readAt;
+    }
+
+    /**
+     * Force the next read to go to RPC
+     */
+    invalidate(reason: string): void {
+        if (!this.staleReason) {
+            this.staleReason = reason;
+        }
+    }
+
+    applySolanaTrade(trade: SolanaTrade): void {
+        if (!this.market || this.staleReason) return;
+        // Streamed and polled trades can interleave; never step back to an older slot
+        if (trade.slot < this.lastSolanaSlot) return;
+        this.lastSolanaSlot = trade.slot;
+
+        const solana = this.market.solana;
+        if (trade.venue !== solana.venue) {
+            // Graduation: new pool, fees and supply
+            this.invalidate(`Solana venue changed to ${trade.venue}`);
+            return;
+        }
+
+        if (trade.venue === 'bonding_curve') {
+            solana.virtualSolReserves = trade.event.virtualSolReserves;
+            solana.virtualTokenReserves = trade.event.virtualTokenReserves;
+            solana.realSolReserves = trade.event.realSolReserves;
+            solana.realTokenReserves = trade.event.realTokenReserves;
+            this.curveCreator = trade.event.creator;
+            this.curveFeeStale = true;
+        } else {
+            // PumpSwap has no virtual liquidity; balances fill both fields like the fetcher's
+            const { baseReserves, quoteReserves } = getPumpSwapReservesAfter(trade.event);
+            solana.virtualTokenReserves = baseReserves;
+            solana.virtualSolReserves = quoteReserves;
+            solana.realTokenReserves = baseReserves;
+            solana.realSolReserves = quoteReserves;
+        }
+        this.recordEvent();
+    }
+
+    /**
+     * V2 pairs are kept current by their Sync events; a V3 swap moves ticks the event doesn't carry
+     */
+    applyBaseSwap(swap: BaseSwap): void {
+        if (!this.market || this.staleReason) return;
+        if (this.market.base.v3) {
+            this.invalidate(`V3 swap in ${swap.transactionHash}`);
+        }
+    }
+
+    applyBaseReserves(update: BaseReserveUpdate): void {
+        if (!this.market || this.staleReason) return;
+        if (update.removed) {
+            this.invalidate(`Base reorg at block ${update.blockNumber}`);
+            return;
+        }
+        this.market.base.usdcReserves = update.usdcReserves;
+        this.market.base.tokenReserves = update.tokenReserves;
+        this.recordEvent();
+    }
+
+    getStats(): MarketStateStats {
+        return { ...this.stats, staleReason: this.staleReason };
+    }
+
+    private recordEvent(): void {
+        this.stats.eventsApplied++;
+        this.stats.lastEventAt = Date.now();
+    }
+
+    /**
+     * Fee for the curve's current market cap. Needs the total supply from the last
+     * RPC read; without it the next read goes to RPC instead.
+     */
+    private async refreshCurveFee(market: MarketStats): Promise<void> {
+        if (this.totalSupplyTokens === null || !this.curveCreator) {
+            this.invalidate('bonding-curve fee tier unknown');
+            return;
+        }
+        market.solana.feeBps = await getBondingCurveFeeBps(this.solanaConnection, {
+            virtualSolReserves: market.solana.virtualSolReserves,
+            virtualTokenReserves: market.solana.virtualTokenReserves,
+            tokenTotalSupply: BigInt(Math.round(this.totalSupplyTokens * (10 ** PUMP_FUN_TOKEN_DECIMALS))),
+            creator: this.curveCreator,
+        });
+        this.curveFeeStale = false;
+    }
+
+    /**
+     * SOL price from the shared price fetcher (cached), else the one from the last RPC read
+     */
+    private async getSolPriceUsd(): Promise<number> {
+        try {
+            return await getPriceFetcher().getSolPrice();
+        } catch (error) {
+            return this.solPriceUsd;
+        }
+    }
+
+    /**
+     * Market stats from the cached reserves, priced like the fetcher's formula fallback
+     */
+    private build(market: MarketStats, solPriceUsd: number): MarketStats {
+        const { solana, base } = market;
+
+        const solanaPrice = (Number(solana.virtualSolReserves) / LAMPORTS_PER_SOL)
+            / (Number(solana.virtualTokenReserves) / (10 ** PUMP_FUN_TOKEN_DECIMALS));
+        const solanaPriceUsd = solanaPrice * solPriceUsd;
+        const solanaLiquidity = Number(solana.realSolReserves) / LAMPORTS_PER_SOL;
+
+        const basePrice = (Number(base.usdcReserves) / Number(base.tokenReserves)) * (10 ** (base.tokenDecimals - base.usdcDecimals));
+        const baseLiquidity = Number(base.usdcReserves) / (10 ** base.usdcDecimals);
+
+        return {
+            solana: {
+                ...solana,
+                price: solanaPrice,
+                priceUsd: solanaPriceUsd,
+                liquidity: solanaLiquidity,
+                liquidityUsd: solanaLiquidity * solPriceUsd,
+                marketCapUsd: this.totalSupplyTokens !== null ? this.totalSupplyTokens * solanaPriceUsd : 0,
+            },
+            base: {
+                ...base,
+                price: basePrice,
+                priceUsd: basePrice, // Assuming USDC is $1
+                liquidity: baseLiquidity,
+                liquidityUsd: baseLiquidity,
+            },
+        };
+    }
+}
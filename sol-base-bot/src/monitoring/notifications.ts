@@ -5,8 +5,10 @@
  * Can be extended to support multiple notification channels (email, Slack, Telegram, etc.)
  */
 
-import type { Opportunity, ArbitrageSimulation } from '../arbitrage/types.js';
+import type { Opportunity, ArbitrageSimulation, ExecutionResult } from '../arbitrage/types.js';
 import type { MarketStats } from '../arbitrage/marketFetcher.js';
+import type { PaperTradeResult, PaperLedgerSummary } from '../arbitrage/paperExecutor.js';
+import type { RecoveryPosition } from '../arbitrage/recovery.js';
 
 export interface TradeExecutionSummary {
     // Trade details
@@ -14,6 +16,7 @@ export interface TradeExecutionSummary {
     simulation: ArbitrageSimulation;
 
     // Transaction results
+    executionResult?: ExecutionResult;
     solanaSignature?: string;
     baseTransactionHash?: string;
 
@@ -70,6 +73,24 @@ export class NotificationService {
             console.log(`   Base TX: https://basescan.org/tx/${summary.baseTransactionHash}`);
         }
 
+        // Realized vs simulated
+        const result = summary.executionResult;
+        if (result) {
+            const usd = (value: number | null) => value === null ? 'unverified' : `$${value.toFixed(4)}`;
+            console.log('\n💵 REALIZED RESULT:');
+            console.log(`   Buy (${result.plan.buyChain}): ${result.actualBuyAmount ?? 'unverified'} tokens for ${usd(result.actualBuyCostUsd)}${result.buyBlockNumber !== undefined ? ` (${result.plan.buyChain === 'solana' ? 'slot' : 'block'} ${result.buyBlockNumber})` : ''}`);
+            console.log(`   Sell (${result.plan.sellChain}): ${result.actualSellAmount ?? 'unverified'} tokens for ${usd(result.actualSellRevenueUsd)}${result.sellBlockNumber !== undefined ? ` (${result.plan.sellChain === 'solana' ? 'slot' : 'block'} ${result.sellBlockNumber})` : ''}`);
+            console.log(`   Gas: $${result.actualGasCostUsd.toFixed(4)}`);
+            console.log(`   Realized Profit: ${usd(result.actualProfitUsd)}${result.actualProfitPercent !== null ? ` (${result.actualProfitPercent.toFixed(2)}%)` : ''}`);
+            console.log(`   Simulated Profit: $${result.simulatedProfitUsd.toFixed(4)}`);
+            if (result.profitDeviationUsd !== null) {
+                console.log(`   Deviation: ${result.profitDeviationUsd >= 0 ? '+' : ''}$${result.profitDeviationUsd.toFixed(4)}`);
+            }
+            for (const warning of result.warnings) {
+                console.log(`   ⚠️  ${warning}`);
+            }
+        }
+
         // Market State
         console.log('\n💹 PRE-TRADE MARKET STATE:');
         console.log(`   Solana Price: ${preTradeMarketStats.solana.priceUsd.toFixed(6)} USD/token`);
@@ -115,6 +136,40 @@ export class NotificationService {
         console.log('\n' + '='.repeat(100) + '\n');
     }
 
+    /**
+     * Send notification about a paper trade and the running paper PnL
+     */
+    async notifyPaperTrade(result: PaperTradeResult, ledger: PaperLedgerSummary): Promise<void> {
+        console.log('\n' + '='.repeat(100));
+        console.log('📝 PAPER TRADE NOTIFICATION (no transactions sent)');
+        console.log('='.repeat(100));
+
+        console.log('\n📊 TRADE SUMMARY:');
+        console.log(`   Opportunity: ${result.opportunityId}`);
+        console.log(`   Direction: ${result.direction === 'SOLANA_TO_BASE' ? 'Buy Solana → Sell Base' : 'Buy Base → Sell Solana'}`);
+        console.log(`   Buy (${result.buyFill.chain}): ${result.buyFill.quoteAmount.toFixed(6)} ${result.buyFill.quoteSymbol} @ ${result.buyFill.averagePrice.toExponential(4)} ${result.buyFill.quoteSymbol}/token`);
+        console.log(`   Sell (${result.sellFill.chain}): ${result.sellFill.quoteAmount.toFixed(6)} ${result.sellFill.quoteSymbol} @ ${result.sellFill.averagePrice.toExponential(4)} ${result.sellFill.quoteSymbol}/token`);
+        console.log(`   Cost: $${result.costUsd.toFixed(4)}`);
+        console.log(`   Revenue: $${result.revenueUsd.toFixed(4)}`);
+        console.log(`   Gas: $${result.gasCostUsd.toFixed(4)}`);
+        console.log(`   Paper Profit: $${result.profitUsd.toFixed(4)} (${result.profitPercent.toFixed(2)}%)`);
+        console.log(`   Simulated Profit: $${result.simulatedProfitUsd.toFixed(4)}`);
+        console.log(`   Timestamp: ${new Date(result.timestamp).toISOString()}`);
+
+        console.log('\n💰 PAPER BALANCES (before → after):');
+        console.log(`   SOL: ${result.balancesBefore.solana.sol.toFixed(4)} → ${result.balancesAfter.solana.sol.toFixed(4)}`);
+        console.log(`   Solana Tokens: ${result.balancesBefore.solana.token.toFixed(2)} → ${result.balancesAfter.solana.token.toFixed(2)}`);
+        console.log(`   USDC: ${result.balancesBefore.base.usdc.toFixed(2)} → ${result.balancesAfter.base.usdc.toFixed(2)}`);
+        console.log(`   Base Tokens: ${result.balancesBefore.base.token.toFixed(2)} → ${result.balancesAfter.base.token.toFixed(2)}`);
+
+        console.log('\n📈 PAPER LEDGER:');
+        console.log(`   Trades: ${ledger.tradeCount}`);
+        console.log(`   Realized PnL: $${ledger.realizedPnlUsd.toFixed(4)}`);
+        console.log(`   Gas Spent: $${ledger.gasSpentUsd.toFixed(4)}`);
+
+        console.log('\n' + '='.repeat(100) + '\n');
+    }
+
     /**
      * Send notification about failed trade
      */
@@ -139,6 +194,33 @@ export class NotificationService {
         console.log('='.repeat(100) + '\n');
     }
 
+    /**
+     * Send critical notification about a half-executed trade and its recovery progress
+     */
+    async notifyCriticalRecovery(position: RecoveryPosition, message: string): Promise<void> {
+        console.log('\n' + '!'.repeat(100));
+        console.log(`🚨 CRITICAL: UNHEDGED POSITION [${position.status.toUpperCase()}]`);
+        console.log('!'.repeat(100));
+        console.log(`   ${message}`);
+        console.log(`   Position: ${position.id} (opportunity ${position.opportunityId})`);
+        console.log(`   Direction: ${position.direction}`);
+        const bought = position.boughtTokenAmount === null
+            ? 'unverified'
+            : Number(position.boughtTokenAmount) / (10 ** position.buyTokenDecimals);
+        console.log(`   Bought on ${position.buyChain}: ${bought} tokens (tx ${position.buyTxHash})`);
+        console.log(`   Unsold on ${position.sellChain}: ${Number(position.sellTokenAmount) / (10 ** position.sellTokenDecimals)} tokens`);
+        console.log(`   Original Error: ${position.originalError}`);
+        if (position.attempts.length > 0) {
+            console.log('   Attempts:');
+            for (const attempt of position.attempts) {
+                const outcome = attempt.txHash ? `✅ ${attempt.txHash}` : `❌ ${attempt.error}`;
+                console.log(`      ${attempt.action} on ${attempt.chain} @ ${attempt.slippageBps} bps: ${outcome}`);
+            }
+        }
+        console.log(`   Timestamp: ${new Date().toISOString()}`);
+        console.log('!'.repeat(100) + '\n');
+    }
+
     /**
      * Send system notification (errors, warnings, etc.)
      */
@@ -0,0 +1,493 @@
+/**
+ * Trade Journal
+ *
+ * Persists opportunities, simulations, risk rejections, execution outcomes and volume bot trades
+ * to an embedded SQLite file so they survive restarts, and exposes a query API
+ * for the server and CLI.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Opportunity, ArbitrageSimulation, ExecutionResult, RiskAssessment } from '../arbitrage/types.js';
+import type { PaperTradeResult } from '../arbitrage/paperExecutor.js';
+import type { RecoveryPosition } from '../arbitrage/recovery.js';
+import type { TradeRecord as SolanaVolumeTrade } from '../solana/pumpfun/volumebot/volumeBotTypes.js';
+import type { TradeRecord as BaseVolumeTrade } from '../base/volumebot/volumeBotTypes.js';
+
+export type OpportunityStatus = 'detected' | 'simulated' | 'rejected' | 'stale' | 'executed' | 'failed' | 'partial';
+export type ExecutionStatus = 'success' | 'failed' | 'partial';
+
+export interface JournalQuery {
+    from?: number; // Unix ms, inclusive
+    to?: number; // Unix ms, inclusive
+    direction?: string;
+    status?: string;
+    limit?: number;
+}
+
+export interface OpportunityRow {
+    id: string;
+    detected_at: number;
+    direction: string;
+    status: OpportunityStatus;
+    price_diff_percent: number;
+    estimated_profit_usd: number;
+    solana_token_amount: string;
+    base_token_amount: string;
+    data: string;
+}
+
+export interface SimulationRow {
+    id: number;
+    opportunity_id: string;
+    created_at: number;
+    direction: string;
+    status: 'success' | 'failed';
+    net_profit_usd: number;
+    total_cost_usd: number;
+    total_revenue_usd: number;
+    failure_reason: string | null;
+    data: string;
+}
+
+export interface ExecutionRow {
+    id: number;
+    opportunity_id: string;
+    created_at: number;
+    mode: 'live' | 'paper';
+    direction: string;
+    status: ExecutionStatus;
+    buy_tx: string | null;
+    sell_tx: string | null;
+    buy_block: number | null;
+    sell_block: number | null;
+    actual_profit_usd: number | null; // Null when a leg's fill could not be read back
+    simulated_profit_usd: number;
+    gas_cost_usd: number;
+    error: string | null;
+    data: string;
+}
+
+export interface RiskRejectionRow {
+    id: number;
+    opportunity_id: string;
+    created_at: number;
+    direction: string;
+    code: string;
+    message: string;
+    limit_value: number;
+    actual_value: number;
+}
+
+export interface VolumeTradeRow {
+    id: number;
+    bot: 'solana' | 'base';
+    timestamp: number;
+    direction: 'BUY' | 'SELL';
+    status: 'success' | 'failed';
+    token_amount: number;
+    quote_amount: number;
+    quote_symbol: 'SOL' | 'USDC';
+    usd_value: number;
+    gas_used: number;
+    tx_id: string;
+    error: string | null;
+}
+
+export type JournalTable = 'opportunities' | 'simulations' | 'risk_rejections' | 'executions' | 'volume_trades';
+
+const TIMESTAMP_COLUMNS: Record<JournalTable, string> = {
+    opportunities: 'detected_at',
+    simulations: 'created_at',
+    risk_rejections: 'created_at',
+    executions: 'created_at',
+    volume_trades: 'timestamp',
+};
+
+// Column matched by the `status` filter (rejections are filtered by code)
+const STATUS_COLUMNS: Record<JournalTable, string> = {
+    opportunities: 'status',
+    simulations: 'status',
+    risk_rejections: 'code',
+    executions: 'status',
+    volume_trades: 'status',
+};
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS opportunities (
+    id TEXT PRIMARY KEY,
+    detected_at INTEGER NOT NULL,
+    direction TEXT NOT NULL,
+    status TEXT NOT NULL,
+    price_diff_percent REAL NOT NULL,
+    estimated_profit_usd REAL NOT NULL,
+    solana_token_amount TEXT NOT NULL,
+    base_token_amount TEXT NOT NULL,
+    data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS simulations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    opportunity_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    direction TEXT NOT NULL,
+    status TEXT NOT NULL,
+    net_profit_usd REAL NOT NULL,
+    total_cost_usd REAL NOT NULL,
+    total_revenue_usd REAL NOT NULL,
+    failure_reason TEXT,
+    data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS risk_rejections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    opportunity_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    direction TEXT NOT NULL,
+    code TEXT NOT NULL,
+    message TEXT NOT NULL,
+    limit_value REAL NOT NULL,
+    actual_value REAL NOT NULL
+);
+CREATE TABLE IF NOT EXISTS executions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    opportunity_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    mode TEXT NOT NULL,
+    direction TEXT NOT NULL,
+    status TEXT NOT NULL,
+    buy_tx TEXT,
+    sell_tx TEXT,
+    buy_block INTEGER,
+    sell_block INTEGER,
+    actual_profit_usd REAL,
+    simulated_profit_usd REAL NOT NULL,
+    gas_cost_usd REAL NOT NULL,
+    error TEXT,
+    data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS volume_trades (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bot TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    direction TEXT NOT NULL,
+    status TEXT NOT NULL,
+    token_amount REAL NOT NULL,
+    quote_amount REAL NOT NULL,
+    quote_symbol TEXT NOT NULL,
+    usd_value REAL NOT NULL,
+    gas_used REAL NOT NULL,
+    tx_id TEXT NOT NULL,
+    error TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_opportunities_detected_at ON opportunities (detected_at);
+CREATE INDEX IF NOT EXISTS idx_simulations_created_at ON simulations (created_at);
+CREATE INDEX IF NOT EXISTS idx_risk_rejections_created_at ON risk_rejections (created_at);
+CREATE INDEX IF NOT EXISTS idx_executions_created_at ON executions (created_at);
+CREATE INDEX IF NOT EXISTS idx_volume_trades_timestamp ON volume_trades (timestamp);
+`;
+
+export const JOURNAL_TABLES: JournalTable[] = ['opportunities', 'simulations', 'risk_rejections', 'executions', 'volume_trades'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a date filter given as unix ms or any Date-parsable string (e.g. 2025-01-31).
+ * A bare date is a whole UTC day, so as the `to` bound it means the end of that day.
+ */
+function parseTimestamp(value: string | undefined, name: 'from' | 'to'): number | undefined {
+    if (!value) return undefined;
+    const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(timestamp)) {
+        throw new Error(`Invalid ${name} date: ${value}`);
+    }
+    if (name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return timestamp + DAY_MS - 1;
+    }
+    return timestamp;
+}
+
+/**
+ * Build a JournalQuery from string parameters (HTTP query string or CLI flags)
+ */
+export function parseJournalQuery(params: Record<string, string | undefined>): JournalQuery {
+    const limit = params.limit ? Number(params.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        throw new Error(`Invalid limit: ${params.limit}`);
+    }
+
+    return {
+        from: parseTimestamp(params.from, 'from'),
+        to: parseTimestamp(params.to, 'to'),
+        direction: params.direction || undefined,
+        status: params.status || undefined,
+        limit,
+    };
+}
+
+/**
+ * JSON.stringify that keeps bigints as decimal strings
+ */
+function toJson(value: unknown): string {
+    return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
+
+export class TradeJournal {
+    private readonly db: Database.Database;
+
+    constructor(dbPath: string) {
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        this.db = new Database(dbPath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(SCHEMA);
+    }
+
+    /**
+     * Record a detected opportunity (status: detected)
+     */
+    recordOpportunity(opportunity: Opportunity): void {
+        this.db.prepare(`
+            INSERT OR REPLACE INTO opportunities
+                (id, detected_at, direction, status, price_diff_percent, estimated_profit_usd, solana_token_amount, base_token_amount, data)
+            VALUES (?, ?, ?, 'detected', ?, ?, ?, ?, ?)
+        `).run(
+            opportunity.id,
+            opportunity.detectedAt,
+            opportunity.direction,
+            opportunity.priceDifferencePercent,
+            opportunity.estimatedProfitUsd,
+            opportunity.optimalTradeSize.solana.tokenAmount.toString(),
+            opportunity.optimalTradeSize.base.tokenAmount.toString(),
+            toJson(opportunity)
+        );
+    }
+
+    /**
+     * Update an opportunity's pipeline status
+     */
+    updateOpportunityStatus(opportunityId: string, status: OpportunityStatus): void {
+        this.db.prepare('UPDATE opportunities SET status = ? WHERE id = ?').run(status, opportunityId);
+    }
+
+    /**
+     * Record a simulation and mark its opportunity simulated/rejected
+     */
+    recordSimulation(simulation: ArbitrageSimulation): void {
+        const { opportunity } = simulation;
+        this.db.prepare(`
+            INSERT INTO simulations
+                (opportunity_id, created_at, direction, status, net_profit_usd, total_cost_usd, total_revenue_usd, failure_reason, data)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            opportunity.id,
+            Date.now(),
+            opportunity.direction,
+            simulation.success ? 'success' : 'failed',
+            simulation.netProfitUsd,
+            simulation.totalCostUsd,
+            simulation.totalRevenueUsd,
+            simulation.failureReason ?? null,
+            toJson({ ...simulation, opportunity: undefined })
+        );
+        this.updateOpportunityStatus(opportunity.id, simulation.success ? 'simulated' : 'rejected');
+    }
+
+    /**
+     * Record each reason the risk engine blocked an opportunity and mark it rejected
+     */
+    recordRiskRejection(opportunity: Opportunity, assessment: RiskAssessment): void {
+        const insert = this.db.prepare(`
+            INSERT INTO risk_rejections
+                (opportunity_id, created_at, direction, code, message, limit_value, actual_value)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+        this.db.transaction(() => {
+            for (const rejection of assessment.rejections) {
+                insert.run(
+                    opportunity.id,
+                    assessment.checkedAt,
+                    opportunity.direction,
+                    rejection.code,
+                    rejection.message,
+                    rejection.limit,
+                    rejection.actual
+                );
+            }
+        })();
+        this.updateOpportunityStatus(opportunity.id, 'rejected');
+    }
+
+    /**
+     * Record a live execution outcome
+     */
+    recordExecution(result: ExecutionResult, recovery?: RecoveryPosition): void {
+        const status: ExecutionStatus = result.success ? 'success' : (recovery ? 'partial' : 'failed');
+        const opportunity = result.plan.opportunity;
+        this.db.prepare(`
+            INSERT INTO executions
+                (opportunity_id, created_at, mode, direction, status, buy_tx, sell_tx, buy_block, sell_block,
+                 actual_profit_usd, simulated_profit_usd, gas_cost_usd, error, data)
+            VALUES (?, ?, 'live', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            opportunity.id,
+            Date.now(),
+            opportunity.direction,
+            status,
+            result.buyTxHash ?? null,
+            result.sellTxHash ?? recovery?.resolutionTxHash ?? null,
+            result.buyBlockNumber ?? null,
+            result.sellBlockNumber ?? null,
+            result.actualProfitUsd,
+            result.simulatedProfitUsd,
+            result.actualGasCostUsd,
+            result.error ?? null,
+            toJson({ ...result, plan: { ...result.plan, opportunity: undefined, simulation: undefined }, recovery })
+        );
+        this.updateOpportunityStatus(opportunity.id, status === 'success' ? 'executed' : status);
+    }
+
+    /**
+     * Record a paper execution outcome
+     */
+    recordPaperExecution(result: PaperTradeResult): void {
+        this.db.prepare(`
+            INSERT INTO executions
+                (opportunity_id, created_at, mode, direction, status, buy_tx, sell_tx, buy_block, sell_block,
+                 actual_profit_usd, simulated_profit_usd, gas_cost_usd, error, data)
+            VALUES (?, ?, 'paper', ?, 'success', NULL, NULL, NULL, NULL, ?, ?, ?, NULL, ?)
+        `).run(
+            result.opportunityId,
+            result.timestamp,
+            result.direction,
+            result.profitUsd,
+            result.simulatedProfitUsd,
+            result.gasCostUsd,
+            toJson(result)
+        );
+        this.updateOpportunityStatus(result.opportunityId, 'executed');
+    }
+
+    /**
+     * Record a failed execution attempt that produced no ExecutionResult
+     */
+    recordExecutionFailure(opportunity: Opportunity, mode: 'live' | 'paper', error: string): void {
+        this.db.prepare(`
+            INSERT INTO executions
+                (opportunity_id, created_at, mode, direction, status, buy_tx, sell_tx, buy_block, sell_block,
+                 actual_profit_usd, simulated_profit_usd, gas_cost_usd, error, data)
+            VALUES (?, ?, ?, ?, 'failed', NULL, NULL, NULL, NULL, 0, 0, 0, ?, '{}')
+        `).run(opportunity.id, Date.now(), mode, opportunity.direction, error);
+        this.updateOpportunityStatus(opportunity.id, 'failed');
+    }
+
+    /**
+     * Record a volume bot trade
+     */
+    recordVolumeTrade(bot: 'solana', trade: SolanaVolumeTrade): void;
+    recordVolumeTrade(bot: 'base', trade: BaseVolumeTrade): void;
+    recordVolumeTrade(bot: 'solana' | 'base', trade: SolanaVolumeTrade | BaseVolumeTrade): void {
+        const isSolana = 'signature' in trade;
+        this.db.prepare(`
+            INSERT INTO volume_trades
+                (bot, timestamp, direction, status, token_amount, quote_amount, quote_symbol, usd_value, gas_used, tx_id, error)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            bot,
+            trade.timestamp.getTime(),
+            trade.direction,
+            trade.success ? 'success' : 'failed',
+            trade.tokenAmount,
+            isSolana ? trade.solAmount : trade.usdcAmount,
+            isSolana ? 'SOL' : 'USDC',
+            trade.usdValue,
+            isSolana ? trade.gasUsedSol : trade.gasUsedEth,
+            isSolana ? trade.signature : trade.transactionHash,
+            trade.error ?? null
+        );
+    }
+
+    queryOpportunities(query: JournalQuery = {}): OpportunityRow[] {
+        return this.query<OpportunityRow>('opportunities', query);
+    }
+
+    querySimulations(query: JournalQuery = {}): SimulationRow[] {
+        return this.query<SimulationRow>('simulations', query);
+    }
+
+    queryRiskRejections(query: JournalQuery = {}): RiskRejectionRow[] {
+        return this.query<RiskRejectionRow>('risk_rejections', query);
+    }
+
+    queryExecutions(query: JournalQuery = {}): ExecutionRow[] {
+        return this.query<ExecutionRow>('executions', query);
+    }
+
+    queryVolumeTrades(query: JournalQuery = {}): VolumeTradeRow[] {
+        return this.query<VolumeTradeRow>('volume_trades', query);
+    }
+
+    /**
+     * Query any journal table by date range, direction and status (newest first)
+     */
+    query<T>(table: JournalTable, query: JournalQuery = {}): T[] {
+        const timestampColumn = TIMESTAMP_COLUMNS[table];
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (query.from !== undefined) {
+            conditions.push(`${timestampColumn} >= ?`);
+            params.push(query.from);
+        }
+        if (query.to !== undefined) {
+            conditions.push(`${timestampColumn} <= ?`);
+            params.push(query.to);
+        }
+        if (query.direction) {
+            conditions.push('direction = ?');
+            params.push(query.direction);
+        }
+        if (query.status) {
+            conditions.push(`${STATUS_COLUMNS[table]} = ?`);
+            params.push(query.status);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        const limit = query.limit ?? 100;
+
+        return this.db
+            .prepare(`SELECT * FROM ${table} ${where} ORDER BY ${timestampColumn} DESC LIMIT ?`)
+            .all(...params, limit) as T[];
+    }
+
+    close(): void {
+        this.db.close();
+    }
+}
+
+// Singleton instance
+let tradeJournal: TradeJournal | null = null;
+
+export function getTradeJournal(dbPath: string): TradeJournal {
+    if (!tradeJournal) {
+        tradeJournal = new TradeJournal(dbPath);
+    }
+    return tradeJournal;
+}
+
+/**
+ * Run a journal write without letting storage errors interrupt trading.
+ * Set JOURNAL_ENABLED=false to skip journaling entirely.
+ */
+export function journalSafely(
+    config: { JOURNAL_ENABLED: boolean; JOURNAL_DB_PATH: string },
+    write: (journal: TradeJournal) => void
+): void {
+    if (!config.JOURNAL_ENABLED) {
+        return;
+    }
+
+    try {
+        write(getTradeJournal(config.JOURNAL_DB_PATH));
+    } catch (error) {
+        console.warn(`⚠️  Trade journal write failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
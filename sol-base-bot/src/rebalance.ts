@@ -0,0 +1,78 @@
+import 'dotenv/config';
+import { loadConfig } from './config.js';
+import { InventoryRebalancer, getRebalanceStore } from './arbitrage/rebalancer.js';
+import { formatMessageId } from './bridge/wormholeBridge.js';
+import { createConnection } from './solana/utils.js';
+import { createBaseProvider } from './base/baseBalanceUtils.js';
+import { printHeader, printFooter, handleTestError } from './utils/testHelpers.js';
+
+/**
+ * Inventory rebalance CLI
+ *
+ * Usage:
+ *   pnpm rebalance            # List transfers, advance in-flight ones and run one check
+ *   pnpm rebalance --status   # Only list transfers
+ *   pnpm rebalance --attach <id> <txHash>   # Record the source transaction of a transfer left at "created"
+ *
+ * Runs a single pass of what the server does every REBALANCE_CHECK_INTERVAL_MS.
+ * Transfers are only sent with RUN_MODE=live and ENABLE_LIVE_TRADING=true.
+ */
+async function main() {
+  const config = loadConfig();
+  const statusOnly = process.argv.includes('--status');
+  const attachIndex = process.argv.indexOf('--attach');
+  const store = getRebalanceStore(config.REBALANCE_STATE_FILE);
+
+  if (attachIndex >= 0) {
+    const [id, txHash] = process.argv.slice(attachIndex + 1, attachIndex + 3);
+    const transfer = id ? store.get(id) : null;
+    if (!transfer || !txHash) {
+      throw new Error('Usage: pnpm rebalance --attach <id> <txHash> (id of a transfer at "created")');
+    }
+    if (transfer.status !== 'created') {
+      throw new Error(`Rebalance ${id} is at "${transfer.status}", not "created"`);
+    }
+    transfer.sourceTxHash = txHash;
+    transfer.status = 'sent';
+    store.upsert(transfer);
+    console.log(`✅ Attached ${txHash} to ${id}; it is advanced at the next check`);
+    return;
+  }
+
+  printHeader('🌉 INVENTORY REBALANCE');
+  console.log(`   Target: ${(config.REBALANCE_TARGET_SOLANA_SHARE * 100).toFixed(0)}% on Solana ± ${(config.REBALANCE_DRIFT_THRESHOLD * 100).toFixed(0)}%`);
+  console.log(`   Minimum: $${config.REBALANCE_MIN_USD}`);
+  console.log(`   Mode: ${config.RUN_MODE === 'live' && config.ENABLE_LIVE_TRADING ? 'LIVE' : 'Paper (nothing is sent)'}`);
+  console.log(`   State File: ${config.REBALANCE_STATE_FILE}\n`);
+
+  const transfers = store.getAll();
+  console.log(`📋 Transfers: ${transfers.length} (${store.getInFlight().length} in flight)`);
+  for (const t of transfers) {
+    console.log(`   ${t.id}  ${t.status.padEnd(8)}  ${t.uiAmount.toFixed(4)} ${t.asset} ${t.from} → ${t.to}  ($${t.usdValue.toFixed(2)})`);
+    if (t.message) console.log(`      VAA: ${formatMessageId(t.message)}`);
+    if (t.circleMessage) console.log(`      CCTP: ${t.circleMessage.hash}`);
+    if (t.swapTxHash) console.log(`      Swap: ${t.swapTxHash}`);
+    if (t.error) console.log(`      Error: ${t.error}`);
+  }
+  console.log('');
+
+  if (statusOnly) {
+    printFooter('✅ Done');
+    return;
+  }
+
+  const rebalancer = new InventoryRebalancer(
+    config,
+    createConnection(config.SOLANA_RPC_HTTP_URL, config.SOLANA_RPC_WS_URL),
+    createBaseProvider(config.BASE_RPC_HTTP_URL),
+    store
+  );
+  const legs = await rebalancer.tick();
+  if (legs.length === 0) {
+    console.log('✅ Inventory within the drift threshold (or already being rebalanced)');
+  }
+
+  printFooter('✅ Rebalance Check Complete');
+}
+
+main().catch(handleTestError);
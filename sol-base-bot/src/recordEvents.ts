@@ -0,0 +1,55 @@
+import 'dotenv/config';
+import path from 'path';
+import { loadConfig } from './config.js';
+import { EventRecorder } from './monitoring/eventRecorder.js';
+import { initializeSignatureCursorStore } from './solana/signatureCursor.js';
+import { initializeLogCursorStore } from './base/logCursor.js';
+import { createConnection } from './solana/utils.js';
+import { createBaseProvider } from './base/baseBalanceUtils.js';
+import { printHeader, printFooter, handleTestError } from './utils/testHelpers.js';
+
+/**
+ * Event recorder CLI
+ *
+ * Usage:
+ *   pnpm record
+ *
+ * Records the configured pair's trades on both chains until Ctrl+C. Replay the
+ * files with `pnpm backtest data/recordings/*.jsonl`.
+ */
+async function main() {
+  const config = loadConfig();
+
+  printHeader('🎙️  EVENT RECORDER');
+  console.log(`   Solana Mint: ${config.SOLANA_TOKEN_MINT}`);
+  console.log(`   Base Token: ${config.BASE_TOKEN_ADDRESS}`);
+  console.log(`   Directory: ${config.RECORDER_DIR}`);
+  console.log(`   Rotate At: ${config.RECORDER_MAX_FILE_MB} MB`);
+  console.log(`   Snapshot Every: ${config.RECORDER_SNAPSHOT_INTERVAL_MS}ms\n`);
+
+  // Kept apart from the bot's cursor files so the two can run side by side
+  initializeSignatureCursorStore(path.join(config.RECORDER_DIR, 'solana-cursors.json'));
+  initializeLogCursorStore(path.join(config.RECORDER_DIR, 'base-cursors.json'));
+
+  const recorder = new EventRecorder(
+    config,
+    createConnection(config.SOLANA_RPC_HTTP_URL, config.SOLANA_RPC_WS_URL),
+    createBaseProvider(config.BASE_RPC_HTTP_URL)
+  );
+  await recorder.start();
+
+  process.on('SIGINT', () => {
+    console.log('\n\n📛 Received SIGINT, stopping recorder...');
+    recorder.stop();
+
+    const stats = recorder.getStats();
+    console.log(`   Files: ${stats.files} (last: ${stats.file})`);
+    console.log(`   Snapshots: ${stats.snapshots}`);
+    console.log(`   Solana Trades: ${stats.solanaTrades}`);
+    console.log(`   Base Swaps: ${stats.baseSwaps}`);
+    printFooter('✅ Recording Stopped');
+    process.exit(0);
+  });
+}
+
+main().catch(handleTestError);
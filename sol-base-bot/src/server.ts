@@ -1,24 +1,55 @@
 /**
  * Arbitrage Bot Server
  * 
- * Event-driven backend server that monitors swap/trade events on Pump.fun and Uniswap,
- * and triggers arbitrage analysis when price movements exceed configured thresholds.
+ * Event-driven backend server that monitors swap/trade events on Pump.fun and Uniswap
+ * for every configured token pair, and triggers arbitrage analysis per pair.
  */
 
 import 'dotenv/config';
 import express from 'express';
-import { loadConfig } from './config.js';
+import { loadConfig, type AppConfig } from './config.js';
 import { Connection, PublicKey } from '@solana/web3.js';
+import { JsonRpcProvider } from 'ethers';
 import { createConnection } from './solana/utils.js';
 import { createBaseProvider } from './base/baseBalanceUtils.js';
+import { resolveBaseDex } from './base/uniswap/dexRegistry.js';
 import { EventCoordinator } from './monitoring/eventCoordinator.js';
+import { MarketState } from './monitoring/marketState.js';
+import { initializeSignatureCursorStore } from './solana/signatureCursor.js';
+import { initializeLogCursorStore } from './base/logCursor.js';
 import { runArbitrageAnalysis } from './arbitrageHandler.js';
-import { initializePriceFetcher, PriceFetcher } from './utils/priceFetcher.js';
+import { getPriceAggregationOptions, initializePriceFetcher, PriceFetcher } from './utils/priceFetcher.js';
+import { createPriceSources } from './utils/priceSources.js';
+import { getRecoveryStore } from './arbitrage/recovery.js';
+import { getRiskEngine } from './arbitrage/riskEngine.js';
+import { getExecutionLock } from './arbitrage/executionLock.js';
+import { InventoryRebalancer, getRebalanceStore } from './arbitrage/rebalancer.js';
+import { resolveTradingPairs, withTradingPair, type TradingPair } from './arbitrage/tradingPairs.js';
+import { getTradeJournal, parseJournalQuery, JOURNAL_TABLES, type JournalTable } from './monitoring/tradeJournal.js';
 import type { PriceChangeEvent } from './monitoring/priceTracker.js';
 
 const app = express();
 
-let eventCoordinator: EventCoordinator | null = null;
+interface PairStats {
+    analyses: number;
+    opportunities: number;
+    executions: number;
+    skipped: number; // Found but not executed (stale, rejected, locked, paused, auto-execute off)
+    errors: number;
+    lastAnalysisAt: number | null;
+    lastOutcome: string | null;
+}
+
+interface PairMonitor {
+    pair: TradingPair;
+    config: AppConfig;
+    coordinator: EventCoordinator;
+    marketState: MarketState | null;
+    rebalancer: InventoryRebalancer | null;
+    stats: PairStats;
+}
+
+const pairMonitors = new Map<string, PairMonitor>();
 let priceFetcher: PriceFetcher | null = null;
 let priceRefreshInterval: NodeJS.Timeout | null = null;
 let isStarted = false;
@@ -34,108 +65,198 @@ async function startMonitoring() {
 
     const config = loadConfig();
 
+    const pairs = resolveTradingPairs(config);
+
     console.log('\n' + '='.repeat(100));
     console.log('🤖 ARBITRAGE BOT - EVENT-DRIVEN MODE');
     console.log('='.repeat(100));
     console.log('\n📋 Configuration:');
-    console.log(`   Solana Token: ${config.SOLANA_TOKEN_MINT}`);
-    console.log(`   Base Token: ${config.BASE_TOKEN_ADDRESS}`);
+    console.log(`   Pairs: ${pairs.length}`);
+    for (const pair of pairs) {
+        console.log(`   - ${pair.id}: ${pair.solanaMint} ↔ ${pair.baseTokenAddress} (quote ${pair.baseQuoteAddress})`);
+    }
     console.log(`   Price Movement Threshold: ${config.PRICE_MOVEMENT_THRESHOLD}%`);
     console.log(`   Auto Execute: ${config.AUTO_EXECUTE_TRADES ? 'Yes' : 'No'}`);
+    console.log(`   Trading Mode: ${config.RUN_MODE === 'live' && config.ENABLE_LIVE_TRADING ? 'LIVE' : 'Paper'}`);
     console.log(`   Analysis Cooldown: ${config.ANALYSIS_COOLDOWN_MS / 1000}s`);
+    console.log(`   Rebalancing: ${config.REBALANCE_ENABLED ? `every ${config.REBALANCE_CHECK_INTERVAL_MS / 1000}s, target ${(config.REBALANCE_TARGET_SOLANA_SHARE * 100).toFixed(0)}% on Solana ± ${(config.REBALANCE_DRIFT_THRESHOLD * 100).toFixed(0)}%` : 'Off'}`);
+    console.log(`   Market Data: ${config.USE_EVENT_MARKET_STATE ? `event-driven (RPC re-read every ${config.MARKET_STATE_MAX_AGE_MS / 1000}s)` : 'RPC on every analysis'}`);
     console.log('');
 
-    // Validate configuration
-    if (!config.SOLANA_TOKEN_MINT) {
-        throw new Error('SOLANA_TOKEN_MINT is required');
-    }
-    if (!config.BASE_TOKEN_ADDRESS) {
-        throw new Error('BASE_TOKEN_ADDRESS is required');
-    }
-    if (!config.BASE_USDC_ADDRESS) {
-        throw new Error('BASE_USDC_ADDRESS is required');
+    // Surface positions left unhedged by previous runs
+    const unresolved = getRecoveryStore(config.RECOVERY_STATE_FILE).getUnresolved();
+    if (unresolved.length > 0) {
+        console.warn(`🚨 ${unresolved.length} unresolved recovery position(s) in ${config.RECOVERY_STATE_FILE}. See GET /recovery.\n`);
     }
-    if (!config.UNISWAP_V2_ROUTER02_ADDRESS) {
-        throw new Error('UNISWAP_V2_ROUTER02_ADDRESS is required');
+
+    // Validate configuration
+    if (pairs.length === 0) {
+        throw new Error('No token pairs configured. Set SOLANA_TOKEN_MINT and BASE_TOKEN_ADDRESS, or SOLANA_TOKEN_MINTS and BASE_TOKEN_ADDRESSES');
     }
+    // Fails on an unknown BASE_DEX or a malformed BASE_DEX_REGISTRY
+    const baseDex = resolveBaseDex(config);
+    console.log(`🔁 Base DEX: ${baseDex.name} (router ${baseDex.router}, fee ${baseDex.feeBps} bps)\n`);
 
-    // Setup connections
+    // Setup connections (shared by all pairs)
     console.log('🔧 Setting up blockchain connections...\n');
-    const solanaConnection = createConnection(config.SOLANA_RPC_HTTP_URL);
+    const solanaConnection = createConnection(config.SOLANA_RPC_HTTP_URL, config.SOLANA_RPC_WS_URL);
     const baseProvider = createBaseProvider(config.BASE_RPC_HTTP_URL);
 
-    // Initialize event coordinator
-    eventCoordinator = new EventCoordinator(
-        {
-            solanaMint: new PublicKey(config.SOLANA_TOKEN_MINT),
-            baseTokenAddress: config.BASE_TOKEN_ADDRESS,
+    // Where trade ingestion resumes after a restart
+    initializeSignatureCursorStore(config.SOLANA_CURSOR_FILE);
+    initializeLogCursorStore(config.BASE_CURSOR_FILE);
+
+    // One event coordinator (and price tracker) per pair
+    for (const pair of pairs) {
+        const pairConfig = withTradingPair(config, pair);
+        const marketState = config.USE_EVENT_MARKET_STATE
+            ? new MarketState(pairConfig, solanaConnection, baseProvider)
+            : null;
+        const coordinator = new EventCoordinator(
+            {
+                pairId: pair.id,
+                solanaMint: new PublicKey(pair.solanaMint),
+                baseTokenAddress: pair.baseTokenAddress,
+                baseUsdcAddress: pair.baseQuoteAddress,
+                baseDex,
+                priceMovementThreshold: config.PRICE_MOVEMENT_THRESHOLD,
+                solanaEventPollInterval: config.EVENT_POLL_INTERVAL_MS,
+                solanaUseWebSocket: config.SOLANA_USE_WEBSOCKET,
+                baseEventPollInterval: config.EVENT_POLL_INTERVAL_MS,
+                baseConfirmations: config.BASE_CONFIRMATIONS,
+                analysisCooldownMs: config.ANALYSIS_COOLDOWN_MS,
+                eventDebounceMs: config.EVENT_DEBOUNCE_MS,
+                logAllEvents: config.LOG_ALL_EVENTS,
+            },
+            solanaConnection,
+            baseProvider,
+            marketState
+        );
+
+        const monitor: PairMonitor = {
+            pair,
+            config: pairConfig,
+            coordinator,
+            marketState,
+            rebalancer: config.REBALANCE_ENABLED
+                ? new InventoryRebalancer(pairConfig, solanaConnection, baseProvider)
+                : null,
+            stats: {
+                analyses: 0,
+                opportunities: 0,
+                executions: 0,
+                skipped: 0,
+                errors: 0,
+                lastAnalysisAt: null,
+                lastOutcome: null,
+            },
+        };
+
+        // Register arbitrage trigger callback
+        coordinator.onArbitrageTrigger(async (event: PriceChangeEvent) => {
+            await runPairAnalysis(monitor, solanaConnection, baseProvider);
+        });
+
+        pairMonitors.set(pair.id, monitor);
+    }
+
+    // Initialize the SOL/ETH price aggregator (Pyth, Chainlink, Uniswap and CoinMarketCap if keyed)
+    priceFetcher = initializePriceFetcher(
+        createPriceSources({
+            solanaConnection,
+            baseProvider,
             baseUsdcAddress: config.BASE_USDC_ADDRESS,
-            baseRouterAddress: config.UNISWAP_V2_ROUTER02_ADDRESS,
-            priceMovementThreshold: config.PRICE_MOVEMENT_THRESHOLD,
-            solanaEventPollInterval: config.EVENT_POLL_INTERVAL_MS,
-            baseEventPollInterval: config.EVENT_POLL_INTERVAL_MS,
-            analysisCooldownMs: config.ANALYSIS_COOLDOWN_MS,
-            logAllEvents: config.LOG_ALL_EVENTS,
-        },
-        solanaConnection,
-        baseProvider
+            dexRegistry: config,
+            coinMarketCapApiKey: config.COINMARKETCAP_API_KEY,
+        }),
+        getPriceAggregationOptions(config)
     );
+    console.log(`💰 Price sources: ${priceFetcher.getSourceNames().join(', ')}`);
+    try {
+        const prices = await priceFetcher.getPrices();
+        console.log(`   SOL $${prices.sol.toFixed(2)}, ETH $${prices.eth.toFixed(2)}`);
+    } catch (error) {
+        console.warn('⚠️  Failed to aggregate initial prices:', error instanceof Error ? error.message : error);
+        console.warn(`   Using static SOL $${config.SOLANA_SOL_PRICE_USD} / ETH $${config.BASE_ETH_PRICE_USD} for analysis until sources recover; live trades are skipped meanwhile`);
+    }
 
-    // Register arbitrage trigger callback
-    eventCoordinator.onArbitrageTrigger(async (event: PriceChangeEvent) => {
+    // Set up periodic price refresh (every 5 minutes)
+    priceRefreshInterval = setInterval(async () => {
         try {
-            await runArbitrageAnalysis(config, solanaConnection, baseProvider, undefined, priceFetcher);
+            const prices = await priceFetcher!.getPrices();
+            console.log(`🔄 Prices refreshed: SOL $${prices.sol.toFixed(2)}, ETH $${prices.eth.toFixed(2)}`);
         } catch (error) {
-            console.error('❌ Error running arbitrage analysis:', error);
+            console.warn('⚠️  Failed to refresh prices:', error instanceof Error ? error.message : error);
         }
-    });
+    }, 5 * 60 * 1000); // 5 minutes
 
-    // Initialize SOL price fetcher if API key is configured
-    if (config.COINMARKETCAP_API_KEY) {
-        try {
-            priceFetcher = initializePriceFetcher(config.COINMARKETCAP_API_KEY);
-            const initialPrice = await priceFetcher.getSolPrice();
-            console.log(`💰 Initialized SOL price fetcher: $${initialPrice.toFixed(2)}`);
-
-            // Set up periodic price refresh (every 5 minutes)
-            priceRefreshInterval = setInterval(async () => {
-                try {
-                    const newPrice = await priceFetcher!.getSolPrice();
-                    console.log(`🔄 SOL price refreshed: $${newPrice.toFixed(2)}`);
-                } catch (error) {
-                    console.warn('⚠️  Failed to refresh SOL price:', error);
-                }
-            }, 5 * 60 * 1000); // 5 minutes
-
-            console.log('   🔄 Price auto-refresh: Every 5 minutes\n');
-        } catch (error) {
-            console.warn('⚠️  Failed to initialize price fetcher:', error);
-            console.warn('   Continuing without live SOL pricing\n');
-        }
-    } else {
-        console.warn('⚠️  COINMARKETCAP_API_KEY not configured');
-        console.warn('   Arbitrage bot will use static pricing\n');
-    }
+    console.log('   🔄 Price auto-refresh: Every 5 minutes\n');
 
     // Start monitoring
-    await eventCoordinator.start();
+    for (const monitor of pairMonitors.values()) {
+        await monitor.coordinator.start();
+    }
+
+    // Rebalancing is best-effort: a bridge that can't connect must not stop monitoring
+    for (const monitor of pairMonitors.values()) {
+        await monitor.rebalancer?.start().catch((error) => {
+            console.warn(`⚠️  Failed to start rebalancer for pair ${monitor.pair.id}:`, error);
+        });
+    }
 
     isStarted = true;
     console.log('✅ Server ready and monitoring events\n');
 }
 
+/**
+ * Run one pair's analysis and book the outcome in its stats
+ */
+async function runPairAnalysis(
+    monitor: PairMonitor,
+    solanaConnection: Connection,
+    baseProvider: JsonRpcProvider
+): Promise<void> {
+    const { stats } = monitor;
+    stats.analyses++;
+    stats.lastAnalysisAt = Date.now();
+
+    try {
+        const result = await runArbitrageAnalysis(monitor.config, solanaConnection, baseProvider, undefined, priceFetcher, monitor.marketState);
+        if (!result) {
+            stats.lastOutcome = 'no_opportunity';
+            return;
+        }
+
+        stats.opportunities++;
+        if (result.executed) {
+            stats.executions++;
+            stats.lastOutcome = 'executed';
+        } else {
+            stats.skipped++;
+            stats.lastOutcome = result.locked ? 'locked' : result.paused ? 'paused' : result.stale ? 'stale' : result.risk ? 'risk_rejected' : 'not_executed';
+        }
+    } catch (error) {
+        stats.errors++;
+        stats.lastOutcome = 'error';
+        console.error(`❌ Error running arbitrage analysis for pair ${monitor.pair.id}:`, error);
+    }
+}
+
 /**
  * Stop the event monitoring system
  */
 function stopMonitoring() {
-    if (!isStarted || !eventCoordinator) {
+    if (!isStarted) {
         console.log('⚠️  Monitoring not started');
         return;
     }
 
     // Stop event monitoring
-    eventCoordinator.stop();
-    eventCoordinator = null;
+    for (const monitor of pairMonitors.values()) {
+        monitor.coordinator.stop();
+        monitor.rebalancer?.stop();
+    }
+    pairMonitors.clear();
 
     // Clean up price refresh interval
     if (priceRefreshInterval) {
@@ -163,27 +284,98 @@ app.get('/health', (req, res) => {
 });
 
 app.get('/stats', (req, res) => {
-    if (!isStarted || !eventCoordinator) {
+    if (!isStarted || pairMonitors.size === 0) {
         return res.status(503).json({
             error: 'Monitoring not started'
         });
     }
 
-    const stats = eventCoordinator.getStats();
+    const pairs: Record<string, unknown> = {};
+    for (const [id, monitor] of pairMonitors) {
+        pairs[id] = {
+            solanaMint: monitor.pair.solanaMint,
+            baseTokenAddress: monitor.pair.baseTokenAddress,
+            baseQuoteAddress: monitor.pair.baseQuoteAddress,
+            ...monitor.coordinator.getStats(),
+            analysis: { ...monitor.stats }
+        };
+    }
+
+    res.json({
+        pairs,
+        prices: priceFetcher?.getLastAggregation() ?? null,
+        executionLock: getExecutionLock().getHolder(),
+        timestamp: new Date().toISOString()
+    });
+});
+
+app.get('/recovery', (req, res) => {
+    const store = getRecoveryStore(loadConfig().RECOVERY_STATE_FILE);
+    const inventory = store.getInventory();
+    res.json({
+        inventory: {
+            solana: { ...inventory.solana, unhedgedTokens: inventory.solana.unhedgedTokens.toString() },
+            base: { ...inventory.base, unhedgedTokens: inventory.base.unhedgedTokens.toString() }
+        },
+        positions: store.getAll(),
+        timestamp: new Date().toISOString()
+    });
+});
+
+app.get('/rebalance', (req, res) => {
+    const store = getRebalanceStore(loadConfig().REBALANCE_STATE_FILE);
     res.json({
-        ...stats,
+        inFlight: store.getInFlight(),
+        transfers: store.getAll(),
         timestamp: new Date().toISOString()
     });
 });
 
+app.get('/risk', (req, res) => {
+    const state = getRiskEngine(loadConfig()).getState();
+    res.json({
+        ...state,
+        cooloffUntil: state.cooloffUntil ? new Date(state.cooloffUntil).toISOString() : null,
+        timestamp: new Date().toISOString()
+    });
+});
+
+app.get('/journal/:table', (req, res) => {
+    const table = req.params.table as JournalTable;
+    if (!JOURNAL_TABLES.includes(table)) {
+        return res.status(404).json({
+            error: `Unknown journal table. Expected one of: ${JOURNAL_TABLES.join(', ')}`
+        });
+    }
+
+    try {
+        const query = parseJournalQuery(req.query as Record<string, string | undefined>);
+        const rows = getTradeJournal(loadConfig().JOURNAL_DB_PATH).query(table, query);
+        res.json({
+            table,
+            count: rows.length,
+            rows,
+            timestamp: new Date().toISOString()
+        });
+    } catch (error: any) {
+        res.status(400).json({
+            error: 'Journal query failed',
+            message: error.message,
+            timestamp: new Date().toISOString()
+        });
+    }
+});
+
 app.post('/reset-baseline', (req, res) => {
-    if (!isStarted || !eventCoordinator) {
+    if (!isStarted || pairMonitors.size === 0) {
         return res.status(503).json({
             error: 'Monitoring not started'
         });
     }
 
-    eventCoordinator.resetPriceBaseline();
+    for (const monitor of pairMonitors.values()) {
+        monitor.coordinator.resetPriceBaseline();
+    }
     res.json({
         message: 'Price baseline reset successfully',
         timestamp: new Date().toISOString()
@@ -197,23 +389,28 @@ app.post('/trigger-analysis', async (req, res) => {
         });
     }
 
+    // ?pair=<id> limits the run to one pair, otherwise every pair is analyzed in turn
+    const pairId = typeof req.query.pair === 'string' ? req.query.pair : undefined;
+    const monitors = pairId ? [pairMonitors.get(pairId)].filter((m): m is PairMonitor => !!m) : [...pairMonitors.values()];
+    if (monitors.length === 0) {
+        return res.status(404).json({
+            error: `Unknown pair: ${pairId}. Expected one of: ${[...pairMonitors.keys()].join(', ')}`
+        });
+    }
+
     const config = loadConfig();
     const solanaConnection = createConnection(config.SOLANA_RPC_HTTP_URL);
     const baseProvider = createBaseProvider(config.BASE_RPC_HTTP_URL);
 
-    try {
-        await runArbitrageAnalysis(config, solanaConnection, baseProvider, undefined, priceFetcher);
-        res.json({
-            message: 'Analysis triggered successfully',
-            timestamp: new Date().toISOString()
-        });
-    } catch (error: any) {
-        res.status(500).json({
-            error: 'Analysis failed',
-            message: error.message,
-            timestamp: new Date().toISOString()
-        });
+    for (const monitor of monitors) {
+        await runPairAnalysis(monitor, solanaConnection, baseProvider);
     }
+
+    res.json({
+        message: 'Analysis triggered successfully',
+        pairs: monitors.map(m => ({ id: m.pair.id, outcome: m.stats.lastOutcome })),
+        timestamp: new Date().toISOString()
+    });
 });
 
 // Graceful shutdown
@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+const JUPITER_API_URL = 'https://lite-api.jup.ag/swap/v1';
+
+// Wrapped SOL; Jupiter wraps and unwraps native SOL around the swap
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export interface JupiterQuote {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string; // Minimum out after slippage
+  [key: string]: unknown;
+}
+
+/**
+ * Best route for swapping `amount` (raw units) of one mint into another
+ */
+export async function getJupiterQuote(
+  inputMint: string,
+  outputMint: string,
+  amount: bigint,
+  slippageBps: number
+): Promise<JupiterQuote> {
+  const response = await axios.get(`${JUPITER_API_URL}/quote`, {
+    params: { inputMint, outputMint, amount: amount.toString(), slippageBps },
+    timeout: 10_000,
+  });
+  return response.data;
+}
+
+/**
+ * Swap transaction for a quote, signed by `keypair` but not sent. The
+ * signature is known before sending, so a caller can persist it first.
+ */
+export async function buildJupiterSwap(
+  quote: JupiterQuote,
+  keypair: Keypair
+): Promise<{ transaction: VersionedTransaction; signature: string }> {
+  const response = await axios.post(
+    `${JUPITER_API_URL}/swap`,
+    {
+      quoteResponse: quote,
+      userPublicKey: keypair.publicKey.toBase58(),
+      wrapAndUnwrapSol: true,
+      dynamicComputeUnitLimit: true,
+    },
+    { timeout: 10_000 }
+  );
+
+  const transaction = VersionedTransaction.deserialize(Buffer.from(response.data.swapTransaction, 'base64'));
+  transaction.sign([keypair]);
+  return { transaction, signature: bs58.encode(transaction.signatures[0]) };
+}
@@ -0,0 +1,91 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { createPumpFunProgram, deriveBondingCurvePDA } from './anchor.js';
+import { getCoinData } from './api.js';
+
+/**
+ * Bonding curve state as stored in the Pump.fun `BondingCurve` account
+ */
+export interface BondingCurveState {
+  bondingCurve: PublicKey;
+  virtualSolReserves: bigint;
+  virtualTokenReserves: bigint;
+  realSolReserves: bigint;
+  realTokenReserves: bigint;
+  tokenTotalSupply: bigint;
+  complete: boolean; // Set once the curve is drained and liquidity migrates to PumpSwap
+  creator: PublicKey;
+  source: 'onchain' | 'api';
+}
+
+// Anchor decodes u64 fields as BN
+const toBigInt = (value: any): bigint => BigInt(value.toString());
+
+/**
+ * Reads the bonding curve account through the Anchor program.
+ * Returns null if the mint has no bonding curve.
+ */
+export async function fetchBondingCurveState(
+  connection: Connection,
+  mint: PublicKey
+): Promise<BondingCurveState | null> {
+  const program = createPumpFunProgram(connection);
+  const [bondingCurve] = deriveBondingCurvePDA(mint);
+  const account = await (program.account as any).bondingCurve.fetchNullable(bondingCurve);
+  if (!account) {
+    return null;
+  }
+
+  return {
+    bondingCurve,
+    virtualSolReserves: toBigInt(account.virtualSolReserves),
+    virtualTokenReserves: toBigInt(account.virtualTokenReserves),
+    realSolReserves: toBigInt(account.realSolReserves),
+    realTokenReserves: toBigInt(account.realTokenReserves),
+    tokenTotalSupply: toBigInt(account.tokenTotalSupply),
+    complete: account.complete === true,
+    creator: account.creator,
+    source: 'onchain',
+  };
+}
+
+/**
+ * Reads the bonding curve from the pump.fun frontend API (rate-limited and possibly stale)
+ */
+async function fetchBondingCurveStateFromApi(mint: PublicKey): Promise<BondingCurveState | null> {
+  const coinData = await getCoinData(mint.toBase58());
+  if (!coinData) {
+    return null;
+  }
+
+  return {
+    bondingCurve: deriveBondingCurvePDA(mint)[0],
+    virtualSolReserves: BigInt(String(coinData['virtual_sol_reserves'])),
+    virtualTokenReserves: BigInt(String(coinData['virtual_token_reserves'])),
+    realSolReserves: BigInt(String(coinData['real_sol_reserves'])),
+    realTokenReserves: BigInt(String(coinData['real_token_reserves'])),
+    tokenTotalSupply: BigInt(String(coinData['total_supply'] ?? 0)),
+    complete: coinData['complete'] === true,
+    creator: coinData['creator'] ? new PublicKey(coinData['creator']) : PublicKey.default,
+    source: 'api',
+  };
+}
+
+/**
+ * Reads the bonding curve on-chain, optionally falling back to the pump.fun API
+ * when the RPC read fails
+ */
+export async function getBondingCurveState(
+  connection: Connection,
+  mint: PublicKey,
+  useApiFallback: boolean = false
+): Promise<BondingCurveState | null> {
+  try {
+    return await fetchBondingCurveState(connection, mint);
+  } catch (error) {
+    if (!useApiFallback) {
+      throw error;
+    }
+    console.warn('⚠️  On-chain bonding curve read failed, falling back to pump.fun API:', error);
+    return fetchBondingCurveStateFromApi(mint);
+  }
+}
@@ -2,6 +2,7 @@ import { Connection, PublicKey } from '@solana/web3.js';
 import { EventParser } from '@coral-xyz/anchor';
 import { PUMP_FUN_PROGRAM } from '../constants.js';
 import { createPumpFunProgram, deriveBondingCurvePDA } from './anchor.js';
+import { SignatureIngestor } from '../signatureCursor.js';
 
 /**
  * TradeEvent interface matching the IDL structure
@@ -31,10 +32,20 @@ export interface TradeEvent {
   ixName: string; // "buy" | "sell" | "buy_exact_sol_in"
 }
 
+// Slot notifications arrive several times a second; a silent socket this long is dead
+const WS_HEARTBEAT_TIMEOUT_MS = 15_000;
+const WS_HEALTH_CHECK_INTERVAL_MS = 5_000;
+const WS_RECONNECT_BASE_DELAY_MS = 1_000;
+const WS_RECONNECT_MAX_DELAY_MS = 60_000;
+
+// Log notifications can be dropped without the heartbeat noticing; while streaming,
+// a poll this often backfills them from the cursor
+const WS_BACKFILL_INTERVAL_MS = 30_000;
+
 /**
  * Callback function type for trade events
  */
-export type TradeEventCallback = (event: TradeEvent, signature: string) => void;
+export type TradeEventCallback = (event: TradeEvent, signature: string, slot: number) => void;
 
 /**
  * Subscription handle for managing event listeners
@@ -95,160 +106,76 @@ function parseTradeEvent(eventData: any): TradeEvent | null {
 }
 
 /**
- * Polls for new transactions and extracts trade events
- * This is a fallback for RPC providers that don't support WebSocket subscriptions
+ * Extracts the trade events for `mint` (or any mint) from a transaction's logs
  */
-async function pollForTradeEvents(
-  connection: Connection,
-  callback: TradeEventCallback,
-  mint: PublicKey | undefined,
+function parseTradeEventLogs(
   eventParser: EventParser,
-  processedSignatures: Set<string>,
-  subscriptionStartTime: number,
-  pollInterval: number = 2000
-): Promise<void> {
+  logMessages: string[],
+  mint: PublicKey | undefined
+): TradeEvent[] {
+  const tradeEvents: TradeEvent[] = [];
   try {
-    // If mint is provided, query the bonding curve account for that specific token
-    // This is much more efficient than querying all program transactions
-    // Otherwise, query all program transactions
-    const queryAddress = mint 
-      ? deriveBondingCurvePDA(mint)[0]  // Use bonding curve PDA for specific token
-      : PUMP_FUN_PROGRAM;                // Use program for all tokens
-
-    // Get recent signatures for the address (most recent first)
-    const signatures = await connection.getSignaturesForAddress(
-      queryAddress,
-      {
-        limit: 20, // Get more transactions to catch up if we missed any
-      },
-      'confirmed'
-    );
-
-    if (signatures.length === 0) {
-      return; // No new transactions
+    for (const event of eventParser.parseLogs(logMessages)) {
+      if (event.name !== 'tradeEvent') continue;
+
+      const tradeEvent = parseTradeEvent(event.data);
+      // If we queried by bonding curve, the mint should already match
+      // But double-check to be safe
+      if (!tradeEvent || (mint && !tradeEvent.mint.equals(mint))) continue;
+      tradeEvents.push(tradeEvent);
     }
-
-    // Filter out transactions that happened before subscription started
-    // We'll check the block time to determine if transaction is new
-    const currentTime = Date.now() / 1000; // Convert to seconds
-
-    // Process signatures in order (newest first, but we'll process all new ones)
-    let newEventsFound = 0;
-    let newTransactions = 0;
-    for (const sigInfo of signatures) {
-      // Skip if we've already processed this signature
-      if (processedSignatures.has(sigInfo.signature)) {
-        continue;
-      }
-
-      // Check if transaction happened after subscription started
-      // blockTime is Unix timestamp in seconds
-      if (sigInfo.blockTime) {
-        const txTime = sigInfo.blockTime * 1000; // Convert to milliseconds
-        if (txTime < subscriptionStartTime) {
-          // Transaction is older than subscription start, skip it
-          processedSignatures.add(sigInfo.signature);
-          continue;
-        }
-      }
-
-      newTransactions++;
-
-      if (sigInfo.err) {
-        processedSignatures.add(sigInfo.signature); // Mark as processed even if failed
-        continue;
-      }
-
-      try {
-        // Fetch the transaction
-        const tx = await connection.getTransaction(sigInfo.signature, {
-          commitment: 'confirmed',
-          maxSupportedTransactionVersion: 0,
-        });
-
-        if (!tx || !tx.meta || tx.meta.err) {
-          processedSignatures.add(sigInfo.signature);
-          continue;
-        }
-
-        // Parse events from transaction logs
-        let foundTradeEvent = false;
-        if (tx.meta.logMessages && tx.meta.logMessages.length > 0) {
-          try {
-            const events = eventParser.parseLogs(tx.meta.logMessages);
-
-            for (const event of events) {
-              //console.log('Event:', event);
-              if (event.name === 'tradeEvent') {
-                foundTradeEvent = true;
-
-                const tradeEvent = parseTradeEvent(event.data);
-
-                if (tradeEvent) {
-                  // If we queried by bonding curve, the mint should already match
-                  // But double-check to be safe
-                  if (mint && !tradeEvent.mint.equals(mint)) {
-                    // Still mark as processed even if filtered out
-                    continue;
-                  }
-                  // console.log('TradeEvent SEARCHING FOR HERE:', tradeEvent);
-
-                  // Call the callback
-                  newEventsFound++;
-                  callback(tradeEvent, sigInfo.signature);
-                }
-              }
-            }
-          } catch (parseError: any) {
-            console.error('Error parsing TradeEvent:', parseError);
-            // Event parsing failed - this might be a non-trade transaction
-            // or the logs might not contain Anchor events
-            // This is normal for non-trade transactions, so we silently continue
-          }
-        }
-
-        // Always mark as processed, even if no events found
-        // (transaction might not be a trade, or might be a different instruction)
-        processedSignatures.add(sigInfo.signature);
-      } catch (error) {
-        // Skip transactions that can't be fetched/parsed
-        processedSignatures.add(sigInfo.signature);
-        continue;
-      }
+  } catch (parseError: any) {
+    // Event parsing failed - this might be a non-trade transaction
+    // or the logs might not contain Anchor events
+    if (!(parseError instanceof Error && parseError.message.includes('Failed to decode'))) {
+      console.error('Error parsing TradeEvent:', parseError);
     }
-
-    // Clean up old signatures from the set to prevent memory leak
-    // Keep only the most recent 1000 signatures
-    if (processedSignatures.size > 1000) {
-      const sigsArray = Array.from(processedSignatures);
-      const toKeep = sigsArray.slice(-500); // Keep last 500
-      processedSignatures.clear();
-      toKeep.forEach(sig => processedSignatures.add(sig));
-    }
-
-    // Debug output (only if we found new transactions but no events, or if we found events)
-    if (newTransactions > 0 && newEventsFound === 0) {
-      // Found transactions but no events - might be non-trade transactions
-    }
-  } catch (error) {
-    console.error('Error polling for events:', error);
   }
+  return tradeEvents;
 }
 
+/**
+ * Fetches one polled transaction and extracts its trade events.
+ * Throws if the transaction can't be fetched yet, so the ingestor retries it.
+ */
+async function readTradeEvents(
+  connection: Connection,
+  eventParser: EventParser,
+  mint: PublicKey | undefined,
+  signature: string
+): Promise<TradeEvent[]> {
+  const tx = await connection.getTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx) {
+    throw new Error(`Transaction ${signature} not found`);
+  }
+  if (!tx.meta || tx.meta.err || !tx.meta.logMessages) {
+    return [];
+  }
+  return parseTradeEventLogs(eventParser, tx.meta.logMessages, mint);
+}
 
 /**
  * Subscribes to trade events from the Pump Fun program
- * 
- * Automatically uses polling mode for HTTP-only RPC providers (which don't support
- * WebSocket subscriptions). For RPC providers that support WebSockets, it will
- * use real-time subscriptions.
- * 
+ *
+ * Polling mode pages the address's signatures from the saved cursor, which works
+ * with every RPC provider. Streaming mode subscribes to the address's logs over
+ * the connection's WebSocket and watches slot notifications as a heartbeat: if
+ * they stop for WS_HEARTBEAT_TIMEOUT_MS the socket is treated as dead, polling
+ * takes over, and the stream is re-opened with exponential backoff. Polling stops
+ * once the stream is live again. Streamed signatures are only deduplicated: the
+ * saved cursor advances from polled signature pages alone, and a backfill poll
+ * runs every WS_BACKFILL_INTERVAL_MS while streaming, so a dropped notification
+ * is picked up by the next poll.
+ *
  * @param connection - Solana connection instance
  * @param callback - Callback function to handle trade events
  * @param mint - Optional mint address to filter events for a specific token
  * @param pollInterval - Polling interval in ms (default: 2000ms)
  * @param usePollingMode - Use polling mode instead of WebSocket (default: true)
- *                        Set to false to try WebSocket (requires RPC provider support)
+ *                        Set to false to stream logs (falls back to polling while the socket is down)
  * @returns Subscription handle with unsubscribe method
  */
 export function subscribeToTradeEvents(
@@ -263,63 +190,88 @@ export function subscribeToTradeEvents(
   const eventParser = new EventParser(PUMP_FUN_PROGRAM, program.coder);
 
   let isUnsubscribed = false;
-  let subscriptionId: number | null = null;
   let pollingActive = false;
-  const processedSignatures = new Set<string>(); // Track processed signatures to avoid duplicates
-  const subscriptionStartTime = Date.now(); // Track when subscription started to only show new transactions
+  let pollingGeneration = 0;
+
+  // If mint is provided, query the bonding curve account for that specific token
+  // This is much more efficient than querying all program transactions
+  // Otherwise, query all program transactions
+  const queryAddress = mint
+    ? deriveBondingCurvePDA(mint)[0]  // Use bonding curve PDA for specific token
+    : PUMP_FUN_PROGRAM;                // Use program for all tokens
+
+  // The stream and a backfilling poll can both see a transaction; deliver it once
+  const deliveredSignatures = new Set<string>();
+  const deliver = (tradeEvents: TradeEvent[], signature: string, slot: number) => {
+    if (deliveredSignatures.has(signature)) return;
+    deliveredSignatures.add(signature);
+    if (deliveredSignatures.size > 1000) {
+      const toKeep = Array.from(deliveredSignatures).slice(-500); // Keep last 500
+      deliveredSignatures.clear();
+      toKeep.forEach(sig => deliveredSignatures.add(sig));
+    }
+    for (const tradeEvent of tradeEvents) {
+      callback(tradeEvent, signature, slot);
+    }
+  };
 
-  // Determine if we should use polling
-  // Default to polling since most free/public RPC providers don't support
-  // WebSocket subscriptions (they return "Method 'logsSubscribe' not found" error)
-  // Set usePollingMode: false to try WebSocket if your RPC provider supports it
-  const usePolling = usePollingMode;
+  // Pages back to the last processed signature on every poll, so bursts between polls aren't dropped
+  const ingestor = new SignatureIngestor(
+    connection,
+    queryAddress,
+    async (sigInfo) => {
+      // Already streamed: no need to fetch the transaction
+      if (deliveredSignatures.has(sigInfo.signature)) return;
+      deliver(
+        await readTradeEvents(connection, eventParser, mint, sigInfo.signature),
+        sigInfo.signature,
+        sigInfo.slot
+      );
+    }
+  );
+
+  const pollForTradeEvents = async () => {
+    try {
+      await ingestor.poll();
+    } catch (error) {
+      console.error('Error polling for events:', error);
+    }
+  };
 
   // Start polling function
   const startPolling = async () => {
     if (pollingActive) return;
     pollingActive = true;
+    // A loop stopped mid-sleep must not resume alongside a newer one
+    const generation = ++pollingGeneration;
+    const isCurrent = () => !isUnsubscribed && pollingActive && generation === pollingGeneration;
 
     let pollCount = 0;
     const statusInterval = 2500; // Show status every 2.5 seconds
     let lastStatusTime = Date.now();
 
-    // Initial poll immediately (but only process transactions after start time)
-    await pollForTradeEvents(
-      connection,
-      callback,
-      mint,
-      eventParser,
-      processedSignatures,
-      subscriptionStartTime,
-      pollInterval
-    );
+    // Initial poll immediately (resumes from the saved cursor, or starts at the newest signature)
+    await pollForTradeEvents();
 
     // Then poll at intervals
-    while (!isUnsubscribed) {
+    while (isCurrent()) {
       await new Promise((resolve) => setTimeout(resolve, pollInterval));
-      if (!isUnsubscribed) {
+      if (isCurrent()) {
         pollCount++;
-        await pollForTradeEvents(
-          connection,
-          callback,
-          mint,
-          eventParser,
-          processedSignatures,
-          subscriptionStartTime,
-          pollInterval
-        );
+        await pollForTradeEvents();
 
         // Show status periodically
         const now = Date.now();
         if (now - lastStatusTime >= statusInterval) {
-          console.log(`   [Status] Polling active... (${pollCount} polls, ${processedSignatures.size} transactions processed)`);
+          const stats = ingestor.getStats();
+          console.log(`   [Status] Polling active... (${pollCount} polls, ${stats.processed} transactions processed, ${stats.gaps.length} gaps)`);
           lastStatusTime = now;
         }
       }
     }
   };
 
-  if (usePolling) {
+  if (usePollingMode) {
     // Use polling mode (works with all RPC providers)
     console.log('📡 Using polling mode (compatible with all RPC providers)');
     console.log(`   Polling every ${pollInterval}ms`);
@@ -337,101 +289,109 @@ export function subscribeToTradeEvents(
       unsubscribe: () => {
         isUnsubscribed = true;
         pollingActive = false;
+        ingestor.stop();
       },
     };
   }
 
-  // Try WebSocket subscription (only if we think it's supported)
-  try {
-    // If mint is provided, subscribe to the bonding curve account for that specific token
-    // Otherwise, subscribe to all program logs
-    const subscribeAddress = mint 
-      ? deriveBondingCurvePDA(mint)[0]  // Use bonding curve PDA for specific token
-      : PUMP_FUN_PROGRAM;                // Use program for all tokens
-
-    subscriptionId = connection.onLogs(
-      subscribeAddress,
+  // Streaming mode
+  let logsSubscriptionId: number | null = null;
+  let slotSubscriptionId: number | null = null;
+  let streamLive = false; // A heartbeat arrived since the stream was opened
+  let lastHeartbeat = Date.now();
+  let reconnectAttempts = 0;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+
+  const openStream = () => {
+    lastHeartbeat = Date.now();
+    logsSubscriptionId = connection.onLogs(
+      queryAddress,
       (logs, context) => {
-        if (isUnsubscribed) return;
-
-        // Only process logs that came after subscription started
-        // Context has slot info, but we'll rely on the fact that onLogs only
-        // sends new logs, so we can process all of them
-        try {
-          // Parse events from the logs using Anchor's event parser
-          const events = eventParser.parseLogs(logs.logs);
-
-          for (const event of events) {
-            // Check if this is a TradeEvent
-            // Anchor events have the structure: { name: 'TradeEvent', data: {...} }
-            if (event.name === 'TradeEvent') {
-              const tradeEvent = parseTradeEvent(event.data);
-
-              if (tradeEvent) {
-                // If we subscribed to a specific bonding curve, the mint should already match
-                // But double-check to be safe
-                if (mint && !tradeEvent.mint.equals(mint)) {
-                  continue;
-                }
-
-                // Call the callback with the parsed event
-                callback(tradeEvent, logs.signature);
-              }
-            }
-          }
-        } catch (error) {
-          // Silently handle parsing errors (some logs might not be events)
-          // Only log if it's a real issue
-          if (error instanceof Error && !error.message.includes('Failed to decode')) {
-            console.error('Error processing logs:', error);
-          }
-        }
+        if (isUnsubscribed || logs.err) return;
+        deliver(parseTradeEventLogs(eventParser, logs.logs, mint), logs.signature, context.slot);
       },
-      'confirmed' // Use confirmed commitment for faster updates
+      'confirmed'
     );
+    slotSubscriptionId = connection.onSlotChange(() => {
+      lastHeartbeat = Date.now();
+      if (streamLive || isUnsubscribed) return;
+      streamLive = true;
+      reconnectAttempts = 0;
+      console.log(`✅ WebSocket log stream live for ${queryAddress.toBase58()}`);
+      pollingActive = false;
+      // Backfill whatever landed before the subscription took effect
+      void pollForTradeEvents();
+    });
+  };
 
-    if (mint) {
-      const [bondingCurve] = deriveBondingCurvePDA(mint);
-      console.log('✅ Using WebSocket subscription (real-time updates)');
-      console.log(`   Monitoring token: ${mint.toBase58()}`);
-      console.log(`   Bonding curve: ${bondingCurve.toBase58()}\n`);
-    } else {
-      console.log('✅ Using WebSocket subscription (real-time updates)');
-      console.log(`   Monitoring all Pump Fun trades\n`);
+  const closeStream = () => {
+    streamLive = false;
+    if (logsSubscriptionId !== null) {
+      connection.removeOnLogsListener(logsSubscriptionId).catch(() => {
+        // Ignore errors when unsubscribing
+      });
+      logsSubscriptionId = null;
     }
+    if (slotSubscriptionId !== null) {
+      connection.removeSlotChangeListener(slotSubscriptionId).catch(() => {
+        // Ignore errors when unsubscribing
+      });
+      slotSubscriptionId = null;
+    }
+  };
 
-    return {
-      unsubscribe: () => {
-        isUnsubscribed = true;
-        if (subscriptionId !== null) {
-          try {
-            connection.removeOnLogsListener(subscriptionId);
-          } catch (error) {
-            // Ignore errors when unsubscribing
-          }
-        }
-      },
-    };
-  } catch (error: any) {
-    // WebSocket subscription failed, fall back to polling
-    console.warn('⚠️  WebSocket subscription failed, falling back to polling mode');
-    console.warn(`   Polling every ${pollInterval}ms\n`);
+  const scheduleReconnect = () => {
+    const delay = Math.min(WS_RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, WS_RECONNECT_MAX_DELAY_MS);
+    reconnectAttempts++;
+    console.warn(`   Reconnecting WebSocket in ${delay}ms (attempt ${reconnectAttempts})`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (!isUnsubscribed) openStream();
+    }, delay);
+  };
+
+  const checkHealth = () => {
+    // Nothing to check while waiting to reconnect
+    if (isUnsubscribed || logsSubscriptionId === null) return;
+    if (Date.now() - lastHeartbeat < WS_HEARTBEAT_TIMEOUT_MS) return;
+
+    console.warn(streamLive
+      ? '⚠️  WebSocket stream stalled, falling back to polling'
+      : '⚠️  WebSocket stream did not come up, polling until it does');
+    closeStream();
     startPolling();
+    scheduleReconnect();
+  };
 
-    return {
-      unsubscribe: () => {
-        isUnsubscribed = true;
-        pollingActive = false;
-        if (subscriptionId !== null) {
-          try {
-            connection.removeOnLogsListener(subscriptionId);
-          } catch (error) {
-            // Ignore errors when unsubscribing
-          }
-        }
-      },
-    };
+  console.log('📡 Using WebSocket log subscription (falls back to polling)');
+  if (mint) {
+    const [bondingCurve] = deriveBondingCurvePDA(mint);
+    console.log(`   Monitoring token: ${mint.toBase58()}`);
+    console.log(`   Bonding curve: ${bondingCurve.toBase58()}\n`);
+  } else {
+    console.log(`   Monitoring all Pump Fun trades\n`);
   }
+  openStream();
+  const healthTimer = setInterval(checkHealth, WS_HEALTH_CHECK_INTERVAL_MS);
+  // While polling, the polling loop already covers this
+  const backfillTimer = setInterval(() => {
+    if (streamLive && !isUnsubscribed) void pollForTradeEvents();
+  }, WS_BACKFILL_INTERVAL_MS);
+
+  return {
+    unsubscribe: () => {
+      isUnsubscribed = true;
+      pollingActive = false;
+      ingestor.stop();
+      clearInterval(healthTimer);
+      clearInterval(backfillTimer);
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      closeStream();
+    },
+  };
 }
 
 /**
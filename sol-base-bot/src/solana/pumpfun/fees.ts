@@ -0,0 +1,203 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { GLOBAL } from '../constants.js';
+import { createPumpFunProgram, deriveFeeConfigPDA } from './anchor.js';
+import type { BondingCurveState } from './bondingCurve.js';
+
+/**
+ * Pump.fun Fee Schedule
+ *
+ * Trading fees come from the fee program's FeeConfig account when it exists:
+ * a flat schedule plus market-cap tiers. Without it the Global account's
+ * `fee_basis_points` and `creator_fee_basis_points` apply. The creator fee is
+ * only charged when the curve (or pool) has a creator set.
+ */
+
+// Used when neither account can be read
+export const DEFAULT_PUMP_FUN_FEE_BPS = 100n;
+
+// Global and FeeConfig change rarely; re-read them at most this often
+const FEE_ACCOUNTS_TTL_MS = 60_000;
+
+export interface Fees {
+  lpFeeBps: bigint;
+  protocolFeeBps: bigint;
+  creatorFeeBps: bigint;
+}
+
+export interface FeeTier {
+  marketCapLamportsThreshold: bigint;
+  fees: Fees;
+}
+
+export interface FeeConfig {
+  admin: PublicKey;
+  flatFees: Fees;
+  feeTiers: FeeTier[];
+}
+
+// The curve fields the fee depends on: its market cap and whether a creator is set
+export type BondingCurveFeeInputs = Pick<
+  BondingCurveState,
+  'virtualSolReserves' | 'virtualTokenReserves' | 'tokenTotalSupply' | 'creator'
+>;
+
+export interface PumpFunFeeSchedule {
+  protocolFeeBps: bigint;
+  creatorFeeBps: bigint; // 0 when the curve has no creator
+  totalFeeBps: bigint;
+  marketCapLamports: bigint;
+  source: 'fee_config' | 'global';
+}
+
+interface FeeAccounts {
+  fetchedAt: number;
+  global: { feeBasisPoints: bigint; creatorFeeBasisPoints: bigint };
+  feeConfig: FeeConfig | null;
+}
+
+let feeAccountsCache: FeeAccounts | null = null;
+
+function readFees(data: Buffer, offset: number): Fees {
+  return {
+    lpFeeBps: data.readBigUInt64LE(offset),
+    protocolFeeBps: data.readBigUInt64LE(offset + 8),
+    creatorFeeBps: data.readBigUInt64LE(offset + 16),
+  };
+}
+
+/**
+ * Decodes a FeeConfig account: bump, admin, flat fees, then a vec of tiers
+ * (u128 market-cap threshold in lamports + fees)
+ */
+export function decodeFeeConfig(data: Buffer): FeeConfig {
+  const admin = new PublicKey(data.subarray(9, 41));
+  const flatFees = readFees(data, 41);
+  const tierCount = data.readUInt32LE(65);
+
+  const feeTiers: FeeTier[] = [];
+  let offset = 69;
+  for (let i = 0; i < tierCount; i++) {
+    const low = data.readBigUInt64LE(offset);
+    const high = data.readBigUInt64LE(offset + 8);
+    feeTiers.push({
+      marketCapLamportsThreshold: (high << 64n) + low,
+      fees: readFees(data, offset + 16),
+    });
+    offset += 40;
+  }
+
+  return { admin, flatFees, feeTiers };
+}
+
+/**
+ * Reads a FeeConfig account; null if it does not exist
+ */
+export async function fetchFeeConfig(
+  connection: Connection,
+  address: PublicKey
+): Promise<FeeConfig | null> {
+  const info = await connection.getAccountInfo(address, 'confirmed');
+  return info ? decodeFeeConfig(info.data) : null;
+}
+
+/**
+ * Pick the fees for a market cap: below the first threshold the first tier applies,
+ * otherwise the highest tier whose threshold has been reached
+ */
+export function selectFeeTier(feeConfig: FeeConfig, marketCapLamports: bigint): Fees {
+  const { feeTiers } = feeConfig;
+  if (feeTiers.length === 0) {
+    return feeConfig.flatFees;
+  }
+  if (marketCapLamports < feeTiers[0].marketCapLamportsThreshold) {
+    return feeTiers[0].fees;
+  }
+  for (let i = feeTiers.length - 1; i >= 0; i--) {
+    if (marketCapLamports >= feeTiers[i].marketCapLamportsThreshold) {
+      return feeTiers[i].fees;
+    }
+  }
+  return feeTiers[0].fees;
+}
+
+/**
+ * Market cap of a bonding curve in lamports, at the curve's spot price
+ */
+export function getBondingCurveMarketCapLamports(curve: BondingCurveFeeInputs): bigint {
+  if (curve.virtualTokenReserves <= 0n) {
+    return 0n;
+  }
+  return (curve.virtualSolReserves * curve.tokenTotalSupply) / curve.virtualTokenReserves;
+}
+
+async function getFeeAccounts(connection: Connection): Promise<FeeAccounts> {
+  if (feeAccountsCache && Date.now() - feeAccountsCache.fetchedAt < FEE_ACCOUNTS_TTL_MS) {
+    return feeAccountsCache;
+  }
+
+  const program = createPumpFunProgram(connection);
+  const [globalAccount, feeConfig] = await Promise.all([
+    (program.account as any).global.fetch(GLOBAL),
+    fetchFeeConfig(connection, deriveFeeConfigPDA()[0]),
+  ]);
+
+  feeAccountsCache = {
+    fetchedAt: Date.now(),
+    global: {
+      feeBasisPoints: BigInt(globalAccount.feeBasisPoints.toString()),
+      creatorFeeBasisPoints: BigInt(globalAccount.creatorFeeBasisPoints.toString()),
+    },
+    feeConfig,
+  };
+  return feeAccountsCache;
+}
+
+/**
+ * Resolve the protocol and creator fee a trade against this curve pays right now
+ */
+export async function resolveBondingCurveFees(
+  connection: Connection,
+  curve: BondingCurveFeeInputs
+): Promise<PumpFunFeeSchedule> {
+  const { global, feeConfig } = await getFeeAccounts(connection);
+  const marketCapLamports = getBondingCurveMarketCapLamports(curve);
+  const hasCreator = !curve.creator.equals(PublicKey.default);
+
+  let protocolFeeBps: bigint;
+  let creatorFeeBps: bigint;
+  if (feeConfig) {
+    const fees = selectFeeTier(feeConfig, marketCapLamports);
+    protocolFeeBps = fees.protocolFeeBps;
+    creatorFeeBps = fees.creatorFeeBps;
+  } else {
+    protocolFeeBps = global.feeBasisPoints;
+    creatorFeeBps = global.creatorFeeBasisPoints;
+  }
+  if (!hasCreator) {
+    creatorFeeBps = 0n;
+  }
+
+  return {
+    protocolFeeBps,
+    creatorFeeBps,
+    totalFeeBps: protocolFeeBps + creatorFeeBps,
+    marketCapLamports,
+    source: feeConfig ? 'fee_config' : 'global',
+  };
+}
+
+/**
+ * Total bonding-curve fee in bps, falling back to the 1% default if the
+ * fee accounts cannot be read
+ */
+export async function getBondingCurveFeeBps(
+  connection: Connection,
+  curve: BondingCurveFeeInputs
+): Promise<bigint> {
+  try {
+    return (await resolveBondingCurveFees(connection, curve)).totalFeeBps;
+  } catch (error) {
+    console.warn(`⚠️  Failed to read Pump.fun fee schedule, assuming ${DEFAULT_PUMP_FUN_FEE_BPS} bps:`, error);
+    return DEFAULT_PUMP_FUN_FEE_BPS;
+  }
+}
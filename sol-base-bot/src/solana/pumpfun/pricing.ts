@@ -1,5 +1,6 @@
 import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, SimulateTransactionConfig, VersionedTransaction } from '@solana/web3.js';
-import { getCoinData } from './api.js';
+import { getBondingCurveState } from './bondingCurve.js';
+import { getBondingCurveFeeBps } from './fees.js';
 
 export interface PumpFunPriceResult {
   solPerToken: number;
@@ -7,15 +8,14 @@ export interface PumpFunPriceResult {
   totalUsd: number;
 }
 
-// Fee constants
-const FEE_BASIS_POINTS = 100n; // 1% fee
+// Fee constants (the fee rate itself is read from the Global / FeeConfig accounts)
 const FEE_DENOMINATOR = 10000n;
 
 /**
  * Calculate Pump Fun buy price using the constant product bonding curve formula with fee.
  * 
  * Logic:
- * 1. Read virtual reserves (x, y)
+ * 1. Read virtual reserves (x, y) from the bonding curve account
  * 2. Calculate new reserves for target token output (dy)
  *    new_y = y - dy
  *    new_x = k / new_y  (where k = x * y)
@@ -24,23 +24,27 @@ const FEE_DENOMINATOR = 10000n;
  *    Actually for PumpFun, the fee is taken from the SOL input.
  *    So effectively: dx_total = dx_needed / (1 - fee_rate)
  * 
+ * @param connection - Solana connection used to read the bonding curve
  * @param mintStr - The token mint address
  * @param tokenAmount - Amount of tokens to buy
  * @param solPriceUsd - Current SOL price in USD
+ * @param useApiFallback - Fall back to the pump.fun API if the on-chain read fails
  * @returns Price information or null if calculation fails
  */
 export async function calculatePumpFunBuyPrice(
+  connection: Connection,
   mintStr: string,
   tokenAmount: number,
-  solPriceUsd: number
+  solPriceUsd: number,
+  useApiFallback: boolean = false
 ): Promise<PumpFunPriceResult | null> {
   try {
-    const coinData = await getCoinData(mintStr);
-    if (!coinData) return null;
+    const curve = await getBondingCurveState(connection, new PublicKey(mintStr), useApiFallback);
+    if (!curve) return null;
 
-    const vSol = BigInt(coinData['virtual_sol_reserves']);
-    const vToken = BigInt(coinData['virtual_token_reserves']);
-    const rToken = BigInt(coinData['real_token_reserves']);
+    const vSol = curve.virtualSolReserves;
+    const vToken = curve.virtualTokenReserves;
+    const rToken = curve.realTokenReserves;
     const tokenOut = BigInt(Math.floor(tokenAmount));
 
     if (vSol <= 0n || vToken <= 0n || tokenOut <= 0n) {
@@ -76,15 +80,16 @@ export async function calculatePumpFunBuyPrice(
       return null;
     }
 
-    // Calculate fee: 1% fee on top of the SOL cost
+    // Calculate fee: protocol + creator fee on top of the SOL cost
     // total_sol = sol_needed + fee
-    // fee = sol_needed * 1%
+    // fee = sol_needed * fee_bps / 10000
     // In pump.fun, typically fee is added to input. 
     // Let's assume standard behavior: User sends SOL, fee is deducted, remaining buys tokens.
     // BUT here we calculating "How much SOL to pay for X tokens".
     // So we need to Provide (solNeeded + fee).
 
-    const fee = (solNeeded * FEE_BASIS_POINTS) / FEE_DENOMINATOR;
+    const feeBps = await getBondingCurveFeeBps(connection, curve);
+    const fee = (solNeeded * feeBps) / FEE_DENOMINATOR;
     const totalSolLamports = solNeeded + fee;
 
     const totalSol = Number(totalSolLamports) / LAMPORTS_PER_SOL;
@@ -109,30 +114,34 @@ export async function calculatePumpFunBuyPrice(
  * Calculate Pump Fun sell price using the constant product bonding curve formula with fee.
  * 
  * Logic:
- * 1. Read virtual reserves (x, y)
+ * 1. Read virtual reserves (x, y) from the bonding curve account
  * 2. Calculate new reserves for input tokens (dy)
  *    new_y = y + dy
  *    new_x = k / new_y
  *    dx_received = x - new_x
  * 3. Deduct fee from output
  * 
+ * @param connection - Solana connection used to read the bonding curve
  * @param mintStr - The token mint address
  * @param tokenAmount - Amount of tokens to sell
  * @param solPriceUsd - Current SOL price in USD
+ * @param useApiFallback - Fall back to the pump.fun API if the on-chain read fails
  * @returns Price information or null if calculation fails
  */
 export async function calculatePumpFunSellPrice(
+  connection: Connection,
   mintStr: string,
   tokenAmount: number,
-  solPriceUsd: number
+  solPriceUsd: number,
+  useApiFallback: boolean = false
 ): Promise<PumpFunPriceResult | null> {
   try {
-    const coinData = await getCoinData(mintStr);
-    if (!coinData) return null;
+    const curve = await getBondingCurveState(connection, new PublicKey(mintStr), useApiFallback);
+    if (!curve) return null;
 
-    const vSol = BigInt(coinData['virtual_sol_reserves']);
-    const vToken = BigInt(coinData['virtual_token_reserves']);
-    const rSol = BigInt(coinData['real_sol_reserves']);
+    const vSol = curve.virtualSolReserves;
+    const vToken = curve.virtualTokenReserves;
+    const rSol = curve.realSolReserves;
     const tokenIn = BigInt(Math.floor(tokenAmount));
 
     if (vSol <= 0n || vToken <= 0n || tokenIn <= 0n) {
@@ -153,8 +162,9 @@ export async function calculatePumpFunSellPrice(
     // SOL output (without fee): dx = x - x_new
     const solOutputRaw = vSol - newVSol;
 
-    // Apply fee: 1% deducted from output
-    const fee = (solOutputRaw * FEE_BASIS_POINTS) / FEE_DENOMINATOR;
+    // Apply fee: protocol + creator fee deducted from output
+    const feeBps = await getBondingCurveFeeBps(connection, curve);
+    const fee = (solOutputRaw * feeBps) / FEE_DENOMINATOR;
     const solOutputNet = solOutputRaw - fee;
 
     // Check real reserves - can the bonding curve pay out this much SOL?
@@ -195,16 +205,18 @@ export async function calculatePumpFunSellPrice(
  * Calculate price impact for a trade size on Pump.fun bonding curve.
  */
 export async function calculatePriceImpact(
+  connection: Connection,
   mintStr: string,
   tokenAmount: bigint,
-  isBuy: boolean
+  isBuy: boolean,
+  useApiFallback: boolean = false
 ): Promise<number | null> {
   try {
-    const coinData = await getCoinData(mintStr);
-    if (!coinData) return null;
+    const curve = await getBondingCurveState(connection, new PublicKey(mintStr), useApiFallback);
+    if (!curve) return null;
 
-    const vSol = BigInt(coinData['virtual_sol_reserves']);
-    const vToken = BigInt(coinData['virtual_token_reserves']);
+    const vSol = curve.virtualSolReserves;
+    const vToken = curve.virtualTokenReserves;
 
     if (vSol <= 0n || vToken <= 0n || tokenAmount <= 0n) {
       return null;
@@ -116,8 +116,73 @@ export async function simulateTransaction(
     }
     
     if (!finalStatus?.value) {
-      throw new Error(`Transaction ${signature} not found after ${maxRetries} attempts`);
+      const error = new Error(`Transaction ${signature} not found after ${maxRetries} attempts`);
+      (error as any).signature = signature;
+      throw error;
     }
     
     return signature;
-  }
\ No newline at end of file
+  }
+
+export interface TransactionBalanceChanges {
+  slot: number;
+  blockTime: number | null;
+  feeLamports: bigint;
+  solChangeLamports: bigint; // Includes the network fee
+  tokenChange: bigint; // Raw token units
+}
+
+/**
+ * Reads the owner's SOL and token balance changes for a confirmed transaction
+ * from its transaction meta. Retries briefly because the RPC node may not have
+ * indexed the transaction right after confirmation.
+ */
+export async function getTransactionBalanceChanges(
+  connection: Connection,
+  signature: string,
+  owner: PublicKey,
+  mint: PublicKey,
+  maxRetries: number = 10
+): Promise<TransactionBalanceChanges> {
+  for (let i = 0; i < maxRetries; i++) {
+    const tx = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (tx?.meta) {
+      const accountKeys = tx.transaction.message.getAccountKeys({
+        accountKeysFromLookups: tx.meta.loadedAddresses,
+      });
+      let ownerIndex = -1;
+      for (let k = 0; k < accountKeys.length; k++) {
+        if (accountKeys.get(k)?.equals(owner)) {
+          ownerIndex = k;
+          break;
+        }
+      }
+      if (ownerIndex === -1) {
+        throw new Error(`Owner ${owner.toBase58()} not found in transaction ${signature}`);
+      }
+
+      const ownerStr = owner.toBase58();
+      const mintStr = mint.toBase58();
+      const sumTokenBalances = (balances: typeof tx.meta.preTokenBalances) =>
+        (balances || [])
+          .filter(b => b.owner === ownerStr && b.mint === mintStr)
+          .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), 0n);
+
+      return {
+        slot: tx.slot,
+        blockTime: tx.blockTime ?? null,
+        feeLamports: BigInt(tx.meta.fee),
+        solChangeLamports: BigInt(tx.meta.postBalances[ownerIndex]) - BigInt(tx.meta.preBalances[ownerIndex]),
+        tokenChange: sumTokenBalances(tx.meta.postTokenBalances) - sumTokenBalances(tx.meta.preTokenBalances),
+      };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+
+  throw new Error(`Transaction ${signature} meta not available after ${maxRetries} attempts`);
+}
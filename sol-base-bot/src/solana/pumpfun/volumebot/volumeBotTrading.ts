@@ -1,8 +1,13 @@
 import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
-import { createPumpFunProgram } from '../anchor.js';
-import { buildBuyInstruction, buildSellInstruction } from '../instructions.js';
 import { createTransaction, sendAndConfirmTransactionWithPolling } from '../transactions.js';
-import { getCoinData } from '../api.js';
+import { fetchBondingCurveState } from '../bondingCurve.js';
+import { fetchPumpSwapMarket } from '../../pumpswap/amm.js';
+import { getBondingCurveFeeBps } from '../fees.js';
+import {
+    resolveSolanaVenue,
+    buildSolanaBuyInstructions,
+    buildSolanaSellInstructions,
+} from '../../venue.js';
 import { TradeRecord } from './volumeBotTypes.js';
 
 /**
@@ -22,6 +27,30 @@ export function shouldBuy(buyProbability: number): boolean {
     return Math.random() * 100 < buyProbability;
 }
 
+/**
+ * Reserves and fee for pricing a trade on the token's current venue
+ * (the bonding curve account, or the PumpSwap pool after graduation)
+ */
+async function getTradingReserves(
+    connection: Connection,
+    tokenMint: PublicKey
+): Promise<{ vSol: bigint; vToken: bigint; feeBps: bigint }> {
+    if (await resolveSolanaVenue(connection, tokenMint) === 'pumpswap') {
+        const market = await fetchPumpSwapMarket(connection, tokenMint);
+        return { vSol: market.quoteReserves, vToken: market.baseReserves, feeBps: market.feeBps };
+    }
+
+    const curve = await fetchBondingCurveState(connection, tokenMint);
+    if (!curve) {
+        throw new Error('Failed to fetch bonding curve');
+    }
+    return {
+        vSol: curve.virtualSolReserves,
+        vToken: curve.virtualTokenReserves,
+        feeBps: await getBondingCurveFeeBps(connection, curve),
+    };
+}
+
 /**
  * Execute a buy trade on Pump.fun
  * Calculates expected tokens from bonding curve for given SOL amount
@@ -41,18 +70,11 @@ export async function executeBuyTrade(
     try {
         console.log(`\n🟢 Executing BUY: ${solAmount.toFixed(6)} SOL`);
 
-        const mintStr = tokenMint.toBase58();
+        // Get reserves to estimate token output
+        const { vSol, vToken, feeBps } = await getTradingReserves(connection, tokenMint);
 
-        // Get coin data to estimate token output
-        const coinData = await getCoinData(mintStr);
-        if (!coinData) {
-            throw new Error('Failed to fetch coin data');
-        }
-
-        // Calculate approximate tokens for this SOL amount
-        const vSol = BigInt(coinData['virtual_sol_reserves']);
-        const vToken = BigInt(coinData['virtual_token_reserves']);
-        const solInLamports = BigInt(Math.floor(solAmount * LAMPORTS_PER_SOL * 0.99));
+        // Calculate approximate tokens for this SOL amount (net of the trading fee)
+        const solInLamports = BigInt(Math.floor(solAmount * LAMPORTS_PER_SOL * (1 - Number(feeBps) / 10000)));
 
         // Estimate token output
         const estimatedTokenOut = (solInLamports * vToken) / (vSol + solInLamports);
@@ -68,9 +90,7 @@ export async function executeBuyTrade(
         const tokenOut = BigInt(Math.floor(tokenAmount * 1e6));
 
         // Build and execute transaction
-        const program = await createPumpFunProgram(connection);
-        const buyIx = await buildBuyInstruction(
-            program,
+        const buyIxs = await buildSolanaBuyInstructions(
             connection,
             tokenMint,
             wallet.publicKey,
@@ -81,7 +101,7 @@ export async function executeBuyTrade(
 
         const transaction = await createTransaction(
             connection,
-            [buyIx],
+            buyIxs,
             wallet.publicKey,
             priorityFeeSol
         );
@@ -144,17 +164,10 @@ export async function executeSellTrade(
     try {
         console.log(`\n🔴 Executing SELL: ${tokenAmount.toFixed(2)} tokens`);
 
-        const mintStr = tokenMint.toBase58();
-
-        // Get coin data for bonding curve calculation
-        const coinData = await getCoinData(mintStr);
-        if (!coinData) {
-            throw new Error('Failed to fetch coin data');
-        }
+        // Get reserves for the constant-product calculation
+        const { vSol, vToken, feeBps } = await getTradingReserves(connection, tokenMint);
 
-        // Calculate expected SOL output from bonding curve
-        const vSol = BigInt(coinData['virtual_sol_reserves']);
-        const vToken = BigInt(coinData['virtual_token_reserves']);
+        // Calculate expected SOL output
         const tokenIn = BigInt(Math.floor(tokenAmount * 1e6));
 
         // Calculate SOL output: solOut = vSol - (k / (vToken + tokenIn))
@@ -164,8 +177,8 @@ export async function executeSellTrade(
         const newVSol = k / newVToken;
         const solOutBeforeFee = vSol - newVSol;
 
-        // Apply 1% fee
-        const solOut = (solOutBeforeFee * BigInt(99)) / BigInt(100);
+        // Apply trading fee
+        const solOut = (solOutBeforeFee * (10000n - feeBps)) / 10000n;
         const expectedSol = Number(solOut) / LAMPORTS_PER_SOL;
 
         console.log(`   💡 Expected SOL: ${expectedSol.toFixed(6)} SOL`);
@@ -175,9 +188,7 @@ export async function executeSellTrade(
         const minSolOutput = (solOut * BigInt(100 - Math.floor(slippagePercent))) / BigInt(100);
 
         // Build and execute transaction
-        const program = await createPumpFunProgram(connection);
-        const sellIx = await buildSellInstruction(
-            program,
+        const sellIxs = await buildSolanaSellInstructions(
             connection,
             tokenMint,
             wallet.publicKey,
@@ -187,7 +198,7 @@ export async function executeSellTrade(
 
         const transaction = await createTransaction(
             connection,
-            [sellIx],
+            sellIxs,
             wallet.publicKey,
             priorityFeeSol
         );
@@ -0,0 +1,251 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+import { PUMP_FUN_PROGRAM, PUMP_SWAP_PROGRAM, PUMP_FEE_PROGRAM } from '../constants.js';
+import { decodeFeeConfig, selectFeeTier, type FeeConfig } from '../pumpfun/fees.js';
+
+/**
+ * PumpSwap AMM
+ *
+ * Tokens that complete the Pump.fun bonding curve migrate to a canonical
+ * PumpSwap pool (token/WSOL). The pool is a constant-product AMM, so its token
+ * account balances play the role the virtual reserves play on the curve.
+ */
+
+const CANONICAL_POOL_INDEX = 0;
+
+// SPL token account layout: mint (32) + owner (32) + amount (u64)
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+// SPL mint layout: mint authority option (36) + supply (u64)
+const MINT_SUPPLY_OFFSET = 36;
+
+export interface PumpSwapPool {
+  address: PublicKey;
+  poolBump: number;
+  index: number;
+  creator: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  lpMint: PublicKey;
+  poolBaseTokenAccount: PublicKey;
+  poolQuoteTokenAccount: PublicKey;
+  lpSupply: bigint;
+  coinCreator: PublicKey;
+}
+
+export interface PumpSwapGlobalConfig {
+  admin: PublicKey;
+  lpFeeBasisPoints: bigint;
+  protocolFeeBasisPoints: bigint;
+  disableFlags: number;
+  protocolFeeRecipients: PublicKey[];
+  coinCreatorFeeBasisPoints: bigint;
+}
+
+/**
+ * Pool, fee schedule and reserves needed to price and trade a graduated token
+ */
+export interface PumpSwapMarket {
+  pool: PumpSwapPool;
+  globalConfig: PumpSwapGlobalConfig;
+  baseTokenProgram: PublicKey; // Token or Token-2022, from the mint's owner
+  baseReserves: bigint; // Token raw units in the pool
+  quoteReserves: bigint; // Lamports (WSOL) in the pool
+  feeBps: bigint; // LP + protocol + coin creator fee
+}
+
+/**
+ * Derives the pool authority PDA the bonding curve migrates through
+ */
+export function derivePoolAuthorityPDA(mint: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('pool-authority'), mint.toBuffer()],
+    PUMP_FUN_PROGRAM
+  );
+}
+
+/**
+ * Derives the canonical token/WSOL pool PDA created on migration
+ */
+export function deriveCanonicalPoolPDA(mint: PublicKey): [PublicKey, number] {
+  const [poolAuthority] = derivePoolAuthorityPDA(mint);
+  const index = Buffer.alloc(2);
+  index.writeUInt16LE(CANONICAL_POOL_INDEX);
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('pool'), index, poolAuthority.toBuffer(), mint.toBuffer(), NATIVE_MINT.toBuffer()],
+    PUMP_SWAP_PROGRAM
+  );
+}
+
+/**
+ * Derives the global config PDA
+ */
+export function deriveGlobalConfigPDA(): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('global_config')],
+    PUMP_SWAP_PROGRAM
+  );
+}
+
+/**
+ * Derives the event authority PDA
+ */
+export function derivePumpSwapEventAuthorityPDA(): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('__event_authority')],
+    PUMP_SWAP_PROGRAM
+  );
+}
+
+/**
+ * Derives the coin creator vault authority PDA
+ */
+export function deriveCoinCreatorVaultAuthorityPDA(coinCreator: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('creator_vault'), coinCreator.toBuffer()],
+    PUMP_SWAP_PROGRAM
+  );
+}
+
+/**
+ * Derives the global volume accumulator PDA
+ */
+export function derivePumpSwapGlobalVolumeAccumulatorPDA(): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('global_volume_accumulator')],
+    PUMP_SWAP_PROGRAM
+  );
+}
+
+/**
+ * Derives the user volume accumulator PDA
+ */
+export function derivePumpSwapUserVolumeAccumulatorPDA(user: PublicKey): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('user_volume_accumulator'), user.toBuffer()],
+    PUMP_SWAP_PROGRAM
+  );
+}
+
+/**
+ * Derives the fee config PDA (owned by the fee program, keyed by the AMM program)
+ */
+export function derivePumpSwapFeeConfigPDA(): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('fee_config'), PUMP_SWAP_PROGRAM.toBuffer()],
+    PUMP_FEE_PROGRAM
+  );
+}
+
+function readPublicKey(data: Buffer, offset: number): PublicKey {
+  return new PublicKey(data.subarray(offset, offset + 32));
+}
+
+/**
+ * Decodes a Pool account (fields follow the 8-byte Anchor discriminator)
+ */
+export function decodePool(address: PublicKey, data: Buffer): PumpSwapPool {
+  return {
+    address,
+    poolBump: data.readUInt8(8),
+    index: data.readUInt16LE(9),
+    creator: readPublicKey(data, 11),
+    baseMint: readPublicKey(data, 43),
+    quoteMint: readPublicKey(data, 75),
+    lpMint: readPublicKey(data, 107),
+    poolBaseTokenAccount: readPublicKey(data, 139),
+    poolQuoteTokenAccount: readPublicKey(data, 171),
+    lpSupply: data.readBigUInt64LE(203),
+    // Pools created before creator fees existed end at lp_supply
+    coinCreator: data.length >= 243 ? readPublicKey(data, 211) : PublicKey.default,
+  };
+}
+
+/**
+ * Decodes the GlobalConfig account (fields follow the 8-byte Anchor discriminator)
+ */
+export function decodeGlobalConfig(data: Buffer): PumpSwapGlobalConfig {
+  const protocolFeeRecipients: PublicKey[] = [];
+  for (let i = 0; i < 8; i++) {
+    protocolFeeRecipients.push(readPublicKey(data, 57 + i * 32));
+  }
+
+  return {
+    admin: readPublicKey(data, 8),
+    lpFeeBasisPoints: data.readBigUInt64LE(40),
+    protocolFeeBasisPoints: data.readBigUInt64LE(48),
+    disableFlags: data.readUInt8(56),
+    protocolFeeRecipients,
+    coinCreatorFeeBasisPoints: data.length >= 321 ? data.readBigUInt64LE(313) : 0n,
+  };
+}
+
+/**
+ * Total fee charged on the quote side of a swap in this pool. The AMM's FeeConfig
+ * tiers (by pool market cap in lamports) take precedence over the global config.
+ */
+export function getPumpSwapFeeBps(
+  pool: PumpSwapPool,
+  globalConfig: PumpSwapGlobalConfig,
+  feeConfig: FeeConfig | null = null,
+  marketCapLamports: bigint = 0n
+): bigint {
+  const hasCreator = !pool.coinCreator.equals(PublicKey.default);
+
+  if (feeConfig) {
+    const fees = selectFeeTier(feeConfig, marketCapLamports);
+    return fees.lpFeeBps + fees.protocolFeeBps + (hasCreator ? fees.creatorFeeBps : 0n);
+  }
+
+  const creatorFee = hasCreator ? globalConfig.coinCreatorFeeBasisPoints : 0n;
+  return globalConfig.lpFeeBasisPoints + globalConfig.protocolFeeBasisPoints + creatorFee;
+}
+
+/**
+ * Fetches the canonical pool for a graduated mint together with its fee schedule and reserves
+ */
+export async function fetchPumpSwapMarket(
+  connection: Connection,
+  mint: PublicKey
+): Promise<PumpSwapMarket> {
+  const [poolAddress] = deriveCanonicalPoolPDA(mint);
+  const [globalConfigAddress] = deriveGlobalConfigPDA();
+  const [feeConfigAddress] = derivePumpSwapFeeConfigPDA();
+
+  const [poolInfo, globalConfigInfo, feeConfigInfo] = await connection.getMultipleAccountsInfo(
+    [poolAddress, globalConfigAddress, feeConfigAddress],
+    'confirmed'
+  );
+  if (!poolInfo) {
+    throw new Error(`PumpSwap pool not found for ${mint.toBase58()} (${poolAddress.toBase58()})`);
+  }
+  if (!globalConfigInfo) {
+    throw new Error('PumpSwap global config not found');
+  }
+
+  const pool = decodePool(poolAddress, poolInfo.data);
+  const globalConfig = decodeGlobalConfig(globalConfigInfo.data);
+
+  const [baseVault, quoteVault, mintInfo] = await connection.getMultipleAccountsInfo(
+    [pool.poolBaseTokenAccount, pool.poolQuoteTokenAccount, pool.baseMint],
+    'confirmed'
+  );
+  if (!baseVault || !quoteVault || !mintInfo) {
+    throw new Error(`PumpSwap pool accounts missing for ${poolAddress.toBase58()}`);
+  }
+
+  const baseReserves = baseVault.data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+  const quoteReserves = quoteVault.data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+  const supply = mintInfo.data.readBigUInt64LE(MINT_SUPPLY_OFFSET);
+  const marketCapLamports = baseReserves > 0n ? (quoteReserves * supply) / baseReserves : 0n;
+  const feeConfig = feeConfigInfo ? decodeFeeConfig(feeConfigInfo.data) : null;
+
+  return {
+    pool,
+    globalConfig,
+    baseTokenProgram: mintInfo.owner,
+    baseReserves,
+    quoteReserves,
+    feeBps: getPumpSwapFeeBps(pool, globalConfig, feeConfig, marketCapLamports),
+  };
+}
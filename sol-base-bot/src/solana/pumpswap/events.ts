@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { PUMP_SWAP_PROGRAM } from '../constants.js';
+import type { TradeEventSubscription } from '../pumpfun/events.js';
+import { SignatureIngestor } from '../signatureCursor.js';
+
+/**
+ * PumpSwap emits BuyEvent/SellEvent through a self-CPI (Anchor `emit_cpi!`),
+ * so the payload lives in inner instruction data rather than in the logs.
+ * Events are therefore read from fetched transactions, never from log streams.
+ */
+
+// Anchor prefixes self-CPI event data with this tag: sha256('anchor:event')[0..8] reversed
+const EVENT_IX_TAG = Buffer.from([0xe4, 0x45, 0xa5, 0x2e, 0x51, 0xcb, 0x9a, 0x1d]);
+
+function eventDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`event:${name}`).digest().subarray(0, 8);
+}
+
+const BUY_EVENT_DISCRIMINATOR = eventDiscriminator('BuyEvent');
+const SELL_EVENT_DISCRIMINATOR = eventDiscriminator('SellEvent');
+
+/**
+ * Trade on a PumpSwap pool, normalised across BuyEvent and SellEvent
+ */
+export interface PumpSwapTradeEvent {
+  pool: PublicKey;
+  user: PublicKey;
+  isBuy: boolean;
+  timestamp: bigint;
+  baseAmount: bigint; // Tokens bought or sold
+  quoteAmount: bigint; // Lamports paid (buy) or received (sell), fees included
+  poolBaseReserves: bigint; // Reserves before the trade
+  poolQuoteReserves: bigint;
+  lpFee: bigint;
+  protocolFee: bigint;
+}
+
+export type PumpSwapTradeEventCallback = (event: PumpSwapTradeEvent, signature: string, slot: number) => void;
+
+/**
+ * Decodes a BuyEvent/SellEvent from self-CPI instruction data.
+ *
+ * Both events start with fourteen u64/i64 fields (timestamp first, the
+ * user-side quote amount last) followed by the pool and user keys.
+ */
+export function decodePumpSwapTradeEvent(data: Buffer): PumpSwapTradeEvent | null {
+  if (data.length < 16 + 176 || !data.subarray(0, 8).equals(EVENT_IX_TAG)) {
+    return null;
+  }
+
+  const discriminator = data.subarray(8, 16);
+  const isBuy = discriminator.equals(BUY_EVENT_DISCRIMINATOR);
+  if (!isBuy && !discriminator.equals(SELL_EVENT_DISCRIMINATOR)) {
+    return null;
+  }
+
+  const body = data.subarray(16);
+  const u64 = (index: number) => body.readBigUInt64LE(index * 8);
+
+  return {
+    timestamp: body.readBigInt64LE(0),
+    baseAmount: u64(1),
+    poolBaseReserves: u64(5),
+    poolQuoteReserves: u64(6),
+    lpFee: u64(9),
+    protocolFee: u64(11),
+    quoteAmount: u64(13),
+    pool: new PublicKey(body.subarray(112, 144)),
+    user: new PublicKey(body.subarray(144, 176)),
+    isBuy,
+  };
+}
+
+/**
+ * Pool reserves after a trade. LP fees stay in the pool, protocol fees leave it.
+ */
+export function getPumpSwapReservesAfter(
+  event: Pick<PumpSwapTradeEvent, 'isBuy' | 'baseAmount' | 'quoteAmount' | 'poolBaseReserves' | 'poolQuoteReserves' | 'protocolFee'>
+): { baseReserves: bigint; quoteReserves: bigint } {
+  return {
+    baseReserves: event.isBuy
+      ? event.poolBaseReserves - event.baseAmount
+      : event.poolBaseReserves + event.baseAmount,
+    quoteReserves: event.isBuy
+      ? event.poolQuoteReserves + event.quoteAmount - event.protocolFee
+      : event.poolQuoteReserves - event.quoteAmount - event.protocolFee,
+  };
+}
+
+/**
+ * Extracts PumpSwap trade events for `pool` from a fetched transaction
+ */
+async function readTradeEvents(
+  connection: Connection,
+  signature: string,
+  pool: PublicKey
+): Promise<PumpSwapTradeEvent[]> {
+  const tx = await connection.getTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx) {
+    throw new Error(`Transaction ${signature} not found`);
+  }
+  if (!tx.meta || tx.meta.err || !tx.meta.innerInstructions) {
+    return [];
+  }
+
+  const accountKeys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+
+  const events: PumpSwapTradeEvent[] = [];
+  for (const inner of tx.meta.innerInstructions) {
+    for (const instruction of inner.instructions) {
+      const programId = accountKeys.get(instruction.programIdIndex);
+      if (!programId || !programId.equals(PUMP_SWAP_PROGRAM)) {
+        continue;
+      }
+      const event = decodePumpSwapTradeEvent(Buffer.from(bs58.decode(instruction.data)));
+      if (event && event.pool.equals(pool)) {
+        events.push(event);
+      }
+    }
+  }
+  return events;
+}
+
+/**
+ * Subscribes to trades on a PumpSwap pool by polling its signatures from the saved cursor
+ *
+ * @param connection - Solana connection instance
+ * @param pool - Pool address (see deriveCanonicalPoolPDA)
+ * @param callback - Callback function to handle trade events
+ * @param pollInterval - Polling interval in ms (default: 2000ms)
+ * @returns Subscription handle with unsubscribe method
+ */
+export function subscribeToPumpSwapTradeEvents(
+  connection: Connection,
+  pool: PublicKey,
+  callback: PumpSwapTradeEventCallback,
+  pollInterval: number = 2000
+): TradeEventSubscription {
+  let isUnsubscribed = false;
+
+  // Pages back to the last processed signature on every poll, so bursts between polls aren't dropped
+  const ingestor = new SignatureIngestor(connection, pool, async (sigInfo) => {
+    const events = await readTradeEvents(connection, sigInfo.signature, pool);
+    for (const event of events) {
+      callback(event, sigInfo.signature, sigInfo.slot);
+    }
+  });
+
+  const poll = async () => {
+    try {
+      await ingestor.poll();
+    } catch (error) {
+      console.error('Error polling for PumpSwap events:', error);
+    }
+  };
+
+  console.log('📡 Using polling mode for PumpSwap events');
+  console.log(`   Polling every ${pollInterval}ms`);
+  console.log(`   Pool: ${pool.toBase58()}\n`);
+
+  (async () => {
+    while (!isUnsubscribed) {
+      await poll();
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+  })();
+
+  return {
+    unsubscribe: () => {
+      isUnsubscribed = true;
+      ingestor.stop();
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { PUMP_SWAP_PROGRAM, PUMP_FEE_PROGRAM } from '../constants.js';
+import {
+  deriveCoinCreatorVaultAuthorityPDA,
+  derivePumpSwapEventAuthorityPDA,
+  derivePumpSwapFeeConfigPDA,
+  derivePumpSwapGlobalVolumeAccumulatorPDA,
+  derivePumpSwapUserVolumeAccumulatorPDA,
+  deriveGlobalConfigPDA,
+  type PumpSwapMarket,
+} from './amm.js';
+
+// Anchor instruction discriminators: sha256('global:<name>')[0..8]
+const BUY_DISCRIMINATOR = Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]);
+const SELL_DISCRIMINATOR = Buffer.from([51, 230, 133, 164, 1, 127, 131, 173]);
+
+/**
+ * Accounts shared by buy and sell, in IDL order
+ */
+function getSwapAccounts(market: PumpSwapMarket, user: PublicKey) {
+  const { pool, globalConfig } = market;
+  const protocolFeeRecipient = globalConfig.protocolFeeRecipients.find(
+    (recipient) => !recipient.equals(PublicKey.default)
+  );
+  if (!protocolFeeRecipient) {
+    throw new Error('PumpSwap global config has no protocol fee recipient');
+  }
+
+  const [coinCreatorVaultAuthority] = deriveCoinCreatorVaultAuthorityPDA(pool.coinCreator);
+  const userBaseTokenAccount = getAssociatedTokenAddressSync(pool.baseMint, user, false, market.baseTokenProgram);
+  const userQuoteTokenAccount = getAssociatedTokenAddressSync(NATIVE_MINT, user);
+
+  const keys = [
+    { pubkey: pool.address, isSigner: false, isWritable: true },
+    { pubkey: user, isSigner: true, isWritable: true },
+    { pubkey: deriveGlobalConfigPDA()[0], isSigner: false, isWritable: false },
+    { pubkey: pool.baseMint, isSigner: false, isWritable: false },
+    { pubkey: pool.quoteMint, isSigner: false, isWritable: false },
+    { pubkey: userBaseTokenAccount, isSigner: false, isWritable: true },
+    { pubkey: userQuoteTokenAccount, isSigner: false, isWritable: true },
+    { pubkey: pool.poolBaseTokenAccount, isSigner: false, isWritable: true },
+    { pubkey: pool.poolQuoteTokenAccount, isSigner: false, isWritable: true },
+    { pubkey: protocolFeeRecipient, isSigner: false, isWritable: false },
+    { pubkey: getAssociatedTokenAddressSync(NATIVE_MINT, protocolFeeRecipient, true), isSigner: false, isWritable: true },
+    { pubkey: market.baseTokenProgram, isSigner: false, isWritable: false },
+    { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: derivePumpSwapEventAuthorityPDA()[0], isSigner: false, isWritable: false },
+    { pubkey: PUMP_SWAP_PROGRAM, isSigner: false, isWritable: false },
+    { pubkey: getAssociatedTokenAddressSync(NATIVE_MINT, coinCreatorVaultAuthority, true), isSigner: false, isWritable: true },
+    { pubkey: coinCreatorVaultAuthority, isSigner: false, isWritable: false },
+  ];
+
+  return { keys, userBaseTokenAccount, userQuoteTokenAccount };
+}
+
+function encodeAmounts(discriminator: Buffer, first: bigint, second: bigint): Buffer {
+  const data = Buffer.alloc(24);
+  discriminator.copy(data, 0);
+  data.writeBigUInt64LE(first, 8);
+  data.writeBigUInt64LE(second, 16);
+  return data;
+}
+
+/**
+ * Builds the instructions to buy `baseAmountOut` tokens from a PumpSwap pool.
+ *
+ * The pool is quoted in WSOL, so the user's WSOL account is funded with
+ * `maxQuoteAmountIn` beforehand and closed afterwards to return the unspent SOL.
+ */
+export function buildPumpSwapBuyInstructions(
+  market: PumpSwapMarket,
+  user: PublicKey,
+  baseAmountOut: bigint,
+  maxQuoteAmountIn: bigint,
+  trackVolume: boolean = false
+): TransactionInstruction[] {
+  const { keys, userBaseTokenAccount, userQuoteTokenAccount } = getSwapAccounts(market, user);
+
+  keys.push(
+    { pubkey: derivePumpSwapGlobalVolumeAccumulatorPDA()[0], isSigner: false, isWritable: true },
+    { pubkey: derivePumpSwapUserVolumeAccumulatorPDA(user)[0], isSigner: false, isWritable: true },
+    { pubkey: derivePumpSwapFeeConfigPDA()[0], isSigner: false, isWritable: false },
+    { pubkey: PUMP_FEE_PROGRAM, isSigner: false, isWritable: false },
+  );
+
+  // OptionBool is a single bool byte after the two u64 amounts
+  const data = Buffer.concat([
+    encodeAmounts(BUY_DISCRIMINATOR, baseAmountOut, maxQuoteAmountIn),
+    Buffer.from([trackVolume ? 1 : 0]),
+  ]);
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      user,
+      userBaseTokenAccount,
+      user,
+      market.pool.baseMint,
+      market.baseTokenProgram
+    ),
+    createAssociatedTokenAccountIdempotentInstruction(user, userQuoteTokenAccount, user, NATIVE_MINT),
+    SystemProgram.transfer({ fromPubkey: user, toPubkey: userQuoteTokenAccount, lamports: maxQuoteAmountIn }),
+    createSyncNativeInstruction(userQuoteTokenAccount),
+    new TransactionInstruction({ programId: PUMP_SWAP_PROGRAM, keys, data }),
+    createCloseAccountInstruction(userQuoteTokenAccount, user, user),
+  ];
+}
+
+/**
+ * Builds the instructions to sell `baseAmountIn` tokens into a PumpSwap pool.
+ * The WSOL proceeds are unwrapped by closing the user's WSOL account.
+ */
+export function buildPumpSwapSellInstructions(
+  market: PumpSwapMarket,
+  user: PublicKey,
+  baseAmountIn: bigint,
+  minQuoteAmountOut: bigint
+): TransactionInstruction[] {
+  const { keys, userQuoteTokenAccount } = getSwapAccounts(market, user);
+
+  keys.push(
+    { pubkey: derivePumpSwapFeeConfigPDA()[0], isSigner: false, isWritable: false },
+    { pubkey: PUMP_FEE_PROGRAM, isSigner: false, isWritable: false },
+  );
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(user, userQuoteTokenAccount, user, NATIVE_MINT),
+    new TransactionInstruction({
+      programId: PUMP_SWAP_PROGRAM,
+      keys,
+      data: encodeAmounts(SELL_DISCRIMINATOR, baseAmountIn, minQuoteAmountOut),
+    }),
+    createCloseAccountInstruction(userQuoteTokenAccount, user, user),
+  ];
+}
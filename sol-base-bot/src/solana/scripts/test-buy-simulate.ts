@@ -1,4 +1,5 @@
 import { loadConfig } from '../../config.js';
+import { Connection } from '@solana/web3.js';
 import { createConnection } from '../utils.js';
 import {
   calculatePumpFunBuyPrice,
@@ -25,13 +26,14 @@ interface SimulationResult {
 }
 
 async function simulateBuyForAmount(
+  connection: Connection,
   mintStr: string,
   tokenAmount: bigint,
   solPriceUsd: number
 ): Promise<SimulationResult> {
   try {
     // Calculate buy price
-    const priceResult = await calculatePumpFunBuyPrice(mintStr, Number(tokenAmount), solPriceUsd);
+    const priceResult = await calculatePumpFunBuyPrice(connection, mintStr, Number(tokenAmount), solPriceUsd);
     
     if (!priceResult) {
       return {
@@ -47,7 +49,7 @@ async function simulateBuyForAmount(
     }
 
     // Calculate price impact
-    const priceImpact = await calculatePriceImpact(mintStr, tokenAmount, true);
+    const priceImpact = await calculatePriceImpact(connection, mintStr, tokenAmount, true);
 
     return {
       tokenAmount,
@@ -188,7 +190,7 @@ async function testBuySimulate() {
       const tokenAmount = tokenAmounts[i];
       console.log(`   [${i + 1}/${tokenAmounts.length}] Simulating buy of ${tokenAmount.toLocaleString()} tokens...`);
       
-      const result = await simulateBuyForAmount(solanaMint, BigInt(tokenAmount), solPriceUsd);
+      const result = await simulateBuyForAmount(connection, solanaMint, BigInt(tokenAmount), solPriceUsd);
       results.push(result);
 
       if (result.success) {
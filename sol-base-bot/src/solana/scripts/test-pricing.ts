@@ -1,10 +1,10 @@
 import { loadConfig } from '../../config.js';
-import { Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
 import {
   calculatePumpFunBuyPrice,
   calculatePumpFunSellPrice,
 } from '../pumpfun/pricing.js';
-import { getCoinData } from '../pumpfun/api.js';
+import { getBondingCurveState } from '../pumpfun/bondingCurve.js';
 import { formatTable } from '../../utils/formatters.js';
 
 async function testPricing() {
@@ -24,18 +24,18 @@ async function testPricing() {
   console.log(`   Token Address on Solana: ${solanaMint}`);
   console.log(`   SOL Price (USD): ${config.SOLANA_SOL_PRICE_USD}\n`);
 
-  // Setup connection (not needed for simple pricing, but keeping for consistency)
+  // Setup connection (bonding curve is read on-chain)
   const connection = new Connection(config.SOLANA_RPC_HTTP_URL, 'confirmed');
 
-  // Fetch coin data
-  console.log('📊 Fetching PumpFun coin data...\n');
-  const coinData = await getCoinData(solanaMint);
-  if (!coinData) {
-    throw new Error('Failed to fetch PumpFun coin data. Token may not exist on PumpFun.');
+  // Fetch bonding curve
+  console.log('📊 Fetching PumpFun bonding curve...\n');
+  const curve = await getBondingCurveState(connection, new PublicKey(solanaMint), config.PUMPFUN_API_FALLBACK);
+  if (!curve) {
+    throw new Error('Failed to fetch PumpFun bonding curve. Token may not exist on PumpFun.');
   }
 
-  const vSol = BigInt(coinData['virtual_sol_reserves']);
-  const vToken = BigInt(coinData['virtual_token_reserves']);
+  const vSol = curve.virtualSolReserves;
+  const vToken = curve.virtualTokenReserves;
 
   if (vSol <= 0n || vToken <= 0n) {
     throw new Error('Invalid PumpFun reserves');
@@ -59,9 +59,11 @@ async function testPricing() {
 
   for (const amount of tokenAmounts) {
     const price = await calculatePumpFunBuyPrice(
+      connection,
       solanaMint,
       amount,
-      config.SOLANA_SOL_PRICE_USD
+      config.SOLANA_SOL_PRICE_USD,
+      config.PUMPFUN_API_FALLBACK
     );
 
 
@@ -84,9 +86,11 @@ async function testPricing() {
 
   for (const amount of tokenAmounts) {
     const price = await calculatePumpFunSellPrice(
+      connection,
       solanaMint,
       amount,
-      config.SOLANA_SOL_PRICE_USD
+      config.SOLANA_SOL_PRICE_USD,
+      config.PUMPFUN_API_FALLBACK
     );
 
     if (price) {
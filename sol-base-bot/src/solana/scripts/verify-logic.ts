@@ -1,9 +1,5 @@
 import { analyzeOpportunity } from '../../arbitrage/opportunityAnalyzer.js';
 import type { MarketStats } from '../../arbitrage/marketFetcher.js';
-import { JsonRpcProvider } from 'ethers';
-
-// Mock Provider (not used if decimals are in stats)
-const mockProvider = new JsonRpcProvider('');
 
 // Fee constants matches implementation
 const PUMPFUN_FEE_BPS = 100n;
@@ -71,7 +67,9 @@ async function runVerification() {
             virtualTokenReserves: vToken,
             realSolReserves: vSol,
             realTokenReserves: vToken / 2n, // 500M real tokens (Limit 50M)
-            tokenDecimals: 6
+            tokenDecimals: 6,
+            venue: 'bonding_curve',
+            feeBps: PUMPFUN_FEE_BPS
         },
         base: {
             price: Number(usdcRes) / Number(tokenRes),
@@ -81,7 +79,10 @@ async function runVerification() {
             usdcReserves: usdcRes,
             tokenReserves: tokenRes,
             usdcDecimals: 6,
-            tokenDecimals: 6
+            tokenDecimals: 6,
+            dex: 'uniswap-v2',
+            feeBps: UNISWAP_FEE_BPS,
+            v3: null
         }
     };
 
@@ -93,11 +94,9 @@ async function runVerification() {
     const opportunity = await analyzeOpportunity({
         MIN_PROFIT_THRESHOLD: 0.01, // 1%
         TRADE_SIZE_USD: 1000, // Max Trade $1000
-        SOLANA_SOL_PRICE_USD: 150,
-        BASE_TOKEN_ADDRESS: '0x...',
-        BASE_USDC_ADDRESS: '0x...',
-        COINMARKETCAP_API_KEY: ''
-    }, marketStats, null, mockProvider);
+        MAX_PRICE_IMPACT_PERCENT: 100, // Uncapped, verify the raw equilibrium
+        ESTIMATED_GAS_COST_USD: 0
+    }, marketStats, null);
 
     if (!opportunity) {
         console.error('❌ No opportunity found (Failed)');
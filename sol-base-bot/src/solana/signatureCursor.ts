@@ -0,0 +1,257 @@
+/**
+ * Signature Cursor
+ *
+ * Gap-free ingestion for polled Solana subscriptions. Each poll pages
+ * getSignaturesForAddress from the newest signature back to the last one
+ * processed (`until`), walking older pages with `before`, and hands the new
+ * signatures over oldest first in slot order. The cursor only advances past a
+ * signature once it has been handled, and is saved per address so a restart
+ * backfills whatever landed while the bot was down.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Connection, PublicKey, type ConfirmedSignatureInfo } from '@solana/web3.js';
+
+// Largest page getSignaturesForAddress returns
+const PAGE_SIZE = 1000;
+
+// Pages walked back per poll before the rest is reported as a gap
+const MAX_BACKFILL_PAGES = 10;
+
+// Polls a transaction may fail to fetch before it is skipped and reported
+const MAX_FETCH_ATTEMPTS = 3;
+
+export interface SignatureCursor {
+  signature: string; // Last processed signature
+  slot: number;
+  updatedAt: number;
+}
+
+export type SignatureGapReason = 'backfill_limit' | 'fetch_failed';
+
+/**
+ * Signatures the ingestor knows it skipped
+ */
+export interface SignatureGap {
+  address: string;
+  reason: SignatureGapReason;
+  afterSlot: number; // Last slot processed before the gap
+  beforeSlot: number; // First slot processed after it
+  signature?: string; // The transaction that could not be fetched
+}
+
+export type SignatureHandler = (sigInfo: ConfirmedSignatureInfo) => Promise<void>;
+
+/**
+ * JSON file store for the last processed signature of each address
+ */
+export class SignatureCursorStore {
+  private readonly filePath: string | null;
+  private cursors: Map<string, SignatureCursor> = new Map();
+
+  // Without a file the cursors live in memory for this run only
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  private load(): void {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, SignatureCursor>;
+      this.cursors = new Map(Object.entries(data));
+    } catch (error) {
+      console.warn(`⚠️  Failed to load signature cursors from ${this.filePath}:`, error);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.cursors), null, 2));
+  }
+
+  get(address: string): SignatureCursor | null {
+    return this.cursors.get(address) ?? null;
+  }
+
+  set(address: string, cursor: SignatureCursor): void {
+    this.cursors.set(address, cursor);
+    this.save();
+  }
+}
+
+// Singleton store
+let signatureCursorStore: SignatureCursorStore | null = null;
+
+/**
+ * Save this process's cursors to `filePath`. Processes running side by side,
+ * like the bot and `pnpm record`, must each use their own file.
+ */
+export function initializeSignatureCursorStore(filePath: string): SignatureCursorStore {
+  signatureCursorStore = new SignatureCursorStore(filePath);
+  return signatureCursorStore;
+}
+
+/**
+ * The store set by initializeSignatureCursorStore. Processes that never set one (the
+ * test scripts) keep cursors in memory and start at the newest signature each run.
+ */
+export function getSignatureCursorStore(): SignatureCursorStore {
+  if (!signatureCursorStore) {
+    signatureCursorStore = new SignatureCursorStore(null);
+  }
+  return signatureCursorStore;
+}
+
+/**
+ * Signatures newer than `until`, oldest first in slot order. `complete` is false
+ * when MAX_BACKFILL_PAGES ran out before reaching `until`.
+ */
+export async function fetchSignaturesSince(
+  connection: Connection,
+  address: PublicKey,
+  until: string
+): Promise<{ signatures: ConfirmedSignatureInfo[]; complete: boolean }> {
+  const signatures: ConfirmedSignatureInfo[] = [];
+  let before: string | undefined;
+
+  for (let page = 0; page < MAX_BACKFILL_PAGES; page++) {
+    const batch = await connection.getSignaturesForAddress(address, { until, before, limit: PAGE_SIZE }, 'confirmed');
+    signatures.push(...batch);
+    if (batch.length < PAGE_SIZE) {
+      // Newest first from the RPC, including within a slot; the sort is stable
+      return { signatures: signatures.reverse().sort((a, b) => a.slot - b.slot), complete: true };
+    }
+    before = batch[batch.length - 1].signature;
+  }
+
+  return { signatures: signatures.reverse().sort((a, b) => a.slot - b.slot), complete: false };
+}
+
+/**
+ * Feeds every signature of an address to a handler exactly once, in slot order.
+ * A handler that throws is retried on the next poll (the cursor stays put) up to
+ * MAX_FETCH_ATTEMPTS, then the signature is skipped and reported as a gap.
+ */
+export class SignatureIngestor {
+  private readonly connection: Connection;
+  private readonly address: PublicKey;
+  private readonly handler: SignatureHandler;
+  private readonly store: SignatureCursorStore;
+
+  private cursor: SignatureCursor | null;
+  private readonly failedAttempts = new Map<string, number>();
+  private processed = 0;
+  private gaps: SignatureGap[] = [];
+  private stopped = false;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(
+    connection: Connection,
+    address: PublicKey,
+    handler: SignatureHandler,
+    store: SignatureCursorStore = getSignatureCursorStore()
+  ) {
+    this.connection = connection;
+    this.address = address;
+    this.handler = handler;
+    this.store = store;
+    this.cursor = store.get(address.toBase58());
+  }
+
+  /**
+   * Stop handing over signatures; the cursor stays before the first one not handled
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  getStats(): { processed: number; gaps: SignatureGap[]; cursor: SignatureCursor | null } {
+    return { processed: this.processed, gaps: [...this.gaps], cursor: this.cursor };
+  }
+
+  /**
+   * Handle everything since the cursor. Without a saved cursor, ingestion starts at the newest signature.
+   * The cursor is saved once per poll, so a crash mid-poll replays that poll's signatures.
+   */
+  async poll(): Promise<void> {
+    // Overlapping polls would hand over the same signatures twice
+    if (this.inFlight) return this.inFlight;
+
+    const start = this.cursor;
+    this.inFlight = this.ingest().finally(() => {
+      this.inFlight = null;
+      if (this.cursor && this.cursor !== start) {
+        this.store.set(this.address.toBase58(), this.cursor);
+      }
+    });
+    return this.inFlight;
+  }
+
+  private async ingest(): Promise<void> {
+    if (this.stopped) return;
+    if (!this.cursor) {
+      const [latest] = await this.connection.getSignaturesForAddress(this.address, { limit: 1 }, 'confirmed');
+      if (latest) {
+        this.advance(latest);
+      }
+      return;
+    }
+
+    const { signatures, complete } = await fetchSignaturesSince(this.connection, this.address, this.cursor.signature);
+    if (signatures.length === 0) {
+      return;
+    }
+    if (!complete) {
+      this.reportGap({
+        address: this.address.toBase58(),
+        reason: 'backfill_limit',
+        afterSlot: this.cursor.slot,
+        beforeSlot: signatures[0].slot,
+      });
+    }
+
+    for (const sigInfo of signatures) {
+      if (this.stopped) return;
+      if (!sigInfo.err) {
+        try {
+          await this.handler(sigInfo);
+        } catch (error) {
+          const attempts = (this.failedAttempts.get(sigInfo.signature) ?? 0) + 1;
+          if (attempts < MAX_FETCH_ATTEMPTS) {
+            this.failedAttempts.set(sigInfo.signature, attempts);
+            return;
+          }
+          this.failedAttempts.delete(sigInfo.signature);
+          this.reportGap({
+            address: this.address.toBase58(),
+            reason: 'fetch_failed',
+            afterSlot: this.cursor.slot,
+            beforeSlot: sigInfo.slot,
+            signature: sigInfo.signature,
+          });
+        }
+      }
+      this.advance(sigInfo);
+      this.processed++;
+    }
+  }
+
+  private advance(sigInfo: ConfirmedSignatureInfo): void {
+    this.cursor = { signature: sigInfo.signature, slot: sigInfo.slot, updatedAt: Date.now() };
+  }
+
+  private reportGap(gap: SignatureGap): void {
+    this.gaps.push(gap);
+    const detail = gap.reason === 'fetch_failed'
+      ? `transaction ${gap.signature} could not be fetched after ${MAX_FETCH_ATTEMPTS} attempts`
+      : `more than ${MAX_BACKFILL_PAGES * PAGE_SIZE} signatures since the cursor, older ones skipped`;
+    console.warn(`⚠️  Gap in ${gap.address} between slots ${gap.afterSlot} and ${gap.beforeSlot}: ${detail}`);
+  }
+}
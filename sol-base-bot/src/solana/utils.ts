@@ -3,9 +3,10 @@ import bs58 from 'bs58';
 
 /**
  * Creates a Solana connection
+ * Subscriptions use `solana_ws` if set, otherwise the endpoint derived from the HTTP URL
  */
-export function createConnection(solana_rpc:string): Connection {
-  return new Connection(solana_rpc, 'confirmed');
+export function createConnection(solana_rpc:string, solana_ws:string = ''): Connection {
+  return new Connection(solana_rpc, { commitment: 'confirmed', wsEndpoint: solana_ws || undefined });
 }
 
 
@@ -13,3 +14,29 @@ export function getKeyPairFromPrivateKey(key: string) {
   return Keypair.fromSecretKey(new Uint8Array(bs58.decode(key)));
 }
 
+/**
+ * Poll a sent Solana transaction until it confirms, fails on chain, or is past
+ * the point where it could still land. Status reads that error are retried.
+ */
+export async function waitForSignature(
+  solanaConnection: Connection,
+  signature: string,
+  timeoutMs: number
+): Promise<'confirmed' | 'failed' | 'expired'> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const status = await solanaConnection.getSignatureStatus(signature, { searchTransactionHistory: true });
+      if (status.value?.err) {
+        return 'failed';
+      }
+      if (status.value?.confirmationStatus === 'confirmed' || status.value?.confirmationStatus === 'finalized') {
+        return 'confirmed';
+      }
+    } catch (error) {
+      console.warn(`   ⚠️  Failed to read the status of ${signature}:`, error);
+    }
+    await new Promise(resolve => setTimeout(resolve, 2000));
+  }
+  return 'expired';
+}
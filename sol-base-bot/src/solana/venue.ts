@@ -0,0 +1,214 @@
+/**
+ * Solana Venue
+ *
+ * A Pump.fun token trades on its bonding curve until the curve's `complete`
+ * flag is set, after which liquidity migrates to a PumpSwap AMM pool. This
+ * module resolves which venue a mint is on and routes instruction building
+ * and trade subscriptions to it, so callers keep working across migration.
+ */
+
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { createPumpFunProgram } from './pumpfun/anchor.js';
+import { fetchBondingCurveState } from './pumpfun/bondingCurve.js';
+import { buildBuyInstruction, buildSellInstruction } from './pumpfun/instructions.js';
+import { subscribeToTradeEvents, type TradeEvent, type TradeEventSubscription } from './pumpfun/events.js';
+import { fetchPumpSwapMarket, deriveCanonicalPoolPDA } from './pumpswap/amm.js';
+import { buildPumpSwapBuyInstructions, buildPumpSwapSellInstructions } from './pumpswap/instructions.js';
+import { subscribeToPumpSwapTradeEvents, type PumpSwapTradeEvent } from './pumpswap/events.js';
+
+export type SolanaVenue = 'bonding_curve' | 'pumpswap';
+
+// How often a bonding-curve subscription checks whether the token has graduated
+const VENUE_CHECK_INTERVAL_MS = 30_000;
+
+// Graduation is one-way, so completed mints never need to be re-checked
+const graduatedMints = new Set<string>();
+
+/**
+ * Trade on either venue, in the units the bonding-curve TradeEvent uses,
+ * along with the venue's decoded event for callers that need its reserves
+ */
+export type SolanaTrade = {
+  isBuy: boolean;
+  solAmount: bigint; // Lamports
+  tokenAmount: bigint; // Token raw units
+  signature: string;
+  slot: number;
+} & (
+  | { venue: 'bonding_curve'; event: TradeEvent }
+  | { venue: 'pumpswap'; event: PumpSwapTradeEvent }
+);
+
+export type SolanaTradeCallback = (trade: SolanaTrade) => void;
+
+/**
+ * Resolve the venue a mint currently trades on from its bonding-curve `complete` flag
+ */
+export async function resolveSolanaVenue(
+  connection: Connection,
+  mint: PublicKey
+): Promise<SolanaVenue> {
+  if (graduatedMints.has(mint.toBase58())) {
+    return 'pumpswap';
+  }
+
+  const curve = await fetchBondingCurveState(connection, mint);
+
+  // No curve at all means the token was never launched on Pump.fun; only the AMM can trade it
+  if (!curve || curve.complete) {
+    if (curve) {
+      console.log(`🎓 ${mint.toBase58()} has graduated to PumpSwap`);
+    }
+    graduatedMints.add(mint.toBase58());
+    return 'pumpswap';
+  }
+
+  return 'bonding_curve';
+}
+
+/**
+ * Build the instructions to buy `tokenOut` tokens for at most `maxSolCost` lamports
+ */
+export async function buildSolanaBuyInstructions(
+  connection: Connection,
+  mint: PublicKey,
+  user: PublicKey,
+  tokenOut: bigint,
+  maxSolCost: bigint,
+  trackVolume: boolean = false
+): Promise<TransactionInstruction[]> {
+  if (await resolveSolanaVenue(connection, mint) === 'pumpswap') {
+    const market = await fetchPumpSwapMarket(connection, mint);
+    return buildPumpSwapBuyInstructions(market, user, tokenOut, maxSolCost, trackVolume);
+  }
+
+  const program = createPumpFunProgram(connection);
+  return [await buildBuyInstruction(program, connection, mint, user, tokenOut, maxSolCost, trackVolume)];
+}
+
+/**
+ * Build the instructions to sell `tokenIn` tokens for at least `minSolOutput` lamports
+ */
+export async function buildSolanaSellInstructions(
+  connection: Connection,
+  mint: PublicKey,
+  user: PublicKey,
+  tokenIn: bigint,
+  minSolOutput: bigint
+): Promise<TransactionInstruction[]> {
+  if (await resolveSolanaVenue(connection, mint) === 'pumpswap') {
+    const market = await fetchPumpSwapMarket(connection, mint);
+    return buildPumpSwapSellInstructions(market, user, tokenIn, minSolOutput);
+  }
+
+  const program = createPumpFunProgram(connection);
+  return [await buildSellInstruction(program, connection, mint, user, tokenIn, minSolOutput)];
+}
+
+/**
+ * Subscribe to trades for a mint on whichever venue it trades on.
+ * A bonding-curve subscription is swapped for a PumpSwap one once the token graduates.
+ * `useWebSocket` streams bonding-curve logs (polling while the socket is down);
+ * PumpSwap events are always polled since they live in inner instructions.
+ */
+export function subscribeToSolanaTrades(
+  connection: Connection,
+  mint: PublicKey,
+  callback: SolanaTradeCallback,
+  pollInterval: number = 2000,
+  useWebSocket: boolean = false
+): TradeEventSubscription {
+  let isUnsubscribed = false;
+  let subscription: TradeEventSubscription | null = null;
+  let venueCheckTimer: NodeJS.Timeout | null = null;
+
+  const subscribePumpSwap = () => {
+    const [pool] = deriveCanonicalPoolPDA(mint);
+    subscription = subscribeToPumpSwapTradeEvents(
+      connection,
+      pool,
+      (event: PumpSwapTradeEvent, signature: string, slot: number) => callback({
+        venue: 'pumpswap',
+        isBuy: event.isBuy,
+        solAmount: event.quoteAmount,
+        tokenAmount: event.baseAmount,
+        signature,
+        slot,
+        event,
+      }),
+      pollInterval
+    );
+  };
+
+  const checkGraduation = async () => {
+    try {
+      if (isUnsubscribed || await resolveSolanaVenue(connection, mint) !== 'pumpswap') {
+        return;
+      }
+      if (venueCheckTimer) {
+        clearInterval(venueCheckTimer);
+        venueCheckTimer = null;
+      }
+      subscription?.unsubscribe();
+      if (!isUnsubscribed) {
+        console.log(`🔀 Switching ${mint.toBase58()} trade events to PumpSwap`);
+        subscribePumpSwap();
+      }
+    } catch (error) {
+      console.warn('⚠️  Failed to check bonding curve status:', error);
+    }
+  };
+
+  const subscribeBondingCurve = () => {
+    subscription = subscribeToTradeEvents(
+      connection,
+      (event: TradeEvent, signature: string, slot: number) => {
+        callback({
+          venue: 'bonding_curve',
+          isBuy: event.isBuy,
+          solAmount: event.solAmount,
+          tokenAmount: event.tokenAmount,
+          signature,
+          slot,
+          event,
+        });
+        // The buy that drains the curve completes it
+        if (event.realTokenReserves === 0n) {
+          void checkGraduation();
+        }
+      },
+      mint,
+      pollInterval,
+      !useWebSocket
+    );
+    venueCheckTimer = setInterval(() => void checkGraduation(), VENUE_CHECK_INTERVAL_MS);
+  };
+
+  resolveSolanaVenue(connection, mint)
+    .then((venue) => {
+      if (isUnsubscribed) return;
+      if (venue === 'pumpswap') {
+        subscribePumpSwap();
+      } else {
+        subscribeBondingCurve();
+      }
+    })
+    .catch((error) => {
+      console.warn('⚠️  Failed to resolve Solana venue, assuming bonding curve:', error);
+      if (!isUnsubscribed) {
+        subscribeBondingCurve();
+      }
+    });
+
+  return {
+    unsubscribe: () => {
+      isUnsubscribed = true;
+      if (venueCheckTimer) {
+        clearInterval(venueCheckTimer);
+        venueCheckTimer = null;
+      }
+      subscription?.unsubscribe();
+      subscription = null;
+    },
+  };
+}
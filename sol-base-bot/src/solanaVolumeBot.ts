@@ -2,10 +2,13 @@ import 'dotenv/config';
 import { Connection, Keypair, PublicKey } from '@solana/web3.js';
 import { getKeyPairFromPrivateKey } from './solana/utils.js';
 import { PriceFetcher } from './utils/priceFetcher.js';
+import { createPriceSources } from './utils/priceSources.js';
 import { getUserConfig } from './utils/volumeBotConfig.js';
 import { executeBuyTrade, executeSellTrade, getRandomTradeSize, shouldBuy } from './solana/pumpfun/volumebot/volumeBotTrading.js';
 import { VolumeTracker, getWalletBalances } from './solana/pumpfun/volumebot/volumeBotTracking.js';
 import { displayConfig, displaySummary, displayTradeHistory } from './solana/pumpfun/volumebot/volumeBotDisplay.js';
+import { journalSafely } from './monitoring/tradeJournal.js';
+import { loadConfigKeys } from './config.js';
 
 // ============================================================================
 // MAIN BOT LOGIC
@@ -16,32 +19,31 @@ async function runVolumeBot() {
 
     // 1. GET CONFIGURATION
     const config = await getUserConfig();
+    const journalConfig = loadConfigKeys(['JOURNAL_ENABLED', 'JOURNAL_DB_PATH']);
 
-    // 2. INITIALIZE SOL PRICE FETCHER
-    let solPriceUsd = 200; // Default fallback
-    let priceFetcher: PriceFetcher | null = null;
-    let lastPriceFetchTime = 0; // Track price fetch separately from summary
-
-    const cmcApiKey = process.env.COINMARKETCAP_API_KEY;
-    if (cmcApiKey) {
-        try {
-            priceFetcher = new PriceFetcher(cmcApiKey);
-            solPriceUsd = await priceFetcher.getSolPrice();
-            lastPriceFetchTime = Date.now(); // Initialize price fetch time
-            console.log(`💰 Fetched live SOL price: $${solPriceUsd.toFixed(2)}\n`);
-        } catch (error) {
-            console.warn(`⚠️  Failed to fetch SOL price: ${error instanceof Error ? error.message : String(error)}`);
-            console.warn(`   Using fallback price: $${solPriceUsd}\n`);
-        }
-    } else {
-        console.warn('⚠️  COINMARKETCAP_API_KEY not set, using default SOL price: $200\n');
-    }
-
-    // 3. INITIALIZE CONNECTIONS AND WALLET
+    // 2. INITIALIZE CONNECTIONS AND WALLET
     const connection = new Connection(config.rpcUrl, 'confirmed');
     const wallet = getKeyPairFromPrivateKey(config.privateKey);
     const tokenMint = new PublicKey(config.tokenMint);
 
+    // 3. INITIALIZE SOL PRICE FETCHER (Pyth on Solana, plus CoinMarketCap if keyed)
+    let solPriceUsd = Number(process.env.SOLANA_SOL_PRICE_USD) || 200; // Static fallback
+    let priceFetcher: PriceFetcher | null = new PriceFetcher(createPriceSources({
+        solanaConnection: connection,
+        coinMarketCapApiKey: process.env.COINMARKETCAP_API_KEY,
+    }));
+    let lastPriceFetchTime = 0; // Track price fetch separately from summary
+
+    try {
+        solPriceUsd = await priceFetcher.getSolPrice();
+        lastPriceFetchTime = Date.now(); // Initialize price fetch time
+        console.log(`💰 Fetched live SOL price: $${solPriceUsd.toFixed(2)} (${priceFetcher.getSourceNames().join(', ')})\n`);
+    } catch (error) {
+        console.warn(`⚠️  Failed to fetch SOL price: ${error instanceof Error ? error.message : String(error)}`);
+        console.warn(`   Using fallback price: $${solPriceUsd}\n`);
+        priceFetcher = null;
+    }
+
     // Display configuration
     displayConfig(config, solPriceUsd, priceFetcher);
 
@@ -173,6 +175,8 @@ async function runVolumeBot() {
 
                 // Record trade
                 tracker.addTrade(trade);
+                const recordedTrade = trade;
+                journalSafely(journalConfig, journal => journal.recordVolumeTrade('solana', recordedTrade));
 
                 if (trade.success) {
                     totalVolumeUsd += trade.usdValue;
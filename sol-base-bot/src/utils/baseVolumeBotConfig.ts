@@ -1,5 +1,6 @@
 import { createReadlineInterface } from './cliUtils.js';
 import { VolumeConfig, HARDCODED_DEFAULTS } from '../base/volumebot/volumeBotTypes.js';
+import { resolveBaseDex } from '../base/uniswap/dexRegistry.js';
 
 /**
  * Prompt user for a single configuration value
@@ -29,7 +30,6 @@ export async function getUserConfig(): Promise<VolumeConfig> {
         const privateKey = process.env.BASE_PRIVATE_KEY_HEX;
         const tokenAddress = process.env.BASE_TOKEN_ADDRESS;
         const usdcAddress = process.env.BASE_USDC_ADDRESS;
-        const routerAddress = process.env.UNISWAP_V2_ROUTER02_ADDRESS;
 
         // Validate required .env variables
         if (!rpcUrl) {
@@ -44,14 +44,23 @@ export async function getUserConfig(): Promise<VolumeConfig> {
         if (!usdcAddress) {
             throw new Error('BASE_USDC_ADDRESS not found in .env file');
         }
-        if (!routerAddress) {
-            throw new Error('UNISWAP_V2_ROUTER02_ADDRESS not found in .env file');
+
+        // Router of the configured V2 DEX (Uniswap V2 unless BASE_DEX names a fork)
+        const dex = resolveBaseDex({
+            BASE_DEX: process.env.BASE_DEX ?? '',
+            BASE_DEX_REGISTRY: process.env.BASE_DEX_REGISTRY ?? '',
+            BASE_V3_FEE_TIER: Number(process.env.BASE_V3_FEE_TIER || 3000),
+        });
+        if (dex.version !== 'v2') {
+            throw new Error(`The volume bot trades through a V2 router; BASE_DEX "${dex.name}" is ${dex.version}`);
         }
+        const routerAddress = dex.router;
 
         console.log('✅ Loaded configuration from .env file');
         console.log(`   RPC: ${rpcUrl.slice(0, 40)}...`);
         console.log(`   Token: ${tokenAddress.slice(0, 20)}...`);
         console.log(`   USDC: ${usdcAddress.slice(0, 20)}...`);
+        console.log(`   DEX: ${dex.name} (${dex.feeBps} bps)`);
         console.log(`   Router: ${routerAddress.slice(0, 20)}...`);
         console.log('');
 
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import type { PriceAsset, PriceQuote, PriceSource } from './priceSources.js';
 
 export interface TokenPrices {
   sol: number;
@@ -6,104 +6,176 @@ export interface TokenPrices {
   lastUpdated: number;
 }
 
+export interface PriceAggregationOptions {
+  maxAgeMs: number; // Quotes published longer ago are dropped (unless the source sets its own limit)
+  minSources: number; // Quotes that must survive the staleness and outlier checks
+  maxDeviationPercent: number; // Quotes further than this from the median are dropped as outliers
+}
+
+export const DEFAULT_PRICE_AGGREGATION: PriceAggregationOptions = {
+  maxAgeMs: 300000,
+  minSources: 1,
+  maxDeviationPercent: 2,
+};
+
+export interface AggregatedPrice {
+  asset: PriceAsset;
+  price: number;
+  accepted: PriceQuote[];
+  rejected: { source: string; reason: string }[];
+  aggregatedAt: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Median of the fresh quotes that lie within maxDeviationPercent of the median
+ * of all fresh quotes. Throws if fewer than minSources quotes are left.
+ */
+export function aggregateQuotes(
+  asset: PriceAsset,
+  quotes: PriceQuote[],
+  failures: { source: string; reason: string }[],
+  now: number,
+  options: PriceAggregationOptions
+): AggregatedPrice {
+  const rejected = [...failures];
+
+  const fresh = quotes.filter((quote) => {
+    if (!Number.isFinite(quote.price) || quote.price <= 0) {
+      rejected.push({ source: quote.source, reason: `invalid price ${quote.price}` });
+      return false;
+    }
+    const ageMs = now - quote.publishedAt;
+    if (ageMs > (quote.maxAgeMs ?? options.maxAgeMs)) {
+      rejected.push({ source: quote.source, reason: `stale (${Math.round(ageMs / 1000)}s old)` });
+      return false;
+    }
+    return true;
+  });
+
+  const center = fresh.length > 0 ? median(fresh.map((quote) => quote.price)) : 0;
+  const accepted = fresh.filter((quote) => {
+    const deviationPercent = (Math.abs(quote.price - center) / center) * 100;
+    if (deviationPercent > options.maxDeviationPercent) {
+      rejected.push({
+        source: quote.source,
+        reason: `outlier ($${quote.price.toFixed(2)} is ${deviationPercent.toFixed(2)}% from the $${center.toFixed(2)} median)`,
+      });
+      return false;
+    }
+    return true;
+  });
+
+  if (accepted.length === 0 || accepted.length < options.minSources) {
+    const reasons = rejected.map((entry) => `${entry.source}: ${entry.reason}`).join('; ');
+    throw new Error(
+      `${asset.toUpperCase()} price from ${accepted.length} source(s), ${options.minSources} required` +
+      (reasons ? ` (${reasons})` : '')
+    );
+  }
+
+  return {
+    asset,
+    price: median(accepted.map((quote) => quote.price)),
+    accepted,
+    rejected,
+    aggregatedAt: now,
+  };
+}
+
 /**
- * CoinMarketCap API price fetcher for SOL and ETH
- * 
- * Coin IDs:
- * - SOL (Solana): 5426
- * - ETH (Ethereum): 1027
+ * SOL and ETH prices in USD, aggregated from several independent sources
+ * (see priceSources.ts) so that one bad or stale feed cannot move the price.
  */
 export class PriceFetcher {
-  private apiKey: string;
-  private cache: TokenPrices | null = null;
+  private sources: PriceSource[];
+  private options: PriceAggregationOptions;
+  private cache = new Map<PriceAsset, AggregatedPrice>();
   private cacheTimeout: number = 60000; // 1 minute cache
-  private lastFetchTime: number = 0;
 
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('CoinMarketCap API key is required');
+  constructor(sources: PriceSource[], options: PriceAggregationOptions = DEFAULT_PRICE_AGGREGATION) {
+    if (sources.length === 0) {
+      throw new Error('At least one price source is required');
     }
-    this.apiKey = apiKey;
+    this.sources = sources;
+    this.options = options;
   }
 
   /**
-   * Fetch current prices for SOL and ETH from CoinMarketCap
+   * Names of the configured sources
    */
-  async fetchPrices(): Promise<TokenPrices> {
-    // Return cached prices if still valid
-    if (this.cache && Date.now() - this.lastFetchTime < this.cacheTimeout) {
-      return this.cache;
-    }
-
-    try {
-      const response = await axios.get(
-        'https://pro-api.coinmarketcap.com/v1/cryptocurrency/quotes/latest',
-        {
-          params: {
-            id: '5426,1027', // SOL and ETH
-            convert: 'USD',
-          },
-          headers: {
-            'X-CMC_PRO_API_KEY': this.apiKey,
-            'Accept': 'application/json',
-          },
-        }
-      );
+  getSourceNames(): string[] {
+    return this.sources.map((source) => source.name);
+  }
 
-      const data = response.data.data;
-      
-      const solPrice = data['5426']?.quote?.USD?.price;
-      const ethPrice = data['1027']?.quote?.USD?.price;
+  /**
+   * Aggregate a fresh price for one asset from every source that quotes it
+   */
+  async fetchPrice(asset: PriceAsset): Promise<AggregatedPrice> {
+    const cached = this.cache.get(asset);
+    if (cached && Date.now() - cached.aggregatedAt < this.cacheTimeout) {
+      return cached;
+    }
 
-      if (!solPrice || !ethPrice) {
-        throw new Error('Failed to fetch prices from CoinMarketCap');
+    const sources = this.sources.filter((source) => source.assets.includes(asset));
+    const results = await Promise.allSettled(sources.map((source) => source.fetchQuote(asset)));
+    const quotes: PriceQuote[] = [];
+    const failures: { source: string; reason: string }[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(result.value);
+      } else {
+        const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        failures.push({ source: sources[i].name, reason });
       }
+    });
 
-      const prices: TokenPrices = {
-        sol: solPrice,
-        eth: ethPrice,
-        lastUpdated: Date.now(),
-      };
-
-      // Update cache
-      this.cache = prices;
-      this.lastFetchTime = Date.now();
-
-      return prices;
-    } catch (error) {
-      // If we have cached prices, return them even if expired
-      if (this.cache) {
-        console.warn('⚠️  Failed to fetch new prices, using cached values');
-        return this.cache;
+    try {
+      const aggregated = aggregateQuotes(asset, quotes, failures, Date.now(), this.options);
+      for (const entry of aggregated.rejected) {
+        console.warn(`⚠️  Ignoring ${asset.toUpperCase()} price from ${entry.source}: ${entry.reason}`);
       }
-
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new Error('Invalid CoinMarketCap API key');
-        } else if (error.response?.status === 429) {
-          throw new Error('CoinMarketCap API rate limit exceeded');
-        } else {
-          throw new Error(`CoinMarketCap API error: ${error.message}`);
-        }
+      this.cache.set(asset, aggregated);
+      return aggregated;
+    } catch (error) {
+      // An expired cache is still usable while it is younger than the staleness limit
+      if (cached && Date.now() - cached.aggregatedAt < this.options.maxAgeMs) {
+        console.warn(`⚠️  Failed to aggregate a new ${asset.toUpperCase()} price, using cached value`);
+        return cached;
       }
       throw error;
     }
   }
 
+  /**
+   * Fetch current prices for SOL and ETH
+   */
+  async fetchPrices(): Promise<TokenPrices> {
+    const [sol, eth] = await Promise.all([this.fetchPrice('sol'), this.fetchPrice('eth')]);
+    return {
+      sol: sol.price,
+      eth: eth.price,
+      lastUpdated: Math.min(sol.aggregatedAt, eth.aggregatedAt),
+    };
+  }
+
   /**
    * Get SOL price in USD
    */
   async getSolPrice(): Promise<number> {
-    const prices = await this.fetchPrices();
-    return prices.sol;
+    return (await this.fetchPrice('sol')).price;
   }
 
   /**
    * Get ETH price in USD
    */
   async getEthPrice(): Promise<number> {
-    const prices = await this.fetchPrices();
-    return prices.eth;
+    return (await this.fetchPrice('eth')).price;
   }
 
   /**
@@ -117,12 +189,18 @@ export class PriceFetcher {
     };
   }
 
+  /**
+   * Last aggregation per asset, with the quotes used and the ones rejected
+   */
+  getLastAggregation(): Partial<Record<PriceAsset, AggregatedPrice>> {
+    return Object.fromEntries(this.cache);
+  }
+
   /**
    * Clear the cache to force a fresh fetch on next call
    */
   clearCache(): void {
-    this.cache = null;
-    this.lastFetchTime = 0;
+    this.cache.clear();
   }
 }
 
@@ -134,8 +212,11 @@ let globalPriceFetcher: PriceFetcher | null = null;
 /**
  * Initialize the global price fetcher
  */
-export function initializePriceFetcher(apiKey: string): PriceFetcher {
-  globalPriceFetcher = new PriceFetcher(apiKey);
+export function initializePriceFetcher(
+  sources: PriceSource[],
+  options: PriceAggregationOptions = DEFAULT_PRICE_AGGREGATION
+): PriceFetcher {
+  globalPriceFetcher = new PriceFetcher(sources, options);
   return globalPriceFetcher;
 }
 
@@ -149,3 +230,74 @@ export function getPriceFetcher(): PriceFetcher {
   return globalPriceFetcher;
 }
 
+/**
+ * Aggregation settings from the app config
+ */
+export function getPriceAggregationOptions(config: {
+  PRICE_MAX_AGE_MS: number;
+  PRICE_MIN_SOURCES: number;
+  PRICE_MAX_DEVIATION_PERCENT: number;
+}): PriceAggregationOptions {
+  return {
+    maxAgeMs: config.PRICE_MAX_AGE_MS,
+    minSources: config.PRICE_MIN_SOURCES,
+    maxDeviationPercent: config.PRICE_MAX_DEVIATION_PERCENT,
+  };
+}
+
+async function livePriceOrStatic(asset: PriceAsset, fallback: number): Promise<number> {
+  if (!globalPriceFetcher) {
+    return fallback;
+  }
+  try {
+    return (await globalPriceFetcher.fetchPrice(asset)).price;
+  } catch (error) {
+    console.warn(`⚠️  Failed to fetch ${asset.toUpperCase()} price, using static $${fallback}: ${error instanceof Error ? error.message : String(error)}`);
+    return fallback;
+  }
+}
+
+/**
+ * SOL price from the global fetcher, or the static SOLANA_SOL_PRICE_USD when it
+ * is not initialized (offline tools) or cannot aggregate. For display and
+ * analysis only; live trades use getLiveUsdPrices.
+ */
+export async function getSolPriceUsd(config: { SOLANA_SOL_PRICE_USD: number }): Promise<number> {
+  return livePriceOrStatic('sol', config.SOLANA_SOL_PRICE_USD);
+}
+
+/**
+ * SOL and ETH prices from the global fetcher, falling back per asset to the static
+ * SOLANA_SOL_PRICE_USD / BASE_ETH_PRICE_USD. For display and analysis only.
+ */
+export async function getUsdPrices(config: {
+  SOLANA_SOL_PRICE_USD: number;
+  BASE_ETH_PRICE_USD: number;
+}): Promise<{ sol: number; eth: number }> {
+  const [sol, eth] = await Promise.all([
+    livePriceOrStatic('sol', config.SOLANA_SOL_PRICE_USD),
+    livePriceOrStatic('eth', config.BASE_ETH_PRICE_USD),
+  ]);
+  return { sol, eth };
+}
+
+// Quotes a live trade's prices must agree on, whatever PRICE_MIN_SOURCES allows for display
+const LIVE_MIN_SOURCES = 2;
+
+/**
+ * SOL and ETH prices for a live trade. Never falls back to the static prices:
+ * throws when the fetcher is not initialized, either price cannot be aggregated,
+ * or it rests on fewer than LIVE_MIN_SOURCES (or PRICE_MIN_SOURCES, if higher) quotes.
+ */
+export async function getLiveUsdPrices(): Promise<{ sol: number; eth: number }> {
+  const fetcher = getPriceFetcher();
+  const [sol, eth] = await Promise.all([fetcher.fetchPrice('sol'), fetcher.fetchPrice('eth')]);
+  for (const aggregated of [sol, eth]) {
+    if (aggregated.accepted.length < LIVE_MIN_SOURCES) {
+      throw new Error(
+        `${aggregated.asset.toUpperCase()} price from ${aggregated.accepted.length} source(s), ${LIVE_MIN_SOURCES} required for live trades`
+      );
+    }
+  }
+  return { sol: sol.price, eth: eth.price };
+}
@@ -0,0 +1,254 @@
+import axios from 'axios';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Contract, JsonRpcProvider } from 'ethers';
+import { DEFAULT_DEX_NAME, getDexRegistry, type DexConfig, type DexRegistryConfig } from '../base/uniswap/dexRegistry.js';
+import { getPairAddress } from '../base/uniswap/events.js';
+
+/**
+ * Price Sources
+ *
+ * USD quotes for SOL and ETH from independent sources. The on-chain ones need
+ * no API key: Pyth price feed accounts on Solana, Chainlink feeds on Base and
+ * the Uniswap V2 WETH/USDC pair on Base. CoinMarketCap is used as one more
+ * source when a key is configured. PriceFetcher combines them.
+ */
+
+export type PriceAsset = 'sol' | 'eth';
+
+export interface PriceQuote {
+  source: string;
+  asset: PriceAsset;
+  price: number;
+  publishedAt: number; // ms
+  maxAgeMs?: number; // Overrides PRICE_MAX_AGE_MS for sources with a slower heartbeat
+}
+
+export interface PriceSource {
+  readonly name: string;
+  readonly assets: PriceAsset[];
+  fetchQuote(asset: PriceAsset): Promise<PriceQuote>;
+}
+
+const WETH_BASE = '0x4200000000000000000000000000000000000006';
+
+// Registry settings for processes without the app config: built-in entries only
+const BUILT_IN_DEXES: DexRegistryConfig = {
+  BASE_DEX: DEFAULT_DEX_NAME,
+  BASE_DEX_REGISTRY: '',
+  BASE_V3_FEE_TIER: 3000,
+};
+
+// Pyth push-oracle price feed accounts (PriceUpdateV2, shard 0) and the feed ids they must carry
+const PYTH_FEEDS: Record<PriceAsset, { account: string; feedId: string }> = {
+  sol: {
+    account: '7UVimffxr9ow1uXYxsr4LHAcV58mLzhmwaeKvJ1pjLiE',
+    feedId: 'ef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d',
+  },
+  eth: {
+    account: '42amVS4KgzR9rA28tkVYqVXjq9Qa8dcZQMbH5EYFX6XC',
+    feedId: 'ff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace',
+  },
+};
+
+// Chainlink feeds on Base; a feed only updates on deviation or at its heartbeat
+const CHAINLINK_FEEDS: Record<PriceAsset, { address: string; description: string; maxAgeMs: number }> = {
+  sol: {
+    address: '0x975043adBb80fc32276CbF9Bbcfd4A601a12462D',
+    description: 'SOL / USD',
+    maxAgeMs: 25 * 60 * 60 * 1000, // 24h heartbeat
+  },
+  eth: {
+    address: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+    description: 'ETH / USD',
+    maxAgeMs: 60 * 60 * 1000, // 20 min heartbeat
+  },
+};
+
+const CHAINLINK_AGGREGATOR_ABI = [
+  'function decimals() external view returns (uint8)',
+  'function description() external view returns (string)',
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+] as const;
+
+const PAIR_ABI = [
+  'function getReserves() external view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function token0() external view returns (address)',
+] as const;
+
+/**
+ * Reads Pyth PriceUpdateV2 accounts: 8-byte discriminator, write authority,
+ * verification level (1 byte, +1 for Partial), then the price message
+ */
+export class PythPriceSource implements PriceSource {
+  readonly name = 'pyth';
+  readonly assets: PriceAsset[] = ['sol', 'eth'];
+
+  constructor(private readonly connection: Connection) {}
+
+  async fetchQuote(asset: PriceAsset): Promise<PriceQuote> {
+    const feed = PYTH_FEEDS[asset];
+    const account = await this.connection.getAccountInfo(new PublicKey(feed.account));
+    if (!account) {
+      throw new Error(`Pyth account ${feed.account} not found`);
+    }
+
+    const data = account.data;
+    let offset = 8 + 32;
+    offset += data.readUInt8(offset) === 0 ? 2 : 1;
+
+    const feedId = data.subarray(offset, offset + 32).toString('hex');
+    if (feedId !== feed.feedId) {
+      throw new Error(`Pyth account ${feed.account} holds feed ${feedId}, expected ${feed.feedId}`);
+    }
+    offset += 32;
+
+    const price = data.readBigInt64LE(offset);
+    const exponent = data.readInt32LE(offset + 16);
+    const publishTime = data.readBigInt64LE(offset + 20);
+
+    return {
+      source: this.name,
+      asset,
+      price: Number(price) * 10 ** exponent,
+      publishedAt: Number(publishTime) * 1000,
+    };
+  }
+}
+
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = 'chainlink';
+  readonly assets: PriceAsset[] = ['sol', 'eth'];
+  private decimals = new Map<PriceAsset, number>();
+
+  constructor(private readonly provider: JsonRpcProvider) {}
+
+  async fetchQuote(asset: PriceAsset): Promise<PriceQuote> {
+    const feed = CHAINLINK_FEEDS[asset];
+    const aggregator = new Contract(feed.address, CHAINLINK_AGGREGATOR_ABI, this.provider);
+
+    // A wrong address would otherwise be read as a price
+    if (!this.decimals.has(asset)) {
+      const description: string = await aggregator.description();
+      if (description !== feed.description) {
+        throw new Error(`Chainlink feed ${feed.address} is "${description}", expected "${feed.description}"`);
+      }
+      this.decimals.set(asset, Number(await aggregator.decimals()));
+    }
+
+    const [, answer, , updatedAt] = await aggregator.latestRoundData();
+    return {
+      source: this.name,
+      asset,
+      price: Number(answer) / 10 ** this.decimals.get(asset)!,
+      publishedAt: Number(updatedAt) * 1000,
+      maxAgeMs: feed.maxAgeMs,
+    };
+  }
+}
+
+/**
+ * ETH spot price from the WETH/USDC reserves of a V2 pair (Uniswap V2 by default)
+ */
+export class UniswapPairPriceSource implements PriceSource {
+  readonly name = 'uniswap-weth-usdc';
+  readonly assets: PriceAsset[] = ['eth'];
+  private pairAddress: string | null = null;
+
+  constructor(
+    private readonly provider: JsonRpcProvider,
+    private readonly usdcAddress: string,
+    private readonly dex: DexConfig
+  ) {}
+
+  async fetchQuote(asset: PriceAsset): Promise<PriceQuote> {
+    if (asset !== 'eth') {
+      throw new Error(`${this.name} only prices ETH`);
+    }
+
+    this.pairAddress ??= await getPairAddress(this.provider, this.dex, WETH_BASE, this.usdcAddress);
+    const pair = new Contract(this.pairAddress, PAIR_ABI, this.provider);
+    const token0: string = await pair.token0();
+    const [reserve0, reserve1] = await pair.getReserves();
+    const wethIsToken0 = token0.toLowerCase() === WETH_BASE.toLowerCase();
+    const weth = Number(wethIsToken0 ? reserve0 : reserve1) / 1e18;
+    const usdc = Number(wethIsToken0 ? reserve1 : reserve0) / 1e6;
+
+    return { source: this.name, asset, price: usdc / weth, publishedAt: Date.now() };
+  }
+}
+
+/**
+ * CoinMarketCap quotes (SOL id 5426, ETH id 1027), fetched together and cached for a minute
+ */
+export class CoinMarketCapPriceSource implements PriceSource {
+  readonly name = 'coinmarketcap';
+  readonly assets: PriceAsset[] = ['sol', 'eth'];
+  private cache: { quotes: Record<PriceAsset, PriceQuote>; fetchedAt: number } | null = null;
+
+  constructor(private readonly apiKey: string) {}
+
+  async fetchQuote(asset: PriceAsset): Promise<PriceQuote> {
+    if (!this.cache || Date.now() - this.cache.fetchedAt > 60000) {
+      this.cache = { quotes: await this.fetchQuotes(), fetchedAt: Date.now() };
+    }
+    return this.cache.quotes[asset];
+  }
+
+  private async fetchQuotes(): Promise<Record<PriceAsset, PriceQuote>> {
+    try {
+      const response = await axios.get(
+        'https://pro-api.coinmarketcap.com/v1/cryptocurrency/quotes/latest',
+        {
+          params: { id: '5426,1027', convert: 'USD' },
+          headers: { 'X-CMC_PRO_API_KEY': this.apiKey, 'Accept': 'application/json' },
+        }
+      );
+      const quote = (id: string, asset: PriceAsset): PriceQuote => {
+        const usd = response.data.data[id]?.quote?.USD;
+        if (!usd?.price) {
+          throw new Error(`CoinMarketCap returned no ${asset.toUpperCase()} price`);
+        }
+        return { source: this.name, asset, price: usd.price, publishedAt: Date.parse(usd.last_updated) || Date.now() };
+      };
+      return { sol: quote('5426', 'sol'), eth: quote('1027', 'eth') };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 401) {
+          throw new Error('Invalid CoinMarketCap API key');
+        } else if (error.response?.status === 429) {
+          throw new Error('CoinMarketCap API rate limit exceeded');
+        }
+        throw new Error(`CoinMarketCap API error: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Every source the given connections allow: Pyth needs Solana, Chainlink and
+ * the Uniswap V2 pair need Base (and the USDC address), CoinMarketCap a key
+ */
+export function createPriceSources(options: {
+  solanaConnection?: Connection;
+  baseProvider?: JsonRpcProvider;
+  baseUsdcAddress?: string;
+  dexRegistry?: DexRegistryConfig;
+  coinMarketCapApiKey?: string;
+}): PriceSource[] {
+  const sources: PriceSource[] = [];
+  if (options.solanaConnection) {
+    sources.push(new PythPriceSource(options.solanaConnection));
+  }
+  if (options.baseProvider) {
+    sources.push(new ChainlinkPriceSource(options.baseProvider));
+    if (options.baseUsdcAddress) {
+      const dex = getDexRegistry(options.dexRegistry ?? BUILT_IN_DEXES).get(DEFAULT_DEX_NAME)!;
+      sources.push(new UniswapPairPriceSource(options.baseProvider, options.baseUsdcAddress, dex));
+    }
+  }
+  if (options.coinMarketCapApiKey) {
+    sources.push(new CoinMarketCapPriceSource(options.coinMarketCapApiKey));
+  }
+  return sources;
+}